@@ -5,10 +5,15 @@
  *
  * These tests verify that security rules correctly:
  * 1. Restrict essay access to owners, collaborators, editors, and public viewers
- * 2. Prevent editors from modifying sharing settings
+ * 2. Prevent editors from modifying sharing settings or the trash state, and
+ *    hide trashed essays and their subcollections from everyone but the owner
  * 3. Validate comment author matches authenticated user
  * 4. Restrict users to only edit/delete their own comments
- * 5. Protect sharedWithMe, publicEssays, and essayIndex collections
+ * 5. Keep version history append-only with a valid author
+ * 6. Limit presence heartbeats to the session's own user, and let anyone
+ *    remove expired sessions
+ * 7. Protect sharedWithMe, publicEssays, and essayIndex collections
+ * 8. Hold in the deployed firestore-essays-paid.rules too
  */
 
 import {
@@ -16,7 +21,7 @@ import {
   assertSucceeds,
   assertFails,
 } from '@firebase/rules-unit-testing';
-import { doc, getDoc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
 import { readFileSync } from 'fs';
 import { createServer } from 'net';
 import { describe, it, beforeAll, afterAll, beforeEach } from 'vitest';
@@ -64,6 +69,16 @@ function commentRef(db, commentId, userId = OWNER_UID, essayId = ESSAY_ID) {
   return doc(db, 'users', userId, 'essays', essayId, 'comments', commentId);
 }
 
+// Helper to get version doc ref
+function versionRef(db, versionId, userId = OWNER_UID, essayId = ESSAY_ID) {
+  return doc(db, 'users', userId, 'essays', essayId, 'versions', versionId);
+}
+
+// Helper to get presence doc ref
+function presenceRef(db, sessionId, userId = OWNER_UID, essayId = ESSAY_ID) {
+  return doc(db, 'users', userId, 'essays', essayId, 'presence', sessionId);
+}
+
 describe('Firestore Security Rules', () => {
   let firestorePort;
 
@@ -191,6 +206,89 @@ describe('Firestore Security Rules', () => {
     });
   });
 
+  describe('Trashed Essay Access', () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(essayRef(db), {
+          title: 'Trashed Essay',
+          data: {},
+          sharing: {
+            isPublic: true,
+            publicToken: 'abc123',
+            publicPermission: 'editor',
+            collaboratorEmails: [EDITOR_EMAIL],
+            editorEmails: [EDITOR_EMAIL],
+          },
+          trashedAt: Timestamp.now(),
+        });
+        await setDoc(commentRef(db, 'comment1'), { authorUid: EDITOR_UID, text: 'Old comment' });
+        await setDoc(versionRef(db, 'version1'), { authorUid: OWNER_UID, title: 'Trashed Essay' });
+      });
+    });
+
+    it('allows owner to read and restore their trashed essay', async () => {
+      const db = getAuthedDb(OWNER_UID, OWNER_EMAIL);
+      await assertSucceeds(getDoc(essayRef(db)));
+      await assertSucceeds(updateDoc(essayRef(db), { trashedAt: null }));
+    });
+
+    it('denies collaborators and the public from reading a trashed essay', async () => {
+      await assertFails(getDoc(essayRef(getAuthedDb(EDITOR_UID, EDITOR_EMAIL))));
+      await assertFails(getDoc(essayRef(getUnauthDb())));
+    });
+
+    it('denies editors from updating or restoring a trashed essay', async () => {
+      const db = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertFails(updateDoc(essayRef(db), { title: 'Editor Update' }));
+      await assertFails(updateDoc(essayRef(db), { trashedAt: null }));
+    });
+
+    it("denies collaborators and the public from a trashed essay's comments, versions and presence", async () => {
+      for (const db of [getAuthedDb(EDITOR_UID, EDITOR_EMAIL), getUnauthDb()]) {
+        await assertFails(getDoc(commentRef(db, 'comment1')));
+        await assertFails(getDoc(versionRef(db, 'version1')));
+        await assertFails(getDoc(presenceRef(db, 'session1')));
+      }
+      const editorDb = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertFails(setDoc(commentRef(editorDb, 'comment2'), { authorUid: EDITOR_UID, text: 'New comment' }));
+      await assertFails(deleteDoc(commentRef(editorDb, 'comment1')));
+    });
+
+    it("allows owner to read a trashed essay's comments and versions", async () => {
+      const db = getAuthedDb(OWNER_UID, OWNER_EMAIL);
+      await assertSucceeds(getDoc(commentRef(db, 'comment1')));
+      await assertSucceeds(getDoc(versionRef(db, 'version1')));
+    });
+  });
+
+  describe('Trashing Essays', () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(essayRef(context.firestore()), {
+          title: 'Shared Essay',
+          data: {},
+          sharing: {
+            isPublic: false,
+            publicToken: null,
+            collaboratorEmails: [EDITOR_EMAIL],
+            editorEmails: [EDITOR_EMAIL],
+          },
+        });
+      });
+    });
+
+    it('allows owner to trash their essay', async () => {
+      const db = getAuthedDb(OWNER_UID, OWNER_EMAIL);
+      await assertSucceeds(updateDoc(essayRef(db), { trashedAt: serverTimestamp() }));
+    });
+
+    it('denies editor from trashing the essay', async () => {
+      const db = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertFails(updateDoc(essayRef(db), { trashedAt: serverTimestamp() }));
+    });
+  });
+
   describe('Comment Permissions', () => {
     const COMMENT_ID = 'comment123';
 
@@ -300,6 +398,134 @@ describe('Firestore Security Rules', () => {
     });
   });
 
+  describe('Version Permissions', () => {
+    const VERSION_ID = 'version123';
+
+    function versionData(authorUid) {
+      return {
+        title: 'Test Essay',
+        data: {},
+        authorUid,
+        authorDisplayName: 'Author',
+        reason: 'auto',
+        restoredFromId: null,
+      };
+    }
+
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(essayRef(db), {
+          title: 'Test Essay',
+          data: {},
+          sharing: {
+            isPublic: false,
+            collaboratorEmails: [COLLABORATOR_EMAIL, EDITOR_EMAIL],
+            editorEmails: [EDITOR_EMAIL],
+          },
+        });
+        await setDoc(versionRef(db, VERSION_ID), versionData(OWNER_UID));
+      });
+    });
+
+    it('allows owner to create a version with valid author', async () => {
+      const db = getAuthedDb(OWNER_UID, OWNER_EMAIL);
+      await assertSucceeds(setDoc(versionRef(db, 'owner-new'), versionData(OWNER_UID)));
+    });
+
+    it('allows collaborator to read versions', async () => {
+      const db = getAuthedDb(COLLABORATOR_UID, COLLABORATOR_EMAIL);
+      await assertSucceeds(getDoc(versionRef(db, VERSION_ID)));
+    });
+
+    it('denies collaborator from creating versions', async () => {
+      const db = getAuthedDb(COLLABORATOR_UID, COLLABORATOR_EMAIL);
+      await assertFails(setDoc(versionRef(db, 'viewer-new'), versionData(COLLABORATOR_UID)));
+    });
+
+    it('allows editor to create a version with valid author', async () => {
+      const db = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertSucceeds(setDoc(versionRef(db, 'editor-new'), versionData(EDITOR_UID)));
+    });
+
+    it('denies editor from creating a version with spoofed author', async () => {
+      const db = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertFails(setDoc(versionRef(db, 'spoofed'), versionData(OWNER_UID)));
+    });
+
+    it('denies editor from rewriting or deleting existing versions', async () => {
+      const db = getAuthedDb(EDITOR_UID, EDITOR_EMAIL);
+      await assertFails(updateDoc(versionRef(db, VERSION_ID), { title: 'Rewritten' }));
+      await assertFails(deleteDoc(versionRef(db, VERSION_ID)));
+    });
+
+    it('denies random user from reading versions of a private essay', async () => {
+      const db = getAuthedDb(RANDOM_UID, RANDOM_EMAIL);
+      await assertFails(getDoc(versionRef(db, VERSION_ID)));
+    });
+  });
+
+  describe('Presence Permissions', () => {
+    function heartbeat(uid, lastSeen = serverTimestamp()) {
+      return {
+        uid,
+        displayName: 'Someone',
+        photoURL: null,
+        mode: 'viewing',
+        focusedCell: null,
+        lastSeen,
+      };
+    }
+
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(essayRef(db), {
+          title: 'Test Essay',
+          data: {},
+          sharing: {
+            isPublic: false,
+            collaboratorEmails: [COLLABORATOR_EMAIL, EDITOR_EMAIL],
+            editorEmails: [EDITOR_EMAIL],
+          },
+        });
+        await setDoc(presenceRef(db, 'editor-session'), heartbeat(EDITOR_UID, Timestamp.now()));
+        await setDoc(
+          presenceRef(db, 'stale-session'),
+          heartbeat(EDITOR_UID, Timestamp.fromMillis(Date.now() - 5 * 60 * 1000))
+        );
+      });
+    });
+
+    it('allows collaborators to read and write their own heartbeat', async () => {
+      const db = getAuthedDb(COLLABORATOR_UID, COLLABORATOR_EMAIL);
+      await assertSucceeds(getDoc(presenceRef(db, 'editor-session')));
+      await assertSucceeds(setDoc(presenceRef(db, 'viewer-session'), heartbeat(COLLABORATOR_UID)));
+    });
+
+    it('denies heartbeats for another user or with a client timestamp', async () => {
+      const db = getAuthedDb(COLLABORATOR_UID, COLLABORATOR_EMAIL);
+      await assertFails(setDoc(presenceRef(db, 'spoofed'), heartbeat(EDITOR_UID)));
+      await assertFails(setDoc(presenceRef(db, 'backdated'), heartbeat(COLLABORATOR_UID, Timestamp.now())));
+    });
+
+    it("denies overwriting or deleting another user's live session", async () => {
+      const db = getAuthedDb(COLLABORATOR_UID, COLLABORATOR_EMAIL);
+      await assertFails(setDoc(presenceRef(db, 'editor-session'), heartbeat(COLLABORATOR_UID)));
+      await assertFails(deleteDoc(presenceRef(db, 'editor-session')));
+    });
+
+    it('allows anyone in the essay to delete an expired session', async () => {
+      const db = getAuthedDb(OWNER_UID, OWNER_EMAIL);
+      await assertSucceeds(deleteDoc(presenceRef(db, 'stale-session')));
+    });
+
+    it('denies random users from reading presence of a private essay', async () => {
+      const db = getAuthedDb(RANDOM_UID, RANDOM_EMAIL);
+      await assertFails(getDoc(presenceRef(db, 'editor-session')));
+    });
+  });
+
   describe('sharedWithMe Collection', () => {
     it('allows user to read their own shared items', async () => {
       await testEnv.withSecurityRulesDisabled(async (context) => {
@@ -428,4 +654,65 @@ describe('Firestore Security Rules', () => {
       await assertFails(deleteDoc(doc(db, 'essayIndex', ESSAY_ID)));
     });
   });
+
+  // firebase.json deploys firestore-essays-paid.rules, which pins the
+  // essays-paid database. The emulator serves the default database, so the
+  // file is loaded with the database name turned back into a wildcard.
+  describe('Deployed Rules (firestore-essays-paid.rules)', () => {
+    let deployedEnv;
+
+    beforeAll(async () => {
+      const rules = readFileSync('firestore-essays-paid.rules', 'utf8')
+        .replace('match /databases/essays-paid/documents', 'match /databases/{database}/documents')
+        .replaceAll('/databases/essays-paid/documents/', '/databases/$(database)/documents/');
+
+      deployedEnv = await initializeTestEnvironment({
+        projectId: 'essay-helper-deployed-test-' + Date.now(),
+        firestore: {
+          rules,
+          host: '127.0.0.1',
+          port: firestorePort,
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await deployedEnv.cleanup();
+    });
+
+    beforeEach(async () => {
+      await deployedEnv.clearFirestore();
+      await deployedEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(essayRef(context.firestore()), {
+          title: 'Test Essay',
+          data: {},
+          sharing: {
+            isPublic: false,
+            collaboratorEmails: [COLLABORATOR_EMAIL],
+            editorEmails: [],
+          },
+        });
+      });
+    });
+
+    function heartbeat(uid) {
+      return { uid, displayName: 'Someone', photoURL: null, mode: 'viewing', focusedCell: null, lastSeen: serverTimestamp() };
+    }
+
+    it('allows owners and collaborators to write and read presence heartbeats', async () => {
+      const ownerDb = deployedEnv.authenticatedContext(OWNER_UID, { email: OWNER_EMAIL }).firestore();
+      await assertSucceeds(setDoc(presenceRef(ownerDb, 'owner-session'), heartbeat(OWNER_UID)));
+
+      const collaboratorDb = deployedEnv.authenticatedContext(COLLABORATOR_UID, { email: COLLABORATOR_EMAIL }).firestore();
+      await assertSucceeds(setDoc(presenceRef(collaboratorDb, 'viewer-session'), heartbeat(COLLABORATOR_UID)));
+      await assertSucceeds(getDoc(presenceRef(collaboratorDb, 'owner-session')));
+      await assertSucceeds(deleteDoc(presenceRef(collaboratorDb, 'viewer-session')));
+    });
+
+    it('denies random users presence on a private essay', async () => {
+      const db = deployedEnv.authenticatedContext(RANDOM_UID, { email: RANDOM_EMAIL }).firestore();
+      await assertFails(setDoc(presenceRef(db, 'random-session'), heartbeat(RANDOM_UID)));
+      await assertFails(getDoc(presenceRef(db, 'random-session')));
+    });
+  });
 });
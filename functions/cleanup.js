@@ -0,0 +1,111 @@
+"use strict";
+
+// Firestore allows at most 500 writes in one batch
+const BATCH_SIZE = 500;
+
+// Subcollections stored under users/{uid}/essays/{essayId}
+const ESSAY_SUBCOLLECTIONS = ["comments", "versions", "presence"];
+
+// Days an essay stays in the trash; matches TRASH_RETENTION_DAYS in src/models/trash.ts
+const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the documents that only make sense while an essay exists: its
+ * subcollections, its public link and every collaborator's Shared with me
+ * reference.
+ * @param {import("firebase-admin/firestore").Firestore} db - The Firestore database
+ * @param {string} ownerUid - The essay owner's uid
+ * @param {string} essayId - The deleted essay's id
+ * @param {FirebaseFirestore.DocumentData | undefined} essayData - The essay as it was before deletion
+ * @return {Promise<FirebaseFirestore.DocumentReference[]>} The references to delete
+ */
+async function getEssayDependents(db, ownerUid, essayId, essayData) {
+  const essayRef = db.collection("users").doc(ownerUid).collection("essays").doc(essayId);
+  const refs = [];
+
+  for (const name of ESSAY_SUBCOLLECTIONS) {
+    refs.push(...(await essayRef.collection(name).listDocuments()));
+  }
+
+  const sharing = essayData?.sharing;
+  if (sharing?.publicToken) {
+    refs.push(db.collection("publicEssays").doc(sharing.publicToken));
+  }
+  for (const collaborator of sharing?.collaborators ?? []) {
+    if (collaborator?.email) {
+      refs.push(
+        db
+          .collection("sharedWithMe")
+          .doc(String(collaborator.email).toLowerCase())
+          .collection("essays")
+          .doc(`${ownerUid}_${essayId}`)
+      );
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Deletes the documents left behind by a deleted essay, in batches.
+ * Deleting a document that does not exist is a no-op, so running this
+ * again after a partial failure is safe.
+ * @param {import("firebase-admin/firestore").Firestore} db - The Firestore database
+ * @param {string} ownerUid - The essay owner's uid
+ * @param {string} essayId - The deleted essay's id
+ * @param {FirebaseFirestore.DocumentData | undefined} essayData - The essay as it was before deletion
+ * @return {Promise<number>} How many documents were deleted
+ */
+async function deleteEssayDependents(db, ownerUid, essayId, essayData) {
+  const refs = await getEssayDependents(db, ownerUid, essayId, essayData);
+
+  for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const ref of refs.slice(start, start + BATCH_SIZE)) {
+      batch.delete(ref);
+    }
+    await batch.commit();
+  }
+
+  return refs.length;
+}
+
+/**
+ * Deletes every essay that has been in the trash for TRASH_RETENTION_DAYS,
+ * with the documents deleteEssayDependents removes. An essay that cannot be
+ * purged is logged and left for the next run.
+ * @param {import("firebase-admin/firestore").Firestore} db - The Firestore database
+ * @param {Date} now - The current time
+ * @return {Promise<number>} How many essays were purged
+ */
+async function purgeExpiredTrash(db, now) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const snapshot = await db.collectionGroup("essays").where("trashedAt", "<=", cutoff).get();
+  let purged = 0;
+
+  for (const doc of snapshot.docs) {
+    // Shared with me references live in "essays" collections too and carry trashedAt
+    const ownerRef = doc.ref.parent.parent;
+    if (!ownerRef || ownerRef.parent.id !== "users") {
+      continue;
+    }
+    try {
+      await deleteEssayDependents(db, ownerRef.id, doc.id, doc.data());
+      await doc.ref.delete();
+      purged++;
+    } catch (error) {
+      console.error(`Could not purge essay ${ownerRef.id}/${doc.id} from the trash:`, error);
+    }
+  }
+
+  return purged;
+}
+
+module.exports = {
+  BATCH_SIZE,
+  TRASH_RETENTION_DAYS,
+  deleteEssayDependents,
+  purgeExpiredTrash,
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+
+/**
+ * cleanupDeletedEssay tests, run against the Firestore emulator
+ *
+ * Run with: cd functions && npm run test:emulator
+ */
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-essay-helper";
+const DATABASE_ID = "essays-paid";
+const OWNER_UID = "owner123";
+const ESSAY_ID = "essay123";
+const OTHER_ESSAY_ID = "essay456";
+const PUBLIC_TOKEN = "token123";
+const COLLABORATOR_EMAILS = ["collaborator@example.com", "editor@example.com"];
+
+describe("cleanupDeletedEssay", () => {
+  let db;
+  let cleanupDeletedEssay;
+
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error("FIRESTORE_EMULATOR_HOST is not set; run these tests with npm run test:emulator");
+    }
+    const { getApps, initializeApp } = await import("firebase-admin/app");
+    const { getFirestore } = await import("firebase-admin/firestore");
+    const app = getApps()[0] ?? initializeApp({ projectId: PROJECT_ID });
+    db = getFirestore(app, DATABASE_ID);
+    cleanupDeletedEssay = (await import("./index.js")).cleanupDeletedEssay;
+  });
+
+  beforeEach(async () => {
+    const host = process.env.FIRESTORE_EMULATOR_HOST;
+    const documentsUrl = `http://${host}/emulator/v1/projects/${PROJECT_ID}/databases/${DATABASE_ID}/documents`;
+    const response = await fetch(documentsUrl, { method: "DELETE" });
+    expect(response.ok).toBe(true);
+  });
+
+  const essayRef = (essayId = ESSAY_ID) => db.collection("users").doc(OWNER_UID).collection("essays").doc(essayId);
+  const sharedRef = (email, essayId = ESSAY_ID) =>
+    db.collection("sharedWithMe").doc(email).collection("essays").doc(`${OWNER_UID}_${essayId}`);
+
+  async function seedEssay(essayId, sharing) {
+    await essayRef(essayId).set({ title: "Les Misérables", ...(sharing ? { sharing } : {}) });
+    await essayRef(essayId).collection("comments").doc("comment1").set({ text: "Nice thesis" });
+    await essayRef(essayId).collection("versions").doc("version1").set({ title: "Les Misérables" });
+    await essayRef(essayId).collection("presence").doc("session1").set({ uid: OWNER_UID });
+  }
+
+  async function deleteEssay(essayId = ESSAY_ID) {
+    const snapshot = await essayRef(essayId).get();
+    await essayRef(essayId).delete();
+    await cleanupDeletedEssay.run({ params: { uid: OWNER_UID, essayId }, data: snapshot });
+  }
+
+  async function exists(ref) {
+    return (await ref.get()).exists;
+  }
+
+  it("removes the essay's subcollections, public link and share references", async () => {
+    await seedEssay(ESSAY_ID, {
+      isPublic: true,
+      publicToken: PUBLIC_TOKEN,
+      collaborators: [
+        { email: "Collaborator@Example.com", permission: "viewer" },
+        { email: "editor@example.com", permission: "editor" },
+      ],
+    });
+    await db.collection("publicEssays").doc(PUBLIC_TOKEN).set({ ownerUid: OWNER_UID, essayId: ESSAY_ID });
+    for (const email of COLLABORATOR_EMAILS) {
+      await sharedRef(email).set({ ownerUid: OWNER_UID, essayId: ESSAY_ID });
+    }
+
+    await deleteEssay();
+
+    for (const name of ["comments", "versions", "presence"]) {
+      expect((await essayRef().collection(name).get()).empty).toBe(true);
+    }
+    expect(await exists(db.collection("publicEssays").doc(PUBLIC_TOKEN))).toBe(false);
+    for (const email of COLLABORATOR_EMAILS) {
+      expect(await exists(sharedRef(email))).toBe(false);
+    }
+  });
+
+  it("leaves the owner's other essays alone", async () => {
+    await seedEssay(ESSAY_ID, { collaborators: [{ email: COLLABORATOR_EMAILS[0], permission: "viewer" }] });
+    await seedEssay(OTHER_ESSAY_ID, { collaborators: [{ email: COLLABORATOR_EMAILS[0], permission: "viewer" }] });
+    await sharedRef(COLLABORATOR_EMAILS[0]).set({ ownerUid: OWNER_UID, essayId: ESSAY_ID });
+    await sharedRef(COLLABORATOR_EMAILS[0], OTHER_ESSAY_ID).set({ ownerUid: OWNER_UID, essayId: OTHER_ESSAY_ID });
+
+    await deleteEssay();
+
+    expect(await exists(essayRef(OTHER_ESSAY_ID))).toBe(true);
+    expect(await exists(essayRef(OTHER_ESSAY_ID).collection("comments").doc("comment1"))).toBe(true);
+    expect(await exists(sharedRef(COLLABORATOR_EMAILS[0], OTHER_ESSAY_ID))).toBe(true);
+  });
+
+  it("deletes more documents than fit in one batch", async () => {
+    await seedEssay(ESSAY_ID);
+    const comments = essayRef().collection("comments");
+    const writer = db.bulkWriter();
+    for (let i = 0; i < 650; i++) {
+      writer.set(comments.doc(`bulk${i}`), { text: `Comment ${i}` });
+    }
+    await writer.close();
+
+    await deleteEssay();
+
+    expect((await comments.count().get()).data().count).toBe(0);
+  });
+
+  it("handles an essay that was never shared", async () => {
+    await seedEssay(ESSAY_ID);
+
+    await deleteEssay();
+
+    expect((await essayRef().collection("comments").get()).empty).toBe(true);
+  });
+});
@@ -1,10 +1,16 @@
 "use strict";
 
-const { onDocumentCreated } = require("firebase-functions/v2/firestore");
+const { onDocumentCreated, onDocumentDeleted } = require("firebase-functions/v2/firestore");
+const { onSchedule } = require("firebase-functions/v2/scheduler");
 const { defineSecret, defineString } = require("firebase-functions/params");
+const { getApps, initializeApp } = require("firebase-admin/app");
+const { getFirestore } = require("firebase-admin/firestore");
 const { Resend } = require("resend");
+const { deleteEssayDependents, purgeExpiredTrash } = require("./cleanup");
 const { escapeHtml } = require("./utils");
 
+const DATABASE_ID = "essays-paid";
+
 // Secrets (stored securely, not in code)
 const resendApiKey = defineSecret("RESEND_API_KEY");
 
@@ -31,7 +37,7 @@ const senderName = defineString("SENDER_NAME", {
 exports.sendShareNotification = onDocumentCreated(
   {
     document: "sharedWithMe/{recipientEmail}/essays/{docId}",
-    database: "essays-paid",
+    database: DATABASE_ID,
     secrets: [resendApiKey],
   },
   async (event) => {
@@ -145,3 +151,42 @@ You received this email because ${sharerName} shared an essay with you on Essay
     }
   }
 );
+
+/**
+ * Removes an essay's comments, versions, presence sessions, public link and
+ * Shared with me references once the essay itself is deleted.
+ * Triggers on document deletion in users/{uid}/essays/{essayId}
+ */
+exports.cleanupDeletedEssay = onDocumentDeleted(
+  {
+    document: "users/{uid}/essays/{essayId}",
+    database: DATABASE_ID,
+  },
+  async (event) => {
+    const { uid, essayId } = event.params;
+    const app = getApps()[0] ?? initializeApp();
+    const db = getFirestore(app, DATABASE_ID);
+
+    const deleted = await deleteEssayDependents(db, uid, essayId, event.data?.data());
+    console.log(`Deleted ${deleted} documents left behind by essay ${uid}/${essayId}`);
+  }
+);
+
+/**
+ * Purges essays that have been in the trash for 30 days, with their comments,
+ * versions, presence sessions, public link and Shared with me references.
+ * Runs daily so essays are purged even if their owner never opens the app again.
+ */
+exports.purgeExpiredTrash = onSchedule(
+  {
+    schedule: "every day 03:00",
+    timeZone: "UTC",
+  },
+  async () => {
+    const app = getApps()[0] ?? initializeApp();
+    const db = getFirestore(app, DATABASE_ID);
+
+    const purged = await purgeExpiredTrash(db, new Date());
+    console.log(`Purged ${purged} essays from the trash`);
+  }
+);
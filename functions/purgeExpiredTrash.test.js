@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+
+/**
+ * purgeExpiredTrash tests, run against the Firestore emulator
+ *
+ * Run with: cd functions && npm run test:emulator
+ */
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-essay-helper";
+const DATABASE_ID = "essays-paid";
+const OWNER_UID = "owner123";
+const COLLABORATOR_EMAIL = "collaborator@example.com";
+const PUBLIC_TOKEN = "token123";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("purgeExpiredTrash", () => {
+  let db;
+  let purgeExpiredTrash;
+
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error("FIRESTORE_EMULATOR_HOST is not set; run these tests with npm run test:emulator");
+    }
+    const { getApps, initializeApp } = await import("firebase-admin/app");
+    const { getFirestore } = await import("firebase-admin/firestore");
+    const app = getApps()[0] ?? initializeApp({ projectId: PROJECT_ID });
+    db = getFirestore(app, DATABASE_ID);
+    purgeExpiredTrash = (await import("./index.js")).purgeExpiredTrash;
+  });
+
+  beforeEach(async () => {
+    const host = process.env.FIRESTORE_EMULATOR_HOST;
+    const documentsUrl = `http://${host}/emulator/v1/projects/${PROJECT_ID}/databases/${DATABASE_ID}/documents`;
+    const response = await fetch(documentsUrl, { method: "DELETE" });
+    expect(response.ok).toBe(true);
+  });
+
+  const essayRef = (essayId) => db.collection("users").doc(OWNER_UID).collection("essays").doc(essayId);
+  const sharedRef = (essayId) =>
+    db.collection("sharedWithMe").doc(COLLABORATOR_EMAIL).collection("essays").doc(`${OWNER_UID}_${essayId}`);
+  const daysAgo = (days) => new Date(Date.now() - days * DAY_MS);
+
+  async function seedTrashedEssay(essayId, trashedAt) {
+    await essayRef(essayId).set({
+      title: "Les Misérables",
+      trashedAt,
+      sharing: {
+        isPublic: true,
+        publicToken: `${PUBLIC_TOKEN}-${essayId}`,
+        collaborators: [{ email: COLLABORATOR_EMAIL, permission: "viewer" }],
+      },
+    });
+    await essayRef(essayId).collection("comments").doc("comment1").set({ text: "Nice thesis" });
+    await db.collection("publicEssays").doc(`${PUBLIC_TOKEN}-${essayId}`).set({ ownerUid: OWNER_UID, essayId });
+    await sharedRef(essayId).set({ ownerUid: OWNER_UID, essayId, trashedAt });
+  }
+
+  async function exists(ref) {
+    return (await ref.get()).exists;
+  }
+
+  it("purges essays trashed more than 30 days ago with their comments, public link and share references", async () => {
+    await seedTrashedEssay("expired", daysAgo(31));
+
+    await purgeExpiredTrash.run({});
+
+    expect(await exists(essayRef("expired"))).toBe(false);
+    expect((await essayRef("expired").collection("comments").get()).empty).toBe(true);
+    expect(await exists(db.collection("publicEssays").doc(`${PUBLIC_TOKEN}-expired`))).toBe(false);
+    expect(await exists(sharedRef("expired"))).toBe(false);
+  });
+
+  it("keeps essays still within their time in the trash and essays that are not trashed", async () => {
+    await seedTrashedEssay("recent", daysAgo(29));
+    await essayRef("active").set({ title: "Active" });
+
+    await purgeExpiredTrash.run({});
+
+    expect(await exists(essayRef("recent"))).toBe(true);
+    expect(await exists(essayRef("recent").collection("comments").doc("comment1"))).toBe(true);
+    expect(await exists(sharedRef("recent"))).toBe(true);
+    expect(await exists(essayRef("active"))).toBe(true);
+  });
+});
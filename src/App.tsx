@@ -1,19 +1,36 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { Fragment, useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { Routes, Route, useNavigate, useParams, Link } from 'react-router-dom';
 import { User } from 'firebase/auth';
 import { useEssay } from './hooks/useEssay';
 import { useEssayUpdates } from './hooks/useEssayUpdates';
+import { useEssaySync } from './hooks/useEssaySync';
 import { useAuth } from './hooks/useAuth';
-import { getFullEssayText, Essay, createEssay, Claim, Intro, BodyParagraph, Conclusion, ProofBlock } from './models/essay';
-import { IntroSection, BodySection, ConclusionSection, ShareDialog } from './components';
+import { useStorage } from './hooks/useStorage';
+import { getFullEssayText, Essay, createEssay, Claim, Intro, BodyParagraph, Counterargument, Conclusion, ProofBlock, WordLimits, Source, SourceType, CitationStyle } from './models/essay';
+import { getTemplate, getCounterargumentTemplate, getPhraseBank, getSectionOrder, type SectionKind, type TemplateId } from './models/template';
+import { isSameEssay, type FieldConflict } from './models/merge';
+import { groupDiagnosticsByBlock, lintEssay } from './models/lint';
+import { checkEssayIntegrity, type IntegrityRepair } from './models/integrity';
+import { IntroSection, BodySection, CounterargumentSection, AddCounterargument, ConclusionSection, ShareDialog, ExportDialog } from './components';
 import { Header } from './components/Header';
 import { HomePage } from './components/HomePage';
 import { MigrationPrompt } from './components/MigrationPrompt';
+import { ConflictBanner } from './components/ConflictBanner';
+import { IntegrityBanner } from './components/IntegrityBanner';
+import { StatsBar } from './components/StatsBar';
 import { CommentPanel, toCommentThreadData, CommentThreadData } from './components/Comments';
 import { useComments } from './hooks/useComments';
-import { getEssayWithPermissions, savePublicEssay } from './firebase/firestore';
-import type { EssayDocument, SharingInfo, Permission, SharedEssayRef } from './models/document';
+import { usePresence } from './hooks/usePresence';
+import { useVersionHistory } from './hooks/useVersionHistory';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import { VersionHistoryPanel } from './components/VersionHistory';
+import { ChecklistPanel } from './components/Lint';
+import { SourcesPanel } from './components/Sources';
+import { buildEssayArchive, getArchiveFileName, ZIP_MIME_TYPE, type ArchivedEssay } from './export/archive';
+import { downloadFile } from './utils/download';
+import type { EssayDocument, TrashedEssayDocument, UnreadableEssay, SharingInfo, Permission, SharedEssayRef } from './models/document';
 import type { BlockType, CommentThread } from './models/comment';
+import type { ImportedEssay } from './export/bundle';
 import './App.css';
 
 const COLLAPSED_STORAGE_KEY = 'essay-helper-collapsed-sections';
@@ -22,6 +39,8 @@ interface CollapsedState {
   purpose?: boolean;
   outline?: boolean;
   paragraph?: boolean;
+  /** The stats bar starts closed, unlike the columns and sections */
+  statsExpanded?: boolean;
   sections?: Record<string, boolean>;
 }
 
@@ -53,23 +72,27 @@ interface ExternalEssayEditorProps {
 
 function ExternalEssayEditor({ externalEssay, externalPermission, externalOwnerUid }: ExternalEssayEditorProps) {
   const isEditor = externalPermission === 'editor';
+  const { remoteStorage } = useStorage();
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
 
   const [essay, setEssay] = useState<Essay>(() => externalEssay.data || createEssay());
+  const syncedEssayRef = useRef<Essay | null>(externalEssay.data || null);
+  const markSavingRef = useRef<(essay: Essay) => void>(() => {});
 
   const saveEssay = useCallback(
     async (essayData: Essay) => {
       if (!isEditor || !externalOwnerUid || !externalEssay?.id) return;
 
       try {
-        await savePublicEssay(externalOwnerUid, externalEssay.id, essayData, externalEssay.title);
+        markSavingRef.current(essayData);
+        await remoteStorage.savePublicEssay(externalOwnerUid, externalEssay.id, essayData, externalEssay.title);
         setLastSaved(new Date());
       } catch (err) {
         console.error('Failed to save:', err);
       }
     },
-    [isEditor, externalOwnerUid, externalEssay]
+    [isEditor, externalOwnerUid, externalEssay, remoteStorage]
   );
 
   const triggerSave = useCallback(
@@ -89,12 +112,59 @@ function ExternalEssayEditor({ externalEssay, externalPermission, externalOwnerU
     [isEditor, triggerSave]
   );
 
-  const { updateIntro, updateClaim, updateBodyParagraph, updateProofBlock, updateConclusion } =
-    useEssayUpdates(setEssay, handleUpdate);
+  const {
+    updateIntro,
+    updateClaim,
+    updateBodyParagraph,
+    updateProofBlock,
+    updateCounterargument,
+    updateConclusion,
+    replaceEssay,
+    updateWordLimits,
+    addSource,
+    updateSource,
+    removeSource,
+    setProofBlockSource,
+    setCitationStyle,
+    undo,
+    redo,
+  } = useEssayUpdates(setEssay, handleUpdate);
+
+  const getSyncedEssay = useCallback(() => syncedEssayRef.current, []);
+
+  const applyRemoteChange = useCallback(
+    (merged: Essay, remote: Essay) => {
+      syncedEssayRef.current = remote;
+      setEssay(merged);
+      if (!isEditor) return;
+      if (!isSameEssay(merged, remote)) {
+        triggerSave(merged);
+      } else if (saveTimeoutRef.current) {
+        // A pending save would write back the copy from before the merge
+        clearTimeout(saveTimeoutRef.current);
+      }
+    },
+    [isEditor, triggerSave]
+  );
+
+  const { conflicts, resolveConflict, markSaving } = useEssaySync({
+    storage: remoteStorage,
+    ownerUid: externalOwnerUid,
+    essayId: externalEssay.id,
+    enabled: true,
+    essay,
+    getSyncedEssay,
+    onRemoteChange: applyRemoteChange,
+    replaceEssay,
+  });
+
+  useEffect(() => {
+    markSavingRef.current = markSaving;
+  }, [markSaving]);
 
   const getClaimById = useCallback(
-    (claimId: string) => essay.intro?.claims?.find((c) => c.id === claimId),
-    [essay.intro?.claims]
+    (claimId: string) => essay.intro.claims.find((c) => c.id === claimId),
+    [essay.intro.claims]
   );
 
   // Show session save time if available, otherwise document's last modified time
@@ -114,7 +184,24 @@ function ExternalEssayEditor({ externalEssay, externalPermission, externalOwnerU
       addProofBlock={() => {}}
       updateProofBlock={updateProofBlock}
       removeProofBlock={() => {}}
+      moveClaim={() => {}}
+      moveBodyParagraph={() => {}}
+      moveProofBlock={() => {}}
+      addCounterargument={() => {}}
+      removeCounterargument={() => {}}
+      updateCounterargument={updateCounterargument}
       updateConclusion={updateConclusion}
+      replaceEssay={replaceEssay}
+      updateWordLimits={updateWordLimits}
+      addSource={addSource}
+      updateSource={updateSource}
+      removeSource={removeSource}
+      setProofBlockSource={setProofBlockSource}
+      setCitationStyle={setCitationStyle}
+      undo={undo}
+      redo={redo}
+      conflicts={conflicts}
+      resolveConflict={resolveConflict}
       getClaimById={getClaimById}
       renameEssay={() => {}}
       selectEssay={() => Promise.resolve()}
@@ -123,6 +210,7 @@ function ExternalEssayEditor({ externalEssay, externalPermission, externalOwnerU
       loadSharingInfo={() => Promise.resolve()}
       saveSharing={() => Promise.resolve()}
       readOnly={!isEditor}
+      ownerUid={externalOwnerUid}
     />
   );
 }
@@ -140,7 +228,26 @@ interface EssayEditorProps {
   addProofBlock: (bodyId: string) => void;
   updateProofBlock: (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) => void;
   removeProofBlock: (bodyId: string, proofBlockId: string) => void;
+  moveClaim: (claimId: string, toIndex: number) => void;
+  moveBodyParagraph: (bodyId: string, toIndex: number) => void;
+  moveProofBlock: (bodyId: string, proofBlockId: string, toIndex: number) => void;
+  addCounterargument: () => void;
+  removeCounterargument: () => void;
+  updateCounterargument: (field: keyof Counterargument, value: string) => void;
   updateConclusion: (field: keyof Conclusion, value: string) => void;
+  replaceEssay: (essay: Essay) => void;
+  /** Omitted where the essay's structure can't be changed */
+  repairEssay?: (repair: IntegrityRepair) => void;
+  updateWordLimits: (limits: WordLimits) => void;
+  addSource: (type?: SourceType) => void;
+  updateSource: (sourceId: string, fields: Partial<Omit<Source, 'id'>>) => void;
+  removeSource: (sourceId: string) => void;
+  setProofBlockSource: (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) => void;
+  setCitationStyle: (style: CitationStyle) => void;
+  undo: () => void;
+  redo: () => void;
+  conflicts: FieldConflict[];
+  resolveConflict: (key: string, choice: 'local' | 'remote') => void;
   getClaimById: (claimId: string) => Claim | undefined;
   renameEssay: (essayId: string, newTitle: string) => void;
   selectEssay: (essayId: string) => Promise<void>;
@@ -165,7 +272,25 @@ function EssayEditor({
   addProofBlock,
   updateProofBlock,
   removeProofBlock,
+  moveClaim,
+  moveBodyParagraph,
+  moveProofBlock,
+  addCounterargument,
+  removeCounterargument,
+  updateCounterargument,
   updateConclusion,
+  replaceEssay,
+  repairEssay,
+  updateWordLimits,
+  addSource,
+  updateSource,
+  removeSource,
+  setProofBlockSource,
+  setCitationStyle,
+  undo,
+  redo,
+  conflicts,
+  resolveConflict,
   getClaimById,
   renameEssay,
   selectEssay,
@@ -181,13 +306,41 @@ function EssayEditor({
   const { user } = useAuth();
   const [collapsedState, setCollapsedState] = useState<CollapsedState>(loadCollapsedState);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [sharingLoading, setSharingLoading] = useState(false);
 
+  const template = getTemplate(essay.templateId);
+  const phrases = getPhraseBank(template);
+
   // Comments state
   const [activeBlock, setActiveBlock] = useState<{ id: string; type: BlockType } | null>(null);
   const [showCommentPanel, setShowCommentPanel] = useState(false);
   const [quotedText, setQuotedText] = useState<string | null>(null);
 
+  // Version history state
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const versionHistory = useVersionHistory({
+    essay,
+    essayId: currentEssayId,
+    title: currentTitle,
+    ownerUid,
+    canEdit: !readOnly,
+    onRestore: replaceEssay,
+  });
+
+  // Structure checklist
+  const [showChecklistPanel, setShowChecklistPanel] = useState(false);
+  const [showSourcesPanel, setShowSourcesPanel] = useState(false);
+  const diagnostics = useMemo(() => lintEssay(essay), [essay]);
+  const diagnosticsByBlock = useMemo(() => groupDiagnosticsByBlock(diagnostics), [diagnostics]);
+
+  // Claims and body paragraphs that no longer match up, until dismissed for this essay
+  const integrityIssues = useMemo(() => checkEssayIntegrity(essay), [essay]);
+  const [integrityDismissed, setIntegrityDismissed] = useState(false);
+  useEffect(() => setIntegrityDismissed(false), [currentEssayId]);
+
+  useUndoShortcuts({ undo, redo, enabled: !readOnly });
+
   const {
     commentsByBlock,
     addComment,
@@ -196,6 +349,12 @@ function EssayEditor({
     resolveThread,
   } = useComments({ essayId: currentEssayId, ownerUid });
 
+  const { collaborators, presenceByCell, focusCell } = usePresence({
+    essayId: currentEssayId,
+    ownerUid,
+    mode: readOnly ? 'viewing' : 'editing',
+  });
+
   // Helper to get comment stats for a block
   const getBlockStats = useCallback((blockId: string) => {
     const threads = commentsByBlock.get(blockId) || [];
@@ -238,6 +397,10 @@ function EssayEditor({
     setShowCommentPanel(true);
   }, []);
 
+  const handleCloseHistoryPanel = useCallback(() => setShowHistoryPanel(false), []);
+  const handleCloseChecklistPanel = useCallback(() => setShowChecklistPanel(false), []);
+  const handleCloseSourcesPanel = useCallback(() => setShowSourcesPanel(false), []);
+
   // Total comment count for the badge
   const totalCommentCount = getAllThreads().reduce(
     (sum, thread) => sum + 1 + thread.replies.length,
@@ -250,6 +413,17 @@ function EssayEditor({
     onCommentClick: handleCommentClick,
   };
 
+  // Presence helpers for section components
+  const presenceHelpers = {
+    getCellPresence: (cellId: string) => presenceByCell.get(cellId) ?? [],
+    onCellFocus: focusCell,
+  };
+
+  // Checklist badges for section components
+  const lintHelpers = {
+    getBlockDiagnostics: (blockId: string) => diagnosticsByBlock.get(blockId) ?? [],
+  };
+
   useEffect(() => {
     if (!currentEssayId || isSharedEssay || !loadSharingInfo) return;
 
@@ -298,6 +472,100 @@ function EssayEditor({
 
   const isSectionCollapsed = (sectionKey: string) => collapsedState.sections?.[sectionKey] ?? false;
 
+  const renderSection = (kind: SectionKind) => {
+    switch (kind) {
+      case 'intro':
+        return (
+          <IntroSection
+            intro={essay.intro}
+            template={template.intro}
+            updateIntro={updateIntro}
+            addClaim={addClaim}
+            updateClaim={updateClaim}
+            removeClaim={removeClaim}
+            moveClaim={moveClaim}
+            sectionCollapsed={isSectionCollapsed('intro')}
+            onToggleSection={() => toggleCollapse('intro', true)}
+            phrases={phrases}
+            paragraphWordLimit={essay.wordLimits?.paragraph}
+            readOnly={readOnly}
+            commentHelpers={commentHelpers}
+            presenceHelpers={presenceHelpers}
+            lintHelpers={lintHelpers}
+          />
+        );
+      case 'body':
+        return essay.bodyParagraphs.map((bodyParagraph, index) => (
+          <BodySection
+            key={bodyParagraph.id}
+            bodyParagraph={bodyParagraph}
+            bodyIndex={index}
+            bodyCount={essay.bodyParagraphs.length}
+            template={template.body}
+            thesis={essay.intro.thesis}
+            claim={getClaimById(bodyParagraph.provingClaimId)}
+            updateBodyParagraph={updateBodyParagraph}
+            addProofBlock={addProofBlock}
+            updateProofBlock={updateProofBlock}
+            removeProofBlock={removeProofBlock}
+            moveBodyParagraph={moveBodyParagraph}
+            moveProofBlock={moveProofBlock}
+            sources={essay.sources ?? []}
+            citationStyle={essay.citationStyle}
+            setProofBlockSource={setProofBlockSource}
+            sectionCollapsed={isSectionCollapsed(`body-${index}`)}
+            onToggleSection={() => toggleCollapse(`body-${index}`, true)}
+            phrases={phrases}
+            paragraphWordLimit={essay.wordLimits?.paragraph}
+            readOnly={readOnly}
+            commentHelpers={commentHelpers}
+            presenceHelpers={presenceHelpers}
+            lintHelpers={lintHelpers}
+          />
+        ));
+      case 'counterargument':
+        return essay.counterargument ? (
+          <CounterargumentSection
+            counterargument={essay.counterargument}
+            template={getCounterargumentTemplate(template)}
+            thesis={essay.intro.thesis}
+            updateCounterargument={updateCounterargument}
+            removeCounterargument={removeCounterargument}
+            sectionCollapsed={isSectionCollapsed('counterargument')}
+            onToggleSection={() => toggleCollapse('counterargument', true)}
+            phrases={phrases}
+            paragraphWordLimit={essay.wordLimits?.paragraph}
+            readOnly={readOnly}
+            commentHelpers={commentHelpers}
+            presenceHelpers={presenceHelpers}
+            lintHelpers={lintHelpers}
+          />
+        ) : (
+          !readOnly && template.counterargument && (
+            <AddCounterargument label={template.counterargument.label} onAdd={addCounterargument} />
+          )
+        );
+      case 'conclusion':
+        return (
+          <ConclusionSection
+            conclusion={essay.conclusion}
+            template={template.conclusion}
+            thesis={essay.intro.thesis}
+            claims={essay.intro.claims}
+            updateConclusion={updateConclusion}
+            sectionCollapsed={isSectionCollapsed('conclusion')}
+            onToggleSection={() => toggleCollapse('conclusion', true)}
+            phrases={phrases}
+            paragraphWordLimit={essay.wordLimits?.paragraph}
+            readOnly={readOnly}
+            commentHelpers={commentHelpers}
+            presenceHelpers={presenceHelpers}
+            lintHelpers={lintHelpers}
+          />
+        );
+    }
+  };
+
   return (
     <>
       <Header
@@ -311,8 +579,22 @@ function EssayEditor({
         onShareClick={readOnly ? null : () => setShowShareDialog(true)}
         onCommentsClick={handleOpenCommentPanel}
         commentCount={totalCommentCount}
+        onChecklistClick={() => setShowChecklistPanel(true)}
+        checklistCount={diagnostics.length}
+        onSourcesClick={() => setShowSourcesPanel(true)}
+        onHistoryClick={() => setShowHistoryPanel(true)}
+        onExportClick={() => setShowExportDialog(true)}
         isSharedEssay={isSharedEssay}
         readOnly={readOnly}
+        collaborators={collaborators}
+      />
+
+      <ExportDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        essay={essay}
+        title={currentTitle}
+        comments={commentsByBlock}
       />
 
       {!readOnly && (
@@ -342,6 +624,51 @@ function EssayEditor({
         onResolveThread={resolveThread}
       />
 
+      <ConflictBanner conflicts={conflicts} onResolve={resolveConflict} />
+
+      {repairEssay && !readOnly && !integrityDismissed && (
+        <IntegrityBanner
+          essay={essay}
+          issues={integrityIssues}
+          onRepair={repairEssay}
+          onDismiss={() => setIntegrityDismissed(true)}
+        />
+      )}
+
+      <ChecklistPanel isOpen={showChecklistPanel} onClose={handleCloseChecklistPanel} diagnostics={diagnostics} />
+
+      <SourcesPanel
+        isOpen={showSourcesPanel}
+        onClose={handleCloseSourcesPanel}
+        essay={essay}
+        onAddSource={addSource}
+        onUpdateSource={updateSource}
+        onRemoveSource={removeSource}
+        onChangeCitationStyle={setCitationStyle}
+        readOnly={readOnly}
+      />
+
+      <VersionHistoryPanel
+        isOpen={showHistoryPanel}
+        onClose={handleCloseHistoryPanel}
+        versions={versionHistory.versions}
+        currentEssay={essay}
+        loading={versionHistory.loading}
+        error={versionHistory.error}
+        unreadableCount={versionHistory.unreadableCount}
+        canRestore={versionHistory.canRestore}
+        onRestore={versionHistory.restoreVersion}
+      />
+
+      <StatsBar
+        essay={essay}
+        template={template}
+        expanded={collapsedState.statsExpanded ?? false}
+        onToggle={() => toggleCollapse('statsExpanded')}
+        onChangeWordLimits={updateWordLimits}
+        readOnly={readOnly}
+      />
+
       <main
         className={[
           'essay-grid',
@@ -370,46 +697,9 @@ function EssayEditor({
           ))}
         </div>
 
-        <IntroSection
-          intro={essay.intro}
-          updateIntro={updateIntro}
-          addClaim={addClaim}
-          updateClaim={updateClaim}
-          removeClaim={removeClaim}
-          sectionCollapsed={isSectionCollapsed('intro')}
-          onToggleSection={() => toggleCollapse('intro', true)}
-          readOnly={readOnly}
-          commentHelpers={commentHelpers}
-        />
-
-        {essay.bodyParagraphs.map((bodyParagraph, index) => (
-          <BodySection
-            key={bodyParagraph.id}
-            bodyParagraph={bodyParagraph}
-            bodyIndex={index}
-            thesis={essay.intro.thesis}
-            claim={getClaimById(bodyParagraph.provingClaimId)}
-            updateBodyParagraph={updateBodyParagraph}
-            addProofBlock={addProofBlock}
-            updateProofBlock={updateProofBlock}
-            removeProofBlock={removeProofBlock}
-            sectionCollapsed={isSectionCollapsed(`body-${index}`)}
-            onToggleSection={() => toggleCollapse(`body-${index}`, true)}
-            readOnly={readOnly}
-            commentHelpers={commentHelpers}
-          />
+        {getSectionOrder(essay, template).map((kind) => (
+          <Fragment key={kind}>{renderSection(kind)}</Fragment>
         ))}
-
-        <ConclusionSection
-          conclusion={essay.conclusion}
-          thesis={essay.intro.thesis}
-          claims={essay.intro.claims}
-          updateConclusion={updateConclusion}
-          sectionCollapsed={isSectionCollapsed('conclusion')}
-          onToggleSection={() => toggleCollapse('conclusion', true)}
-          readOnly={readOnly}
-          commentHelpers={commentHelpers}
-        />
       </main>
     </>
   );
@@ -429,7 +719,25 @@ interface UnifiedEssayRouteProps {
   addProofBlock: (bodyId: string) => void;
   updateProofBlock: (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) => void;
   removeProofBlock: (bodyId: string, proofBlockId: string) => void;
+  moveClaim: (claimId: string, toIndex: number) => void;
+  moveBodyParagraph: (bodyId: string, toIndex: number) => void;
+  moveProofBlock: (bodyId: string, proofBlockId: string, toIndex: number) => void;
+  addCounterargument: () => void;
+  removeCounterargument: () => void;
+  updateCounterargument: (field: keyof Counterargument, value: string) => void;
   updateConclusion: (field: keyof Conclusion, value: string) => void;
+  replaceEssay: (essay: Essay) => void;
+  repairEssay: (repair: IntegrityRepair) => void;
+  updateWordLimits: (limits: WordLimits) => void;
+  addSource: (type?: SourceType) => void;
+  updateSource: (sourceId: string, fields: Partial<Omit<Source, 'id'>>) => void;
+  removeSource: (sourceId: string) => void;
+  setProofBlockSource: (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) => void;
+  setCitationStyle: (style: CitationStyle) => void;
+  undo: () => void;
+  redo: () => void;
+  conflicts: FieldConflict[];
+  resolveConflict: (key: string, choice: 'local' | 'remote') => void;
   getClaimById: (claimId: string) => Claim | undefined;
   renameEssay: (essayId: string, newTitle: string) => Promise<void>;
   selectEssay: (essayId: string) => Promise<void>;
@@ -454,7 +762,25 @@ function UnifiedEssayRoute({
   addProofBlock,
   updateProofBlock,
   removeProofBlock,
+  moveClaim,
+  moveBodyParagraph,
+  moveProofBlock,
+  addCounterargument,
+  removeCounterargument,
+  updateCounterargument,
   updateConclusion,
+  replaceEssay,
+  repairEssay,
+  updateWordLimits,
+  addSource,
+  updateSource,
+  removeSource,
+  setProofBlockSource,
+  setCitationStyle,
+  undo,
+  redo,
+  conflicts,
+  resolveConflict,
   getClaimById,
   renameEssay,
   selectEssay,
@@ -465,6 +791,7 @@ function UnifiedEssayRoute({
   user,
 }: UnifiedEssayRouteProps) {
   const { id } = useParams<{ id: string }>();
+  const { remoteStorage } = useStorage();
   const [externalEssay, setExternalEssay] = useState<EssayDocument | null>(null);
   const [externalPermission, setExternalPermission] = useState<Permission | null>(null);
   const [externalOwnerUid, setExternalOwnerUid] = useState<string | null>(null);
@@ -478,17 +805,18 @@ function UnifiedEssayRoute({
       setLoading(true);
       setError(null);
 
-      if (user) {
-        if (essays && essays.some((e) => e.id === id)) {
-          setExternalEssay(null);
-          setExternalPermission(null);
-          setExternalOwnerUid(null);
-          setLoading(false);
-          return;
-        }
+      // The user's own essays (cloud or on-device) are edited directly
+      if (essays && essays.some((e) => e.id === id)) {
+        setExternalEssay(null);
+        setExternalPermission(null);
+        setExternalOwnerUid(null);
+        setLoading(false);
+        return;
+      }
 
+      if (user) {
         try {
-          const result = await getEssayWithPermissions(id, user.uid, user.email);
+          const result = await remoteStorage.getEssayWithPermissions(id, user.uid, user.email);
           if (result.essay) {
             if (result.permission === 'owner') {
               setExternalEssay(null);
@@ -514,7 +842,7 @@ function UnifiedEssayRoute({
       }
 
       try {
-        const result = await getEssayWithPermissions(id, null, null);
+        const result = await remoteStorage.getEssayWithPermissions(id, null, null);
         if (result.essay && result.permission) {
           setExternalEssay(result.essay);
           setExternalPermission(result.permission);
@@ -530,7 +858,7 @@ function UnifiedEssayRoute({
     };
 
     loadEssay();
-  }, [id, user, essays]);
+  }, [id, user, essays, remoteStorage]);
 
   if (loading) {
     return (
@@ -578,7 +906,25 @@ function UnifiedEssayRoute({
       addProofBlock={addProofBlock}
       updateProofBlock={updateProofBlock}
       removeProofBlock={removeProofBlock}
+      moveClaim={moveClaim}
+      moveBodyParagraph={moveBodyParagraph}
+      moveProofBlock={moveProofBlock}
+      addCounterargument={addCounterargument}
+      removeCounterargument={removeCounterargument}
+      updateCounterargument={updateCounterargument}
       updateConclusion={updateConclusion}
+      replaceEssay={replaceEssay}
+      repairEssay={repairEssay}
+      updateWordLimits={updateWordLimits}
+      addSource={addSource}
+      updateSource={updateSource}
+      removeSource={removeSource}
+      setProofBlockSource={setProofBlockSource}
+      setCitationStyle={setCitationStyle}
+      undo={undo}
+      redo={redo}
+      conflicts={conflicts}
+      resolveConflict={resolveConflict}
       getClaimById={getClaimById}
       renameEssay={renameEssay}
       selectEssay={selectEssay}
@@ -593,8 +939,14 @@ function UnifiedEssayRoute({
 
 interface HomePageWrapperProps {
   essays: EssayDocument[];
+  trashedEssays: TrashedEssayDocument[];
+  unreadableEssays: UnreadableEssay[];
   sharedEssays: SharedEssayRef[];
-  onNewEssay: () => string;
+  onNewEssay: (templateId?: TemplateId) => string;
+  importEssay: (imported: ImportedEssay) => Promise<string>;
+  loadArchivedEssays: () => Promise<ArchivedEssay[]>;
+  trashEssay: (essayId: string) => Promise<void>;
+  restoreEssay: (essayId: string) => Promise<void>;
   deleteEssay: (essayId: string) => Promise<void>;
   selectSharedEssay: (ownerUid: string, essayId: string, permission: Permission) => Promise<void>;
   isLoggedIn: boolean;
@@ -602,13 +954,20 @@ interface HomePageWrapperProps {
 
 function HomePageWrapper({
   essays,
+  trashedEssays,
+  unreadableEssays,
   sharedEssays,
   onNewEssay,
+  importEssay,
+  loadArchivedEssays,
+  trashEssay,
+  restoreEssay,
   deleteEssay,
   selectSharedEssay,
   isLoggedIn,
 }: HomePageWrapperProps) {
   const navigate = useNavigate();
+  const { user } = useAuth();
 
   const handleSelectEssay = (essayId: string) => {
     navigate(`/essay/${essayId}`);
@@ -619,13 +978,25 @@ function HomePageWrapper({
     navigate(`/essay/${essayId}`);
   };
 
-  const handleNewEssay = () => {
-    const newId = onNewEssay();
+  const handleNewEssay = (templateId: TemplateId) => {
+    const newId = onNewEssay(templateId);
     if (newId) {
       navigate(`/essay/${newId}`);
     }
   };
 
+  const handleImportEssay = async (imported: ImportedEssay) => {
+    const newId = await importEssay(imported);
+    navigate(`/essay/${newId}`);
+  };
+
+  const handleDownloadAll = async () => {
+    const archived = await loadArchivedEssays();
+    const now = new Date();
+    const archive = buildEssayArchive(archived, user?.displayName ?? '', now);
+    downloadFile(archive as BlobPart, getArchiveFileName(now), ZIP_MIME_TYPE);
+  };
+
   return (
     <>
       <Header
@@ -641,11 +1012,17 @@ function HomePageWrapper({
       />
       <HomePage
         essays={essays}
+        trashedEssays={trashedEssays}
+        unreadableEssays={unreadableEssays}
         sharedEssays={sharedEssays}
         onSelectEssay={handleSelectEssay}
         onSelectSharedEssay={handleSelectSharedEssay}
         onNewEssay={handleNewEssay}
+        onTrashEssay={trashEssay}
+        onRestoreEssay={restoreEssay}
         onDeleteEssay={deleteEssay}
+        onImportEssay={handleImportEssay}
+        onDownloadAll={handleDownloadAll}
         isLoggedIn={isLoggedIn}
       />
     </>
@@ -672,10 +1049,34 @@ function App() {
     addProofBlock,
     updateProofBlock,
     removeProofBlock,
+    moveClaim,
+    moveBodyParagraph,
+    moveProofBlock,
+    addCounterargument,
+    removeCounterargument,
+    updateCounterargument,
     updateConclusion,
+    replaceEssay,
+    repairEssay,
+    updateWordLimits,
+    addSource,
+    updateSource,
+    removeSource,
+    setProofBlockSource,
+    setCitationStyle,
+    undo,
+    redo,
+    conflicts,
+    resolveConflict,
     getClaimById,
     selectEssay,
     createNewEssay,
+    importEssay,
+    loadArchivedEssays,
+    trashedEssays,
+    unreadableEssays,
+    trashEssay,
+    restoreEssay,
     deleteEssay,
     renameEssay,
     handleMigrate,
@@ -719,8 +1120,14 @@ function App() {
           element={
             <HomePageWrapper
               essays={essays}
+              trashedEssays={trashedEssays}
+              unreadableEssays={unreadableEssays}
               sharedEssays={sharedEssays}
               onNewEssay={createNewEssay}
+              importEssay={importEssay}
+              loadArchivedEssays={loadArchivedEssays}
+              trashEssay={trashEssay}
+              restoreEssay={restoreEssay}
               deleteEssay={deleteEssay}
               selectSharedEssay={selectSharedEssay}
               isLoggedIn={!!user}
@@ -744,7 +1151,25 @@ function App() {
               addProofBlock={addProofBlock}
               updateProofBlock={updateProofBlock}
               removeProofBlock={removeProofBlock}
+              moveClaim={moveClaim}
+              moveBodyParagraph={moveBodyParagraph}
+              moveProofBlock={moveProofBlock}
+              addCounterargument={addCounterargument}
+              removeCounterargument={removeCounterargument}
+              updateCounterargument={updateCounterargument}
               updateConclusion={updateConclusion}
+              replaceEssay={replaceEssay}
+              repairEssay={repairEssay}
+              updateWordLimits={updateWordLimits}
+              addSource={addSource}
+              updateSource={updateSource}
+              removeSource={removeSource}
+              setProofBlockSource={setProofBlockSource}
+              setCitationStyle={setCitationStyle}
+              undo={undo}
+              redo={redo}
+              conflicts={conflicts}
+              resolveConflict={resolveConflict}
               getClaimById={getClaimById}
               renameEssay={renameEssay}
               selectEssay={selectEssay}
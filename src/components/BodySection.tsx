@@ -1,23 +1,47 @@
-import { useState, ReactNode } from 'react';
-import { OutlineCell, ParagraphCell, PurposeCell, SectionLabel } from './Cells';
+import { useMemo, useState } from 'react';
+import { ParagraphCell, SectionLabel } from './Cells';
 import { AddRemoveActions } from './AddRemoveActions';
 import { ConfirmDialog } from './ConfirmDialog';
-import { makeCommentProps, type CommentHelpers, type CommentProps } from './Comments';
-import type { BodyParagraph, Claim, ProofBlock } from '../models/essay';
+import { DragHandle, useDropTarget, DRAG_TYPE_BODY, DRAG_TYPE_PROOF } from './DragHandle';
+import { FieldRow } from './TemplateFields';
+import { makeCommentProps, type CommentHelpers } from './Comments';
+import { makePresenceProps, type PresenceHelpers } from './Presence';
+import { makeLintProps, type LintHelpers } from './Lint';
+import { ProofSource } from './Sources';
+import { EvidenceBadge } from './Evidence';
+import type { BodyParagraph, CitationStyle, Claim, ProofBlock, Source } from '../models/essay';
+import { DEFAULT_CITATION_STYLE, getProofBlockCitation } from '../models/citation';
+import { DEFAULT_PHRASE_BANK, fillPrompt, type BodyTemplate, type PhraseBank, type PromptRefs } from '../models/template';
+import { draftBodyParagraph } from '../models/outlineDraft';
+import { checkEvidence, type EvidenceCheck } from '../models/evidence';
 
 interface BodySectionProps {
   bodyParagraph: BodyParagraph;
   bodyIndex: number;
+  bodyCount: number;
+  template: BodyTemplate;
   thesis: string;
   claim: Claim | undefined;
   updateBodyParagraph: (bodyId: string, field: keyof BodyParagraph, value: BodyParagraph[keyof BodyParagraph]) => void;
   addProofBlock: (bodyId: string) => void;
   updateProofBlock: (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) => void;
   removeProofBlock: (bodyId: string, proofBlockId: string) => void;
+  moveBodyParagraph: (bodyId: string, toIndex: number) => void;
+  moveProofBlock: (bodyId: string, proofBlockId: string, toIndex: number) => void;
+  /** The essay's sources, for citing each proof block */
+  sources?: Source[];
+  citationStyle?: CitationStyle;
+  setProofBlockSource?: (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) => void;
   sectionCollapsed: boolean;
   onToggleSection: () => void;
+  /** Transition phrases for "Draft from outline" */
+  phrases?: PhraseBank;
+  /** Words allowed in the paragraph, from the assignment's word limits */
+  paragraphWordLimit?: number;
   readOnly?: boolean;
   commentHelpers?: CommentHelpers;
+  presenceHelpers?: PresenceHelpers;
+  lintHelpers?: LintHelpers;
 }
 
 interface DeleteConfirm {
@@ -28,28 +52,58 @@ interface DeleteConfirm {
 export function BodySection({
   bodyParagraph,
   bodyIndex,
+  bodyCount,
+  template,
   thesis,
   claim,
   updateBodyParagraph,
   addProofBlock,
   updateProofBlock,
   removeProofBlock,
+  moveBodyParagraph,
+  moveProofBlock,
+  sources = [],
+  citationStyle = DEFAULT_CITATION_STYLE,
+  setProofBlockSource,
   sectionCollapsed,
   onToggleSection,
+  phrases = DEFAULT_PHRASE_BANK,
+  paragraphWordLimit,
   readOnly = false,
   commentHelpers,
+  presenceHelpers,
+  lintHelpers,
 }: BodySectionProps) {
   const [confirmDelete, setConfirmDelete] = useState<DeleteConfirm | null>(null);
-  const rowCount = 2 + bodyParagraph.proofBlocks.length * 4;
-  const claimText = claim?.text || `[Claim ${bodyIndex + 1}]`;
-  const thesisText = thesis || '[Thesis]';
-  const cp = (blockId: string) => makeCommentProps(commentHelpers, blockId, 'bodyParagraph');
+  const evidence = useMemo(() => checkEvidence(bodyParagraph), [bodyParagraph]);
+  const { isOver, dropProps } = useDropTarget(
+    DRAG_TYPE_BODY,
+    (bodyId) => moveBodyParagraph(bodyId, bodyIndex),
+    !readOnly
+  );
+  const rowCount =
+    template.lead.length +
+    template.close.length +
+    bodyParagraph.proofBlocks.length * (1 + template.proof.fields.length);
+  const n = String(bodyIndex + 1);
+  const cp = (blockId: string) => ({
+    ...makeCommentProps(commentHelpers, blockId, 'bodyParagraph'),
+    ...makePresenceProps(presenceHelpers, blockId),
+    ...makeLintProps(lintHelpers, blockId),
+  });
 
   const getProofSummary = (proofBlock: ProofBlock, index: number): string => {
     const connection = proofBlock.connection?.trim();
-    return connection ? `Summary of "${connection}"` : `[Proof ${index + 1}]`;
+    return connection
+      ? `Summary of "${connection}"`
+      : `[${fillPrompt(template.proof.label, { n: String(index + 1) })}]`;
+  };
+  const refs: PromptRefs = {
+    thesis: thesis || '[Thesis]',
+    claim: claim?.text || `[Claim ${n}]`,
+    proofs: bodyParagraph.proofBlocks.map((pb, i) => getProofSummary(pb, i)),
+    n,
   };
-  const proofSummaries = bodyParagraph.proofBlocks.map((pb, i) => getProofSummary(pb, i));
 
   const handleRemoveProofBlock = (bodyId: string, proofBlockId: string) => {
     const proofBlock = bodyParagraph.proofBlocks.find((pb) => pb.id === proofBlockId);
@@ -69,85 +123,81 @@ export function BodySection({
     }
   };
 
+  const renderField = (field: BodyTemplate['lead' | 'close'][number], isFirst = false) => (
+    <FieldRow
+      key={field.key}
+      field={field}
+      refs={refs}
+      value={bodyParagraph[field.key]}
+      onChange={(value) => updateBodyParagraph(bodyParagraph.id, field.key, value)}
+      readOnly={readOnly}
+      actions={isFirst && !readOnly ? (
+        <DragHandle
+          dragType={DRAG_TYPE_BODY}
+          itemId={bodyParagraph.id}
+          index={bodyIndex}
+          count={bodyCount}
+          onMove={(toIndex) => moveBodyParagraph(bodyParagraph.id, toIndex)}
+          label={fillPrompt(template.label, refs).toLowerCase()}
+        />
+      ) : undefined}
+      {...cp(`${bodyParagraph.id}-${field.key}`)}
+    />
+  );
+  const [firstLead, ...otherLead] = template.lead;
+
   return (
     <div
-      className={`section section-body section-body-${bodyIndex % 3} ${sectionCollapsed ? 'section-collapsed' : ''}`}
+      className={`section section-body section-body-${bodyIndex % 3} ${sectionCollapsed ? 'section-collapsed' : ''} ${isOver ? 'drop-target-over' : ''}`}
+      {...dropProps}
     >
       <div className="section-grid" style={{ gridTemplateRows: `repeat(${rowCount}, auto)` }}>
         <SectionLabel rowSpan={rowCount} onClick={onToggleSection} collapsed={sectionCollapsed}>
-          Body {bodyIndex + 1}
+          {fillPrompt(template.label, refs)}
         </SectionLabel>
-        <PurposeCell label="Purpose">
-          Topic sentence: introduce that you will prove <span className="ref">{claimText}</span>
-        </PurposeCell>
-        <OutlineCell
-          value={bodyParagraph.purpose}
-          onChange={(value) => updateBodyParagraph(bodyParagraph.id, 'purpose', value)}
-          placeholderContent={
-            <>
-              e.g., This paragraph will show that <span className="ref">{claimText}</span>.
-            </>
-          }
-          readOnly={readOnly}
-          {...cp(`${bodyParagraph.id}-purpose`)}
-        />
+        {renderField(firstLead, true)}
         <ParagraphCell
           rowSpan={rowCount}
           value={bodyParagraph.paragraph}
           onChange={(value) => updateBodyParagraph(bodyParagraph.id, 'paragraph', value)}
-          placeholder={`Write your body paragraph proving "${claimText}", weaving together your evidence, analysis, and connection...`}
+          placeholder={fillPrompt(template.paragraph, refs)}
           readOnly={readOnly}
+          getDraft={() =>
+            draftBodyParagraph(bodyParagraph, template, phrases, (pb) => getProofBlockCitation(pb, sources, citationStyle))
+          }
+          wordLimit={paragraphWordLimit}
+          evidence={evidence}
           {...cp(`${bodyParagraph.id}-paragraph`)}
         />
+        {otherLead.map((field) => renderField(field))}
 
         {bodyParagraph.proofBlocks.map((proofBlock, pbIndex) => (
           <ProofBlockRows
             key={proofBlock.id}
             proofBlock={proofBlock}
             pbIndex={pbIndex}
+            pbCount={bodyParagraph.proofBlocks.length}
             bodyId={bodyParagraph.id}
-            claimText={claimText}
+            template={template.proof}
+            refs={refs}
             isOnly={bodyParagraph.proofBlocks.length === 1}
             isLast={pbIndex === bodyParagraph.proofBlocks.length - 1}
             updateProofBlock={updateProofBlock}
             removeProofBlock={handleRemoveProofBlock}
             addProofBlock={addProofBlock}
+            moveProofBlock={moveProofBlock}
+            sources={sources}
+            citationStyle={citationStyle}
+            setProofBlockSource={setProofBlockSource}
+            evidence={evidence?.checks.find((check) => check.proofBlockId === proofBlock.id)}
             readOnly={readOnly}
             commentHelpers={commentHelpers}
+            presenceHelpers={presenceHelpers}
+            lintHelpers={lintHelpers}
           />
         ))}
 
-        <PurposeCell label="Recap">
-          Tie body together to say <span className="ref">{thesisText}</span> is true because{' '}
-          <span className="ref">{claimText}</span> is true because{' '}
-          {proofSummaries
-            .map<ReactNode>((summary, i) => (
-              <span key={i} className="ref">
-                {summary}
-              </span>
-            ))
-            .reduce<ReactNode[]>((prev, curr, i) => (i === 0 ? [curr] : [...prev, ' ', curr]), [])}{' '}
-          are true
-        </PurposeCell>
-        <OutlineCell
-          value={bodyParagraph.recap}
-          onChange={(value) => updateBodyParagraph(bodyParagraph.id, 'recap', value)}
-          placeholderContent={
-            <>
-              e.g.,{' '}
-              {proofSummaries.map((summary, i) => (
-                <span key={i}>
-                  <span className="ref">{summary}</span>
-                  {i < proofSummaries.length - 1 ? ', ' : ' '}
-                </span>
-              ))}
-              show that <span className="ref">{claimText}</span> is true which shows that{' '}
-              <span className="ref">{thesisText}</span> is true.
-            </>
-          }
-          readOnly={readOnly}
-          {...cp(`${bodyParagraph.id}-recap`)}
-        />
+        {template.close.map((field) => renderField(field))}
       </div>
 
       <ConfirmDialog
@@ -164,39 +214,89 @@ export function BodySection({
 interface ProofBlockRowsProps {
   proofBlock: ProofBlock;
   pbIndex: number;
+  pbCount: number;
   bodyId: string;
-  claimText: string;
+  template: BodyTemplate['proof'];
+  refs: PromptRefs;
   isOnly: boolean;
   isLast: boolean;
   updateProofBlock: (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) => void;
   removeProofBlock: (bodyId: string, proofBlockId: string) => void;
   addProofBlock: (bodyId: string) => void;
+  moveProofBlock: (bodyId: string, proofBlockId: string, toIndex: number) => void;
+  sources: Source[];
+  citationStyle: CitationStyle;
+  setProofBlockSource?: (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) => void;
+  /** Whether the body paragraph quotes this proof block */
+  evidence?: EvidenceCheck;
   readOnly?: boolean;
   commentHelpers?: CommentHelpers;
+  presenceHelpers?: PresenceHelpers;
+  lintHelpers?: LintHelpers;
 }
 
 function ProofBlockRows({
   proofBlock,
   pbIndex,
+  pbCount,
   bodyId,
-  claimText,
+  template,
+  refs,
   isOnly,
   isLast,
   updateProofBlock,
   removeProofBlock,
   addProofBlock,
+  moveProofBlock,
+  sources,
+  citationStyle,
+  setProofBlockSource,
+  evidence,
   readOnly = false,
   commentHelpers,
+  presenceHelpers,
+  lintHelpers,
 }: ProofBlockRowsProps) {
   const depthClass = `proof-depth-${Math.min(pbIndex, 4)}`;
-  const cp = (blockId: string) => makeCommentProps(commentHelpers, blockId, 'proofBlock');
+  const cp = (blockId: string) => ({
+    ...makeCommentProps(commentHelpers, blockId, 'proofBlock'),
+    ...makePresenceProps(presenceHelpers, blockId),
+    ...makeLintProps(lintHelpers, blockId),
+  });
+  // Proof blocks only move within their own body paragraph; moveProofBlock
+  // ignores ids from another body
+  const { isOver, dropProps } = useDropTarget(
+    DRAG_TYPE_PROOF,
+    (proofBlockId) => moveProofBlock(bodyId, proofBlockId, pbIndex),
+    !readOnly
+  );
+  const proofRefs = { ...refs, n: String(pbIndex + 1) };
+  const label = fillPrompt(template.label, proofRefs);
 
   return (
     <>
-      <div className={`proof-header ${depthClass}`}>
-        <span className="proof-header-text">PROOF {pbIndex + 1}</span>
+      <div className={`proof-header ${depthClass} ${isOver ? 'drop-target-over' : ''}`} {...dropProps}>
+        <span className="proof-header-text">{label}</span>
+        {evidence && <EvidenceBadge match={evidence} />}
+        {(setProofBlockSource || readOnly) && (
+          <ProofSource
+            proofBlock={proofBlock}
+            sources={sources}
+            citationStyle={citationStyle}
+            onChange={(sourceId, page) => setProofBlockSource?.(bodyId, proofBlock.id, sourceId, page)}
+            readOnly={readOnly}
+          />
+        )}
         {!readOnly && (
           <div className="proof-header-actions">
+            <DragHandle
+              dragType={DRAG_TYPE_PROOF}
+              itemId={proofBlock.id}
+              index={pbIndex}
+              count={pbCount}
+              onMove={(toIndex) => moveProofBlock(bodyId, proofBlock.id, toIndex)}
+              label={label.toLowerCase()}
+            />
             <AddRemoveActions
               canRemove={!isOnly}
               canAdd={isLast}
@@ -209,49 +309,18 @@ function ProofBlockRows({
         )}
       </div>
 
-      <PurposeCell label="Evidence" className={depthClass}>
-        Supporting evidence
-      </PurposeCell>
-      <OutlineCell
-        value={proofBlock.quote}
-        onChange={(value) => updateProofBlock(bodyId, proofBlock.id, 'quote', value)}
-        placeholderContent={
-          <>
-            What quote or other evidence supports <span className="ref">{claimText}</span>?
-          </>
-        }
-        className={depthClass}
-        readOnly={readOnly}
-        {...cp(`${proofBlock.id}-quote`)}
-      />
-
-      <PurposeCell label="Analysis" className={depthClass}>
-        Interpret the evidence
-      </PurposeCell>
-      <OutlineCell
-        value={proofBlock.analysis}
-        onChange={(value) => updateProofBlock(bodyId, proofBlock.id, 'analysis', value)}
-        placeholder="What does this evidence show? Explain its significance."
-        className={depthClass}
-        readOnly={readOnly}
-        {...cp(`${proofBlock.id}-analysis`)}
-      />
-
-      <PurposeCell label="Connection" className={`${depthClass} proof-last-row`}>
-        Why this proves <span className="ref">{claimText}</span>
-      </PurposeCell>
-      <OutlineCell
-        value={proofBlock.connection}
-        onChange={(value) => updateProofBlock(bodyId, proofBlock.id, 'connection', value)}
-        placeholderContent={
-          <>
-            How does this prove <span className="ref">{claimText}</span>?
-          </>
-        }
-        className={`${depthClass} proof-last-row`}
-        readOnly={readOnly}
-        {...cp(`${proofBlock.id}-connection`)}
-      />
+      {template.fields.map((field, i) => (
+        <FieldRow
+          key={field.key}
+          field={field}
+          refs={proofRefs}
+          value={proofBlock[field.key]}
+          onChange={(value) => updateProofBlock(bodyId, proofBlock.id, field.key, value)}
+          readOnly={readOnly}
+          className={i === template.fields.length - 1 ? `${depthClass} proof-last-row` : depthClass}
+          {...cp(`${proofBlock.id}-${field.key}`)}
+        />
+      ))}
     </>
   );
 }
@@ -1,6 +1,16 @@
-import { useRef, useEffect, ReactNode, ChangeEvent, RefObject } from 'react';
+import { useRef, useEffect, useMemo, useState, ReactNode, ChangeEvent, RefObject, CSSProperties } from 'react';
 import { CopyButton } from './CopyButton';
+import { DraftFromOutline } from './DraftFromOutline';
+import { StyleHighlights, StyleHintList, StyleToggle } from './StyleHints';
+import { EvidenceSummary } from './Evidence';
 import { CommentIndicator, type CommentProps } from './Comments';
+import { CellPresence, type PresenceProps } from './Presence';
+import { CellDiagnostics, type LintProps } from './Lint';
+import { getPresenceColor } from '../models/presence';
+import { countWords, isOverLimit } from '../models/stats';
+import { analyzeStyle } from '../models/style';
+import type { EvidenceCoverage } from '../models/evidence';
+import type { DropTargetProps } from './DragHandle';
 
 function useAutoResize(value: string, _placeholder?: string, disabled = false): RefObject<HTMLTextAreaElement | null> {
   const ref = useRef<HTMLTextAreaElement | null>(null);
@@ -56,11 +66,12 @@ interface PurposeCellProps {
   children: ReactNode;
   className?: string;
   actions?: ReactNode;
+  dropProps?: DropTargetProps;
 }
 
-export function PurposeCell({ label, children, className = '', actions }: PurposeCellProps) {
+export function PurposeCell({ label, children, className = '', actions, dropProps }: PurposeCellProps) {
   return (
-    <div className={`purpose-cell ${className}`}>
+    <div className={`purpose-cell ${className}`} {...dropProps}>
       {label && (
         <div className="purpose-header">
           <span className="purpose-label">{label}</span>
@@ -72,6 +83,17 @@ export function PurposeCell({ label, children, className = '', actions }: Purpos
   );
 }
 
+/**
+ * Wrapper class and border color for a cell other people have focused
+ */
+function presenceStyle(presence: PresenceProps['presence']): { className: string; style?: CSSProperties } {
+  if (!presence?.length) return { className: '' };
+  return {
+    className: 'has-presence',
+    style: { '--presence-color': getPresenceColor(presence[0].uid) } as CSSProperties,
+  };
+}
+
 function getSelectedText(ref: RefObject<HTMLTextAreaElement | null>): string | undefined {
   const textarea = ref.current;
   if (!textarea) return undefined;
@@ -79,7 +101,7 @@ function getSelectedText(ref: RefObject<HTMLTextAreaElement | null>): string | u
   return selectionStart !== selectionEnd ? textarea.value.substring(selectionStart, selectionEnd) : undefined;
 }
 
-interface OutlineCellProps extends CommentProps {
+interface OutlineCellProps extends CommentProps, PresenceProps, LintProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
@@ -98,13 +120,18 @@ export function OutlineCell({
   commentCount,
   hasUnresolvedComments,
   onCommentClick,
+  presence,
+  onFocusChange,
+  diagnostics,
 }: OutlineCellProps) {
   const textareaRef = useAutoResize(value, placeholder);
   const hasContent = value && value.length > 0;
+  const presenceProps = presenceStyle(presence);
 
   return (
     <div
-      className={`outline-cell-wrapper ${className} ${hasContent ? 'has-content' : ''}`}
+      className={`outline-cell-wrapper ${className} ${hasContent ? 'has-content' : ''} ${presenceProps.className}`}
+      style={presenceProps.style}
       data-placeholder={placeholder}
     >
       <textarea
@@ -112,10 +139,14 @@ export function OutlineCell({
         className={`outline-cell ${className}`}
         value={value}
         onChange={(e: ChangeEvent<HTMLTextAreaElement>) => !readOnly && onChange(e.target.value)}
+        onFocus={() => onFocusChange?.(true)}
+        onBlur={() => onFocusChange?.(false)}
         placeholder={placeholderContent ? '' : placeholder}
         readOnly={readOnly}
       />
       {placeholderContent && <div className="outline-placeholder">{placeholderContent}</div>}
+      {presence && <CellPresence presence={presence} />}
+      {diagnostics && <CellDiagnostics diagnostics={diagnostics} />}
       {onCommentClick && (
         <CommentIndicator
           count={commentCount ?? 0}
@@ -128,12 +159,27 @@ export function OutlineCell({
   );
 }
 
-interface ParagraphCellProps extends CommentProps {
+interface ParagraphCellProps extends CommentProps, PresenceProps, LintProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
   rowSpan: number;
   readOnly?: boolean;
+  /** Build a paragraph from the section's outline, for "Draft from outline" */
+  getDraft?: () => string;
+  /** Turns the word count red once the paragraph goes over it */
+  wordLimit?: number;
+  /** How many of the outline's quotes the paragraph uses */
+  evidence?: EvidenceCoverage | null;
+}
+
+function WordCount({ text, limit }: { text: string; limit?: number }) {
+  const words = countWords(text);
+  return (
+    <span className={`paragraph-word-count ${isOverLimit(words, limit) ? 'word-count-over' : ''}`}>
+      {limit !== undefined ? `${words} / ${limit}` : words} {words === 1 && limit === undefined ? 'word' : 'words'}
+    </span>
+  );
 }
 
 export function ParagraphCell({
@@ -142,24 +188,51 @@ export function ParagraphCell({
   placeholder,
   rowSpan,
   readOnly = false,
+  getDraft,
+  wordLimit,
+  evidence,
   commentCount,
   hasUnresolvedComments,
   onCommentClick,
+  presence,
+  onFocusChange,
+  diagnostics,
 }: ParagraphCellProps) {
   const textareaRef = useAutoResize(value, placeholder);
   const hasContent = value && value.trim().length > 0;
+  const presenceProps = presenceStyle(presence);
+  const [showStyle, setShowStyle] = useState(false);
+  const style = useMemo(() => analyzeStyle(value), [value]);
+  const styleShown = showStyle && !!hasContent;
 
   return (
-    <div className="paragraph-cell-wrapper" style={{ gridRow: `span ${rowSpan}` }}>
+    <div
+      className={`paragraph-cell-wrapper ${styleShown ? 'style-hints-shown' : ''} ${presenceProps.className}`}
+      style={{ gridRow: `span ${rowSpan}`, ...presenceProps.style }}
+    >
+      {styleShown && <StyleHighlights text={value} hints={style.hints} />}
       <textarea
         ref={textareaRef}
         className="paragraph-cell"
         value={value}
         onChange={(e: ChangeEvent<HTMLTextAreaElement>) => !readOnly && onChange(e.target.value)}
+        onFocus={() => onFocusChange?.(true)}
+        onBlur={() => onFocusChange?.(false)}
         placeholder={placeholder}
         readOnly={readOnly}
       />
+      {styleShown && <StyleHintList text={value} hints={style.hints} />}
       {hasContent && <CopyButton text={value} />}
+      {(hasContent || wordLimit !== undefined) && (
+        <div className="paragraph-cell-footer">
+          {hasContent && <StyleToggle report={style} active={showStyle} onToggle={() => setShowStyle(!showStyle)} />}
+          {evidence && <EvidenceSummary coverage={evidence} />}
+          <WordCount text={value} limit={wordLimit} />
+        </div>
+      )}
+      {getDraft && !readOnly && <DraftFromOutline getDraft={getDraft} current={value} onInsert={onChange} />}
+      {presence && <CellPresence presence={presence} />}
+      {diagnostics && <CellDiagnostics diagnostics={diagnostics} />}
       {onCommentClick && (
         <CommentIndicator
           count={commentCount ?? 0}
@@ -1,61 +1,77 @@
-import { OutlineCell, ParagraphCell, PurposeCell, SectionLabel } from './Cells';
+import { ParagraphCell, SectionLabel } from './Cells';
+import { FieldRow } from './TemplateFields';
 import { makeCommentProps, type CommentHelpers } from './Comments';
+import { makePresenceProps, type PresenceHelpers } from './Presence';
+import { makeLintProps, type LintHelpers } from './Lint';
 import type { Conclusion, Claim } from '../models/essay';
+import { DEFAULT_PHRASE_BANK, fillPrompt, type ConclusionTemplate, type PhraseBank } from '../models/template';
+import { draftConclusionParagraph } from '../models/outlineDraft';
 
 interface ConclusionSectionProps {
   conclusion: Conclusion;
+  template: ConclusionTemplate;
   thesis: string;
   claims: Claim[];
   updateConclusion: (field: keyof Conclusion, value: string) => void;
   sectionCollapsed: boolean;
   onToggleSection: () => void;
+  /** Transition phrases for "Draft from outline" */
+  phrases?: PhraseBank;
+  /** Words allowed in the paragraph, from the assignment's word limits */
+  paragraphWordLimit?: number;
   readOnly?: boolean;
   commentHelpers?: CommentHelpers;
+  presenceHelpers?: PresenceHelpers;
+  lintHelpers?: LintHelpers;
 }
 
 export function ConclusionSection({
-  conclusion, thesis, claims, updateConclusion,
-  sectionCollapsed, onToggleSection, readOnly = false, commentHelpers,
+  conclusion, template, thesis, claims, updateConclusion,
+  sectionCollapsed, onToggleSection, phrases = DEFAULT_PHRASE_BANK, paragraphWordLimit, readOnly = false, commentHelpers, presenceHelpers, lintHelpers,
 }: ConclusionSectionProps) {
-  const cp = (blockId: string) => makeCommentProps(commentHelpers, blockId, 'conclusion');
-  const thesisText = thesis || '[Thesis]';
-  const claimTexts = claims.map((c, i) => c.text || `[Claim ${i + 1}]`);
-  const ClaimRefs = () => <>{claimTexts.map((ct, i) => <span key={i} className="ref">{ct}{i < claimTexts.length - 1 ? ', ' : ''}</span>)}</>;
+  const cp = (blockId: string) => ({
+    ...makeCommentProps(commentHelpers, blockId, 'conclusion'),
+    ...makePresenceProps(presenceHelpers, blockId),
+    ...makeLintProps(lintHelpers, blockId),
+  });
+  const refs = {
+    thesis: thesis || '[Thesis]',
+    claims: claims.map((c, i) => c.text || `[Claim ${i + 1}]`),
+  };
+  const rowCount = template.fields.length;
+
+  const renderField = (field: ConclusionTemplate['fields'][number]) => (
+    <FieldRow
+      key={field.key}
+      field={field}
+      refs={refs}
+      value={conclusion[field.key]}
+      onChange={(v) => updateConclusion(field.key, v)}
+      readOnly={readOnly}
+      {...cp(`conclusion-${field.key}`)}
+    />
+  );
+  const [firstField, ...otherFields] = template.fields;
 
   return (
     <div className={`section section-conclusion ${sectionCollapsed ? 'section-collapsed' : ''}`}>
-      <div className="section-grid" style={{ gridTemplateRows: 'repeat(2, auto)' }}>
-        <SectionLabel rowSpan={2} onClick={onToggleSection} collapsed={sectionCollapsed}>Conclusion</SectionLabel>
+      <div className="section-grid" style={{ gridTemplateRows: `repeat(${rowCount}, auto)` }}>
+        <SectionLabel rowSpan={rowCount} onClick={onToggleSection} collapsed={sectionCollapsed}>
+          {template.label}
+        </SectionLabel>
 
-        <PurposeCell label="Restatement">
-          <span className="ref">{thesisText}</span> because <ClaimRefs />
-        </PurposeCell>
-        <OutlineCell
-          value={conclusion.restatement || ''}
-          onChange={(v) => updateConclusion('restatement', v)}
-          placeholderContent={<>How will you restate <span className="ref">{thesisText}</span> and your claims (<ClaimRefs />) in your own words?</>}
-          readOnly={readOnly}
-          {...cp('conclusion-restatement')}
-        />
+        {renderField(firstField)}
         <ParagraphCell
-          rowSpan={2}
+          rowSpan={rowCount}
           value={conclusion.paragraph}
           onChange={(v) => updateConclusion('paragraph', v)}
-          placeholder={`Write your conclusion restating "${thesis || '[thesis]'}" and explaining why it matters...`}
+          placeholder={fillPrompt(template.paragraph, refs)}
           readOnly={readOnly}
+          getDraft={() => draftConclusionParagraph(conclusion, template, phrases)}
+          wordLimit={paragraphWordLimit}
           {...cp('conclusion-paragraph')}
         />
-
-        <PurposeCell label="So What">
-          Future implications of <span className="ref">{thesisText}</span> being true
-        </PurposeCell>
-        <OutlineCell
-          value={conclusion.soWhat}
-          onChange={(v) => updateConclusion('soWhat', v)}
-          placeholderContent={<>What are the future implications of <span className="ref">{thesisText}</span> being true?</>}
-          readOnly={readOnly}
-          {...cp('conclusion-soWhat')}
-        />
+        {otherFields.map(renderField)}
       </div>
     </div>
   );
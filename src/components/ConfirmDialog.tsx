@@ -6,9 +6,19 @@ interface ConfirmDialogProps {
   message: string;
   onConfirm: () => void;
   onCancel: () => void;
+  confirmLabel?: string;
+  destructive?: boolean;
 }
 
-export function ConfirmDialog({ isOpen, title, message, onConfirm, onCancel }: ConfirmDialogProps) {
+export function ConfirmDialog({
+  isOpen,
+  title,
+  message,
+  onConfirm,
+  onCancel,
+  confirmLabel = 'Delete',
+  destructive = true,
+}: ConfirmDialogProps) {
   if (!isOpen) return null;
 
   return (
@@ -20,8 +30,11 @@ export function ConfirmDialog({ isOpen, title, message, onConfirm, onCancel }: C
           <button className="confirm-btn confirm-btn-cancel" onClick={onCancel}>
             Cancel
           </button>
-          <button className="confirm-btn confirm-btn-delete" onClick={onConfirm}>
-            Delete
+          <button
+            className={`confirm-btn ${destructive ? 'confirm-btn-delete' : 'confirm-btn-primary'}`}
+            onClick={onConfirm}
+          >
+            {confirmLabel}
           </button>
         </div>
       </div>
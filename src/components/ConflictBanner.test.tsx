@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConflictBanner } from './ConflictBanner';
+import type { FieldConflict } from '../models/merge';
+
+const conflicts: FieldConflict[] = [
+  { key: 'intro.thesis', label: 'Intro · Thesis', local: 'Mine', remote: 'Theirs' },
+  { key: 'claim.c1', label: 'Claim 1', local: 'Mine', remote: '' },
+];
+
+describe('ConflictBanner', () => {
+  it('renders nothing without conflicts', () => {
+    const { container } = render(<ConflictBanner conflicts={[]} onResolve={vi.fn()} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('lists each conflicting field with the remote value', () => {
+    render(<ConflictBanner conflicts={conflicts} onResolve={vi.fn()} />);
+    expect(screen.getByText('Intro · Thesis')).toBeTruthy();
+    expect(screen.getByText('Theirs: Theirs')).toBeTruthy();
+    expect(screen.getByText('Theirs: (empty)')).toBeTruthy();
+  });
+
+  it('resolves a conflict with the chosen side', () => {
+    const onResolve = vi.fn();
+    render(<ConflictBanner conflicts={conflicts} onResolve={onResolve} />);
+
+    fireEvent.click(screen.getAllByText('Use theirs')[0]);
+    fireEvent.click(screen.getAllByText('Keep mine')[1]);
+
+    expect(onResolve).toHaveBeenNthCalledWith(1, 'intro.thesis', 'remote');
+    expect(onResolve).toHaveBeenNthCalledWith(2, 'claim.c1', 'local');
+  });
+});
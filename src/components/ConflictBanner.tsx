@@ -0,0 +1,48 @@
+import type { FieldConflict } from '../models/merge';
+
+const PREVIEW_LENGTH = 80;
+
+interface ConflictBannerProps {
+  conflicts: FieldConflict[];
+  onResolve: (key: string, choice: 'local' | 'remote') => void;
+}
+
+function preview(text: string): string {
+  if (!text) return '(empty)';
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Lists fields someone else changed while you were editing them.
+ * Your version stays in the editor until you choose.
+ */
+export function ConflictBanner({ conflicts, onResolve }: ConflictBannerProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="conflict-banner" role="alert">
+      <p className="conflict-banner-title">
+        Someone else edited {conflicts.length === 1 ? 'a field' : 'fields'} you were changing. Your
+        version is kept until you choose.
+      </p>
+      <ul className="conflict-list">
+        {conflicts.map((conflict) => (
+          <li key={conflict.key} className="conflict-item">
+            <div className="conflict-details">
+              <span className="conflict-label">{conflict.label}</span>
+              <span className="conflict-remote">Theirs: {preview(conflict.remote)}</span>
+            </div>
+            <div className="conflict-actions">
+              <button className="btn-conflict" onClick={() => onResolve(conflict.key, 'local')}>
+                Keep mine
+              </button>
+              <button className="btn-conflict btn-conflict-remote" onClick={() => onResolve(conflict.key, 'remote')}>
+                Use theirs
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
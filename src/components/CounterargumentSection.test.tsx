@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CounterargumentSection, AddCounterargument } from './CounterargumentSection';
+import { createCounterargument, type Counterargument } from '../models/essay';
+import { TEMPLATES, getCounterargumentTemplate } from '../models/template';
+
+const template = getCounterargumentTemplate(TEMPLATES[0]);
+
+// Cells auto-resize with ResizeObserver, which jsdom does not provide
+beforeAll(() => {
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    disconnect() {}
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+function renderSection(overrides: Partial<Counterargument> = {}, readOnly = false) {
+  const props = {
+    counterargument: { ...createCounterargument(), ...overrides },
+    template,
+    thesis: 'School should start later',
+    updateCounterargument: vi.fn(),
+    removeCounterargument: vi.fn(),
+    sectionCollapsed: false,
+    onToggleSection: vi.fn(),
+    readOnly,
+    commentHelpers: {
+      getBlockStats: () => ({ count: 0, hasUnresolved: false }),
+      onCommentClick: vi.fn(),
+    },
+  };
+  render(<CounterargumentSection {...props} />);
+  return props;
+}
+
+describe('CounterargumentSection', () => {
+  it('references the thesis in its prompts', () => {
+    renderSection();
+    expect(screen.getAllByText('School should start later').length).toBeGreaterThan(0);
+    expect(screen.getByText('Opposing View')).toBeTruthy();
+    expect(screen.getByText('Concession')).toBeTruthy();
+    expect(screen.getByText('Rebuttal')).toBeTruthy();
+  });
+
+  it('updates the edited field', () => {
+    const props = renderSection();
+    fireEvent.change(screen.getByPlaceholderText('What part of the opposing view is fair or partly true?'), {
+      target: { value: 'Mornings are quieter' },
+    });
+    expect(props.updateCounterargument).toHaveBeenCalledWith('concession', 'Mornings are quieter');
+  });
+
+  it('removes an empty section without asking', () => {
+    const props = renderSection();
+    fireEvent.click(screen.getByTitle('Remove counterargument'));
+    expect(props.removeCounterargument).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks before removing a section with content', () => {
+    const props = renderSection({ rebuttal: 'But sleep matters more' });
+    fireEvent.click(screen.getByTitle('Remove counterargument'));
+    expect(props.removeCounterargument).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+    expect(props.removeCounterargument).toHaveBeenCalledTimes(1);
+  });
+
+  it('attaches comments with the counterargument block type', () => {
+    const props = renderSection();
+    fireEvent.click(screen.getAllByTitle('Add comment')[0]);
+    expect(props.commentHelpers.onCommentClick).toHaveBeenCalledWith(
+      'counterargument-opposingView',
+      'counterargument',
+      undefined
+    );
+  });
+
+  it('uses the labels and prompts of the given template', () => {
+    const research = TEMPLATES.find((t) => t.id === 'research')!.counterargument!;
+    render(
+      <CounterargumentSection
+        counterargument={createCounterargument()}
+        template={research}
+        thesis="Homework helps"
+        updateCounterargument={vi.fn()}
+        removeCounterargument={vi.fn()}
+        sectionCollapsed={false}
+        onToggleSection={vi.fn()}
+      />
+    );
+    expect(screen.getByText('Limitations')).toBeTruthy();
+    expect(screen.getByTitle('Remove counterevidence')).toBeTruthy();
+  });
+
+  it('hides the remove action when read-only', () => {
+    renderSection({}, true);
+    expect(screen.queryByTitle('Remove counterargument')).toBeNull();
+    expect(screen.queryByTitle('Draft from outline')).toBeNull();
+  });
+});
+
+describe('Draft from outline', () => {
+  const outline = { opposingView: 'later starts hurt sports', rebuttal: 'rested athletes play better' };
+  const draft = 'Some may argue that later starts hurt sports. However, rested athletes play better.';
+
+  it('previews the draft and inserts it only once confirmed', () => {
+    const props = renderSection(outline);
+    fireEvent.click(screen.getByTitle('Draft from outline'));
+
+    expect(screen.getByText(draft)).toBeTruthy();
+    expect(props.updateCounterargument).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Insert' }));
+    expect(props.updateCounterargument).toHaveBeenCalledWith('paragraph', draft);
+    expect(screen.queryByText('Draft from Outline')).toBeNull();
+  });
+
+  it('leaves the paragraph alone when cancelled', () => {
+    const props = renderSection(outline);
+    fireEvent.click(screen.getByTitle('Draft from outline'));
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(props.updateCounterargument).not.toHaveBeenCalled();
+  });
+
+  it('replaces or adds to a paragraph that already has text', () => {
+    const props = renderSection({ ...outline, paragraph: 'My own start.' });
+    fireEvent.click(screen.getByTitle('Draft from outline'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add to end' }));
+    expect(props.updateCounterargument).toHaveBeenLastCalledWith('paragraph', `My own start.\n\n${draft}`);
+
+    fireEvent.click(screen.getByTitle('Draft from outline'));
+    fireEvent.click(screen.getByRole('button', { name: 'Replace paragraph' }));
+    expect(props.updateCounterargument).toHaveBeenLastCalledWith('paragraph', draft);
+  });
+
+  it('explains when the outline is empty', () => {
+    renderSection();
+    fireEvent.click(screen.getByTitle('Draft from outline'));
+
+    expect(screen.getByText(/Nothing to draft yet/)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Insert' })).toBeNull();
+  });
+});
+
+describe('AddCounterargument', () => {
+  it('calls onAdd', () => {
+    const onAdd = vi.fn();
+    render(<AddCounterargument label={template.label} onAdd={onAdd} />);
+    fireEvent.click(screen.getByRole('button', { name: '+ Add counterargument' }));
+    expect(onAdd).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { ParagraphCell, SectionLabel } from './Cells';
+import { ConfirmDialog } from './ConfirmDialog';
+import { FieldRow } from './TemplateFields';
+import { makeCommentProps, type CommentHelpers } from './Comments';
+import { makePresenceProps, type PresenceHelpers } from './Presence';
+import { makeLintProps, type LintHelpers } from './Lint';
+import type { Counterargument } from '../models/essay';
+import { DEFAULT_PHRASE_BANK, fillPrompt, type CounterargumentTemplate, type PhraseBank } from '../models/template';
+import { draftCounterargumentParagraph } from '../models/outlineDraft';
+
+interface CounterargumentSectionProps {
+  counterargument: Counterargument;
+  template: CounterargumentTemplate;
+  thesis: string;
+  updateCounterargument: (field: keyof Counterargument, value: string) => void;
+  removeCounterargument: () => void;
+  sectionCollapsed: boolean;
+  onToggleSection: () => void;
+  /** Transition phrases for "Draft from outline" */
+  phrases?: PhraseBank;
+  /** Words allowed in the paragraph, from the assignment's word limits */
+  paragraphWordLimit?: number;
+  readOnly?: boolean;
+  commentHelpers?: CommentHelpers;
+  presenceHelpers?: PresenceHelpers;
+  lintHelpers?: LintHelpers;
+}
+
+export function CounterargumentSection({
+  counterargument, template, thesis, updateCounterargument, removeCounterargument,
+  sectionCollapsed, onToggleSection, phrases = DEFAULT_PHRASE_BANK, paragraphWordLimit, readOnly = false, commentHelpers, presenceHelpers, lintHelpers,
+}: CounterargumentSectionProps) {
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const cp = (blockId: string) => ({
+    ...makeCommentProps(commentHelpers, blockId, 'counterargument'),
+    ...makePresenceProps(presenceHelpers, blockId),
+    ...makeLintProps(lintHelpers, blockId),
+  });
+  const refs = { thesis: thesis || '[Thesis]' };
+  const rowCount = template.fields.length;
+  const sectionName = template.label.toLowerCase();
+
+  const handleRemove = () => {
+    const hasContent = Object.values(counterargument).some((v) => v?.trim());
+    if (hasContent) {
+      setConfirmRemove(true);
+    } else {
+      removeCounterargument();
+    }
+  };
+
+  const renderField = (field: CounterargumentTemplate['fields'][number], isFirst = false) => (
+    <FieldRow
+      key={field.key}
+      field={field}
+      refs={refs}
+      value={counterargument[field.key]}
+      onChange={(v) => updateCounterargument(field.key, v)}
+      readOnly={readOnly}
+      actions={isFirst && !readOnly ? (
+        <button className="btn-remove" onClick={handleRemove} title={`Remove ${sectionName}`}>
+          -
+        </button>
+      ) : undefined}
+      {...cp(`counterargument-${field.key}`)}
+    />
+  );
+  const [firstField, ...otherFields] = template.fields;
+
+  return (
+    <div className={`section section-counterargument ${sectionCollapsed ? 'section-collapsed' : ''}`}>
+      <div className="section-grid" style={{ gridTemplateRows: `repeat(${rowCount}, auto)` }}>
+        <SectionLabel rowSpan={rowCount} onClick={onToggleSection} collapsed={sectionCollapsed}>
+          {template.label}
+        </SectionLabel>
+
+        {renderField(firstField, true)}
+        <ParagraphCell
+          rowSpan={rowCount}
+          value={counterargument.paragraph}
+          onChange={(v) => updateCounterargument('paragraph', v)}
+          placeholder={fillPrompt(template.paragraph, refs)}
+          readOnly={readOnly}
+          getDraft={() => draftCounterargumentParagraph(counterargument, template, phrases)}
+          wordLimit={paragraphWordLimit}
+          {...cp('counterargument-paragraph')}
+        />
+        {otherFields.map((field) => renderField(field))}
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmRemove}
+        title={`Remove ${template.label}?`}
+        message={`This ${sectionName} section has content. Are you sure you want to remove it?`}
+        confirmLabel="Remove"
+        onConfirm={() => { removeCounterargument(); setConfirmRemove(false); }}
+        onCancel={() => setConfirmRemove(false)}
+      />
+    </div>
+  );
+}
+
+interface AddCounterargumentProps {
+  /** Section name from the template, e.g. "Counterargument" */
+  label: string;
+  onAdd: () => void;
+}
+
+export function AddCounterargument({ label, onAdd }: AddCounterargumentProps) {
+  return (
+    <div className="add-section-row">
+      <button className="add-section-btn" onClick={onAdd}>
+        + Add {label.toLowerCase()}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState, MouseEvent } from 'react';
+
+interface DraftFromOutlineProps {
+  /** Build the draft from the section's current outline */
+  getDraft: () => string;
+  /** The paragraph cell's current text */
+  current: string;
+  onInsert: (text: string) => void;
+}
+
+/**
+ * Paragraph cell button that previews a paragraph drafted from the outline and
+ * only writes it into the cell once the student confirms
+ */
+export function DraftFromOutline({ getDraft, current, onInsert }: DraftFromOutlineProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const hasParagraph = current.trim().length > 0;
+
+  const handleOpen = (e: MouseEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDraft(getDraft());
+  };
+
+  const insert = (text: string) => {
+    onInsert(text);
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <button className="draft-outline-btn" onClick={handleOpen} title="Draft from outline">
+        ✎
+      </button>
+
+      {draft !== null && (
+        <div className="modal-overlay" onClick={() => setDraft(null)}>
+          <div className="modal-content draft-outline-dialog" onClick={(e: MouseEvent) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Draft from Outline</h2>
+              <button className="modal-close" onClick={() => setDraft(null)} title="Close">
+                &times;
+              </button>
+            </div>
+
+            {draft ? (
+              <>
+                <p className="export-note">
+                  A starting point built from this section's outline. Rewrite it in your own words after inserting.
+                </p>
+                <p className="draft-outline-preview">{draft}</p>
+                {hasParagraph && (
+                  <p className="export-note">This paragraph already has text. Replace it, or add the draft after it.</p>
+                )}
+              </>
+            ) : (
+              <p className="export-note">Nothing to draft yet. Fill in the Outline column for this section first.</p>
+            )}
+
+            <div className="share-dialog-actions">
+              <button type="button" className="btn-share-cancel" onClick={() => setDraft(null)}>
+                Cancel
+              </button>
+              {draft && hasParagraph && (
+                <button type="button" className="btn-share-cancel" onClick={() => insert(`${current.trimEnd()}\n\n${draft}`)}>
+                  Add to end
+                </button>
+              )}
+              {draft && (
+                <button type="button" className="btn-share-save" onClick={() => insert(draft)}>
+                  {hasParagraph ? 'Replace paragraph' : 'Insert'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DraftImportDialog } from './DraftImportDialog';
+import { buildDocx } from '../export/docx';
+import { createEssay, type Essay } from '../models/essay';
+
+const DRAFT = 'My intro.\n\nFirst point. More.\n\nSecond point.\n\nMy conclusion.';
+
+describe('DraftImportDialog', () => {
+  const renderDialog = (onCreate = vi.fn().mockResolvedValue(undefined)) =>
+    render(<DraftImportDialog isOpen={true} onCancel={vi.fn()} onCreate={onCreate} />);
+
+  const created = (onCreate: ReturnType<typeof vi.fn>) => onCreate.mock.calls[0] as [string, Essay];
+
+  it('renders nothing when closed', () => {
+    const { container } = render(<DraftImportDialog isOpen={false} onCancel={vi.fn()} onCreate={vi.fn()} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('suggests a mapping for pasted text and creates the essay', async () => {
+    const onCreate = vi.fn().mockResolvedValue(undefined);
+    renderDialog(onCreate);
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Mercy' } });
+    fireEvent.change(screen.getByLabelText('Paste your draft'), { target: { value: DRAFT } });
+    fireEvent.click(screen.getByText('Review paragraphs'));
+
+    expect(screen.getByLabelText('Paragraph 1')).toHaveValue('intro');
+    expect(screen.getByLabelText('Paragraph 2')).toHaveValue('body');
+    expect(screen.getByLabelText('Paragraph 4')).toHaveValue('conclusion');
+    fireEvent.click(screen.getByText('Create essay'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalled());
+    const [title, essay] = created(onCreate);
+    expect(title).toBe('Mercy');
+    expect(essay.intro.paragraph).toBe('My intro.');
+    expect(essay.intro.claims.map((c) => c.text)).toEqual(['First point.', 'Second point.']);
+    expect(essay.conclusion.paragraph).toBe('My conclusion.');
+  });
+
+  it('lets the user change roles and join paragraphs before creating', async () => {
+    const onCreate = vi.fn().mockResolvedValue(undefined);
+    renderDialog(onCreate);
+
+    fireEvent.change(screen.getByLabelText('Paste your draft'), { target: { value: DRAFT } });
+    fireEvent.click(screen.getByText('Review paragraphs'));
+    fireEvent.click(screen.getAllByText('Join with previous')[1]);
+    fireEvent.change(screen.getByLabelText('Paragraph 3'), { target: { value: 'skip' } });
+    fireEvent.click(screen.getByText('Create essay'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalled());
+    const [title, essay] = created(onCreate);
+    expect(title).toBe('Untitled');
+    expect(essay.bodyParagraphs.map((b) => b.paragraph)).toEqual(['First point. More.\n\nSecond point.']);
+    expect(essay.conclusion.paragraph).toBe('');
+  });
+
+  it('reads a .docx file and names the essay after it', async () => {
+    const essay = createEssay();
+    essay.intro.paragraph = 'From Word.';
+    const docx = buildDocx(essay, { title: 'Title', author: 'Ada', date: new Date() }, { mlaHeader: false });
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Or open a .docx or .txt file'), {
+      target: { files: [new File([docx as BlobPart], 'My draft.docx')] },
+    });
+
+    await waitFor(() => expect(screen.getByLabelText('Paste your draft')).toHaveValue('Title\n\nAda\n\nFrom Word.'));
+    expect(screen.getByLabelText('Title')).toHaveValue('My draft');
+  });
+
+  it('explains when a file cannot be read', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Or open a .docx or .txt file'), {
+      target: { files: [new File(['not a zip'], 'broken.docx')] },
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not read broken.docx.');
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,224 @@
+import { useState, useEffect, ChangeEvent, FormEvent, MouseEvent } from 'react';
+import { TEMPLATES, type TemplateId } from '../models/template';
+import type { Essay } from '../models/essay';
+import {
+  createEssayFromDraft,
+  DRAFT_ROLES,
+  joinWithPrevious,
+  splitDraft,
+  suggestDraftRoles,
+  type DraftParagraph,
+  type DraftRole,
+} from '../import/draft';
+import { extractDocxText } from '../import/docxText';
+import { readFileBytes, readFileText } from '../utils/readFile';
+
+const DRAFT_FILE_TYPES = '.docx,.txt,text/plain,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type Step = 'source' | 'review';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * What the reviewed mapping will create, e.g. "Intro, 3 body paragraphs, conclusion"
+ */
+function describeMapping(paragraphs: DraftParagraph[]): string {
+  const has = (role: DraftRole) => paragraphs.some((p) => p.role === role);
+  const bodies = paragraphs.filter((p) => p.role === 'body').length;
+  const parts = [
+    has('intro') && 'intro',
+    bodies > 0 && `${plural(bodies, 'body paragraph')}, each with a claim from its first sentence`,
+    has('counterargument') && 'counterargument',
+    has('conclusion') && 'conclusion',
+  ].filter(Boolean);
+  return parts.length > 0 ? `Creates: ${parts.join('; ')}.` : 'Every paragraph is left out.';
+}
+
+async function readDraftFile(file: File): Promise<string> {
+  if (file.name.toLowerCase().endsWith('.docx')) {
+    return extractDocxText(await readFileBytes(file));
+  }
+  return readFileText(file);
+}
+
+interface DraftImportDialogProps {
+  isOpen: boolean;
+  onCancel: () => void;
+  /** Save the essay built from the draft; rejects if it could not be saved */
+  onCreate: (title: string, essay: Essay) => Promise<void>;
+}
+
+export function DraftImportDialog({ isOpen, onCancel, onCreate }: DraftImportDialogProps) {
+  const [step, setStep] = useState<Step>('source');
+  const [title, setTitle] = useState('');
+  const [templateId, setTemplateId] = useState<TemplateId>('argument');
+  const [text, setText] = useState('');
+  const [paragraphs, setParagraphs] = useState<DraftParagraph[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('source');
+    setTitle('');
+    setTemplateId('argument');
+    setText('');
+    setParagraphs([]);
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      setText(await readDraftFile(file));
+      setTitle((prev) => prev || file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      console.error('Failed to read draft:', err);
+      setError(`Could not read ${file.name}. Choose a .docx or .txt file, or paste the text instead.`);
+    }
+  };
+
+  const handleReview = () => {
+    setParagraphs(suggestDraftRoles(splitDraft(text)));
+    setStep('review');
+  };
+
+  const setRole = (index: number, role: DraftRole) =>
+    setParagraphs((prev) => prev.map((p, i) => (i === index ? { ...p, role } : p)));
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      await onCreate(title.trim() || 'Untitled', createEssayFromDraft(paragraphs, templateId));
+    } catch (err) {
+      console.error('Failed to import draft:', err);
+      setError('Could not save the essay. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content draft-import-dialog" onClick={(e: MouseEvent) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{step === 'source' ? 'Import a Draft' : 'Review Paragraphs'}</h2>
+          <button className="modal-close" onClick={onCancel} title="Cancel">
+            &times;
+          </button>
+        </div>
+
+        {step === 'source' ? (
+          <div className="export-form">
+            <label className="export-field">
+              <span>Title</span>
+              <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </label>
+            <label className="export-field">
+              <span>Essay type</span>
+              <select value={templateId} onChange={(e) => setTemplateId(e.target.value as TemplateId)}>
+                {TEMPLATES.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="export-field">
+              <span>Paste your draft</span>
+              <textarea
+                className="draft-import-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={10}
+                placeholder="Separate paragraphs with a blank line"
+              />
+            </label>
+            <label className="export-field">
+              <span>Or open a .docx or .txt file</span>
+              <input type="file" accept={DRAFT_FILE_TYPES} onChange={handleFile} />
+            </label>
+            {error && (
+              <p className="import-error" role="alert">
+                {error}
+              </p>
+            )}
+            <div className="share-dialog-actions">
+              <button type="button" className="btn-share-cancel" onClick={onCancel}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="btn-share-save"
+                onClick={handleReview}
+                disabled={splitDraft(text).length === 0}
+              >
+                Review paragraphs
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form className="export-form" onSubmit={handleCreate}>
+            <p className="export-note">
+              Choose where each paragraph goes. Join paragraphs that were split in the wrong place.
+            </p>
+            <ol className="draft-import-paragraphs">
+              {paragraphs.map((paragraph, i) => (
+                <li key={i} className="draft-import-paragraph">
+                  <div className="draft-import-paragraph-controls">
+                    <select
+                      aria-label={`Paragraph ${i + 1}`}
+                      value={paragraph.role}
+                      onChange={(e) => setRole(i, e.target.value as DraftRole)}
+                    >
+                      {DRAFT_ROLES.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {i > 0 && (
+                      <button
+                        type="button"
+                        className="btn-draft-join"
+                        onClick={() => setParagraphs((prev) => joinWithPrevious(prev, i))}
+                        title="Join with the paragraph above"
+                      >
+                        Join with previous
+                      </button>
+                    )}
+                  </div>
+                  <p className={`draft-import-paragraph-text ${paragraph.role === 'skip' ? 'skipped' : ''}`}>
+                    {paragraph.text}
+                  </p>
+                </li>
+              ))}
+            </ol>
+            <p className="export-note">{describeMapping(paragraphs)}</p>
+            {error && (
+              <p className="import-error" role="alert">
+                {error}
+              </p>
+            )}
+            <div className="share-dialog-actions">
+              <button type="button" className="btn-share-cancel" onClick={() => setStep('source')}>
+                Back
+              </button>
+              <button type="submit" className="btn-share-save" disabled={saving}>
+                {saving ? 'Creating...' : 'Create essay'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
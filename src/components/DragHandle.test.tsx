@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, createEvent } from '@testing-library/react';
+import { DragHandle, useDropTarget } from './DragHandle';
+
+const DRAG_TYPE = 'application/x-test-item';
+
+function renderHandle(overrides: Partial<Parameters<typeof DragHandle>[0]> = {}) {
+  const onMove = vi.fn();
+  render(
+    <DragHandle
+      dragType={DRAG_TYPE}
+      itemId="item-2"
+      index={1}
+      count={3}
+      onMove={onMove}
+      label="claim 2"
+      {...overrides}
+    />
+  );
+  return { onMove, handle: screen.getByRole('button', { name: /Move claim 2/ }) };
+}
+
+function DropZone({ onDropItem }: { onDropItem: (itemId: string) => void }) {
+  const { isOver, dropProps } = useDropTarget(DRAG_TYPE, onDropItem);
+  return <div data-testid="zone" className={isOver ? 'drop-target-over' : ''} {...dropProps} />;
+}
+
+function dataTransfer(data: Record<string, string>) {
+  return {
+    types: Object.keys(data),
+    getData: (type: string) => data[type] ?? '',
+    setData: vi.fn(),
+    dropEffect: 'none',
+    effectAllowed: 'all',
+  };
+}
+
+describe('DragHandle', () => {
+  it('moves up and down with the arrow keys', () => {
+    const { onMove, handle } = renderHandle();
+
+    fireEvent.keyDown(handle, { key: 'ArrowUp' });
+    expect(onMove).toHaveBeenLastCalledWith(0);
+
+    fireEvent.keyDown(handle, { key: 'ArrowDown' });
+    expect(onMove).toHaveBeenLastCalledWith(2);
+  });
+
+  it('jumps to the ends with Home and End', () => {
+    const { onMove, handle } = renderHandle();
+
+    fireEvent.keyDown(handle, { key: 'Home' });
+    expect(onMove).toHaveBeenLastCalledWith(0);
+
+    fireEvent.keyDown(handle, { key: 'End' });
+    expect(onMove).toHaveBeenLastCalledWith(2);
+  });
+
+  it('does not move past the first or last position', () => {
+    const { onMove, handle } = renderHandle({ index: 0 });
+
+    fireEvent.keyDown(handle, { key: 'ArrowUp' });
+    fireEvent.keyDown(handle, { key: 'Home' });
+    expect(onMove).not.toHaveBeenCalled();
+  });
+
+  it('ignores other keys', () => {
+    const { onMove, handle } = renderHandle();
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    expect(onMove).not.toHaveBeenCalled();
+  });
+
+  it('puts the item id on the drag data', () => {
+    const { handle } = renderHandle();
+    const transfer = dataTransfer({});
+
+    fireEvent.dragStart(handle, { dataTransfer: transfer });
+    expect(transfer.setData).toHaveBeenCalledWith(DRAG_TYPE, 'item-2');
+  });
+
+  it('renders nothing when there is only one item', () => {
+    render(
+      <DragHandle dragType={DRAG_TYPE} itemId="only" index={0} count={1} onMove={() => {}} label="claim 1" />
+    );
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+});
+
+describe('useDropTarget', () => {
+  it('accepts drops of its own type', () => {
+    const onDropItem = vi.fn();
+    render(<DropZone onDropItem={onDropItem} />);
+    const zone = screen.getByTestId('zone');
+    const transfer = dataTransfer({ [DRAG_TYPE]: 'item-1' });
+
+    const dragOver = createEvent.dragOver(zone, { dataTransfer: transfer });
+    fireEvent(zone, dragOver);
+    expect(dragOver.defaultPrevented).toBe(true);
+    expect(zone.className).toBe('drop-target-over');
+
+    fireEvent.drop(zone, { dataTransfer: transfer });
+    expect(onDropItem).toHaveBeenCalledWith('item-1');
+    expect(zone.className).toBe('');
+  });
+
+  it('ignores drags of other types', () => {
+    const onDropItem = vi.fn();
+    render(<DropZone onDropItem={onDropItem} />);
+    const zone = screen.getByTestId('zone');
+    const transfer = dataTransfer({ 'application/x-other': 'item-1' });
+
+    const dragOver = createEvent.dragOver(zone, { dataTransfer: transfer });
+    fireEvent(zone, dragOver);
+    expect(dragOver.defaultPrevented).toBe(false);
+
+    fireEvent.drop(zone, { dataTransfer: transfer });
+    expect(onDropItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState, DragEvent, KeyboardEvent } from 'react';
+
+export const DRAG_TYPE_CLAIM = 'application/x-essay-claim';
+export const DRAG_TYPE_BODY = 'application/x-essay-body';
+export const DRAG_TYPE_PROOF = 'application/x-essay-proof-block';
+
+interface DragHandleProps {
+  /** Drag data type; only drop targets of the same type accept the item */
+  dragType: string;
+  itemId: string;
+  index: number;
+  count: number;
+  onMove: (toIndex: number) => void;
+  /** Names the item for assistive tech, e.g. "claim 2" */
+  label: string;
+}
+
+/**
+ * Grip for reordering an item. Drag it onto another item of the same type,
+ * or focus it and use Arrow Up/Down (Home/End for first/last).
+ */
+export function DragHandle({ dragType, itemId, index, count, onMove, label }: DragHandleProps) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const refocusRef = useRef(false);
+
+  // Reordering moves the item's DOM node, which drops focus; restore it
+  useEffect(() => {
+    if (refocusRef.current) {
+      refocusRef.current = false;
+      buttonRef.current?.focus();
+    }
+  }, [index]);
+
+  if (count < 2) return null;
+
+  const move = (toIndex: number) => {
+    if (toIndex < 0 || toIndex >= count || toIndex === index) return;
+    refocusRef.current = true;
+    onMove(toIndex);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: count - 1,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    move(targets[e.key]);
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLButtonElement>) => {
+    e.dataTransfer.setData(dragType, itemId);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      className="drag-handle"
+      draggable
+      onDragStart={handleDragStart}
+      onKeyDown={handleKeyDown}
+      aria-label={`Move ${label} (position ${index + 1} of ${count})`}
+      aria-keyshortcuts="ArrowUp ArrowDown Home End"
+      title="Drag to reorder, or use arrow keys"
+    >
+      <svg width={10} height={10} viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+        <circle cx="9" cy="5" r="2" />
+        <circle cx="15" cy="5" r="2" />
+        <circle cx="9" cy="12" r="2" />
+        <circle cx="15" cy="12" r="2" />
+        <circle cx="9" cy="19" r="2" />
+        <circle cx="15" cy="19" r="2" />
+      </svg>
+    </button>
+  );
+}
+
+export interface DropTargetProps {
+  onDragOver?: (e: DragEvent<HTMLElement>) => void;
+  onDragLeave?: (e: DragEvent<HTMLElement>) => void;
+  onDrop?: (e: DragEvent<HTMLElement>) => void;
+}
+
+/**
+ * Make an element accept items dragged from a DragHandle of the given type
+ */
+export function useDropTarget(
+  dragType: string,
+  onDropItem: (itemId: string) => void,
+  enabled = true
+): { isOver: boolean; dropProps: DropTargetProps } {
+  const [isOver, setIsOver] = useState(false);
+
+  if (!enabled) return { isOver: false, dropProps: {} };
+
+  return {
+    isOver,
+    dropProps: {
+      onDragOver: (e) => {
+        if (!e.dataTransfer.types.includes(dragType)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsOver(true);
+      },
+      onDragLeave: (e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOver(false);
+      },
+      onDrop: (e) => {
+        const itemId = e.dataTransfer.getData(dragType);
+        if (!itemId) return;
+        e.preventDefault();
+        setIsOver(false);
+        onDropItem(itemId);
+      },
+    },
+  };
+}
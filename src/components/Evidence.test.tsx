@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BodySection } from './BodySection';
+import { createBodyParagraph, createClaim, type BodyParagraph } from '../models/essay';
+import { TEMPLATES } from '../models/template';
+
+// Cells auto-resize with ResizeObserver, which jsdom does not provide
+beforeAll(() => {
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    disconnect() {}
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+function renderBody(paragraph: string, quotes: string[]) {
+  const body: BodyParagraph = {
+    ...createBodyParagraph(createClaim()),
+    paragraph,
+    proofBlocks: quotes.map((quote, i) => ({ id: `p${i + 1}`, quote, analysis: '', connection: '' })),
+  };
+  return render(
+    <BodySection
+      bodyParagraph={body}
+      bodyIndex={0}
+      bodyCount={1}
+      template={TEMPLATES[0].body}
+      thesis=""
+      claim={undefined}
+      updateBodyParagraph={vi.fn()}
+      addProofBlock={vi.fn()}
+      updateProofBlock={vi.fn()}
+      removeProofBlock={vi.fn()}
+      moveBodyParagraph={vi.fn()}
+      moveProofBlock={vi.fn()}
+      sectionCollapsed={false}
+      onToggleSection={vi.fn()}
+    />
+  );
+}
+
+describe('Evidence coverage', () => {
+  it('marks each proof block quoted, misquoted or unused and sums them up', () => {
+    const { container } = renderBody(
+      'The bishop says "my brother, you no longer belong to evil." Valjean "had no food, so he stole a loaf from the baker."',
+      ['My brother, you no longer belong to evil.', 'He had no bread, so he took a loaf from the baker.', 'Javert jumps from a bridge.']
+    );
+
+    const badges = [...container.querySelectorAll('.evidence-status')].map((badge) => [badge.className, badge.textContent]);
+    expect(badges).toEqual([
+      ['evidence-status evidence-status-used', 'Quoted'],
+      ['evidence-status evidence-status-misquoted', 'Misquoted'],
+      ['evidence-status evidence-status-unused', 'Not in paragraph'],
+    ]);
+    expect(screen.getByText('Misquoted').title).toMatch(/with changes \(\d+% matches\)/);
+    expect(screen.getByText('1 of 3 quotes used')).toBeTruthy();
+  });
+
+  it('stays out of the way until the paragraph is written', () => {
+    const { container } = renderBody('', ['My brother, you no longer belong to evil.']);
+
+    expect(container.querySelector('.evidence-status')).toBeNull();
+    expect(screen.queryByText(/quotes? used/)).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { getEvidenceLabel, type EvidenceCoverage, type QuoteMatch } from '../models/evidence';
+
+const EVIDENCE_TITLES: Record<QuoteMatch['status'], (match: QuoteMatch) => string> = {
+  used: () => 'The body paragraph quotes this evidence',
+  misquoted: ({ similarity }) =>
+    `The body paragraph quotes this evidence with changes (${Math.round(similarity * 100)}% matches). Mark left-out words with an ellipsis and changed ones with [brackets].`,
+  unused: () => 'The body paragraph does not quote this evidence yet',
+};
+
+/**
+ * Whether the body paragraph quotes a proof block's evidence
+ */
+export function EvidenceBadge({ match }: { match: QuoteMatch }) {
+  return (
+    <span className={`evidence-status evidence-status-${match.status}`} title={EVIDENCE_TITLES[match.status](match)}>
+      {getEvidenceLabel(match.status)}
+    </span>
+  );
+}
+
+/**
+ * How many of the proof blocks' quotes the body paragraph uses
+ */
+export function EvidenceSummary({ coverage }: { coverage: EvidenceCoverage }) {
+  const total = coverage.checks.length;
+  const complete = coverage.used === total;
+  return (
+    <span
+      className={`paragraph-evidence ${complete ? 'evidence-complete' : ''}`}
+      title="Proof block quotes found in this paragraph"
+    >
+      {coverage.used} of {total} {total === 1 ? 'quote' : 'quotes'} used
+    </span>
+  );
+}
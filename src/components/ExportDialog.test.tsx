@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ExportDialog } from './ExportDialog';
+import { createEssay } from '../models/essay';
+import { readZip } from '../utils/zip';
+import { downloadFile } from '../utils/download';
+import { DOCX_MIME_TYPE } from '../export/docx';
+import { PDF_MIME_TYPE } from '../export/pdf';
+import { MARKDOWN_MIME_TYPE } from '../export/markdown';
+import { ESSAY_BUNDLE_MIME_TYPE, readEssayBundle } from '../export/bundle';
+import type { CommentThread } from '../models/comment';
+
+vi.mock('../hooks/useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { uid: 'u1', displayName: 'Ada Lovelace' }, loading: false })),
+}));
+
+vi.mock('../utils/download', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/download')>()),
+  downloadFile: vi.fn(),
+}));
+
+const mockDownloadFile = vi.mocked(downloadFile);
+
+describe('ExportDialog', () => {
+  const essay = createEssay();
+  essay.intro.paragraph = 'An opening paragraph.';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  const renderDialog = (onClose = vi.fn(), comments?: Map<string, CommentThread[]>) =>
+    render(<ExportDialog isOpen={true} onClose={onClose} essay={essay} title="My Essay" comments={comments} />);
+
+  it('renders nothing when closed', () => {
+    const { container } = render(<ExportDialog isOpen={false} onClose={vi.fn()} essay={essay} title="My Essay" />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('fills in the signed-in user as the author', () => {
+    renderDialog();
+    expect(screen.getByLabelText('Your name')).toHaveValue('Ada Lovelace');
+  });
+
+  it('downloads a .docx named after the essay with the chosen heading and format', async () => {
+    const onClose = vi.fn();
+    renderDialog(onClose);
+
+    fireEvent.change(screen.getByLabelText('Instructor'), { target: { value: 'Professor Babbage' } });
+    fireEvent.change(screen.getByLabelText('Font'), { target: { value: 'Arial' } });
+    fireEvent.click(screen.getByText('Download .docx'));
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Uint8Array), 'My Essay.docx', DOCX_MIME_TYPE);
+    expect(onClose).toHaveBeenCalled();
+
+    const files = await readZip(mockDownloadFile.mock.calls[0][0] as Uint8Array);
+    const text = (name: string) => new TextDecoder().decode(files.get(name));
+    expect(text('word/document.xml')).toContain('Professor Babbage');
+    expect(text('word/document.xml')).toContain('An opening paragraph.');
+    expect(text('word/styles.xml')).toContain('w:ascii="Arial"');
+  });
+
+  it('remembers the settings for the next export', () => {
+    const { unmount } = renderDialog();
+    fireEvent.change(screen.getByLabelText('Course'), { target: { value: 'English 101' } });
+    fireEvent.change(screen.getByLabelText('Spacing'), { target: { value: '1.5' } });
+    fireEvent.click(screen.getByText('Download .docx'));
+    unmount();
+
+    renderDialog();
+
+    expect(screen.getByLabelText('Course')).toHaveValue('English 101');
+    expect(screen.getByLabelText('Spacing')).toHaveValue('1.5');
+  });
+
+  it('downloads a PDF of the outline with comments as footnotes', () => {
+    const comments = new Map<string, CommentThread[]>([
+      [
+        'intro-paragraph',
+        [
+          {
+            rootComment: {
+              id: 'c1',
+              blockId: 'intro-paragraph',
+              blockType: 'intro',
+              authorUid: 'u2',
+              authorEmail: 'teacher@example.com',
+              authorDisplayName: 'Teacher',
+              text: 'Good start',
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              parentCommentId: null,
+              resolved: false,
+            },
+            replies: [],
+          },
+        ],
+      ],
+    ]);
+    renderDialog(vi.fn(), comments);
+
+    fireEvent.click(screen.getByLabelText('PDF'));
+    fireEvent.change(screen.getByLabelText('Contents'), { target: { value: 'outline' } });
+    fireEvent.click(screen.getByLabelText('Include open comments as footnotes'));
+    expect(screen.queryByLabelText('Spacing')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Download PDF'));
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(Uint8Array), 'My Essay.pdf', PDF_MIME_TYPE);
+    const pdf = new TextDecoder('latin1').decode(mockDownloadFile.mock.calls[0][0] as Uint8Array);
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('/MediaBox [0 0 792 612]');
+    const hex = (text: string) => Array.from(text, (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    expect(pdf).toContain(hex('1. Teacher: Good start'));
+  });
+
+  it('downloads the essay as Markdown', () => {
+    renderDialog();
+    fireEvent.click(screen.getByLabelText('Markdown'));
+    expect(screen.queryByLabelText('Font')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Download .md'));
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(String), 'My Essay.md', MARKDOWN_MIME_TYPE);
+    expect(mockDownloadFile.mock.calls[0][0]).toContain('# My Essay\n\n## Intro');
+  });
+
+  it('downloads a backup of the essay with its comments', () => {
+    const comments = new Map<string, CommentThread[]>([
+      [
+        'intro-paragraph',
+        [
+          {
+            rootComment: {
+              id: 'c1',
+              blockId: 'intro-paragraph',
+              blockType: 'intro',
+              authorUid: 'u2',
+              authorEmail: 'teacher@example.com',
+              authorDisplayName: 'Teacher',
+              text: 'Good start',
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              parentCommentId: null,
+              resolved: true,
+            },
+            replies: [],
+          },
+        ],
+      ],
+    ]);
+    renderDialog(vi.fn(), comments);
+    fireEvent.click(screen.getByLabelText('Backup (.json)'));
+    fireEvent.click(screen.getByText('Download .json'));
+
+    expect(mockDownloadFile).toHaveBeenCalledWith(expect.any(String), 'My Essay.json', ESSAY_BUNDLE_MIME_TYPE);
+    const imported = readEssayBundle(mockDownloadFile.mock.calls[0][0] as string);
+    expect(imported.title).toBe('My Essay');
+    expect(imported.essay.intro.paragraph).toBe('An opening paragraph.');
+    expect(imported.comments.map((c) => c.text)).toEqual(['Good start']);
+  });
+
+  it('only offers the fonts every PDF reader has', () => {
+    renderDialog();
+    fireEvent.click(screen.getByLabelText('PDF'));
+
+    const fonts = Array.from((screen.getByLabelText('Font') as HTMLSelectElement).options).map((o) => o.value);
+    expect(fonts).toEqual(['Times New Roman', 'Arial']);
+  });
+
+  it('hides the instructor and course fields without the MLA heading', () => {
+    renderDialog();
+    fireEvent.click(screen.getByLabelText('MLA heading and page header'));
+
+    expect(screen.queryByLabelText('Instructor')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Course')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,318 @@
+import { useState, useEffect, ChangeEvent, FormEvent, MouseEvent } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { buildDocx, DEFAULT_DOCX_OPTIONS, DOCX_MIME_TYPE, type DocxOptions } from '../export/docx';
+import {
+  buildPdf,
+  DEFAULT_PDF_OPTIONS,
+  PDF_FONT_FAMILIES,
+  PDF_MIME_TYPE,
+  type PdfContent,
+  type PdfFontFamily,
+  type PdfOptions,
+} from '../export/pdf';
+import { buildMarkdown, MARKDOWN_MIME_TYPE } from '../export/markdown';
+import { createEssayBundle, ESSAY_BUNDLE_MIME_TYPE, serializeEssayBundle } from '../export/bundle';
+import { downloadFile, toFileName } from '../utils/download';
+import type { Essay } from '../models/essay';
+import type { CommentThread } from '../models/comment';
+
+const EXPORT_SETTINGS_STORAGE_KEY = 'essay-export-settings';
+
+const DOCX_FONT_FAMILIES = ['Times New Roman', 'Arial', 'Calibri', 'Georgia', 'Garamond'];
+const FONT_SIZES = [10, 11, 12, 13, 14];
+const LINE_SPACINGS = [
+  { value: 1, label: 'Single' },
+  { value: 1.5, label: '1.5 lines' },
+  { value: 2, label: 'Double' },
+];
+
+type ExportFormat = 'docx' | 'pdf' | 'markdown' | 'json';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'docx', label: 'Word (.docx)', extension: 'docx' },
+  { value: 'pdf', label: 'PDF', extension: 'pdf' },
+  { value: 'markdown', label: 'Markdown', extension: 'md' },
+  { value: 'json', label: 'Backup (.json)', extension: 'json' },
+];
+
+/** Options both formats have, which the shared controls edit */
+type SharedOption = 'fontSize' | 'lineSpacing' | 'indentParagraphs' | 'mlaHeader';
+
+/**
+ * What the dialog remembers between exports; the title and date come from
+ * the essay and the day of export
+ */
+interface ExportSettings {
+  format: ExportFormat;
+  author: string;
+  instructor: string;
+  course: string;
+  docx: DocxOptions;
+  pdf: PdfOptions;
+}
+
+function loadExportSettings(): Partial<ExportSettings> {
+  try {
+    const stored = localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load export settings:', e);
+  }
+  return {};
+}
+
+function saveExportSettings(settings: ExportSettings): void {
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save export settings:', e);
+  }
+}
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  essay: Essay;
+  title: string;
+  /** Comment threads by block id, for PDF footnotes and backups */
+  comments?: Map<string, CommentThread[]>;
+}
+
+export function ExportDialog({ isOpen, onClose, essay, title, comments }: ExportDialogProps) {
+  const { user } = useAuth();
+  const displayName = user?.displayName ?? '';
+  const [settings, setSettings] = useState<ExportSettings>({
+    format: 'docx',
+    author: '',
+    instructor: '',
+    course: '',
+    docx: DEFAULT_DOCX_OPTIONS,
+    pdf: DEFAULT_PDF_OPTIONS,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const stored = loadExportSettings();
+    setSettings({
+      format: EXPORT_FORMATS.find((f) => f.value === stored.format)?.value ?? 'docx',
+      author: stored.author || displayName,
+      instructor: stored.instructor ?? '',
+      course: stored.course ?? '',
+      docx: { ...DEFAULT_DOCX_OPTIONS, ...stored.docx },
+      pdf: { ...DEFAULT_PDF_OPTIONS, ...stored.pdf },
+    });
+  }, [isOpen, displayName]);
+
+  if (!isOpen) return null;
+
+  const { format } = settings;
+  const options = format === 'pdf' ? settings.pdf : settings.docx;
+  const isDocument = format === 'docx' || format === 'pdf';
+  const isOutline = format === 'pdf' && settings.pdf.content === 'outline';
+  const { extension } = EXPORT_FORMATS.find((f) => f.value === format)!;
+
+  const setField = (field: 'author' | 'instructor' | 'course') => (e: ChangeEvent<HTMLInputElement>) =>
+    setSettings((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const setOption = <K extends SharedOption>(key: K, value: DocxOptions[K]) =>
+    setSettings((prev) =>
+      prev.format === 'pdf'
+        ? { ...prev, pdf: { ...prev.pdf, [key]: value } }
+        : { ...prev, docx: { ...prev.docx, [key]: value } }
+    );
+
+  const setPdfOption = <K extends keyof PdfOptions>(key: K, value: PdfOptions[K]) =>
+    setSettings((prev) => ({ ...prev, pdf: { ...prev.pdf, [key]: value } }));
+
+  const setFontFamily = (fontFamily: string) =>
+    setSettings((prev) =>
+      prev.format === 'pdf'
+        ? { ...prev, pdf: { ...prev.pdf, fontFamily: fontFamily as PdfFontFamily } }
+        : { ...prev, docx: { ...prev.docx, fontFamily } }
+    );
+
+  const handleExport = (e: FormEvent) => {
+    e.preventDefault();
+    saveExportSettings(settings);
+    const meta = {
+      title: title || 'Untitled',
+      author: settings.author,
+      instructor: settings.instructor,
+      course: settings.course,
+      date: new Date(),
+    };
+    const fileName = toFileName(title, extension);
+    if (format === 'pdf') {
+      const pdf = buildPdf(essay, meta, settings.pdf, comments);
+      downloadFile(pdf as BlobPart, fileName, PDF_MIME_TYPE);
+    } else if (format === 'markdown') {
+      downloadFile(buildMarkdown(essay, meta.title), fileName, MARKDOWN_MIME_TYPE);
+    } else if (format === 'json') {
+      const allComments = Array.from(comments?.values() ?? [])
+        .flat()
+        .flatMap((thread) => [thread.rootComment, ...thread.replies]);
+      const bundle = createEssayBundle(essay, meta.title, { comments: allComments });
+      downloadFile(serializeEssayBundle(bundle), fileName, ESSAY_BUNDLE_MIME_TYPE);
+    } else {
+      const docx = buildDocx(essay, meta, settings.docx);
+      downloadFile(docx as BlobPart, fileName, DOCX_MIME_TYPE);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content export-dialog" onClick={(e: MouseEvent) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Download Essay</h2>
+          <button className="modal-close" onClick={onClose} title="Close">
+            &times;
+          </button>
+        </div>
+
+        <form className="export-form" onSubmit={handleExport}>
+          <div className="export-format-toggle" role="radiogroup" aria-label="Format">
+            {EXPORT_FORMATS.map(({ value, label }) => (
+              <label key={value} className={`export-format-option ${format === value ? 'active' : ''}`}>
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={value}
+                  checked={format === value}
+                  onChange={() => setSettings((prev) => ({ ...prev, format: value }))}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          {format === 'pdf' && (
+            <>
+              <label className="export-field">
+                <span>Contents</span>
+                <select
+                  value={settings.pdf.content}
+                  onChange={(e) => setPdfOption('content', e.target.value as PdfContent)}
+                >
+                  <option value="essay">Final essay</option>
+                  <option value="outline">Full outline</option>
+                </select>
+              </label>
+              <label className="export-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.pdf.includeComments}
+                  onChange={(e) => setPdfOption('includeComments', e.target.checked)}
+                />
+                Include open comments as footnotes
+              </label>
+            </>
+          )}
+
+          {isDocument && (
+            <>
+            <label className="export-field">
+              <span>Your name</span>
+              <input type="text" value={settings.author} onChange={setField('author')} />
+            </label>
+
+            {!isOutline && (
+              <label className="export-checkbox">
+                <input
+                  type="checkbox"
+                  checked={options.mlaHeader}
+                  onChange={(e) => setOption('mlaHeader', e.target.checked)}
+                />
+                MLA heading and page header
+              </label>
+            )}
+
+            {!isOutline && options.mlaHeader && (
+              <label className="export-field">
+                <span>Instructor</span>
+                <input type="text" value={settings.instructor} onChange={setField('instructor')} />
+              </label>
+            )}
+            {(isOutline || options.mlaHeader) && (
+              <label className="export-field">
+                <span>Course</span>
+                <input type="text" value={settings.course} onChange={setField('course')} />
+              </label>
+            )}
+
+            <div className="export-format-row">
+              <label className="export-field">
+                <span>Font</span>
+                <select value={options.fontFamily} onChange={(e) => setFontFamily(e.target.value)}>
+                  {(format === 'pdf' ? PDF_FONT_FAMILIES : DOCX_FONT_FAMILIES).map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="export-field">
+                <span>Size</span>
+                <select value={options.fontSize} onChange={(e) => setOption('fontSize', Number(e.target.value))}>
+                  {FONT_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size} pt
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {!isOutline && (
+                <label className="export-field">
+                  <span>Spacing</span>
+                  <select
+                    value={options.lineSpacing}
+                    onChange={(e) => setOption('lineSpacing', Number(e.target.value))}
+                  >
+                    {LINE_SPACINGS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+
+            {!isOutline && (
+              <label className="export-checkbox">
+                <input
+                  type="checkbox"
+                  checked={options.indentParagraphs}
+                  onChange={(e) => setOption('indentParagraphs', e.target.checked)}
+                />
+                Indent the first line of each paragraph
+              </label>
+            )}
+            </>
+          )}
+
+          {format === 'markdown' && (
+            <p className="export-note">Each section under its own heading, with its outline fields and paragraph.</p>
+          )}
+          {format === 'json' && (
+            <p className="export-note">
+              The essay, its title and comments in one file. Import it from the home page to restore a copy or
+              move it to another account.
+            </p>
+          )}
+
+          <div className="share-dialog-actions">
+            <button type="button" className="btn-share-cancel" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-share-save">
+              {format === 'pdf' ? 'Download PDF' : `Download .${extension}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
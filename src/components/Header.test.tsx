@@ -286,6 +286,36 @@ describe('Header', () => {
     });
   });
 
+  describe('History button', () => {
+    it('calls onHistoryClick when history button clicked', () => {
+      const onHistoryClick = vi.fn();
+      render(<Header {...defaultProps} onHistoryClick={onHistoryClick} />);
+
+      fireEvent.click(screen.getByTitle('Version History'));
+      expect(onHistoryClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not show history button without onHistoryClick', () => {
+      render(<Header {...defaultProps} />);
+      expect(screen.queryByTitle('Version History')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Export button', () => {
+    it('calls onExportClick when export button clicked', () => {
+      const onExportClick = vi.fn();
+      render(<Header {...defaultProps} essay={mockEssay} onExportClick={onExportClick} />);
+
+      fireEvent.click(screen.getByTitle('Download'));
+      expect(onExportClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not show export button without an essay', () => {
+      render(<Header {...defaultProps} onExportClick={vi.fn()} />);
+      expect(screen.queryByTitle('Download')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Copy button', () => {
     it('shows copy button when essay is present', () => {
       render(<Header {...defaultProps} essay={mockEssay} />);
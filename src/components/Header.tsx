@@ -2,8 +2,10 @@ import { useState, useRef, useEffect, KeyboardEvent } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { CopyButton } from './CopyButton';
 import { ShareButton } from './ShareButton';
+import { PresenceAvatars } from './Presence';
 import { formatRelativeDate } from '../utils/formatDate';
 import type { Essay } from '../models/essay';
+import type { PresenceSession } from '../models/presence';
 
 interface HeaderProps {
   essay: Essay | null;
@@ -16,8 +18,15 @@ interface HeaderProps {
   onShareClick: (() => void) | null;
   onCommentsClick?: (() => void) | null;
   commentCount?: number;
+  onChecklistClick?: (() => void) | null;
+  /** Open checklist items, shown as a badge on the checklist button */
+  checklistCount?: number;
+  onSourcesClick?: (() => void) | null;
+  onHistoryClick?: (() => void) | null;
+  onExportClick?: (() => void) | null;
   isSharedEssay: boolean;
   readOnly?: boolean;
+  collaborators?: PresenceSession[];
 }
 
 export function Header({
@@ -31,8 +40,14 @@ export function Header({
   onShareClick,
   onCommentsClick,
   commentCount = 0,
+  onChecklistClick,
+  checklistCount = 0,
+  onSourcesClick,
+  onHistoryClick,
+  onExportClick,
   isSharedEssay,
   readOnly = false,
+  collaborators = [],
 }: HeaderProps) {
   const { user, loading, signIn, signOut } = useAuth();
   const [showAvatarMenu, setShowAvatarMenu] = useState(false);
@@ -160,6 +175,7 @@ export function Header({
       </div>
 
       <div className="header-actions">
+        {showEditor && <PresenceAvatars collaborators={collaborators} />}
         {showEditor && onCommentsClick && (
           <button
             className="comments-btn-header"
@@ -183,9 +199,97 @@ export function Header({
             )}
           </button>
         )}
+        {showEditor && onChecklistClick && (
+          <button
+            className="comments-btn-header checklist-btn-header"
+            onClick={onChecklistClick}
+            title="Checklist"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 11 12 14 22 4" />
+              <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+            </svg>
+            {checklistCount > 0 && (
+              <span className="comments-badge checklist-badge">{checklistCount}</span>
+            )}
+          </button>
+        )}
+        {showEditor && onSourcesClick && (
+          <button
+            className="comments-btn-header sources-btn-header"
+            onClick={onSourcesClick}
+            title="Sources"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+              <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+            </svg>
+          </button>
+        )}
+        {showEditor && onHistoryClick && (
+          <button
+            className="history-btn-header"
+            onClick={onHistoryClick}
+            title="Version History"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <circle cx="12" cy="12" r="9" />
+              <polyline points="12 7 12 12 15 14" />
+            </svg>
+          </button>
+        )}
         {showEditor && !isSharedEssay && onShareClick && (
           <ShareButton onClick={onShareClick} className="share-btn-header" />
         )}
+        {showEditor && essay && onExportClick && (
+          <button
+            className="export-btn-header"
+            onClick={onExportClick}
+            title="Download"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+              <polyline points="7 10 12 15 17 10" />
+              <line x1="12" y1="15" x2="12" y2="3" />
+            </svg>
+          </button>
+        )}
         {showEditor && essay && (
           <CopyButton
             text={getFullEssayText(essay)}
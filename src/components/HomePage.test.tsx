@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { HomePage } from './HomePage';
+import { createEssay } from '../models/essay';
+import { createEssayBundle, serializeEssayBundle } from '../export/bundle';
+import type { TrashedEssayDocument } from '../models/document';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('HomePage', () => {
+  const essays = [{ id: 'e1', title: 'Mercy', data: createEssay(), updatedAt: new Date() }];
+  const trashed: TrashedEssayDocument = {
+    id: 't1',
+    title: 'Old Draft',
+    data: createEssay(),
+    updatedAt: new Date(),
+    trashedAt: new Date(Date.now() - 3 * DAY_MS),
+  };
+
+  const renderHomePage = (
+    onImportEssay = vi.fn().mockResolvedValue(undefined),
+    onDownloadAll = vi.fn().mockResolvedValue(undefined),
+    trashProps: Partial<Parameters<typeof HomePage>[0]> = {}
+  ) =>
+    render(
+      <HomePage
+        essays={essays}
+        trashedEssays={[]}
+        unreadableEssays={[]}
+        sharedEssays={[]}
+        onSelectEssay={vi.fn()}
+        onSelectSharedEssay={vi.fn()}
+        onNewEssay={vi.fn()}
+        onTrashEssay={vi.fn()}
+        onRestoreEssay={vi.fn()}
+        onDeleteEssay={vi.fn()}
+        onImportEssay={onImportEssay}
+        onDownloadAll={onDownloadAll}
+        isLoggedIn={true}
+        {...trashProps}
+      />
+    );
+
+  const chooseFile = (contents: string, name = 'backup.json') =>
+    fireEvent.change(screen.getByLabelText('Backup file'), {
+      target: { files: [new File([contents], name, { type: 'application/json' })] },
+    });
+
+  describe('Import', () => {
+    it('imports a backup file as a new essay with new ids', async () => {
+      const onImportEssay = vi.fn().mockResolvedValue(undefined);
+      const essay = createEssay();
+      essay.intro.thesis = 'Hugo prefers mercy to law';
+      renderHomePage(onImportEssay);
+
+      chooseFile(serializeEssayBundle(createEssayBundle(essay, 'Justice and Mercy')));
+
+      await waitFor(() => expect(onImportEssay).toHaveBeenCalled());
+      const [imported] = onImportEssay.mock.calls[0];
+      expect(imported.title).toBe('Justice and Mercy');
+      expect(imported.essay.intro.thesis).toBe('Hugo prefers mercy to law');
+      expect(imported.essay.intro.claims[0].id).not.toBe(essay.intro.claims[0].id);
+    });
+
+    it('explains why a file cannot be imported', async () => {
+      const onImportEssay = vi.fn();
+      renderHomePage(onImportEssay);
+
+      chooseFile('{"hello": "world"}', 'notes.json');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        'Could not import notes.json. File is not an essay bundle.'
+      );
+      expect(onImportEssay).not.toHaveBeenCalled();
+    });
+
+    it('reports a failed save', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      renderHomePage(vi.fn().mockRejectedValue(new Error('offline')));
+
+      chooseFile(serializeEssayBundle(createEssayBundle(createEssay(), 'Title')));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not save the imported essay.');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Download all', () => {
+    it('downloads every essay', async () => {
+      const onDownloadAll = vi.fn().mockResolvedValue(undefined);
+      renderHomePage(undefined, onDownloadAll);
+
+      fireEvent.click(screen.getByText('Download all'));
+
+      expect(screen.getByText('Preparing...')).toBeDisabled();
+      await waitFor(() => expect(screen.getByText('Download all')).not.toBeDisabled());
+      expect(onDownloadAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a failed download', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      renderHomePage(undefined, vi.fn().mockRejectedValue(new Error('offline')));
+
+      fireEvent.click(screen.getByText('Download all'));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not download your essays.');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Unreadable essays', () => {
+    it('names the essays whose data could not be read', () => {
+      renderHomePage(undefined, undefined, {
+        unreadableEssays: [{ id: 'bad', title: 'Broken Draft', error: 'Essay data is corrupted: intro: expected an object' }],
+      });
+
+      expect(screen.getByRole('alert').textContent).toContain('One of your essays could not be opened');
+      expect(screen.getByText('Broken Draft').title).toBe('Essay data is corrupted: intro: expected an object');
+    });
+  });
+
+  describe('Trash', () => {
+    it('moves an essay to the trash without asking', () => {
+      const onTrashEssay = vi.fn();
+      const onSelectEssay = vi.fn();
+      renderHomePage(undefined, undefined, { onTrashEssay, onSelectEssay });
+
+      fireEvent.click(screen.getByTitle('Move to trash'));
+
+      expect(onTrashEssay).toHaveBeenCalledWith('e1');
+      expect(onSelectEssay).not.toHaveBeenCalled();
+    });
+
+    it('reports an essay that could not be moved to the trash', async () => {
+      renderHomePage(undefined, undefined, { onTrashEssay: vi.fn().mockRejectedValue(new Error('offline')) });
+
+      fireEvent.click(screen.getByTitle('Move to trash'));
+
+      expect((await screen.findByRole('alert')).textContent).toContain('Could not move Mercy to the trash.');
+    });
+
+    it('is hidden while the trash is empty', () => {
+      renderHomePage();
+      expect(screen.queryByText(/^Trash/)).toBeNull();
+    });
+
+    it('lists trashed essays with the days left and restores one', () => {
+      const onRestoreEssay = vi.fn();
+      renderHomePage(undefined, undefined, { trashedEssays: [trashed], onRestoreEssay });
+
+      fireEvent.click(screen.getByText('Trash (1)'));
+
+      expect(screen.getByText('Old Draft')).toBeTruthy();
+      expect(screen.getByText(/27 days left/)).toBeTruthy();
+      fireEvent.click(screen.getByText('Restore'));
+      expect(onRestoreEssay).toHaveBeenCalledWith('t1');
+    });
+
+    it('asks before deleting a trashed essay for good', () => {
+      const onDeleteEssay = vi.fn();
+      renderHomePage(undefined, undefined, { trashedEssays: [trashed], onDeleteEssay });
+      fireEvent.click(screen.getByText('Trash (1)'));
+
+      fireEvent.click(screen.getByText('Delete forever'));
+      expect(onDeleteEssay).not.toHaveBeenCalled();
+      expect(screen.getByText(/"Old Draft" will be deleted with its comments and history/)).toBeTruthy();
+
+      fireEvent.click(screen.getAllByText('Delete forever')[1]);
+      expect(onDeleteEssay).toHaveBeenCalledWith('t1');
+    });
+  });
+});
@@ -1,30 +1,107 @@
-import { MouseEvent } from 'react';
+import { ChangeEvent, MouseEvent, useRef, useState } from 'react';
+import { TemplatePicker } from './TemplatePicker';
+import { DraftImportDialog } from './DraftImportDialog';
+import { ConfirmDialog } from './ConfirmDialog';
 import { formatRelativeDate } from '../utils/formatDate';
-import type { EssayDocument, SharedEssayRef, Permission } from '../models/document';
+import { readFileText } from '../utils/readFile';
+import { EssayBundleError, readEssayBundle, type ImportedEssay } from '../export/bundle';
+import { getDaysUntilPurge, TRASH_RETENTION_DAYS } from '../models/trash';
+import type {
+  EssayDocument,
+  TrashedEssayDocument,
+  UnreadableEssay,
+  SharedEssayRef,
+  Permission,
+} from '../models/document';
+import type { TemplateId } from '../models/template';
 
 interface HomePageProps {
   essays: EssayDocument[];
+  trashedEssays: TrashedEssayDocument[];
+  /** Essays that exist but whose saved data could not be read */
+  unreadableEssays: UnreadableEssay[];
   sharedEssays: SharedEssayRef[];
   onSelectEssay: (essayId: string) => void;
   onSelectSharedEssay: (ownerUid: string, essayId: string, permission: Permission) => void;
-  onNewEssay: () => void;
+  onNewEssay: (templateId: TemplateId) => void;
+  onTrashEssay: (essayId: string) => Promise<void>;
+  onRestoreEssay: (essayId: string) => void;
+  /** Delete a trashed essay for good */
   onDeleteEssay: (essayId: string) => void;
+  /** Save an essay read from a backup file or built from a draft as a new essay */
+  onImportEssay: (imported: ImportedEssay) => Promise<void>;
+  /** Download every essay the user owns as one archive */
+  onDownloadAll: () => Promise<void>;
   isLoggedIn: boolean;
 }
 
 export function HomePage({
   essays,
+  trashedEssays,
+  unreadableEssays,
   sharedEssays,
   onSelectEssay,
   onSelectSharedEssay,
   onNewEssay,
+  onTrashEssay,
+  onRestoreEssay,
   onDeleteEssay,
+  onImportEssay,
+  onDownloadAll,
   isLoggedIn,
 }: HomePageProps) {
-  const handleDelete = (e: MouseEvent<HTMLButtonElement>, essayId: string) => {
+  const [pickingTemplate, setPickingTemplate] = useState(false);
+  const [importingDraft, setImportingDraft] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [downloadingAll, setDownloadingAll] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [trashError, setTrashError] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleTrash = async (e: MouseEvent<HTMLButtonElement>, essay: EssayDocument) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to delete this essay?')) {
-      onDeleteEssay(essayId);
+    setTrashError(null);
+    try {
+      await onTrashEssay(essay.id);
+    } catch {
+      setTrashError(`Could not move ${essay.title || 'Untitled Essay'} to the trash. Please try again.`);
+    }
+  };
+
+  const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so choosing the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setImporting(true);
+    try {
+      await onImportEssay(readEssayBundle(await readFileText(file)));
+    } catch (error) {
+      if (error instanceof EssayBundleError) {
+        setImportError(`Could not import ${file.name}. ${error.message}.`);
+      } else {
+        console.error('Failed to import essay:', error);
+        setImportError('Could not save the imported essay. Please try again.');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setDownloadError(null);
+    setDownloadingAll(true);
+    try {
+      await onDownloadAll();
+    } catch (error) {
+      console.error('Failed to download essays:', error);
+      setDownloadError('Could not download your essays. Please try again.');
+    } finally {
+      setDownloadingAll(false);
     }
   };
 
@@ -36,13 +113,60 @@ export function HomePage({
       </div>
 
       <div className="home-content">
-        <button className="btn-new-essay-large" onClick={onNewEssay}>
-          + New Essay
-        </button>
+        <div className="home-actions">
+          <button className="btn-new-essay-large" onClick={() => setPickingTemplate(true)}>
+            + New Essay
+          </button>
+          <div className="home-import-links">
+            <button className="btn-import-essay" onClick={() => setImportingDraft(true)}>
+              Import a draft (paste, .docx or .txt)
+            </button>
+            <button
+              className="btn-import-essay"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+            >
+              {importing ? 'Importing...' : 'Import from a backup file (.json)'}
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="import-file-input"
+            aria-label="Backup file"
+            onChange={handleImportFile}
+          />
+          {importError && (
+            <p className="import-error" role="alert">
+              {importError}
+            </p>
+          )}
+        </div>
 
         {essays.length > 0 && (
           <div className="essays-section">
-            <h2>Your Essays</h2>
+            <div className="essays-section-header">
+              <h2>Your Essays</h2>
+              <button
+                className="btn-download-all"
+                onClick={handleDownloadAll}
+                disabled={downloadingAll}
+                title="Download every essay as .json, Markdown and .docx in one ZIP file"
+              >
+                {downloadingAll ? 'Preparing...' : 'Download all'}
+              </button>
+            </div>
+            {downloadError && (
+              <p className="import-error" role="alert">
+                {downloadError}
+              </p>
+            )}
+            {trashError && (
+              <p className="import-error" role="alert">
+                {trashError}
+              </p>
+            )}
             <div className="essays-grid">
               {essays.map((essay) => (
                 <div
@@ -56,8 +180,8 @@ export function HomePage({
                   </div>
                   <button
                     className="essay-card-delete"
-                    onClick={(e) => handleDelete(e, essay.id)}
-                    title="Delete essay"
+                    onClick={(e) => handleTrash(e, essay)}
+                    title="Move to trash"
                   >
                     ×
                   </button>
@@ -67,6 +191,23 @@ export function HomePage({
           </div>
         )}
 
+        {unreadableEssays.length > 0 && (
+          <div className="unreadable-essays" role="alert">
+            <p>
+              {unreadableEssays.length === 1
+                ? 'One of your essays could not be opened because its saved data is damaged:'
+                : `${unreadableEssays.length} of your essays could not be opened because their saved data is damaged:`}
+            </p>
+            <ul>
+              {unreadableEssays.map((essay) => (
+                <li key={essay.id} title={essay.error}>
+                  {essay.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {sharedEssays && sharedEssays.length > 0 && (
           <div className="essays-section shared-section">
             <h2>Shared with me</h2>
@@ -92,12 +233,92 @@ export function HomePage({
           </div>
         )}
 
+        {trashedEssays.length > 0 && (
+          <div className="trash-section">
+            <button className="btn-show-trash" onClick={() => setShowTrash(!showTrash)} aria-expanded={showTrash}>
+              {showTrash ? 'Hide trash' : `Trash (${trashedEssays.length})`}
+            </button>
+            {showTrash && (
+              <TrashList essays={trashedEssays} onRestoreEssay={onRestoreEssay} onDeleteEssay={onDeleteEssay} />
+            )}
+          </div>
+        )}
+
         {!isLoggedIn && (
           <p className="home-note">
             Sign in to save your essays to the cloud and access them anywhere.
           </p>
         )}
       </div>
+
+      <TemplatePicker
+        isOpen={pickingTemplate}
+        onSelect={(templateId) => {
+          setPickingTemplate(false);
+          onNewEssay(templateId);
+        }}
+        onCancel={() => setPickingTemplate(false)}
+      />
+
+      <DraftImportDialog
+        isOpen={importingDraft}
+        onCancel={() => setImportingDraft(false)}
+        onCreate={async (title, essay) => {
+          await onImportEssay({ title, essay, comments: [] });
+          setImportingDraft(false);
+        }}
+      />
+    </div>
+  );
+}
+
+interface TrashListProps {
+  essays: TrashedEssayDocument[];
+  onRestoreEssay: (essayId: string) => void;
+  onDeleteEssay: (essayId: string) => void;
+}
+
+function TrashList({ essays, onRestoreEssay, onDeleteEssay }: TrashListProps) {
+  const [confirmDelete, setConfirmDelete] = useState<TrashedEssayDocument | null>(null);
+  const now = new Date();
+
+  return (
+    <div className="essays-section">
+      <h2>Trash</h2>
+      <p className="trash-note">Essays in the trash are deleted for good after {TRASH_RETENTION_DAYS} days.</p>
+      <div className="essays-grid">
+        {essays.map((essay) => {
+          const daysLeft = getDaysUntilPurge(essay.trashedAt, now);
+          return (
+            <div key={essay.id} className="essay-card essay-card-trashed">
+              <div className="essay-card-title">{essay.title || 'Untitled Essay'}</div>
+              <div className="essay-card-date">
+                Deleted {formatRelativeDate(essay.trashedAt)} · {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+              </div>
+              <div className="essay-card-trash-actions">
+                <button className="btn-restore-essay" onClick={() => onRestoreEssay(essay.id)}>
+                  Restore
+                </button>
+                <button className="btn-delete-forever" onClick={() => setConfirmDelete(essay)}>
+                  Delete forever
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!confirmDelete}
+        title="Delete Forever?"
+        message={`"${confirmDelete?.title || 'Untitled Essay'}" will be deleted with its comments and history. This cannot be undone.`}
+        confirmLabel="Delete forever"
+        onConfirm={() => {
+          if (confirmDelete) onDeleteEssay(confirmDelete.id);
+          setConfirmDelete(null);
+        }}
+        onCancel={() => setConfirmDelete(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { IntegrityBanner } from './IntegrityBanner';
+import { createEssay, type Essay } from '../models/essay';
+import { checkEssayIntegrity } from '../models/integrity';
+
+/** Two claims, with the second claim's body paragraph pointing at a deleted claim */
+function createBrokenEssay(paragraph = ''): Essay {
+  const essay = createEssay();
+  essay.intro.claims.push({ id: 'claim-2', text: 'Javert cannot bend' });
+  essay.bodyParagraphs.push({ ...essay.bodyParagraphs[0], id: 'body-2', provingClaimId: 'deleted', paragraph });
+  return essay;
+}
+
+function renderBanner(essay: Essay) {
+  const props = { essay, issues: checkEssayIntegrity(essay), onRepair: vi.fn(), onDismiss: vi.fn() };
+  render(<IntegrityBanner {...props} />);
+  return props;
+}
+
+describe('IntegrityBanner', () => {
+  it('renders nothing without issues', () => {
+    const essay = createEssay();
+    const { container } = render(
+      <IntegrityBanner essay={essay} issues={[]} onRepair={vi.fn()} onDismiss={vi.fn()} />
+    );
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('describes each issue', () => {
+    renderBanner(createBrokenEssay());
+    expect(screen.getByText('Body paragraph 2 proves a claim that no longer exists.')).toBeTruthy();
+    expect(screen.getByText('Claim 2 ("Javert cannot bend") has no body paragraph.')).toBeTruthy();
+  });
+
+  it('repairs with the chosen fix', () => {
+    const props = renderBanner(createBrokenEssay());
+    fireEvent.click(screen.getByRole('button', { name: 'Link to claim 2' }));
+    expect(props.onRepair).toHaveBeenCalledWith({ type: 'link', bodyId: 'body-2', claimId: 'claim-2' });
+  });
+
+  it('deletes an empty body paragraph without asking', () => {
+    const props = renderBanner(createBrokenEssay());
+    fireEvent.click(screen.getByRole('button', { name: 'Delete body paragraph' }));
+    expect(props.onRepair).toHaveBeenCalledWith({ type: 'delete-body', bodyId: 'body-2' });
+  });
+
+  it('asks before deleting a body paragraph with content', () => {
+    const props = renderBanner(createBrokenEssay('Javert jumps.'));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete body paragraph' }));
+    expect(props.onRepair).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(props.onRepair).toHaveBeenCalledWith({ type: 'delete-body', bodyId: 'body-2' });
+  });
+
+  it('can be dismissed', () => {
+    const props = renderBanner(createBrokenEssay());
+    fireEvent.click(screen.getByRole('button', { name: 'Not now' }));
+    expect(props.onDismiss).toHaveBeenCalled();
+  });
+});
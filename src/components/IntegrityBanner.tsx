@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+import type { BodyParagraph, Essay } from '../models/essay';
+import { getRepairOptions, type IntegrityIssue, type IntegrityRepair } from '../models/integrity';
+
+const PREVIEW_LENGTH = 60;
+
+interface IntegrityBannerProps {
+  essay: Essay;
+  issues: IntegrityIssue[];
+  onRepair: (repair: IntegrityRepair) => void;
+  onDismiss: () => void;
+}
+
+function preview(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+  return ` ("${trimmed.length > PREVIEW_LENGTH ? `${trimmed.slice(0, PREVIEW_LENGTH)}…` : trimmed}")`;
+}
+
+const hasBodyContent = (body: BodyParagraph): boolean =>
+  [body.purpose, body.recap, body.paragraph, ...body.proofBlocks.flatMap((pb) => [pb.quote, pb.analysis, pb.connection])]
+    .some((text) => text?.trim());
+
+function describeIssue(essay: Essay, issue: IntegrityIssue): string {
+  switch (issue.type) {
+    case 'missing-claim':
+      return `Body paragraph ${issue.bodyIndex + 1} proves a claim that no longer exists.`;
+    case 'shared-claim': {
+      const claimIndex = essay.intro.claims.findIndex((c) => c.id === issue.claimId);
+      return `Body paragraph ${issue.bodyIndex + 1} proves claim ${claimIndex + 1}, which an earlier body paragraph already proves.`;
+    }
+    case 'unproven-claim':
+      return `Claim ${issue.claimIndex + 1}${preview(essay.intro.claims[issue.claimIndex].text)} has no body paragraph.`;
+  }
+}
+
+function describeRepair(essay: Essay, issue: IntegrityIssue, repair: IntegrityRepair): string {
+  switch (repair.type) {
+    case 'link':
+      if (issue.type === 'unproven-claim') {
+        return `Use body paragraph ${essay.bodyParagraphs.findIndex((bp) => bp.id === repair.bodyId) + 1}`;
+      }
+      return `Link to claim ${essay.intro.claims.findIndex((c) => c.id === repair.claimId) + 1}`;
+    case 'create-claim':
+      return 'Add a claim for it';
+    case 'delete-body':
+      return 'Delete body paragraph';
+    case 'create-body':
+      return 'Add a body paragraph';
+    case 'delete-claim':
+      return 'Delete claim';
+  }
+}
+
+/**
+ * Shown when claims and body paragraphs no longer match up one to one, with
+ * a fix for each broken link. Deleting anything with content asks first.
+ */
+export function IntegrityBanner({ essay, issues, onRepair, onDismiss }: IntegrityBannerProps) {
+  const [confirmDelete, setConfirmDelete] = useState<IntegrityRepair | null>(null);
+
+  if (issues.length === 0) return null;
+
+  const handleRepair = (repair: IntegrityRepair) => {
+    const body = repair.type === 'delete-body' && essay.bodyParagraphs.find((bp) => bp.id === repair.bodyId);
+    const claim = repair.type === 'delete-claim' && essay.intro.claims.find((c) => c.id === repair.claimId);
+    if ((body && hasBodyContent(body)) || (claim && claim.text.trim())) {
+      setConfirmDelete(repair);
+    } else {
+      onRepair(repair);
+    }
+  };
+
+  return (
+    <div className="conflict-banner integrity-banner" role="alert">
+      <p className="conflict-banner-title">
+        Some claims and body paragraphs no longer match up. Choose how to fix each one.
+      </p>
+      <ul className="conflict-list">
+        {issues.map((issue) => (
+          <li key={issue.type === 'unproven-claim' ? issue.claimId : issue.bodyId} className="conflict-item">
+            <span className="conflict-label">{describeIssue(essay, issue)}</span>
+            <div className="conflict-actions">
+              {getRepairOptions(essay, issue).map((repair) => (
+                <button
+                  key={describeRepair(essay, issue, repair)}
+                  className={`btn-conflict ${repair.type === 'link' ? 'btn-conflict-remote' : ''}`}
+                  onClick={() => handleRepair(repair)}
+                >
+                  {describeRepair(essay, issue, repair)}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <button className="btn-integrity-dismiss" onClick={onDismiss}>
+        Not now
+      </button>
+
+      <ConfirmDialog
+        isOpen={confirmDelete !== null}
+        title={confirmDelete?.type === 'delete-claim' ? 'Delete claim?' : 'Delete body paragraph?'}
+        message="It has content that will be lost. You can undo this."
+        onConfirm={() => {
+          if (confirmDelete) onRepair(confirmDelete);
+          setConfirmDelete(null);
+        }}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
@@ -1,88 +1,109 @@
 import { useState } from 'react';
-import { OutlineCell, ParagraphCell, PurposeCell, SectionLabel } from './Cells';
+import { ParagraphCell, SectionLabel } from './Cells';
 import { AddRemoveActions } from './AddRemoveActions';
 import { ConfirmDialog } from './ConfirmDialog';
+import { DragHandle, useDropTarget, DRAG_TYPE_CLAIM } from './DragHandle';
+import { FieldRow } from './TemplateFields';
 import { makeCommentProps, type CommentHelpers, type CommentProps } from './Comments';
+import { makePresenceProps, type PresenceHelpers, type PresenceProps } from './Presence';
+import { makeLintProps, type LintHelpers, type LintProps } from './Lint';
 import type { Intro, Claim } from '../models/essay';
+import {
+  DEFAULT_PHRASE_BANK,
+  fillPrompt,
+  type IntroTemplate,
+  type PhraseBank,
+  type RepeatedFieldTemplate,
+} from '../models/template';
+import { draftIntroParagraph } from '../models/outlineDraft';
 
 interface IntroSectionProps {
   intro: Intro;
+  template: IntroTemplate;
   updateIntro: (field: keyof Intro, value: Intro[keyof Intro]) => void;
   addClaim: () => void;
   updateClaim: (claimId: string, text: string) => void;
   removeClaim: (claimId: string) => void;
+  moveClaim: (claimId: string, toIndex: number) => void;
   sectionCollapsed: boolean;
   onToggleSection: () => void;
+  /** Transition phrases for "Draft from outline" */
+  phrases?: PhraseBank;
+  /** Words allowed in the paragraph, from the assignment's word limits */
+  paragraphWordLimit?: number;
   readOnly?: boolean;
   commentHelpers?: CommentHelpers;
+  presenceHelpers?: PresenceHelpers;
+  lintHelpers?: LintHelpers;
 }
 
 export function IntroSection({
-  intro, updateIntro, addClaim, updateClaim, removeClaim,
-  sectionCollapsed, onToggleSection, readOnly = false, commentHelpers,
+  intro, template, updateIntro, addClaim, updateClaim, removeClaim, moveClaim,
+  sectionCollapsed, onToggleSection, phrases = DEFAULT_PHRASE_BANK, paragraphWordLimit, readOnly = false, commentHelpers, presenceHelpers, lintHelpers,
 }: IntroSectionProps) {
   const [confirmDelete, setConfirmDelete] = useState<{ type: string; id: string } | null>(null);
-  const rowCount = 3 + intro.claims.length;
-  const cp = (blockId: string, blockType: 'intro' | 'claim') => makeCommentProps(commentHelpers, blockId, blockType);
+  const rowCount = template.fields.length + intro.claims.length;
+  const cp = (blockId: string, blockType: 'intro' | 'claim') => ({
+    ...makeCommentProps(commentHelpers, blockId, blockType),
+    ...makePresenceProps(presenceHelpers, blockId),
+    ...makeLintProps(lintHelpers, blockId),
+  });
+  const refs = { thesis: intro.thesis || '[Thesis]' };
 
   const handleRemoveClaim = (claimId: string) => {
     const claim = intro.claims.find((c) => c.id === claimId);
     claim?.text?.trim() ? setConfirmDelete({ type: 'claim', id: claimId }) : removeClaim(claimId);
   };
 
+  const [firstField, ...otherFields] = template.fields;
+  const renderField = (field: IntroTemplate['fields'][number]) => (
+    <FieldRow
+      key={field.key}
+      field={field}
+      refs={refs}
+      value={intro[field.key]}
+      onChange={(v) => updateIntro(field.key, v)}
+      readOnly={readOnly}
+      {...cp(`intro-${field.key}`, 'intro')}
+    />
+  );
+
   return (
     <div className={`section section-intro ${sectionCollapsed ? 'section-collapsed' : ''}`}>
       <div className="section-grid" style={{ gridTemplateRows: `repeat(${rowCount}, auto)` }}>
-        <SectionLabel rowSpan={rowCount} onClick={onToggleSection} collapsed={sectionCollapsed}>Intro</SectionLabel>
+        <SectionLabel rowSpan={rowCount} onClick={onToggleSection} collapsed={sectionCollapsed}>
+          {template.label}
+        </SectionLabel>
 
-        <PurposeCell label="Hook">Grab the reader</PurposeCell>
-        <OutlineCell
-          value={intro.hook}
-          onChange={(v) => updateIntro('hook', v)}
-          placeholder="How will you hook the reader?"
-          readOnly={readOnly}
-          {...cp('intro-hook', 'intro')}
-        />
+        {renderField(firstField)}
         <ParagraphCell
           rowSpan={rowCount}
           value={intro.paragraph}
           onChange={(v) => updateIntro('paragraph', v)}
-          placeholder="Write your introduction paragraph here, weaving together your hook, background, thesis, and claims..."
+          placeholder={fillPrompt(template.paragraph, refs)}
           readOnly={readOnly}
+          getDraft={() => draftIntroParagraph(intro, template, phrases)}
+          wordLimit={paragraphWordLimit}
           {...cp('intro-paragraph', 'intro')}
         />
-
-        <PurposeCell label="Background">Provide context and background</PurposeCell>
-        <OutlineCell
-          value={intro.background}
-          onChange={(v) => updateIntro('background', v)}
-          placeholder="What context does the reader need?"
-          readOnly={readOnly}
-          {...cp('intro-background', 'intro')}
-        />
-
-        <PurposeCell label="Thesis">The new idea that is true</PurposeCell>
-        <OutlineCell
-          value={intro.thesis}
-          onChange={(v) => updateIntro('thesis', v)}
-          placeholder="What is the new idea you're arguing is true?"
-          readOnly={readOnly}
-          {...cp('intro-thesis', 'intro')}
-        />
+        {otherFields.map(renderField)}
 
         {intro.claims.map((claim, i) => (
           <ClaimRow
             key={claim.id}
             claim={claim}
             index={i}
-            thesis={intro.thesis}
+            count={intro.claims.length}
+            template={template.claim}
+            thesis={refs.thesis}
             isOnly={intro.claims.length === 1}
             updateClaim={updateClaim}
             removeClaim={handleRemoveClaim}
+            moveClaim={moveClaim}
             isLast={i === intro.claims.length - 1}
             addClaim={addClaim}
             readOnly={readOnly}
-            commentProps={cp(claim.id, 'claim')}
+            cellProps={cp(claim.id, 'claim')}
           />
         ))}
       </div>
@@ -101,39 +122,54 @@ export function IntroSection({
 interface ClaimRowProps {
   claim: Claim;
   index: number;
+  count: number;
+  template: RepeatedFieldTemplate;
   thesis: string;
   isOnly: boolean;
   updateClaim: (claimId: string, text: string) => void;
   removeClaim: (claimId: string) => void;
+  moveClaim: (claimId: string, toIndex: number) => void;
   isLast: boolean;
   addClaim: () => void;
   readOnly?: boolean;
-  commentProps?: CommentProps;
+  cellProps?: CommentProps & PresenceProps & LintProps;
 }
 
-function ClaimRow({ claim, index, thesis, isOnly, updateClaim, removeClaim, isLast, addClaim, readOnly = false, commentProps }: ClaimRowProps) {
-  const thesisText = thesis || '[thesis]';
+function ClaimRow({
+  claim, index, count, template, thesis, isOnly, updateClaim, removeClaim, moveClaim, isLast, addClaim, readOnly = false, cellProps,
+}: ClaimRowProps) {
+  const { isOver, dropProps } = useDropTarget(DRAG_TYPE_CLAIM, (claimId) => moveClaim(claimId, index), !readOnly);
+  const refs = { thesis, n: String(index + 1) };
   return (
-    <>
-      <PurposeCell label={`Claim ${index + 1}`} actions={!readOnly ? (
-        <AddRemoveActions
-          canRemove={!isOnly}
-          canAdd={isLast}
-          onRemove={() => removeClaim(claim.id)}
-          onAdd={addClaim}
-          removeTitle="Remove claim"
-          addTitle="Add claim"
-        />
-      ) : null}>
-        Because... (reason {index + 1} why <span className="ref">{thesisText}</span> is true)
-      </PurposeCell>
-      <OutlineCell
-        value={claim.text}
-        onChange={(v) => updateClaim(claim.id, v)}
-        placeholderContent={<>Claim {index + 1}: Why is <span className="ref">{thesisText}</span> true?</>}
-        readOnly={readOnly}
-        {...commentProps}
-      />
-    </>
+    <FieldRow
+      field={template}
+      refs={refs}
+      value={claim.text}
+      onChange={(v) => updateClaim(claim.id, v)}
+      readOnly={readOnly}
+      purposeClassName={isOver ? 'drop-target-over' : ''}
+      dropProps={dropProps}
+      actions={!readOnly ? (
+        <>
+          <DragHandle
+            dragType={DRAG_TYPE_CLAIM}
+            itemId={claim.id}
+            index={index}
+            count={count}
+            onMove={(toIndex) => moveClaim(claim.id, toIndex)}
+            label={fillPrompt(template.label, refs).toLowerCase()}
+          />
+          <AddRemoveActions
+            canRemove={!isOnly}
+            canAdd={isLast}
+            onRemove={() => removeClaim(claim.id)}
+            onAdd={addClaim}
+            removeTitle="Remove claim"
+            addTitle="Add claim"
+          />
+        </>
+      ) : null}
+      {...cellProps}
+    />
   );
 }
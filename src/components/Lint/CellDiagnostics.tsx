@@ -0,0 +1,21 @@
+import type { Diagnostic } from '../../models/lint';
+
+interface CellDiagnosticsProps {
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Badge on a cell the essay checklist flagged, listing what to fix on hover
+ */
+export function CellDiagnostics({ diagnostics }: CellDiagnosticsProps) {
+  if (diagnostics.length === 0) return null;
+
+  const severity = diagnostics.some((d) => d.severity === 'error') ? 'error' : 'warning';
+  const messages = diagnostics.map((d) => d.message).join('\n');
+
+  return (
+    <span className={`cell-lint-badge cell-lint-${severity}`} title={messages} role="img" aria-label={messages}>
+      !
+    </span>
+  );
+}
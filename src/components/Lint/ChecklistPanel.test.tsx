@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChecklistPanel } from './ChecklistPanel';
+import { CellDiagnostics } from './CellDiagnostics';
+import type { Diagnostic } from '../../models/lint';
+
+const thesisMissing: Diagnostic = {
+  rule: 'thesis-missing',
+  severity: 'error',
+  blockId: 'intro-thesis',
+  message: 'The intro has no thesis yet. Every claim should prove it.',
+};
+
+const noAnalysis: Diagnostic = {
+  rule: 'evidence-without-analysis',
+  severity: 'warning',
+  blockId: 'p1-analysis',
+  message: 'Proof 1 in body paragraph 1 has evidence but no analysis.',
+};
+
+describe('ChecklistPanel', () => {
+  it('renders nothing when closed', () => {
+    const { container } = render(<ChecklistPanel isOpen={false} onClose={vi.fn()} diagnostics={[]} />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('ticks off rules that pass and lists what still needs work', () => {
+    render(<ChecklistPanel isOpen onClose={vi.fn()} diagnostics={[thesisMissing, noAnalysis]} />);
+
+    expect(screen.getByText('3 of 5 done')).toBeTruthy();
+    expect(screen.getByText('Every claim is filled in').closest('li')?.className).toContain('checklist-item-done');
+    expect(screen.getByText('The intro states a thesis').closest('li')?.className).not.toContain('checklist-item-done');
+    expect(screen.getByText(thesisMissing.message)).toBeTruthy();
+    expect(screen.getByText(noAnalysis.message)).toBeTruthy();
+  });
+
+  it('closes from the close button', () => {
+    const onClose = vi.fn();
+    render(<ChecklistPanel isOpen onClose={onClose} diagnostics={[]} />);
+    fireEvent.click(screen.getByTitle('Close'));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
+
+describe('CellDiagnostics', () => {
+  it('shows nothing for a cell without diagnostics', () => {
+    const { container } = render(<CellDiagnostics diagnostics={[]} />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('describes every diagnostic and takes the most severe color', () => {
+    render(<CellDiagnostics diagnostics={[noAnalysis, thesisMissing]} />);
+    const badge = screen.getByRole('img');
+
+    expect(badge.className).toContain('cell-lint-error');
+    expect(badge.getAttribute('aria-label')).toBe(`${noAnalysis.message}\n${thesisMissing.message}`);
+  });
+});
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { IconCheck, IconClose } from '../Comments/Icons';
+import { LINT_RULES, type Diagnostic } from '../../models/lint';
+
+interface ChecklistPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Slide-out checklist of the essay's structure: each rule is ticked off or
+ * lists the cells that still need work
+ */
+export function ChecklistPanel({ isOpen, onClose, diagnostics }: ChecklistPanelProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const passedCount = LINT_RULES.filter(({ rule }) => !diagnostics.some((d) => d.rule === rule)).length;
+
+  return (
+    <div className="comment-panel-overlay">
+      <div ref={panelRef} className="comment-panel checklist-panel">
+        <div className="comment-panel-header">
+          <h2 className="comment-panel-title">
+            Checklist
+            <span className="comment-panel-subtitle">
+              {passedCount} of {LINT_RULES.length} done
+            </span>
+          </h2>
+          <button className="comment-panel-close" onClick={onClose} title="Close">
+            <IconClose />
+          </button>
+        </div>
+
+        <ul className="comment-panel-content checklist-items">
+          {LINT_RULES.map(({ rule, label }) => {
+            const issues = diagnostics.filter((d) => d.rule === rule);
+            return (
+              <li key={rule} className={`checklist-item ${issues.length === 0 ? 'checklist-item-done' : ''}`}>
+                <span className="checklist-item-label">
+                  <span className="checklist-item-mark">{issues.length === 0 ? <IconCheck size={12} /> : issues.length}</span>
+                  {label}
+                </span>
+                {issues.length > 0 && (
+                  <ul className="checklist-issues">
+                    {issues.map((issue, i) => (
+                      <li key={i} className={`checklist-issue checklist-issue-${issue.severity}`}>
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { CellDiagnostics } from './CellDiagnostics';
+export { ChecklistPanel } from './ChecklistPanel';
+export { makeLintProps } from './lintHelpers';
+export type { LintHelpers, LintProps } from './lintHelpers';
@@ -0,0 +1,14 @@
+import type { Diagnostic } from '../../models/lint';
+
+export interface LintProps {
+  diagnostics?: Diagnostic[];
+}
+
+export interface LintHelpers {
+  getBlockDiagnostics: (blockId: string) => Diagnostic[];
+}
+
+export function makeLintProps(lintHelpers: LintHelpers | undefined, blockId: string): LintProps {
+  if (!lintHelpers) return {};
+  return { diagnostics: lintHelpers.getBlockDiagnostics(blockId) };
+}
@@ -0,0 +1,18 @@
+import { getPresenceColor, type PresenceSession } from '../../models/presence';
+
+interface CellPresenceProps {
+  presence: PresenceSession[];
+}
+
+/**
+ * Name tag on a cell that other people have focused
+ */
+export function CellPresence({ presence }: CellPresenceProps) {
+  if (presence.length === 0) return null;
+
+  return (
+    <span className="cell-presence-label" style={{ backgroundColor: getPresenceColor(presence[0].uid) }}>
+      {presence.map((session) => session.displayName).join(', ')}
+    </span>
+  );
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PresenceAvatars } from './PresenceAvatars';
+import { CellPresence } from './CellPresence';
+import type { PresenceSession } from '../../models/presence';
+
+function makeSession(name: string, overrides: Partial<PresenceSession> = {}): PresenceSession {
+  return {
+    id: `session-${name}`,
+    uid: `uid-${name}`,
+    displayName: name,
+    photoURL: null,
+    mode: 'editing',
+    focusedCell: null,
+    lastSeen: new Date(0),
+    ...overrides,
+  };
+}
+
+describe('PresenceAvatars', () => {
+  it('renders nothing when nobody else is here', () => {
+    const { container } = render(<PresenceAvatars collaborators={[]} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows initials, or the photo when there is one, titled with name and mode', () => {
+    render(
+      <PresenceAvatars
+        collaborators={[
+          makeSession('Ada Lovelace', { mode: 'viewing' }),
+          makeSession('Alan Turing', { photoURL: 'https://example.com/alan.png' }),
+        ]}
+      />
+    );
+
+    expect(screen.getByTitle('Ada Lovelace (viewing)').textContent).toBe('AL');
+    expect(screen.getByAltText('Alan Turing').getAttribute('src')).toBe('https://example.com/alan.png');
+  });
+
+  it('collapses everyone past the fourth into a count', () => {
+    const names = ['A', 'B', 'C', 'D', 'E', 'F'];
+    render(<PresenceAvatars collaborators={names.map((name) => makeSession(name))} />);
+
+    expect(screen.getByText('+2').getAttribute('title')).toBe('E, F');
+  });
+});
+
+describe('CellPresence', () => {
+  it('names everyone focused on the cell', () => {
+    render(<CellPresence presence={[makeSession('Ada'), makeSession('Alan')]} />);
+    expect(screen.getByText('Ada, Alan')).toBeTruthy();
+  });
+});
@@ -0,0 +1,55 @@
+import { getInitials, getPresenceColor, type PresenceSession } from '../../models/presence';
+
+const MAX_VISIBLE = 4;
+
+interface PresenceAvatarProps {
+  session: PresenceSession;
+}
+
+function PresenceAvatar({ session }: PresenceAvatarProps) {
+  const color = getPresenceColor(session.uid);
+  const title = `${session.displayName} (${session.mode})`;
+  return session.photoURL ? (
+    <img
+      src={session.photoURL}
+      alt={session.displayName}
+      title={title}
+      className="presence-avatar"
+      style={{ borderColor: color }}
+    />
+  ) : (
+    <span className="presence-avatar presence-avatar-initials" title={title} style={{ backgroundColor: color, borderColor: color }}>
+      {getInitials(session.displayName)}
+    </span>
+  );
+}
+
+interface PresenceAvatarsProps {
+  collaborators: PresenceSession[];
+}
+
+/**
+ * Avatars of the other people with the essay open
+ */
+export function PresenceAvatars({ collaborators }: PresenceAvatarsProps) {
+  if (collaborators.length === 0) return null;
+
+  const visible = collaborators.slice(0, MAX_VISIBLE);
+  const hidden = collaborators.slice(MAX_VISIBLE);
+
+  return (
+    <div className="presence-avatars" aria-label="People in this essay">
+      {visible.map((session) => (
+        <PresenceAvatar key={session.uid} session={session} />
+      ))}
+      {hidden.length > 0 && (
+        <span
+          className="presence-avatar presence-avatar-more"
+          title={hidden.map((session) => session.displayName).join(', ')}
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { PresenceAvatars } from './PresenceAvatars';
+export { CellPresence } from './CellPresence';
+export { makePresenceProps } from './presenceHelpers';
+export type { PresenceHelpers, PresenceProps } from './presenceHelpers';
@@ -0,0 +1,19 @@
+import type { PresenceSession } from '../../models/presence';
+
+export interface PresenceProps {
+  presence?: PresenceSession[];
+  onFocusChange?: (focused: boolean) => void;
+}
+
+export interface PresenceHelpers {
+  getCellPresence: (cellId: string) => PresenceSession[];
+  onCellFocus: (cellId: string | null) => void;
+}
+
+export function makePresenceProps(presenceHelpers: PresenceHelpers | undefined, cellId: string): PresenceProps {
+  if (!presenceHelpers) return {};
+  return {
+    presence: presenceHelpers.getCellPresence(cellId),
+    onFocusChange: (focused: boolean) => presenceHelpers.onCellFocus(focused ? cellId : null),
+  };
+}
@@ -0,0 +1,69 @@
+import type { CitationStyle, ProofBlock, Source } from '../../models/essay';
+import { DEFAULT_CITATION_STYLE, getProofBlockCitation, getSourceLabel } from '../../models/citation';
+
+interface ProofSourceProps {
+  proofBlock: ProofBlock;
+  sources: Source[];
+  /** The essay's citation style, for the in-text citation */
+  citationStyle?: CitationStyle;
+  onChange: (sourceId: string | null, page?: string) => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Which source (and page) a proof block's evidence comes from, in the proof
+ * block header, with the in-text citation to use. Hidden until the essay has
+ * sources.
+ */
+export function ProofSource({
+  proofBlock,
+  sources,
+  citationStyle = DEFAULT_CITATION_STYLE,
+  onChange,
+  readOnly = false,
+}: ProofSourceProps) {
+  const source = sources.find((s) => s.id === proofBlock.sourceId);
+  const citation = getProofBlockCitation(proofBlock, sources, citationStyle);
+
+  if (readOnly) {
+    if (!source) return null;
+    return (
+      <span className="proof-source proof-source-readonly">
+        {getSourceLabel(source)}
+        {proofBlock.page && `, p. ${proofBlock.page}`}
+      </span>
+    );
+  }
+
+  if (sources.length === 0) return null;
+
+  return (
+    <span className="proof-source">
+      <select
+        aria-label="Source"
+        value={source?.id ?? ''}
+        onChange={(e) => onChange(e.target.value || null, proofBlock.page)}
+      >
+        <option value="">No source</option>
+        {sources.map((s) => (
+          <option key={s.id} value={s.id}>
+            {getSourceLabel(s)}
+          </option>
+        ))}
+      </select>
+      {source && (
+        <input
+          aria-label="Page"
+          placeholder="Page"
+          value={proofBlock.page ?? ''}
+          onChange={(e) => onChange(source.id, e.target.value)}
+        />
+      )}
+      {citation && (
+        <span className="proof-source-citation" title="In-text citation">
+          {citation}
+        </span>
+      )}
+    </span>
+  );
+}
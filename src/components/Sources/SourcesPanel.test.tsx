@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SourcesPanel } from './SourcesPanel';
+import { ProofSource } from './ProofSource';
+import { createEssay, createSource, type Essay, type Source } from '../../models/essay';
+
+const hugo: Source = {
+  ...createSource('book'),
+  id: 'hugo',
+  authors: ['Victor Hugo'],
+  title: 'Les Misérables',
+  container: 'Signet',
+  published: '1987',
+};
+
+function makeEssay(sources: Source[] = [hugo]): Essay {
+  return { ...createEssay(), sources };
+}
+
+const renderPanel = (essay: Essay, overrides: Partial<Parameters<typeof SourcesPanel>[0]> = {}) => {
+  const props = {
+    isOpen: true,
+    onClose: vi.fn(),
+    essay,
+    onAddSource: vi.fn(),
+    onUpdateSource: vi.fn(),
+    onRemoveSource: vi.fn(),
+    onChangeCitationStyle: vi.fn(),
+    ...overrides,
+  };
+  render(<SourcesPanel {...props} />);
+  return props;
+};
+
+describe('SourcesPanel', () => {
+  it('renders nothing when closed', () => {
+    const { container } = render(
+      <SourcesPanel
+        isOpen={false}
+        onClose={vi.fn()}
+        essay={makeEssay()}
+        onAddSource={vi.fn()}
+        onUpdateSource={vi.fn()}
+        onRemoveSource={vi.fn()}
+        onChangeCitationStyle={vi.fn()}
+      />
+    );
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('edits a source, splitting authors on semicolons', () => {
+    const { onUpdateSource } = renderPanel(makeEssay());
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Les Mis' } });
+    fireEvent.change(screen.getByLabelText('Authors'), { target: { value: 'Victor Hugo;Jane Smith' } });
+
+    expect(onUpdateSource).toHaveBeenCalledWith('hugo', { title: 'Les Mis' });
+    expect(onUpdateSource).toHaveBeenCalledWith('hugo', { authors: ['Victor Hugo', 'Jane Smith'] });
+  });
+
+  it('shows the fields each type of source needs', () => {
+    renderPanel(makeEssay([{ ...hugo, type: 'website' }]));
+
+    expect(screen.getByLabelText('Website name')).toBeTruthy();
+    expect(screen.getByLabelText('URL')).toBeTruthy();
+    expect(screen.getByLabelText('Date accessed')).toBeTruthy();
+    expect(screen.queryByLabelText('Pages')).toBeNull();
+  });
+
+  it('previews the Works Cited list with italic titles', () => {
+    renderPanel(makeEssay());
+
+    expect(screen.getByRole('heading', { name: 'Works Cited' })).toBeTruthy();
+    expect(screen.getByText('Les Misérables', { selector: 'em' })).toBeTruthy();
+  });
+
+  it('switches the citation style', () => {
+    const { onChangeCitationStyle } = renderPanel(makeEssay());
+    fireEvent.change(screen.getByLabelText('Citation style'), { target: { value: 'apa' } });
+    expect(onChangeCitationStyle).toHaveBeenCalledWith('apa');
+  });
+
+  it('removes an uncited source straight away', () => {
+    const { onRemoveSource } = renderPanel(makeEssay());
+    fireEvent.click(screen.getByText('Remove'));
+    expect(onRemoveSource).toHaveBeenCalledWith('hugo');
+  });
+
+  it('asks before removing a source that proof blocks cite', () => {
+    const essay = makeEssay();
+    essay.bodyParagraphs[0].proofBlocks[0].sourceId = 'hugo';
+    const { onRemoveSource } = renderPanel(essay);
+
+    fireEvent.click(screen.getByText('Remove'));
+    expect(onRemoveSource).not.toHaveBeenCalled();
+    expect(screen.getByText(/It is cited by 1 proof block\./)).toBeTruthy();
+
+    fireEvent.click(screen.getAllByText('Remove')[1]);
+    expect(onRemoveSource).toHaveBeenCalledWith('hugo');
+  });
+
+  it('hides editing controls when read-only', () => {
+    renderPanel(makeEssay(), { readOnly: true });
+
+    expect(screen.queryByText('+ Add source')).toBeNull();
+    expect(screen.queryByText('Remove')).toBeNull();
+    expect((screen.getByLabelText('Title') as HTMLInputElement).disabled).toBe(true);
+  });
+});
+
+describe('ProofSource', () => {
+  const proofBlock = { id: 'p1', quote: '', analysis: '', connection: '' };
+
+  it('is hidden until the essay has sources', () => {
+    const { container } = render(<ProofSource proofBlock={proofBlock} sources={[]} onChange={vi.fn()} />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('picks a source, then a page', () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<ProofSource proofBlock={proofBlock} sources={[hugo]} onChange={onChange} />);
+
+    expect(screen.queryByLabelText('Page')).toBeNull();
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: 'hugo' } });
+    expect(onChange).toHaveBeenCalledWith('hugo', undefined);
+
+    rerender(<ProofSource proofBlock={{ ...proofBlock, sourceId: 'hugo' }} sources={[hugo]} onChange={onChange} />);
+    fireEvent.change(screen.getByLabelText('Page'), { target: { value: '45' } });
+    expect(onChange).toHaveBeenCalledWith('hugo', '45');
+  });
+
+  it('shows the in-text citation in the essay\'s style', () => {
+    render(
+      <ProofSource
+        proofBlock={{ ...proofBlock, sourceId: 'hugo', page: '45' }}
+        sources={[hugo]}
+        citationStyle="chicago"
+        onChange={vi.fn()}
+      />
+    );
+    expect(screen.getByTitle('In-text citation').textContent).toBe('(Hugo 1987, 45)');
+  });
+
+  it('shows the citation as text when read-only', () => {
+    render(<ProofSource proofBlock={{ ...proofBlock, sourceId: 'hugo', page: '45' }} sources={[hugo]} onChange={vi.fn()} readOnly />);
+    expect(screen.getByText('Les Misérables, p. 45')).toBeTruthy();
+  });
+});
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from 'react';
+import { IconClose } from '../Comments/Icons';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { CITATION_STYLES, SOURCE_TYPES, type CitationStyle, type Essay, type Source, type SourceType } from '../../models/essay';
+import { CITATION_STYLE_LABELS, getCitationStyle, getWorksCited, type CitationEntry } from '../../models/citation';
+
+interface SourcesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  essay: Essay;
+  onAddSource: (type?: SourceType) => void;
+  onUpdateSource: (sourceId: string, fields: Partial<Omit<Source, 'id'>>) => void;
+  onRemoveSource: (sourceId: string) => void;
+  onChangeCitationStyle: (style: CitationStyle) => void;
+  readOnly?: boolean;
+}
+
+const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  book: 'Book',
+  article: 'Article',
+  website: 'Website',
+};
+
+const CONTAINER_LABELS: Record<SourceType, string> = {
+  book: 'Publisher',
+  article: 'Journal or magazine',
+  website: 'Website name',
+};
+
+/** Proof blocks citing a source */
+const countCitations = (essay: Essay, sourceId: string): number =>
+  essay.bodyParagraphs.flatMap((bp) => bp.proofBlocks).filter((pb) => pb.sourceId === sourceId).length;
+
+function EntryText({ entry }: { entry: CitationEntry }) {
+  return <>{entry.map((part, i) => (part.italic ? <em key={i}>{part.text}</em> : part.text))}</>;
+}
+
+interface SourceFormProps {
+  source: Source;
+  index: number;
+  onUpdate: (fields: Partial<Omit<Source, 'id'>>) => void;
+  onRemove: () => void;
+  readOnly: boolean;
+}
+
+function SourceForm({ source, index, onUpdate, onRemove, readOnly }: SourceFormProps) {
+  const text = (label: string, field: 'title' | 'container' | 'published' | 'pages' | 'url' | 'accessed', placeholder = '') => (
+    <label className="source-field">
+      <span>{label}</span>
+      <input
+        value={source[field]}
+        placeholder={placeholder}
+        onChange={(e) => onUpdate({ [field]: e.target.value })}
+        disabled={readOnly}
+      />
+    </label>
+  );
+
+  return (
+    <li className="source-item">
+      <div className="source-item-header">
+        <select
+          aria-label={`Source ${index + 1} type`}
+          value={source.type}
+          onChange={(e) => onUpdate({ type: e.target.value as SourceType })}
+          disabled={readOnly}
+        >
+          {SOURCE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {SOURCE_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {!readOnly && (
+          <button className="source-remove-btn" onClick={onRemove}>
+            Remove
+          </button>
+        )}
+      </div>
+      <label className="source-field">
+        <span>Authors</span>
+        <input
+          value={source.authors.join(';')}
+          placeholder="Victor Hugo; Jane Smith"
+          onChange={(e) => onUpdate({ authors: e.target.value ? e.target.value.split(';') : [] })}
+          disabled={readOnly}
+        />
+      </label>
+      {text('Title', 'title')}
+      {text(CONTAINER_LABELS[source.type], 'container')}
+      {text(source.type === 'book' ? 'Year' : 'Date published', 'published')}
+      {source.type === 'article' && text('Pages', 'pages', '12-19')}
+      {source.type !== 'book' && text('URL', 'url', 'https://')}
+      {source.type === 'website' && text('Date accessed', 'accessed', '3 May 2024')}
+    </li>
+  );
+}
+
+/**
+ * Slide-out library of the essay's sources, with the citation style and a
+ * preview of the Works Cited list
+ */
+export function SourcesPanel({
+  isOpen,
+  onClose,
+  essay,
+  onAddSource,
+  onUpdateSource,
+  onRemoveSource,
+  onChangeCitationStyle,
+  readOnly = false,
+}: SourcesPanelProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [confirmRemove, setConfirmRemove] = useState<{ sourceId: string; citations: number } | null>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const sources = essay.sources ?? [];
+  const worksCited = getWorksCited(essay);
+
+  const handleRemove = (sourceId: string) => {
+    const citations = countCitations(essay, sourceId);
+    if (citations > 0) {
+      setConfirmRemove({ sourceId, citations });
+    } else {
+      onRemoveSource(sourceId);
+    }
+  };
+
+  return (
+    <div className="comment-panel-overlay">
+      <div ref={panelRef} className="comment-panel sources-panel">
+        <div className="comment-panel-header">
+          <h2 className="comment-panel-title">
+            Sources
+            <span className="comment-panel-subtitle">{sources.length}</span>
+          </h2>
+          <button className="comment-panel-close" onClick={onClose} title="Close">
+            <IconClose />
+          </button>
+        </div>
+
+        <div className="comment-panel-content">
+          <label className="source-field sources-style">
+            <span>Citation style</span>
+            <select
+              value={getCitationStyle(essay)}
+              onChange={(e) => onChangeCitationStyle(e.target.value as CitationStyle)}
+              disabled={readOnly}
+            >
+              {CITATION_STYLES.map((style) => (
+                <option key={style} value={style}>
+                  {CITATION_STYLE_LABELS[style]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {sources.length === 0 && (
+            <p className="sources-empty">
+              No sources yet. Add the works your evidence comes from, then pick one in each proof block.
+            </p>
+          )}
+
+          <ul className="source-list">
+            {sources.map((source, i) => (
+              <SourceForm
+                key={source.id}
+                source={source}
+                index={i}
+                onUpdate={(fields) => onUpdateSource(source.id, fields)}
+                onRemove={() => handleRemove(source.id)}
+                readOnly={readOnly}
+              />
+            ))}
+          </ul>
+
+          {!readOnly && (
+            <button className="sources-add-btn" onClick={() => onAddSource()}>
+              + Add source
+            </button>
+          )}
+
+          {worksCited && (
+            <section className="works-cited-preview">
+              <h3>{worksCited.heading}</h3>
+              {worksCited.entries.map((entry, i) => (
+                <p key={i} className="works-cited-entry">
+                  <EntryText entry={entry} />
+                </p>
+              ))}
+            </section>
+          )}
+        </div>
+
+        <ConfirmDialog
+          isOpen={confirmRemove !== null}
+          title="Remove source?"
+          message={`It is cited by ${confirmRemove?.citations === 1 ? '1 proof block' : `${confirmRemove?.citations} proof blocks`}. Their citations will be removed too. You can undo this.`}
+          confirmLabel="Remove"
+          onConfirm={() => {
+            if (confirmRemove) onRemoveSource(confirmRemove.sourceId);
+            setConfirmRemove(null);
+          }}
+          onCancel={() => setConfirmRemove(null)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { SourcesPanel } from './SourcesPanel';
+export { ProofSource } from './ProofSource';
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { StatsBar } from './StatsBar';
+import { createEssay, type Essay, type WordLimits } from '../models/essay';
+import { getTemplate } from '../models/template';
+
+function createWrittenEssay(wordLimits?: WordLimits): Essay {
+  const essay = createEssay();
+  essay.intro.paragraph = 'Mercy changes people. It changed Valjean.';
+  essay.bodyParagraphs[0].paragraph = 'The bishop forgives him.';
+  return wordLimits ? { ...essay, wordLimits } : essay;
+}
+
+function renderBar(essay: Essay, expanded = true) {
+  const props = {
+    essay,
+    template: getTemplate('argument'),
+    expanded,
+    onToggle: vi.fn(),
+    onChangeWordLimits: vi.fn(),
+  };
+  render(<StatsBar {...props} />);
+  return props;
+}
+
+/** Cell text of each paragraph row */
+const getRows = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell').map((cell) => cell.textContent));
+
+describe('StatsBar', () => {
+  it('sums up the essay while collapsed', () => {
+    const props = renderBar(createWrittenEssay(), false);
+
+    expect(screen.getByText('10 words')).toBeTruthy();
+    expect(screen.getByText('3 sentences')).toBeTruthy();
+    expect(screen.getByText('1 min read')).toBeTruthy();
+    expect(screen.queryByRole('table')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { expanded: false }));
+    expect(props.onToggle).toHaveBeenCalled();
+  });
+
+  it('lists each paragraph when expanded', () => {
+    renderBar(createWrittenEssay());
+
+    expect(getRows()).toEqual([
+      ['Intro', '6', '2', '3', '1 min read'],
+      ['Body 1', '4', '1', '4', '1 min read'],
+      ['Conclusion', '0', '0', '0', '0 min read'],
+    ]);
+  });
+
+  it('turns counts over the word limits red', () => {
+    renderBar(createWrittenEssay({ essay: 8, paragraph: 5 }));
+
+    expect(screen.getByText('10 / 8 words').className).toContain('word-count-over');
+    const [intro, body] = screen.getAllByRole('row').slice(1);
+    expect(within(intro).getAllByRole('cell')[1].className).toContain('word-count-over');
+    expect(within(body).getAllByRole('cell')[1].className).not.toContain('word-count-over');
+  });
+
+  it('sets and clears the word limits', () => {
+    const props = renderBar(createWrittenEssay({ paragraph: 150 }));
+
+    fireEvent.change(screen.getByLabelText('Essay word limit'), { target: { value: '800' } });
+    expect(props.onChangeWordLimits).toHaveBeenCalledWith({ paragraph: 150, essay: 800 });
+
+    fireEvent.change(screen.getByLabelText('Paragraph word limit'), { target: { value: '' } });
+    expect(props.onChangeWordLimits).toHaveBeenLastCalledWith({ paragraph: undefined });
+  });
+});
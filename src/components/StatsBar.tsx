@@ -0,0 +1,111 @@
+import type { ChangeEvent } from 'react';
+import type { Essay, WordLimits } from '../models/essay';
+import type { EssayTemplate } from '../models/template';
+import { formatReadingTime, getEssayStats, getParagraphStats, isOverLimit } from '../models/stats';
+
+interface StatsBarProps {
+  essay: Essay;
+  template: EssayTemplate;
+  expanded: boolean;
+  onToggle: () => void;
+  onChangeWordLimits: (limits: WordLimits) => void;
+  readOnly?: boolean;
+}
+
+const formatAverage = (average: number): string => average.toFixed(1).replace(/\.0$/, '');
+
+function WordLimitInput({
+  label,
+  value,
+  onChange,
+  readOnly,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  readOnly: boolean;
+}) {
+  return (
+    <label className="stats-limit">
+      {label}
+      <input
+        type="number"
+        min={1}
+        step={1}
+        value={value ?? ''}
+        placeholder="None"
+        disabled={readOnly}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+          const limit = Math.floor(Number(e.target.value));
+          onChange(e.target.value && limit > 0 ? limit : undefined);
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * Word count and reading time for the essay, opening into per-paragraph
+ * statistics and the assignment's word limits
+ */
+export function StatsBar({ essay, template, expanded, onToggle, onChangeWordLimits, readOnly = false }: StatsBarProps) {
+  const limits = essay.wordLimits ?? {};
+  const total = getEssayStats(essay);
+  const paragraphs = getParagraphStats(essay, template);
+
+  return (
+    <section className={`stats-bar ${expanded ? 'stats-bar-expanded' : ''}`}>
+      <button className="stats-bar-toggle" onClick={onToggle} aria-expanded={expanded}>
+        <span className="stats-bar-icon">{expanded ? '▾' : '▸'}</span>
+        <span className={isOverLimit(total.words, limits.essay) ? 'word-count-over' : ''}>
+          {limits.essay !== undefined ? `${total.words} / ${limits.essay}` : total.words} words
+        </span>
+        <span>{total.sentences} sentences</span>
+        <span>{formatAverage(total.averageSentenceLength)} words per sentence</span>
+        <span>{formatReadingTime(total.readingMinutes)}</span>
+      </button>
+
+      {expanded && (
+        <div className="stats-bar-details">
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th>Section</th>
+                <th>Words</th>
+                <th>Sentences</th>
+                <th>Words per sentence</th>
+                <th>Reading time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paragraphs.map(({ key, label, stats }) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  <td className={isOverLimit(stats.words, limits.paragraph) ? 'word-count-over' : ''}>{stats.words}</td>
+                  <td>{stats.sentences}</td>
+                  <td>{formatAverage(stats.averageSentenceLength)}</td>
+                  <td>{formatReadingTime(stats.readingMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="stats-limits">
+            <WordLimitInput
+              label="Essay word limit"
+              value={limits.essay}
+              onChange={(essayLimit) => onChangeWordLimits({ ...limits, essay: essayLimit })}
+              readOnly={readOnly}
+            />
+            <WordLimitInput
+              label="Paragraph word limit"
+              value={limits.paragraph}
+              onChange={(paragraphLimit) => onChangeWordLimits({ ...limits, paragraph: paragraphLimit })}
+              readOnly={readOnly}
+            />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
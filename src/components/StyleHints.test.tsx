@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ParagraphCell } from './Cells';
+
+// Cells auto-resize with ResizeObserver, which jsdom does not provide
+beforeAll(() => {
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    disconnect() {}
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+const PARAGRAPH = 'It was very nice. It was written badly.';
+
+function renderCell(value = PARAGRAPH) {
+  return render(<ParagraphCell value={value} onChange={() => {}} rowSpan={1} />);
+}
+
+describe('Style hints', () => {
+  it('shows the reading grade and hint count', () => {
+    renderCell();
+    expect(screen.getByRole('button', { name: 'Grade 2 · 4 hints' })).toBeTruthy();
+  });
+
+  it('highlights the paragraph and explains each hint when turned on', () => {
+    const { container } = renderCell();
+    expect(container.querySelector('.style-mark')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: /Grade/ }));
+
+    const marks = [...container.querySelectorAll('.style-mark')].map((mark) => [mark.className, mark.textContent]);
+    expect(marks).toEqual([
+      ['style-mark style-mark-weak-word', 'very'],
+      ['style-mark style-mark-weak-word', 'nice'],
+      ['style-mark style-mark-repeated-opener', 'It'],
+      ['style-mark style-mark-passive-voice', 'was written'],
+    ]);
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+      'Weak word “very”: "very" is vague. Try one stronger word instead, e.g. "exhausted" for "very tired".',
+      'Weak word “nice”: "nice" is vague. Say what makes it so.',
+      'Repeated opener “It”: This sentence starts with "It", like the one before it. Try a different opening.',
+      'Passive voice “was written”: Passive voice hides who does the action. Try starting with who does it.',
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: /Grade/ }));
+    expect(container.querySelector('.style-mark')).toBeNull();
+    expect(screen.queryAllByRole('listitem')).toEqual([]);
+  });
+
+  it('says so when a paragraph has nothing to flag', () => {
+    renderCell('Valjean steals the silver.');
+    fireEvent.click(screen.getByRole('button', { name: /Grade/ }));
+    expect(screen.getByText('No style hints for this paragraph.')).toBeTruthy();
+  });
+
+  it('has no hints for an empty paragraph', () => {
+    renderCell('');
+    expect(screen.queryByRole('button', { name: /Grade/ })).toBeNull();
+  });
+});
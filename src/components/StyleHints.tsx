@@ -0,0 +1,76 @@
+import { formatGrade, getStyleRuleLabel, splitByHints, type StyleHint, type StyleReport } from '../models/style';
+
+const PREVIEW_LENGTH = 60;
+
+const preview = (text: string): string =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+interface StyleToggleProps {
+  report: StyleReport;
+  active: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Reading grade and hint count; turns the paragraph's highlights on and off
+ */
+export function StyleToggle({ report, active, onToggle }: StyleToggleProps) {
+  const count = report.hints.length;
+  return (
+    <button
+      className={`paragraph-style-btn ${active ? 'active' : ''}`}
+      onClick={onToggle}
+      aria-pressed={active}
+      title="Readability and style hints"
+    >
+      {report.grade !== null && formatGrade(report.grade)}
+      {count > 0 && ` · ${count} ${count === 1 ? 'hint' : 'hints'}`}
+    </button>
+  );
+}
+
+interface StyleHintsProps {
+  text: string;
+  hints: StyleHint[];
+}
+
+/**
+ * The paragraph's text again with each hint marked, laid out exactly like the
+ * textarea so the marks show through behind the text
+ */
+export function StyleHighlights({ text, hints }: StyleHintsProps) {
+  return (
+    <div className="paragraph-style-backdrop" aria-hidden="true">
+      {splitByHints(text, hints).map((segment, i) =>
+        segment.hints.length > 0 ? (
+          <mark key={i} className={['style-mark', ...segment.hints.map((hint) => `style-mark-${hint.rule}`)].join(' ')}>
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Each hint with the text it is about and what to try instead
+ */
+export function StyleHintList({ text, hints }: StyleHintsProps) {
+  if (hints.length === 0) {
+    return <p className="style-hints style-hints-empty">No style hints for this paragraph.</p>;
+  }
+  return (
+    <ul className="style-hints">
+      {hints.map((hint, i) => (
+        <li key={i} className="style-hint">
+          <span className={`style-hint-swatch style-mark-${hint.rule}`} />
+          <span>
+            <strong>{getStyleRuleLabel(hint.rule)}</strong> “{preview(text.slice(hint.start, hint.end))}”: {hint.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,87 @@
+import { ReactNode } from 'react';
+import { OutlineCell, PurposeCell } from './Cells';
+import type { CommentProps } from './Comments';
+import type { PresenceProps } from './Presence';
+import type { LintProps } from './Lint';
+import type { DropTargetProps } from './DragHandle';
+import {
+  fillPrompt,
+  formatPromptRef,
+  hasPromptRefs,
+  parsePrompt,
+  type PromptRefs,
+  type RepeatedFieldTemplate,
+} from '../models/template';
+
+interface PromptTextProps {
+  prompt: string;
+  refs: PromptRefs;
+}
+
+/**
+ * Render a template prompt, highlighting referenced content (thesis, claims...)
+ */
+export function PromptText({ prompt, refs }: PromptTextProps) {
+  return (
+    <>
+      {parsePrompt(prompt).map((part, i) => {
+        if ('text' in part) return part.text;
+        const value = formatPromptRef(refs[part.ref]);
+        return part.ref === 'n' ? value : <span key={i} className="ref">{value}</span>;
+      })}
+    </>
+  );
+}
+
+interface FieldRowProps extends CommentProps, PresenceProps, LintProps {
+  field: RepeatedFieldTemplate;
+  refs: PromptRefs;
+  value: string;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+  className?: string;
+  purposeClassName?: string;
+  actions?: ReactNode;
+  dropProps?: DropTargetProps;
+}
+
+/**
+ * One Purpose + Outline row, with label, guidance and placeholder from a template
+ */
+export function FieldRow({
+  field,
+  refs,
+  value,
+  onChange,
+  readOnly = false,
+  className = '',
+  purposeClassName = '',
+  actions,
+  dropProps,
+  ...cellProps
+}: FieldRowProps) {
+  const placeholderProps = hasPromptRefs(field.placeholder)
+    ? { placeholderContent: <PromptText prompt={field.placeholder} refs={refs} /> }
+    : { placeholder: field.placeholder };
+
+  return (
+    <>
+      <PurposeCell
+        label={fillPrompt(field.label, refs)}
+        className={`${className} ${purposeClassName}`.trim()}
+        actions={actions}
+        dropProps={dropProps}
+      >
+        <PromptText prompt={field.purpose} refs={refs} />
+      </PurposeCell>
+      <OutlineCell
+        value={value || ''}
+        onChange={onChange}
+        readOnly={readOnly}
+        className={className}
+        {...placeholderProps}
+        {...cellProps}
+      />
+    </>
+  );
+}
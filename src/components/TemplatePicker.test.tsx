@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TemplatePicker } from './TemplatePicker';
+import { TEMPLATES } from '../models/template';
+
+describe('TemplatePicker', () => {
+  it('renders nothing when closed', () => {
+    const { container } = render(<TemplatePicker isOpen={false} onSelect={vi.fn()} onCancel={vi.fn()} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('lists every template with its description', () => {
+    render(<TemplatePicker isOpen onSelect={vi.fn()} onCancel={vi.fn()} />);
+    TEMPLATES.forEach((template) => {
+      expect(screen.getByText(template.name)).toBeTruthy();
+      expect(screen.getByText(template.description)).toBeTruthy();
+    });
+  });
+
+  it('selects the clicked template', () => {
+    const onSelect = vi.fn();
+    render(<TemplatePicker isOpen onSelect={onSelect} onCancel={vi.fn()} />);
+    fireEvent.click(screen.getByText('Literary Analysis'));
+    expect(onSelect).toHaveBeenCalledWith('literary-analysis');
+  });
+
+  it('cancels from the close button', () => {
+    const onCancel = vi.fn();
+    render(<TemplatePicker isOpen onSelect={vi.fn()} onCancel={onCancel} />);
+    fireEvent.click(screen.getByTitle('Cancel'));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,33 @@
+import { MouseEvent } from 'react';
+import { TEMPLATES, type TemplateId } from '../models/template';
+
+interface TemplatePickerProps {
+  isOpen: boolean;
+  onSelect: (templateId: TemplateId) => void;
+  onCancel: () => void;
+}
+
+export function TemplatePicker({ isOpen, onSelect, onCancel }: TemplatePickerProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content template-picker" onClick={(e: MouseEvent) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Choose an Essay Type</h2>
+          <button className="modal-close" onClick={onCancel} title="Cancel">
+            &times;
+          </button>
+        </div>
+        <div className="template-options">
+          {TEMPLATES.map((template) => (
+            <button key={template.id} className="template-option" onClick={() => onSelect(template.id)}>
+              <span className="template-option-name">{template.name}</span>
+              <span className="template-option-description">{template.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
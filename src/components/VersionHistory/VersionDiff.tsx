@@ -0,0 +1,68 @@
+import { diffEssays, diffWords, type FieldDiff } from '../../models/version';
+import type { Essay } from '../../models/essay';
+
+interface VersionDiffProps {
+  version: Essay;
+  current: Essay;
+}
+
+function DiffText({ row, side }: { row: FieldDiff; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'added' : 'removed';
+  const text = side === 'before' ? row.before : row.after;
+
+  if (!text) {
+    return <span className="version-diff-empty">Empty</span>;
+  }
+
+  if (row.change !== 'changed') {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {diffWords(row.before, row.after)
+        .filter((segment) => segment.type !== hidden)
+        .map((segment, index) =>
+          segment.type === 'same' ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <mark key={index} className={`version-diff-${segment.type}`}>
+              {segment.text}
+            </mark>
+          )
+        )}
+    </>
+  );
+}
+
+/**
+ * Side-by-side comparison of a saved version against the current essay.
+ * Only fields that differ are shown.
+ */
+export function VersionDiff({ version, current }: VersionDiffProps) {
+  const rows = diffEssays(version, current).filter((row) => row.change !== 'unchanged');
+
+  if (rows.length === 0) {
+    return <div className="version-diff-identical">This version matches the current essay.</div>;
+  }
+
+  return (
+    <div className="version-diff">
+      <div className="version-diff-columns">
+        <span>This version</span>
+        <span>Current</span>
+      </div>
+      {rows.map((row) => (
+        <div key={row.key} className={`version-diff-row version-diff-row-${row.change}`}>
+          <div className="version-diff-label">{row.label}</div>
+          <div className="version-diff-side">
+            <DiffText row={row} side="before" />
+          </div>
+          <div className="version-diff-side">
+            <DiffText row={row} side="after" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
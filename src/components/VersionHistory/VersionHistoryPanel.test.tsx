@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { createEssay, updateIntro } from '../../models/essay';
+import type { EssayVersion } from '../../models/version';
+
+vi.mock('../../utils/formatDate', () => ({
+  formatRelativeDate: vi.fn(() => '5 minutes ago'),
+}));
+
+const current = updateIntro(createEssay(), 'thesis', 'Schools should start later in the day');
+
+function createTestVersion(overrides: Partial<EssayVersion> = {}): EssayVersion {
+  return {
+    id: 'v1',
+    title: 'My Essay',
+    data: updateIntro(current, 'thesis', 'Schools should start earlier in the day'),
+    authorUid: 'user-1',
+    authorDisplayName: 'Test User',
+    createdAt: new Date('2024-01-15T12:00:00Z'),
+    reason: 'auto',
+    restoredFromId: null,
+    ...overrides,
+  };
+}
+
+describe('VersionHistoryPanel', () => {
+  const defaultProps = {
+    isOpen: true,
+    onClose: vi.fn(),
+    versions: [createTestVersion()],
+    currentEssay: current,
+    loading: false,
+    error: null,
+    canRestore: true,
+    onRestore: vi.fn(() => Promise.resolve()),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing when closed', () => {
+    const { container } = render(<VersionHistoryPanel {...defaultProps} isOpen={false} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists versions with author and timestamp', () => {
+    render(
+      <VersionHistoryPanel
+        {...defaultProps}
+        versions={[createTestVersion({ id: 'v2', reason: 'restore', authorDisplayName: 'Editor' }), createTestVersion()]}
+      />
+    );
+
+    expect(screen.getAllByText('5 minutes ago')).toHaveLength(2);
+    expect(screen.getByText('Editor · restored')).toBeInTheDocument();
+    expect(screen.getByText('Test User')).toBeInTheDocument();
+  });
+
+  it('says how many snapshots could not be read', () => {
+    render(<VersionHistoryPanel {...defaultProps} unreadableCount={2} />);
+    expect(screen.getByText('2 snapshots are damaged and not shown')).toBeTruthy();
+  });
+
+  it('shows an empty state when there are no versions', () => {
+    render(<VersionHistoryPanel {...defaultProps} versions={[]} />);
+    expect(screen.getByText('No versions yet')).toBeInTheDocument();
+  });
+
+  it('shows a side-by-side diff of changed fields for the selected version', () => {
+    render(<VersionHistoryPanel {...defaultProps} />);
+
+    fireEvent.click(screen.getByText('Test User'));
+
+    expect(screen.getByText('Intro · Thesis')).toBeInTheDocument();
+    expect(screen.getByText(/earlier/)).toHaveClass('version-diff-removed');
+    expect(screen.getByText(/later/)).toHaveClass('version-diff-added');
+    expect(screen.queryByText('Intro · Hook')).not.toBeInTheDocument();
+  });
+
+  it('says so when the version matches the current essay', () => {
+    render(<VersionHistoryPanel {...defaultProps} versions={[createTestVersion({ data: current })]} />);
+
+    fireEvent.click(screen.getByText('Test User'));
+
+    expect(screen.getByText('This version matches the current essay.')).toBeInTheDocument();
+  });
+
+  it('restores the selected version after confirmation', async () => {
+    const version = createTestVersion();
+    render(<VersionHistoryPanel {...defaultProps} versions={[version]} />);
+
+    fireEvent.click(screen.getByText('Test User'));
+    fireEvent.click(screen.getByText('Restore this version'));
+    expect(defaultProps.onRestore).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Restore'));
+
+    await waitFor(() => expect(defaultProps.onRestore).toHaveBeenCalledWith(version));
+  });
+
+  it('hides restore when the user cannot edit', () => {
+    render(<VersionHistoryPanel {...defaultProps} canRestore={false} />);
+
+    fireEvent.click(screen.getByText('Test User'));
+
+    expect(screen.queryByText('Restore this version')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,170 @@
+import { useState, useEffect, useRef } from 'react';
+import { IconClose } from '../Comments/Icons';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { VersionDiff } from './VersionDiff';
+import { formatRelativeDate } from '../../utils/formatDate';
+import type { Essay } from '../../models/essay';
+import type { EssayVersion } from '../../models/version';
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: EssayVersion[];
+  currentEssay: Essay;
+  loading: boolean;
+  error: string | null;
+  /** Snapshots that could not be read and are not listed */
+  unreadableCount?: number;
+  canRestore: boolean;
+  onRestore: (version: EssayVersion) => Promise<void>;
+}
+
+const IconHistory = ({ size = 32 }: { size?: number }) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <circle cx="12" cy="12" r="9" />
+    <polyline points="12 7 12 12 15 14" />
+  </svg>
+);
+
+export function VersionHistoryPanel({
+  isOpen,
+  onClose,
+  versions,
+  currentEssay,
+  loading,
+  error,
+  unreadableCount = 0,
+  canRestore,
+  onRestore,
+}: VersionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+
+  // Close panel when clicking outside (but not while the confirm dialog is open)
+  useEffect(() => {
+    if (!isOpen || confirmRestore) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, confirmRestore, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) setSelectedId(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setConfirmRestore(false);
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+      setSelectedId(null);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="version-panel-overlay">
+        <div ref={panelRef} className="version-panel">
+          <div className="comment-panel-header">
+            <h2 className="comment-panel-title">Version history</h2>
+            <button className="comment-panel-close" onClick={onClose} title="Close">
+              <IconClose />
+            </button>
+          </div>
+
+          {error && <div className="version-panel-error">{error}</div>}
+          {unreadableCount > 0 && (
+            <div className="version-panel-error">
+              {unreadableCount === 1 ? '1 snapshot is' : `${unreadableCount} snapshots are`} damaged and not shown
+            </div>
+          )}
+
+          <div className="version-panel-body">
+            <div className="version-list">
+              {loading ? (
+                <div className="version-list-status">Loading...</div>
+              ) : versions.length === 0 ? (
+                <div className="comment-panel-empty">
+                  <IconHistory />
+                  <p>No versions yet</p>
+                  <span>Snapshots are saved automatically while you edit</span>
+                </div>
+              ) : (
+                versions.map((version) => (
+                  <button
+                    key={version.id}
+                    className={`version-item ${version.id === selectedId ? 'version-item-active' : ''}`}
+                    onClick={() => setSelectedId(version.id)}
+                  >
+                    <span className="version-item-date" title={version.createdAt.toLocaleString()}>
+                      {formatRelativeDate(version.createdAt)}
+                    </span>
+                    <span className="version-item-meta">
+                      {version.authorDisplayName}
+                      {version.reason === 'restore' && ' · restored'}
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <div className="version-detail">
+              {selected ? (
+                <>
+                  <div className="version-detail-header">
+                    <span className="version-detail-title">
+                      {selected.title || 'Untitled'}
+                      <span className="version-detail-date">{selected.createdAt.toLocaleString()}</span>
+                    </span>
+                    {canRestore && (
+                      <button
+                        className="version-restore-btn"
+                        onClick={() => setConfirmRestore(true)}
+                        disabled={restoring}
+                      >
+                        {restoring ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    )}
+                  </div>
+                  <VersionDiff version={selected.data} current={currentEssay} />
+                </>
+              ) : (
+                <div className="version-detail-placeholder">Select a version to compare it with the current essay</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmRestore}
+        title="Restore Version"
+        message="Replace the current essay with this version? The current essay stays in the history."
+        confirmLabel="Restore"
+        destructive={false}
+        onConfirm={handleRestore}
+        onCancel={() => setConfirmRestore(false)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,2 @@
+export { VersionHistoryPanel } from './VersionHistoryPanel';
+export { VersionDiff } from './VersionDiff';
@@ -1,6 +1,8 @@
 export { IntroSection } from './IntroSection';
 export { BodySection } from './BodySection';
+export { CounterargumentSection, AddCounterargument } from './CounterargumentSection';
 export { ConclusionSection } from './ConclusionSection';
 export { SectionLabel, PurposeCell, OutlineCell, ParagraphCell } from './Cells';
 export { ShareButton } from './ShareButton';
 export { ShareDialog } from './ShareDialog';
+export { ExportDialog } from './ExportDialog';
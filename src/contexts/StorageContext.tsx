@@ -0,0 +1,44 @@
+import { createContext, useMemo, ReactNode } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import type { EssayStorage } from '../storage/interface';
+
+/**
+ * Owner id used for essays kept in device storage by signed-out users
+ */
+export const LOCAL_USER_ID = 'local';
+
+export interface StorageContextValue {
+  /** Backend for the current auth state: remote when signed in, device otherwise */
+  storage: EssayStorage;
+  /** Owner id to use with `storage` for the current user's own essays */
+  userId: string;
+  /** Cloud backend - shared and public essays always live here */
+  remoteStorage: EssayStorage;
+  /** On-device backend used while signed out */
+  deviceStorage: EssayStorage;
+}
+
+export const StorageContext = createContext<StorageContextValue | null>(null);
+
+interface StorageProviderProps {
+  children: ReactNode;
+  remote: EssayStorage;
+  device: EssayStorage;
+}
+
+export function StorageProvider({ children, remote, device }: StorageProviderProps) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const value = useMemo(
+    (): StorageContextValue => ({
+      storage: uid ? remote : device,
+      userId: uid ?? LOCAL_USER_ID,
+      remoteStorage: remote,
+      deviceStorage: device,
+    }),
+    [uid, remote, device]
+  );
+
+  return <StorageContext.Provider value={value}>{children}</StorageContext.Provider>;
+}
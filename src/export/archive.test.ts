@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildEssayArchive, getArchiveFileName, type ArchivedEssay } from './archive';
+import { readEssayBundle } from './bundle';
+import { readZip } from '../utils/zip';
+import { createEssay } from '../models/essay';
+import type { Comment } from '../models/comment';
+
+const archived = (title: string, overrides: Partial<ArchivedEssay['document']> = {}, comments: Comment[] = []) => {
+  const data = createEssay();
+  data.intro.paragraph = `${title} intro.`;
+  return { document: { id: title, title, data, updatedAt: new Date(2026, 9, 1), ...overrides }, comments };
+};
+
+const NOTE: Comment = {
+  id: 'c1',
+  blockId: 'intro-paragraph',
+  blockType: 'intro',
+  authorUid: 'u2',
+  authorEmail: 'teacher@example.com',
+  authorDisplayName: 'Teacher',
+  text: 'Good start',
+  createdAt: new Date(2026, 9, 2),
+  updatedAt: new Date(2026, 9, 2),
+  parentCommentId: null,
+  resolved: false,
+};
+
+describe('buildEssayArchive', () => {
+  it('writes a JSON bundle, Markdown and a Word document for every essay', async () => {
+    const files = await readZip(buildEssayArchive([archived('Mercy'), archived('Law')], 'Ada Lovelace'));
+
+    expect([...files.keys()]).toEqual(['Mercy.json', 'Mercy.md', 'Mercy.docx', 'Law.json', 'Law.md', 'Law.docx']);
+    expect(new TextDecoder().decode(files.get('Law.md'))).toContain('# Law');
+    const docx = await readZip(files.get('Mercy.docx')!);
+    expect(new TextDecoder().decode(docx.get('word/document.xml'))).toContain('Ada Lovelace');
+  });
+
+  it('keeps comments and sharing settings in the bundle, which imports again', async () => {
+    const sharing = {
+      isPublic: false,
+      publicToken: null,
+      collaborators: [{ email: 'bob@example.com', permission: 'viewer' as const, addedAt: new Date(2026, 9, 3) }],
+    };
+    const files = await readZip(buildEssayArchive([archived('Mercy', { sharing }, [NOTE])], 'Ada'));
+    const json = new TextDecoder().decode(files.get('Mercy.json'));
+
+    expect(JSON.parse(json).sharing.collaborators[0].email).toBe('bob@example.com');
+    const imported = readEssayBundle(json);
+    expect(imported.essay.intro.paragraph).toBe('Mercy intro.');
+    expect(imported.comments.map((c) => c.text)).toEqual(['Good start']);
+  });
+
+  it('numbers essays that share a file name', async () => {
+    const files = await readZip(
+      buildEssayArchive([archived('Draft'), archived('draft'), archived('Draft?'), archived('')], 'Ada')
+    );
+
+    expect([...files.keys()].filter((name) => name.endsWith('.md'))).toEqual([
+      'Draft.md',
+      'draft (2).md',
+      'Draft (3).md',
+      'Untitled.md',
+    ]);
+  });
+});
+
+describe('getArchiveFileName', () => {
+  it('dates the archive by the local day', () => {
+    expect(getArchiveFileName(new Date(2026, 0, 5, 23, 59))).toBe('Essays 2026-01-05.zip');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Account export: every essay a user owns in one ZIP archive - no React or UI
+ * dependencies
+ *
+ * Each essay is written three ways under the same name: a JSON bundle with
+ * its comments and sharing settings (which the home page can import again),
+ * Markdown, and a Word document. Essays with the same title are numbered so
+ * no file overwrites another.
+ */
+import type { Comment } from '../models/comment';
+import type { EssayDocument } from '../models/document';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { toBaseFileName } from '../utils/download';
+import { createEssayBundle, serializeEssayBundle } from './bundle';
+import { buildMarkdown } from './markdown';
+import { buildDocx } from './docx';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ArchivedEssay {
+  document: EssayDocument;
+  comments: Comment[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const ZIP_MIME_TYPE = 'application/zip';
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Name for the archive, dated by the local day, e.g. "Essays 2026-10-19.zip"
+ */
+export const getArchiveFileName = (date: Date): string =>
+  `Essays ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.zip`;
+
+/**
+ * A safe, unique file name per title: "Title", then "Title (2)" and so on.
+ * File systems that ignore case would still clash, so names compare without it.
+ */
+function uniqueBaseNames(titles: string[]): string[] {
+  const used = new Set<string>();
+  return titles.map((title) => {
+    const base = toBaseFileName(title);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * A ZIP with a .json bundle, a .md and a .docx for every essay, named after
+ * its title. `author` goes in each Word document's byline.
+ */
+export function buildEssayArchive(essays: ArchivedEssay[], author: string, exportedAt: Date = new Date()): Uint8Array {
+  const names = uniqueBaseNames(essays.map(({ document }) => document.title));
+
+  const entries = essays.flatMap(({ document, comments }, i): ZipEntry[] => {
+    const title = document.title || 'Untitled';
+    const bundle = createEssayBundle(document.data, title, { comments, sharing: document.sharing, exportedAt });
+    return [
+      { name: `${names[i]}.json`, data: serializeEssayBundle(bundle) },
+      { name: `${names[i]}.md`, data: buildMarkdown(document.data, title) },
+      {
+        name: `${names[i]}.docx`,
+        data: buildDocx(document.data, { title, author, date: exportedAt }, { mlaHeader: false }),
+      },
+    ];
+  });
+
+  return createZip(entries, exportedAt);
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignCommentsTo,
+  createEssayBundle,
+  EssayBundleError,
+  ESSAY_BUNDLE_FORMAT,
+  readEssayBundle,
+  remapBlockId,
+  serializeEssayBundle,
+} from './bundle';
+import { createEssay, type Essay } from '../models/essay';
+import { CURRENT_SCHEMA_VERSION } from '../models/schema';
+import type { Comment } from '../models/comment';
+
+function makeEssay(): Essay {
+  const essay = createEssay();
+  essay.intro.thesis = 'Hugo prefers mercy to law';
+  essay.intro.claims[0].text = 'Mercy changes people';
+  essay.bodyParagraphs[0].proofBlocks[0].quote = 'My brother, you no longer belong to evil.';
+  return essay;
+}
+
+const comment = (overrides: Partial<Comment>): Comment => ({
+  id: 'c1',
+  blockId: 'intro-thesis',
+  blockType: 'intro',
+  authorUid: 'u1',
+  authorEmail: 'ada@example.com',
+  authorDisplayName: 'Ada',
+  text: 'Too vague',
+  createdAt: new Date('2026-10-01T12:00:00Z'),
+  updatedAt: new Date('2026-10-02T12:00:00Z'),
+  parentCommentId: null,
+  resolved: false,
+  ...overrides,
+});
+
+const roundTrip = (essay: Essay, comments: Comment[] = []) =>
+  readEssayBundle(serializeEssayBundle(createEssayBundle(essay, 'Justice and Mercy', { comments })));
+
+const withBundle = (change: (bundle: Record<string, unknown>) => void) => {
+  const bundle = JSON.parse(serializeEssayBundle(createEssayBundle(makeEssay(), 'Title')));
+  change(bundle);
+  return JSON.stringify(bundle);
+};
+
+const issuesOf = (json: string): string[] => {
+  try {
+    readEssayBundle(json);
+  } catch (e) {
+    return (e as EssayBundleError).issues;
+  }
+  return [];
+};
+
+describe('createEssayBundle', () => {
+  it('stamps the format, bundle version and essay schema version', () => {
+    const bundle = createEssayBundle(makeEssay(), 'Title', { exportedAt: new Date('2026-10-19T00:00:00Z') });
+
+    expect(bundle).toMatchObject({
+      format: ESSAY_BUNDLE_FORMAT,
+      version: 1,
+      exportedAt: '2026-10-19T00:00:00.000Z',
+      title: 'Title',
+      essay: { schemaVersion: CURRENT_SCHEMA_VERSION },
+    });
+    expect(bundle).not.toHaveProperty('sharing');
+  });
+
+  it('records sharing settings with their dates', () => {
+    const bundle = createEssayBundle(makeEssay(), 'Title', {
+      sharing: {
+        isPublic: true,
+        publicToken: 'tok',
+        publicPermission: 'viewer',
+        collaborators: [{ email: 'bob@example.com', permission: 'editor', addedAt: new Date('2026-10-01T00:00:00Z') }],
+        collaboratorEmails: ['bob@example.com'],
+      },
+    });
+
+    expect(bundle.sharing).toEqual({
+      isPublic: true,
+      publicToken: 'tok',
+      publicPermission: 'viewer',
+      collaborators: [{ email: 'bob@example.com', permission: 'editor', addedAt: '2026-10-01T00:00:00.000Z' }],
+    });
+  });
+});
+
+describe('readEssayBundle', () => {
+  it('reads back the title and content under new ids', () => {
+    const essay = makeEssay();
+    const imported = roundTrip(essay);
+
+    expect(imported.title).toBe('Justice and Mercy');
+    expect(imported.essay.intro.thesis).toBe('Hugo prefers mercy to law');
+    expect(imported.essay.bodyParagraphs[0].proofBlocks[0].quote).toBe('My brother, you no longer belong to evil.');
+    expect(imported.essay.intro.claims[0].id).not.toBe(essay.intro.claims[0].id);
+    expect(imported.essay.bodyParagraphs[0].id).not.toBe(essay.bodyParagraphs[0].id);
+    expect(imported.essay.bodyParagraphs[0].proofBlocks[0].id).not.toBe(essay.bodyParagraphs[0].proofBlocks[0].id);
+    expect('schemaVersion' in imported.essay).toBe(false);
+  });
+
+  it('keeps each body paragraph proving the same claim', () => {
+    const imported = roundTrip(makeEssay());
+
+    expect(imported.essay.bodyParagraphs[0].provingClaimId).toBe(imported.essay.intro.claims[0].id);
+  });
+
+  it('moves comments and replies onto the renamed blocks', () => {
+    const essay = makeEssay();
+    const proofId = essay.bodyParagraphs[0].proofBlocks[0].id;
+    const imported = roundTrip(essay, [
+      comment({ id: 'root', blockId: `${proofId}-quote`, blockType: 'proofBlock' }),
+      comment({ id: 'reply', blockId: `${proofId}-quote`, blockType: 'proofBlock', parentCommentId: 'root' }),
+      comment({ id: 'fixed', blockId: 'intro-thesis' }),
+    ]);
+    const [root, reply, fixed] = imported.comments;
+    const newProofId = imported.essay.bodyParagraphs[0].proofBlocks[0].id;
+
+    expect(root.id).not.toBe('root');
+    expect(root.blockId).toBe(`${newProofId}-quote`);
+    expect(reply.parentCommentId).toBe(root.id);
+    expect(fixed.blockId).toBe('intro-thesis');
+    expect(root.createdAt).toEqual(new Date('2026-10-01T12:00:00Z'));
+  });
+
+  it('migrates essays from older schema versions', () => {
+    const json = withBundle((bundle) => {
+      const essay = bundle.essay as Record<string, Record<string, unknown>>;
+      delete essay.schemaVersion;
+      delete essay.conclusion.soWhat;
+    });
+
+    expect(readEssayBundle(json).essay.conclusion.soWhat).toBe('');
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => readEssayBundle('not json')).toThrow('File is not valid JSON');
+    expect(() => readEssayBundle('{"intro": {}}')).toThrow('File is not an essay bundle');
+  });
+
+  it('rejects bundles from a newer release', () => {
+    const json = withBundle((bundle) => {
+      bundle.version = 99;
+    });
+
+    expect(() => readEssayBundle(json)).toThrow('newer than this app supports');
+  });
+
+  it('lists the problems with a corrupted essay', () => {
+    const json = withBundle((bundle) => {
+      (bundle.essay as Record<string, unknown>).intro = 'oops';
+    });
+
+    expect(() => readEssayBundle(json)).toThrow(EssayBundleError);
+    expect(issuesOf(json)).toEqual(['intro: expected an object']);
+  });
+
+  it('lists the problems with corrupted comments', () => {
+    const json = withBundle((bundle) => {
+      bundle.comments = [{ ...comment({}), createdAt: 'yesterday', parentCommentId: 'missing' }];
+    });
+
+    expect(issuesOf(json)).toEqual([
+      'comments[0].createdAt: expected a date',
+      'comments[0].parentCommentId: no comment "missing"',
+    ]);
+  });
+});
+
+describe('assignCommentsTo', () => {
+  it("saves other people's comments under the importing user, keeping who wrote them", () => {
+    const imported = roundTrip(makeEssay(), [
+      comment({ id: 'root', authorUid: 'u1' }),
+      comment({ id: 'reply', authorUid: 'u2', authorEmail: 'bo@example.com', authorDisplayName: 'Bo', parentCommentId: 'root' }),
+    ]);
+    const [root, reply] = assignCommentsTo(imported.comments, 'me');
+
+    expect([root.authorUid, reply.authorUid]).toEqual(['me', 'me']);
+    expect([root.authorDisplayName, root.authorEmail]).toEqual(['Ada', 'ada@example.com']);
+    expect([reply.authorDisplayName, reply.authorEmail]).toEqual(['Bo', 'bo@example.com']);
+    expect(reply.parentCommentId).toBe(root.id);
+  });
+});
+
+describe('remapBlockId', () => {
+  const idMap = new Map([['abc', 'xyz']]);
+
+  it('renames item ids and keeps their field suffix', () => {
+    expect(remapBlockId('abc', idMap)).toBe('xyz');
+    expect(remapBlockId('abc-analysis', idMap)).toBe('xyz-analysis');
+  });
+
+  it('leaves fixed block ids alone', () => {
+    expect(remapBlockId('conclusion-paragraph', idMap)).toBe('conclusion-paragraph');
+  });
+});
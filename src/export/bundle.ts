@@ -0,0 +1,291 @@
+/**
+ * Essay bundles: a whole essay as one JSON file for backup or moving it
+ * between accounts - no React or UI dependencies
+ *
+ * A bundle carries the title, the essay in its stored shape (with
+ * schemaVersion, so bundles from older releases migrate like stored data) and
+ * its comments. Importing gives every claim, body paragraph, proof block and
+ * comment a fresh id, so the same bundle can be imported any number of times
+ * next to the essay it came from.
+ *
+ * Comments keep their author's name and email, but are saved under the
+ * importing user's uid: comments can only be written by their own author.
+ *
+ * Bundles in a full account export also carry the essay's sharing settings
+ * for the record. Import ignores them: access granted in one account does not
+ * carry over to a copy in another.
+ *
+ * Versions:
+ * 1 - title, essay and comments with ISO dates; optional sharing settings.
+ */
+import { generateId, type Essay } from '../models/essay';
+import { generateCommentId, type BlockType, type Comment } from '../models/comment';
+import { EssayDataError, readEssayData, toStoredEssayData, type StoredEssayData } from '../models/schema';
+import type { Collaborator, SharingInfo } from '../models/document';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A comment as written to a bundle, with its dates as ISO strings */
+export type BundleComment = Omit<Comment, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+
+/** Sharing settings as written to a bundle, with dates as ISO strings */
+export interface BundleSharing {
+  isPublic: boolean;
+  publicToken: string | null;
+  publicPermission: SharingInfo['publicPermission'];
+  collaborators: (Omit<Collaborator, 'addedAt'> & { addedAt: string })[];
+}
+
+export interface EssayBundle {
+  format: typeof ESSAY_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  essay: StoredEssayData;
+  comments: BundleComment[];
+  sharing?: BundleSharing;
+}
+
+export interface EssayBundleOptions {
+  comments?: Comment[];
+  sharing?: SharingInfo | null;
+  exportedAt?: Date;
+}
+
+/** A bundle read back, ready to save as a new essay */
+export interface ImportedEssay {
+  title: string;
+  essay: Essay;
+  comments: Comment[];
+}
+
+type BundleRecord = Record<string, unknown>;
+
+/**
+ * A file that is not an essay bundle, was written by a newer release, or is
+ * corrupted. `issues` lists each problem with its path.
+ */
+export class EssayBundleError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'EssayBundleError';
+    this.issues = issues;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const ESSAY_BUNDLE_FORMAT = 'essay-helper-bundle';
+
+export const ESSAY_BUNDLE_VERSION = 1;
+
+export const ESSAY_BUNDLE_MIME_TYPE = 'application/json';
+
+const BLOCK_TYPES: readonly BlockType[] = [
+  'claim',
+  'bodyParagraph',
+  'proofBlock',
+  'intro',
+  'counterargument',
+  'conclusion',
+];
+
+const COMMENT_TEXT_FIELDS = ['id', 'blockId', 'authorUid', 'authorEmail', 'authorDisplayName', 'text'] as const;
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+export const createEssayBundle = (
+  essay: Essay,
+  title: string,
+  { comments = [], sharing, exportedAt = new Date() }: EssayBundleOptions = {}
+): EssayBundle => ({
+  format: ESSAY_BUNDLE_FORMAT,
+  version: ESSAY_BUNDLE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  title,
+  essay: toStoredEssayData(essay),
+  comments: comments.map((comment) => ({
+    ...comment,
+    createdAt: comment.createdAt.toISOString(),
+    updatedAt: comment.updatedAt.toISOString(),
+  })),
+  ...(sharing
+    ? {
+        sharing: {
+          isPublic: sharing.isPublic,
+          publicToken: sharing.publicToken,
+          publicPermission: sharing.publicPermission ?? null,
+          collaborators: sharing.collaborators.map((c) => ({
+            email: c.email,
+            permission: c.permission,
+            addedAt: c.addedAt.toISOString(),
+          })),
+        },
+      }
+    : {}),
+});
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+export const serializeEssayBundle = (bundle: EssayBundle): string => JSON.stringify(bundle, null, 2);
+
+const isRecord = (value: unknown): value is BundleRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Copy of an essay with new claim, body paragraph and proof block ids, plus
+ * the old id -> new id map. Bodies keep proving the same claims.
+ */
+export function regenerateEssayIds(essay: Essay): { essay: Essay; idMap: Map<string, string> } {
+  const idMap = new Map<string, string>();
+  const renew = (id: string) => {
+    const newId = generateId();
+    idMap.set(id, newId);
+    return newId;
+  };
+
+  const claims = essay.intro.claims.map((claim) => ({ ...claim, id: renew(claim.id) }));
+  const bodyParagraphs = essay.bodyParagraphs.map((body) => ({
+    ...body,
+    id: renew(body.id),
+    provingClaimId: idMap.get(body.provingClaimId) ?? body.provingClaimId,
+    proofBlocks: body.proofBlocks.map((proofBlock) => ({ ...proofBlock, id: renew(proofBlock.id) })),
+  }));
+
+  return { essay: { ...essay, intro: { ...essay.intro, claims }, bodyParagraphs }, idMap };
+}
+
+/**
+ * The block id a comment should move to after its essay's ids changed.
+ * Block ids are an item id, or an item id plus a field suffix such as
+ * "-quote"; fixed blocks like "intro-hook" keep their id.
+ */
+export function remapBlockId(blockId: string, idMap: Map<string, string>): string {
+  const direct = idMap.get(blockId);
+  if (direct) return direct;
+  for (const [oldId, newId] of idMap) {
+    if (blockId.startsWith(`${oldId}-`)) {
+      return `${newId}${blockId.slice(oldId.length)}`;
+    }
+  }
+  return blockId;
+}
+
+/**
+ * Comments as the importing user will save them: under their uid, still
+ * showing each original author's name and email
+ */
+export const assignCommentsTo = (comments: Comment[], authorUid: string): Comment[] =>
+  comments.map((comment) => ({ ...comment, authorUid }));
+
+function readComments(data: unknown): Comment[] {
+  if (data === undefined) return [];
+  if (!Array.isArray(data)) {
+    throw new EssayBundleError('Essay bundle is corrupted', ['comments: expected an array']);
+  }
+
+  const issues: string[] = [];
+  const comments = data.flatMap((item, i): Comment[] => {
+    const path = `comments[${i}]`;
+    if (!isRecord(item)) {
+      issues.push(`${path}: expected an object`);
+      return [];
+    }
+    COMMENT_TEXT_FIELDS.forEach((field) => {
+      if (typeof item[field] !== 'string') issues.push(`${path}.${field}: expected a string`);
+    });
+    if (!BLOCK_TYPES.includes(item.blockType as BlockType)) {
+      issues.push(`${path}.blockType: expected one of ${BLOCK_TYPES.join(', ')}`);
+    }
+    if (item.parentCommentId !== null && typeof item.parentCommentId !== 'string') {
+      issues.push(`${path}.parentCommentId: expected a string or null`);
+    }
+    if (typeof item.resolved !== 'boolean') {
+      issues.push(`${path}.resolved: expected a boolean`);
+    }
+    const [createdAt, updatedAt] = [item.createdAt, item.updatedAt].map((value) => new Date(value as string));
+    if (typeof item.createdAt !== 'string' || isNaN(createdAt.getTime())) {
+      issues.push(`${path}.createdAt: expected a date`);
+    }
+    if (typeof item.updatedAt !== 'string' || isNaN(updatedAt.getTime())) {
+      issues.push(`${path}.updatedAt: expected a date`);
+    }
+    return [{ ...(item as unknown as Comment), createdAt, updatedAt }];
+  });
+
+  const ids = new Set(comments.map((c) => c.id));
+  comments.forEach((comment, i) => {
+    if (comment.parentCommentId !== null && !ids.has(comment.parentCommentId)) {
+      issues.push(`comments[${i}].parentCommentId: no comment ${JSON.stringify(comment.parentCommentId)}`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new EssayBundleError('Essay bundle is corrupted', issues);
+  }
+  return comments;
+}
+
+/**
+ * Read a bundle file: check its format and version, migrate and validate the
+ * essay, and give everything new ids. Throws EssayBundleError if the file
+ * cannot be imported.
+ */
+export function readEssayBundle(json: string): ImportedEssay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new EssayBundleError('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== ESSAY_BUNDLE_FORMAT) {
+    throw new EssayBundleError('File is not an essay bundle');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new EssayBundleError(`Essay bundle has an invalid version: ${JSON.stringify(data.version)}`);
+  }
+  if (data.version > ESSAY_BUNDLE_VERSION) {
+    throw new EssayBundleError(
+      `Essay bundle is version ${data.version}, newer than this app supports (${ESSAY_BUNDLE_VERSION})`
+    );
+  }
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    throw new EssayBundleError('Essay bundle is corrupted', ['title: expected a string']);
+  }
+
+  let essay: Essay;
+  try {
+    essay = readEssayData(data.essay);
+  } catch (e) {
+    if (e instanceof EssayDataError) {
+      throw new EssayBundleError(e.message, e.issues);
+    }
+    throw e;
+  }
+  const comments = readComments(data.comments);
+
+  const { essay: renewed, idMap } = regenerateEssayIds(essay);
+  const commentIds = new Map(comments.map((c) => [c.id, generateCommentId()]));
+
+  return {
+    title: (data.title as string | undefined) || 'Untitled',
+    essay: renewed,
+    comments: comments.map((comment) => ({
+      ...comment,
+      id: commentIds.get(comment.id)!,
+      blockId: remapBlockId(comment.blockId, idMap),
+      parentCommentId: comment.parentCommentId === null ? null : commentIds.get(comment.parentCommentId)!,
+    })),
+  };
+}
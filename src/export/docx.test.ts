@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { buildDocx, escapeXml } from './docx';
+import { readZip } from '../utils/zip';
+import { createEssay, createSource, type Essay } from '../models/essay';
+import type { ExportMeta } from './mla';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const META: ExportMeta = {
+  title: 'Justice & Mercy in <Les Misérables>',
+  author: 'Ada Lovelace',
+  instructor: 'Professor Babbage',
+  course: 'English 101',
+  date: new Date(2026, 9, 19),
+};
+
+function makeEssay(): Essay {
+  const essay = createEssay();
+  return {
+    ...essay,
+    intro: { ...essay.intro, paragraph: 'Victor Hugo asks what a just society owes the poor.' },
+    bodyParagraphs: essay.bodyParagraphs.map((body, i) => ({ ...body, paragraph: `Body ${i + 1}` })),
+    conclusion: { ...essay.conclusion, paragraph: 'Mercy, not law, redeems Valjean.\nThe end.' },
+  };
+}
+
+async function unpack(docx: Uint8Array) {
+  const files = await readZip(docx);
+  const parse = (name: string) => {
+    const bytes = files.get(name);
+    if (!bytes) throw new Error(`missing ${name}`);
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+    expect(xml.getElementsByTagName('parsererror')).toHaveLength(0);
+    return xml;
+  };
+  return { files, parse };
+}
+
+/** The text of each paragraph in the document body, with <w:br/> read back as "\n" */
+function paragraphTexts(xml: Document): string[] {
+  return Array.from(xml.getElementsByTagNameNS(W, 'p')).map((p) =>
+    Array.from(p.getElementsByTagNameNS(W, 'r'))
+      .flatMap((r) => Array.from(r.childNodes))
+      .map((node) => (node.nodeName === 'w:br' ? '\n' : node.textContent))
+      .join('')
+  );
+}
+
+const attr = (xml: Document, tag: string, name: string) =>
+  xml.getElementsByTagNameNS(W, tag)[0]?.getAttributeNS(W, name);
+
+describe('buildDocx', () => {
+  it('packages the parts Word needs', async () => {
+    const { files } = await unpack(buildDocx(makeEssay(), META));
+
+    expect([...files.keys()].sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/header1.xml',
+      'word/styles.xml',
+    ]);
+  });
+
+  it('writes the MLA heading, centered title and paragraphs in order', async () => {
+    const { parse } = await unpack(buildDocx(makeEssay(), META));
+    const document = parse('word/document.xml');
+
+    expect(paragraphTexts(document)).toEqual([
+      'Ada Lovelace',
+      'Professor Babbage',
+      'English 101',
+      '19 October 2026',
+      'Justice & Mercy in <Les Misérables>',
+      'Victor Hugo asks what a just society owes the poor.',
+      'Body 1',
+      'Mercy, not law, redeems Valjean.\nThe end.',
+    ]);
+
+    const paragraphs = document.getElementsByTagNameNS(W, 'p');
+    expect(paragraphs[4].getElementsByTagNameNS(W, 'jc')[0].getAttributeNS(W, 'val')).toBe('center');
+    expect(paragraphs[5].getElementsByTagNameNS(W, 'ind')[0].getAttributeNS(W, 'firstLine')).toBe('720');
+  });
+
+  it('ends with the Works Cited list on a new page, with italic titles and hanging indents', async () => {
+    const essay: Essay = {
+      ...makeEssay(),
+      sources: [{ ...createSource(), authors: ['Victor Hugo'], title: 'Les Misérables', container: 'Signet', published: '1987' }],
+    };
+    const { parse } = await unpack(buildDocx(essay, META));
+    const document = parse('word/document.xml');
+
+    expect(paragraphTexts(document).slice(-2)).toEqual(['Works Cited', 'Hugo, Victor. Les Misérables. Signet, 1987.']);
+    const paragraphs = Array.from(document.getElementsByTagNameNS(W, 'p'));
+    const [heading, entry] = paragraphs.slice(-2);
+    expect(heading.getElementsByTagNameNS(W, 'pageBreakBefore')).toHaveLength(1);
+    expect(entry.getElementsByTagNameNS(W, 'ind')[0].getAttributeNS(W, 'hanging')).toBe('720');
+    expect(entry.getElementsByTagNameNS(W, 'i')[0].parentNode?.parentNode?.textContent).toBe('Les Misérables');
+  });
+
+  it('adds a running header with the surname and page number', async () => {
+    const { parse } = await unpack(buildDocx(makeEssay(), META));
+    const header = parse('word/header1.xml');
+
+    expect(header.documentElement.textContent).toContain('Lovelace');
+    expect(header.getElementsByTagNameNS(W, 'instrText')[0].textContent?.trim()).toBe('PAGE');
+    expect(attr(parse('word/document.xml'), 'headerReference', 'type')).toBe('default');
+  });
+
+  it('applies the font, size and line spacing as document defaults', async () => {
+    const { parse } = await unpack(
+      buildDocx(makeEssay(), META, { fontFamily: 'Arial', fontSize: 11, lineSpacing: 1.5 })
+    );
+    const styles = parse('word/styles.xml');
+
+    expect(attr(styles, 'rFonts', 'ascii')).toBe('Arial');
+    expect(attr(styles, 'sz', 'val')).toBe('22');
+    expect(attr(styles, 'spacing', 'line')).toBe('360');
+  });
+
+  it('without the MLA header puts a byline under the title and skips the running header', async () => {
+    const { files, parse } = await unpack(
+      buildDocx(makeEssay(), META, { mlaHeader: false, indentParagraphs: false })
+    );
+    const document = parse('word/document.xml');
+
+    expect(paragraphTexts(document).slice(0, 3)).toEqual([
+      'Justice & Mercy in <Les Misérables>',
+      'Ada Lovelace',
+      'Victor Hugo asks what a just society owes the poor.',
+    ]);
+    expect(document.getElementsByTagNameNS(W, 'ind')).toHaveLength(0);
+    expect(document.getElementsByTagNameNS(W, 'headerReference')).toHaveLength(0);
+    expect(files.has('word/header1.xml')).toBe(false);
+    expect(new TextDecoder().decode(files.get('word/_rels/document.xml.rels'))).not.toContain('header');
+  });
+
+  it('leaves blank MLA fields out of the heading', async () => {
+    const { parse } = await unpack(buildDocx(makeEssay(), { ...META, instructor: '', course: undefined }));
+
+    expect(paragraphTexts(parse('word/document.xml')).slice(0, 3)).toEqual([
+      'Ada Lovelace',
+      '19 October 2026',
+      'Justice & Mercy in <Les Misérables>',
+    ]);
+  });
+
+  it('records the title and author in the document properties', async () => {
+    const { parse } = await unpack(buildDocx(makeEssay(), META));
+    const core = parse('docProps/core.xml');
+
+    expect(core.getElementsByTagName('dc:title')[0].textContent).toBe(META.title);
+    expect(core.getElementsByTagName('dc:creator')[0].textContent).toBe('Ada Lovelace');
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and drops characters XML cannot hold', () => {
+    expect(escapeXml('a < b & "c" > d\u0007')).toBe('a &lt; b &amp; &quot;c&quot; &gt; d');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Client-side DOCX (Office Open XML) export - no React or UI dependencies
+ *
+ * A .docx file is a ZIP of XML parts. We write the smallest set Word, Google
+ * Docs and Pages accept: content types, package and document relationships,
+ * the document body, a style sheet with the chosen font and spacing as
+ * defaults, core properties, and - for MLA - a running header with the
+ * author's surname and page number.
+ */
+import { getEssayParagraphs, type Essay } from '../models/essay';
+import { getWorksCited } from '../models/citation';
+import { createZip } from '../utils/zip';
+import { getMlaHeadingLines, getSurname, type ExportMeta } from './mla';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DocxOptions {
+  fontFamily: string;
+  /** Font size in points */
+  fontSize: number;
+  /** Line spacing as a multiple of single spacing (1, 1.5, 2) */
+  lineSpacing: number;
+  /** Indent the first line of each essay paragraph by half an inch */
+  indentParagraphs: boolean;
+  /** MLA heading block on the first page and surname/page number header */
+  mlaHeader: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_DOCX_OPTIONS: DocxOptions = {
+  fontFamily: 'Times New Roman',
+  fontSize: 12,
+  lineSpacing: 2,
+  indentParagraphs: true,
+  mlaHeader: true,
+};
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Word measures layout in twentieths of a point ("twips"): 1440 per inch
+const INCH = 1440;
+const SINGLE_LINE = 240;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// =============================================================================
+// XML Helpers
+// =============================================================================
+
+// Control characters other than tab, newline and carriage return are not allowed in XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Text runs, with line breaks inside a paragraph kept as <w:br/> */
+const runs = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+
+interface ParagraphFormat {
+  align?: 'center' | 'right';
+  firstLineIndent?: number;
+}
+
+const paragraph = (text: string, { align, firstLineIndent }: ParagraphFormat = {}): string => {
+  const properties = [
+    align && `<w:jc w:val="${align}"/>`,
+    firstLineIndent && `<w:ind w:firstLine="${firstLineIndent}"/>`,
+  ]
+    .filter(Boolean)
+    .join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r>${runs(text)}</w:r></w:p>`;
+};
+
+/**
+ * Works Cited on a page of its own: a centered heading, then entries with a
+ * half-inch hanging indent and italic titles
+ */
+function worksCitedParagraphs(essay: Essay): string[] {
+  const worksCited = getWorksCited(essay);
+  if (!worksCited) return [];
+  const heading = `<w:p><w:pPr><w:pageBreakBefore/><w:jc w:val="center"/></w:pPr><w:r>${runs(worksCited.heading)}</w:r></w:p>`;
+  const entries = worksCited.entries.map(
+    (entry) =>
+      `<w:p><w:pPr><w:ind w:left="${INCH / 2}" w:hanging="${INCH / 2}"/></w:pPr>` +
+      entry.map((part) => `<w:r>${part.italic ? '<w:rPr><w:i/></w:rPr>' : ''}${runs(part.text)}</w:r>`).join('') +
+      '</w:p>'
+  );
+  return [heading, ...entries];
+}
+
+// =============================================================================
+// Document Parts
+// =============================================================================
+
+function contentTypesXml(options: DocxOptions): string {
+  const header = options.mlaHeader
+    ? '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>'
+    : '';
+  return (
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    header +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>'
+  );
+}
+
+function packageRelsXml(): string {
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="word/document.xml"/>` +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>'
+  );
+}
+
+function documentRelsXml(options: DocxOptions): string {
+  const header = options.mlaHeader
+    ? `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPE}/header" Target="header1.xml"/>`
+    : '';
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/>` +
+    header +
+    '</Relationships>'
+  );
+}
+
+function stylesXml(options: DocxOptions): string {
+  const font = escapeXml(options.fontFamily);
+  const halfPoints = Math.round(options.fontSize * 2);
+  const line = Math.round(options.lineSpacing * SINGLE_LINE);
+  return (
+    XML_DECLARATION +
+    `<w:styles xmlns:w="${W_NAMESPACE}">` +
+    '<w:docDefaults>' +
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>` +
+    `<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>` +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '</w:styles>'
+  );
+}
+
+function headerXml(meta: ExportMeta): string {
+  const surname = escapeXml(getSurname(meta.author));
+  return (
+    XML_DECLARATION +
+    `<w:hdr xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">` +
+    '<w:p><w:pPr><w:jc w:val="right"/></w:pPr>' +
+    `<w:r><w:t xml:space="preserve">${surname} </w:t></w:r>` +
+    '<w:r><w:fldChar w:fldCharType="begin"/></w:r>' +
+    '<w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r>' +
+    '<w:r><w:t>1</w:t></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="end"/></w:r>' +
+    '</w:p>' +
+    '</w:hdr>'
+  );
+}
+
+function coreXml(meta: ExportMeta): string {
+  return (
+    XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(meta.title)}</dc:title>` +
+    `<dc:creator>${escapeXml(meta.author)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${meta.date.toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>'
+  );
+}
+
+function documentXml(essay: Essay, meta: ExportMeta, options: DocxOptions): string {
+  const title = paragraph(meta.title, { align: 'center' });
+  const indent = options.indentParagraphs ? INCH / 2 : undefined;
+  const body = [
+    ...getEssayParagraphs(essay).map((text) => paragraph(text, { firstLineIndent: indent })),
+    ...worksCitedParagraphs(essay),
+  ];
+
+  // MLA puts the heading block above the title; otherwise a byline goes under it
+  const blocks = options.mlaHeader
+    ? [...getMlaHeadingLines(meta).map((line) => paragraph(line)), title, ...body]
+    : [title, ...(meta.author.trim() ? [paragraph(meta.author.trim(), { align: 'center' })] : []), ...body];
+  const headerReference = options.mlaHeader ? '<w:headerReference w:type="default" r:id="rId2"/>' : '';
+
+  return (
+    XML_DECLARATION +
+    `<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">` +
+    '<w:body>' +
+    blocks.join('') +
+    '<w:sectPr>' +
+    headerReference +
+    `<w:pgSz w:w="${8.5 * INCH}" w:h="${11 * INCH}"/>` +
+    `<w:pgMar w:top="${INCH}" w:right="${INCH}" w:bottom="${INCH}" w:left="${INCH}" w:header="${INCH / 2}" w:footer="${INCH / 2}" w:gutter="0"/>` +
+    '</w:sectPr>' +
+    '</w:body>' +
+    '</w:document>'
+  );
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Build a .docx file with the essay's title, author, assembled paragraphs and
+ * Works Cited list
+ */
+export function buildDocx(essay: Essay, meta: ExportMeta, options: Partial<DocxOptions> = {}): Uint8Array {
+  const resolved = { ...DEFAULT_DOCX_OPTIONS, ...options };
+  return createZip(
+    [
+      { name: '[Content_Types].xml', data: contentTypesXml(resolved) },
+      { name: '_rels/.rels', data: packageRelsXml() },
+      { name: 'word/document.xml', data: documentXml(essay, meta, resolved) },
+      { name: 'word/styles.xml', data: stylesXml(resolved) },
+      { name: 'word/_rels/document.xml.rels', data: documentRelsXml(resolved) },
+      ...(resolved.mlaHeader ? [{ name: 'word/header1.xml', data: headerXml(meta) }] : []),
+      { name: 'docProps/core.xml', data: coreXml(meta) },
+    ],
+    meta.date
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildMarkdown, escapeMarkdown } from './markdown';
+import { createEssay, createSource, type Essay } from '../models/essay';
+
+function makeEssay(): Essay {
+  const essay = createEssay();
+  essay.intro.thesis = 'Hugo prefers mercy to law';
+  essay.intro.claims[0].text = 'Mercy changes people';
+  essay.intro.paragraph = 'An opening paragraph.\n\nA second one.';
+  essay.bodyParagraphs[0].proofBlocks[0].quote = '"My brother"\nsaid the bishop';
+  essay.conclusion.paragraph = 'A closing paragraph.';
+  return essay;
+}
+
+describe('buildMarkdown', () => {
+  it('writes the title and a heading per section', () => {
+    const markdown = buildMarkdown(makeEssay(), 'Justice and Mercy');
+    const headings = markdown.split('\n').filter((line) => line.startsWith('#'));
+
+    expect(headings).toEqual([
+      '# Justice and Mercy',
+      '## Intro',
+      '### Outline',
+      '### Paragraph',
+      '## Body 1',
+      '### Outline',
+      '## Conclusion',
+      '### Paragraph',
+    ]);
+  });
+
+  it('lists the filled-in outline fields under their labels', () => {
+    const markdown = buildMarkdown(makeEssay(), 'Title');
+
+    expect(markdown).toContain('- **Thesis:** Hugo prefers mercy to law\n- **Claim 1:** Mercy changes people');
+    expect(markdown).toContain('- **Proof 1: Evidence:** "My brother"\n  said the bishop');
+    expect(markdown).not.toContain('**Hook:**');
+  });
+
+  it('keeps paragraph breaks in the written paragraphs', () => {
+    expect(buildMarkdown(makeEssay(), 'Title')).toContain(
+      '### Paragraph\n\nAn opening paragraph.\n\nA second one.\n\n## Body 1'
+    );
+  });
+
+  it('ends with the Works Cited list, titles in italics', () => {
+    const essay: Essay = {
+      ...makeEssay(),
+      sources: [{ ...createSource(), authors: ['Victor Hugo'], title: 'Les Misérables', container: 'Signet', published: '1987' }],
+    };
+    expect(buildMarkdown(essay, 'Title')).toMatch(
+      /A closing paragraph\.\n\n## Works Cited\n\nHugo, Victor\. \*Les Misérables\*\. Signet, 1987\.\n$/
+    );
+  });
+
+  it('falls back to Untitled', () => {
+    expect(buildMarkdown(createEssay(), '')).toMatch(/^# Untitled\n/);
+  });
+});
+
+describe('escapeMarkdown', () => {
+  it('escapes characters Markdown would format', () => {
+    expect(escapeMarkdown('*stars* and [links] # not a heading')).toBe(
+      '\\*stars\\* and \\[links\\] \\# not a heading'
+    );
+  });
+
+  it('keeps lines from turning into lists', () => {
+    expect(escapeMarkdown('- dash\n1. one\nmid - dash')).toBe('\\- dash\n1\\. one\nmid - dash');
+  });
+});
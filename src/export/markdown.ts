@@ -0,0 +1,74 @@
+/**
+ * Markdown export of the whole essay - no React or UI dependencies
+ *
+ * One "##" heading per section, its outline fields as a bulleted list and the
+ * written paragraph below, so the file reads well as plain text and renders
+ * anywhere Markdown does. The Works Cited list comes last.
+ */
+import type { Essay } from '../models/essay';
+import { getWorksCited, type CitationEntry } from '../models/citation';
+import { getOutlineSections } from './outline';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+// Characters that would otherwise start a heading, list, quote or emphasis
+const MARKDOWN_SPECIAL_CHARS = /([\\`*_[\]#>|])/g;
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Escape text so Markdown shows it as typed. Blank lines are kept as
+ * paragraph breaks.
+ */
+export const escapeMarkdown = (text: string): string =>
+  text
+    .replace(MARKDOWN_SPECIAL_CHARS, '\\$1')
+    .replace(/^(\s*)([-+]|\d+\.)(\s)/gm, (_match, space, marker: string, after) =>
+      `${space}${marker.replace(/([-+.])$/, '\\$1')}${after}`
+    );
+
+/**
+ * An outline field as a list item; continuation lines are indented so they
+ * stay inside the item
+ */
+const listItem = (label: string, text: string): string =>
+  `- **${escapeMarkdown(label)}:** ${escapeMarkdown(text.trim()).replace(/\n/g, '\n  ')}`;
+
+/** A Works Cited entry with titles in *italics* */
+const citation = (entry: CitationEntry): string =>
+  entry.map((part) => (part.italic ? `*${escapeMarkdown(part.text)}*` : escapeMarkdown(part.text))).join('');
+
+/**
+ * The essay as Markdown: the title, then every section with its filled-in
+ * outline fields and paragraph. Empty fields and paragraphs are left out.
+ */
+export function buildMarkdown(essay: Essay, title: string): string {
+  const blocks = [`# ${escapeMarkdown(title || 'Untitled')}`];
+
+  getOutlineSections(essay).forEach((section) => {
+    blocks.push(`## ${escapeMarkdown(section.label)}`);
+
+    const rows = section.rows.filter((row) => row.text.trim());
+    if (rows.length > 0) {
+      blocks.push('### Outline', rows.map((row) => listItem(row.label, row.text)).join('\n'));
+    }
+
+    const paragraph = section.paragraph.text.trim();
+    if (paragraph) {
+      blocks.push('### Paragraph', escapeMarkdown(paragraph));
+    }
+  });
+
+  const worksCited = getWorksCited(essay);
+  if (worksCited) {
+    blocks.push(`## ${worksCited.heading}`, ...worksCited.entries.map(citation));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { formatMlaDate, getMlaHeadingLines, getSurname } from './mla';
+
+describe('formatMlaDate', () => {
+  it('writes the day first with the month spelled out', () => {
+    expect(formatMlaDate(new Date(2026, 0, 5))).toBe('5 January 2026');
+  });
+});
+
+describe('getMlaHeadingLines', () => {
+  it('lists name, instructor, course and date, skipping blanks', () => {
+    expect(
+      getMlaHeadingLines({ title: 'T', author: ' Ada Lovelace ', instructor: '  ', course: 'ENG 101', date: new Date(2026, 9, 19) })
+    ).toEqual(['Ada Lovelace', 'ENG 101', '19 October 2026']);
+  });
+});
+
+describe('getSurname', () => {
+  it.each([
+    ['Ada Lovelace', 'Lovelace'],
+    ['Plato', 'Plato'],
+    ['', ''],
+  ])('%j -> %j', (author, surname) => {
+    expect(getSurname(author)).toBe(surname);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Shared pieces of the document export formats - no React or UI dependencies
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Who and what the exported document is for. Only the title and author are
+ * required; blank MLA header fields are left out.
+ */
+export interface ExportMeta {
+  title: string;
+  author: string;
+  instructor?: string;
+  course?: string;
+  date: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * MLA writes dates day first with the month spelled out: "19 October 2026"
+ */
+export const formatMlaDate = (date: Date): string =>
+  `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+
+/**
+ * The lines of the MLA heading block at the top of the first page: name,
+ * instructor, course and date, each on its own line
+ */
+export const getMlaHeadingLines = (meta: ExportMeta): string[] =>
+  [meta.author, meta.instructor, meta.course, formatMlaDate(meta.date)]
+    .map((line) => line?.trim())
+    .filter((line): line is string => !!line);
+
+/**
+ * The author's last name, shown before the page number in the running header
+ */
+export const getSurname = (author: string): string => author.trim().split(/\s+/).pop() ?? '';
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getOutlineSections } from './outline';
+import { createCounterargument, createEssay, type Essay } from '../models/essay';
+import { getTemplate, type EssayTemplate } from '../models/template';
+
+function makeEssay(): Essay {
+  const essay = createEssay();
+  const [claim] = essay.intro.claims;
+  claim.text = 'Mercy changes people';
+  essay.intro.thesis = 'Hugo prefers mercy to law';
+  essay.intro.paragraph = 'Intro paragraph';
+  essay.bodyParagraphs[0].proofBlocks[0].quote = '"Jean Valjean, my brother"';
+  return essay;
+}
+
+describe('getOutlineSections', () => {
+  it('lists the sections in reading order with their template labels', () => {
+    const essay = { ...makeEssay(), counterargument: createCounterargument() };
+
+    expect(getOutlineSections(essay).map((s) => s.label)).toEqual([
+      'Intro',
+      'Body 1',
+      'Counterargument',
+      'Conclusion',
+    ]);
+  });
+
+  it('gives each row the block id comments and presence use', () => {
+    const essay = makeEssay();
+    const [intro, body] = getOutlineSections(essay);
+    const bodyId = essay.bodyParagraphs[0].id;
+    const proofId = essay.bodyParagraphs[0].proofBlocks[0].id;
+
+    expect(intro.rows.map((r) => r.blockId)).toEqual([
+      'intro-hook',
+      'intro-background',
+      'intro-thesis',
+      essay.intro.claims[0].id,
+    ]);
+    expect(intro.paragraph).toEqual({ blockId: 'intro-paragraph', text: 'Intro paragraph' });
+    expect(body.rows.map((r) => r.blockId)).toEqual([
+      `${bodyId}-purpose`,
+      `${proofId}-quote`,
+      `${proofId}-analysis`,
+      `${proofId}-connection`,
+      `${bodyId}-recap`,
+    ]);
+    expect(body.paragraph.blockId).toBe(`${bodyId}-paragraph`);
+  });
+
+  it('fills labels and guidance from the essay content', () => {
+    const [intro, body] = getOutlineSections(makeEssay());
+
+    expect(intro.rows[3]).toMatchObject({ label: 'Claim 1', text: 'Mercy changes people' });
+    expect(intro.rows[3].purpose).toContain('Hugo prefers mercy to law');
+    expect(body.rows[0].purpose).toContain('Mercy changes people');
+    expect(body.rows[1]).toMatchObject({ label: 'Proof 1: Evidence', text: '"Jean Valjean, my brother"' });
+  });
+
+  it('uses the labels of the essay template', () => {
+    const essay = { ...makeEssay(), templateId: 'literary-analysis' };
+    const [, body] = getOutlineSections(essay);
+
+    expect(body.rows[1].label).toBe(
+      `${getTemplate('literary-analysis').body.proof.label.replace('{n}', '1')}: Quotation`
+    );
+  });
+
+  it('follows the section order of the template', () => {
+    const essay = { ...makeEssay(), counterargument: createCounterargument() };
+    const template: EssayTemplate = {
+      ...getTemplate('argument'),
+      sections: ['intro', 'counterargument', 'body', 'conclusion'],
+    };
+
+    expect(getOutlineSections(essay, template).map((s) => s.label)).toEqual([
+      'Intro',
+      'Counterargument',
+      'Body 1',
+      'Conclusion',
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * The editor grid as plain data, for exports that reproduce the outline -
+ * no React or UI dependencies
+ *
+ * Mirrors what the section components render, in the template's section
+ * order: one row per Purpose/Outline pair with the template's label and
+ * filled-in guidance, plus the section's paragraph. Block ids match the ones
+ * comments and presence use.
+ */
+import type { Essay } from '../models/essay';
+import {
+  fillPrompt,
+  getCounterargumentTemplate,
+  getSectionOrder,
+  getTemplate,
+  type EssayTemplate,
+  type PromptRefs,
+  type RepeatedFieldTemplate,
+  type SectionKind,
+} from '../models/template';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OutlineCell {
+  blockId: string;
+  text: string;
+}
+
+export interface OutlineRow extends OutlineCell {
+  label: string;
+  /** Template guidance from the Purpose column, with refs filled in */
+  purpose: string;
+}
+
+export interface OutlineSection {
+  label: string;
+  rows: OutlineRow[];
+  paragraph: OutlineCell;
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+const row = (field: RepeatedFieldTemplate, refs: PromptRefs, blockId: string, text: string): OutlineRow => ({
+  blockId,
+  label: fillPrompt(field.label, refs),
+  purpose: fillPrompt(field.purpose, refs),
+  text,
+});
+
+/**
+ * Every section of the essay in reading order, labelled by its template
+ */
+export function getOutlineSections(essay: Essay, template: EssayTemplate = getTemplate(essay.templateId)): OutlineSection[] {
+  const { intro } = essay;
+  const thesis = intro.thesis || '[Thesis]';
+  const introRefs = { thesis };
+
+  const introSection = (): OutlineSection[] => [
+    {
+      label: template.intro.label,
+      rows: [
+        ...template.intro.fields.map((field) => row(field, introRefs, `intro-${field.key}`, intro[field.key])),
+        ...intro.claims.map((claim, i) =>
+          row(template.intro.claim, { thesis, n: String(i + 1) }, claim.id, claim.text)
+        ),
+      ],
+      paragraph: { blockId: 'intro-paragraph', text: intro.paragraph },
+    },
+  ];
+
+  const bodySections = (): OutlineSection[] =>
+    essay.bodyParagraphs.map((body, bodyIndex) => {
+      const n = String(bodyIndex + 1);
+      const claim = intro.claims.find((c) => c.id === body.provingClaimId);
+      const refs: PromptRefs = {
+        thesis,
+        claim: claim?.text || `[Claim ${n}]`,
+        proofs: body.proofBlocks.map((pb, i) =>
+          pb.connection?.trim()
+            ? `Summary of "${pb.connection.trim()}"`
+            : `[${fillPrompt(template.body.proof.label, { n: String(i + 1) })}]`
+        ),
+        n,
+      };
+      const proofRows = body.proofBlocks.flatMap((proofBlock, i) => {
+        const proofRefs = { ...refs, n: String(i + 1) };
+        const proofLabel = fillPrompt(template.body.proof.label, proofRefs);
+        return template.body.proof.fields.map((field) => ({
+          ...row(field, proofRefs, `${proofBlock.id}-${field.key}`, proofBlock[field.key]),
+          label: `${proofLabel}: ${fillPrompt(field.label, proofRefs)}`,
+        }));
+      });
+
+      return {
+        label: fillPrompt(template.body.label, refs),
+        rows: [
+          ...template.body.lead.map((field) => row(field, refs, `${body.id}-${field.key}`, body[field.key])),
+          ...proofRows,
+          ...template.body.close.map((field) => row(field, refs, `${body.id}-${field.key}`, body[field.key])),
+        ],
+        paragraph: { blockId: `${body.id}-paragraph`, text: body.paragraph },
+      };
+    });
+
+  const counterargumentSection = (): OutlineSection[] => {
+    const counterargument = essay.counterargument;
+    if (!counterargument) return [];
+    const counterTemplate = getCounterargumentTemplate(template);
+    return [
+      {
+        label: counterTemplate.label,
+        rows: counterTemplate.fields.map((field) =>
+          row(field, introRefs, `counterargument-${field.key}`, counterargument[field.key])
+        ),
+        paragraph: { blockId: 'counterargument-paragraph', text: counterargument.paragraph },
+      },
+    ];
+  };
+
+  const conclusionSection = (): OutlineSection[] => {
+    const conclusionRefs = {
+      thesis,
+      claims: intro.claims.map((c, i) => c.text || `[Claim ${i + 1}]`),
+    };
+    return [
+      {
+        label: template.conclusion.label,
+        rows: template.conclusion.fields.map((field) =>
+          row(field, conclusionRefs, `conclusion-${field.key}`, essay.conclusion[field.key])
+        ),
+        paragraph: { blockId: 'conclusion-paragraph', text: essay.conclusion.paragraph },
+      },
+    ];
+  };
+
+  const sectionsOfKind: Record<SectionKind, () => OutlineSection[]> = {
+    intro: introSection,
+    body: bodySections,
+    counterargument: counterargumentSection,
+    conclusion: conclusionSection,
+  };
+
+  return getSectionOrder(essay, template).flatMap((kind) => sectionsOfKind[kind]());
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, wrapText, type PdfOptions } from './pdf';
+import { measureText } from './pdfFonts';
+import { createEssay, createSource, type Essay } from '../models/essay';
+import type { Comment, CommentThread } from '../models/comment';
+import type { ExportMeta } from './mla';
+
+const META: ExportMeta = {
+  title: 'Justice and Mercy',
+  author: 'Ada Lovelace',
+  instructor: 'Professor Babbage',
+  course: 'English 101',
+  date: new Date(2026, 9, 19),
+};
+
+const LOREM =
+  'Victor Hugo builds the novel around a single act of mercy, and every later choice Valjean makes ' +
+  'answers the bishop who refused to see him as a thief.';
+
+function makeEssay(paragraphs = 1): Essay {
+  const essay = createEssay();
+  essay.intro.thesis = 'Hugo prefers mercy to law';
+  essay.intro.paragraph = 'An opening paragraph.';
+  essay.bodyParagraphs[0].proofBlocks[0].quote = 'My brother, you no longer belong to evil.';
+  essay.bodyParagraphs[0].paragraph = Array.from({ length: paragraphs }, () => LOREM).join(' ');
+  essay.conclusion.paragraph = 'A closing paragraph.';
+  return essay;
+}
+
+interface PdfText {
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+}
+
+/**
+ * Just enough of a PDF reader for our own uncompressed output
+ */
+function readPdf(pdf: Uint8Array) {
+  const raw = new TextDecoder('latin1').decode(pdf);
+  const pages = [...raw.matchAll(/stream\n([\s\S]*?)\nendstream/g)].map(([, content]) =>
+    [...content.matchAll(/\/F1 ([\d.]+) Tf (?:[\d.]+ Ts )?([\d.-]+) ([\d.-]+) Td <([0-9a-f]*)> Tj/g)].map(
+      ([, size, x, y, hex]): PdfText => ({
+        size: Number(size),
+        x: Number(x),
+        y: Number(y),
+        text: new TextDecoder('windows-1252').decode(new Uint8Array(hex.match(/../g)?.map((h) => parseInt(h, 16)) ?? [])),
+      })
+    )
+  );
+  return { raw, pages, texts: (page: number) => pages[page].map((t) => t.text) };
+}
+
+const comment = (overrides: Partial<Comment>): Comment => ({
+  id: 'c',
+  blockId: 'intro-paragraph',
+  blockType: 'intro',
+  authorUid: 'u',
+  authorEmail: 'ada@example.com',
+  authorDisplayName: 'Ada',
+  text: '',
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+  parentCommentId: null,
+  resolved: false,
+  ...overrides,
+});
+
+const thread = (root: Partial<Comment>, ...replies: Partial<Comment>[]): CommentThread => ({
+  rootComment: comment(root),
+  replies: replies.map((reply) => comment({ ...reply, parentCommentId: 'c' })),
+});
+
+const build = (essay: Essay, options: Partial<PdfOptions> = {}, comments?: Map<string, CommentThread[]>) =>
+  readPdf(buildPdf(essay, META, options, comments));
+
+describe('buildPdf', () => {
+  it('writes a well-formed PDF whose cross-reference table points at its objects', () => {
+    const { raw } = build(makeEssay());
+
+    expect(raw.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(raw.endsWith('%%EOF\n')).toBe(true);
+    const xrefOffset = Number(raw.match(/startxref\n(\d+)/)?.[1]);
+    expect(raw.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const offsets = [...raw.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(([, offset]) => Number(offset));
+    offsets.forEach((offset, i) => expect(raw.startsWith(`${i + 1} 0 obj\n`, offset)).toBe(true));
+    expect(raw).toContain('/BaseFont /Times-Roman');
+  });
+
+  it('lays out the MLA heading, title and paragraphs with a surname and page header', () => {
+    const { texts } = build(makeEssay());
+    const page = texts(0);
+
+    expect(page.slice(0, 6)).toEqual([
+      'Ada Lovelace',
+      'Professor Babbage',
+      'English 101',
+      '19 October 2026',
+      'Justice and Mercy',
+      'An opening paragraph.',
+    ]);
+    expect(page).toContain('A closing paragraph.');
+    expect(page[page.length - 1]).toBe('Lovelace 1');
+  });
+
+  it('puts the Works Cited list on its own page with hanging indents', () => {
+    const essay: Essay = {
+      ...makeEssay(),
+      sources: [
+        {
+          ...createSource('article'),
+          authors: ['Jane Smith', 'Ken Lee'],
+          title: 'Mercy, Law and the Long Road from Digne to Paris in Hugo',
+          container: 'Victorian Studies',
+          published: '2010',
+          pages: '12-19',
+        },
+      ],
+    };
+    const { pages, texts } = build(essay);
+
+    expect(pages).toHaveLength(2);
+    expect(texts(0)).not.toContain('Works Cited');
+    const [heading, first, second] = pages[1];
+    expect(heading.text).toBe('Works Cited');
+    expect(first.text).toMatch(/^Smith, Jane, and Ken Lee\./);
+    expect(second.x - first.x).toBe(36);
+  });
+
+  it('keeps every line inside the margins and continues on new pages', () => {
+    const { pages } = build(makeEssay(40));
+
+    expect(pages.length).toBeGreaterThan(2);
+    pages.forEach((page, i) => {
+      const body = page.filter((t) => t.text !== `Lovelace ${i + 1}`);
+      body.forEach((t) => {
+        expect(t.x + measureText(t.text, 'Times-Roman', t.size)).toBeLessThanOrEqual(612 - 72 + 0.01);
+        expect(t.y).toBeGreaterThanOrEqual(72);
+      });
+      expect(page.map((t) => t.text)).toContain(`Lovelace ${i + 1}`);
+    });
+  });
+
+  it('without the MLA header puts the byline under the title and numbers pages', () => {
+    const { texts } = build(makeEssay(), { mlaHeader: false });
+
+    expect(texts(0).slice(0, 3)).toEqual(['Justice and Mercy', 'Ada Lovelace', 'An opening paragraph.']);
+    expect(texts(0)).toContain('Page 1 of 1');
+  });
+
+  it('prints the outline as Purpose, Outline and Paragraph columns on landscape pages', () => {
+    const { raw, pages, texts } = build(makeEssay(), { content: 'outline', fontFamily: 'Arial', fontSize: 10 });
+
+    expect(raw).toContain('/MediaBox [0 0 792 612]');
+    expect(raw).toContain('/BaseFont /Helvetica');
+    expect(texts(0)).toEqual(expect.arrayContaining(['Purpose', 'Outline', 'Paragraph', 'Intro', 'Body 1', 'Thesis']));
+
+    const thesis = pages[0].find((t) => t.text === 'Hugo prefers mercy to law')!;
+    const thesisLabel = pages[0].find((t) => t.text === 'Thesis')!;
+    const introParagraph = pages[0].find((t) => t.text === 'An opening paragraph.')!;
+    expect(thesis.x).toBeGreaterThan(thesisLabel.x);
+    expect(introParagraph.x).toBeGreaterThan(thesis.x);
+    expect(texts(0)).toEqual(expect.arrayContaining(['Justice and Mercy', 'Page 1 of 1']));
+  });
+
+  it('prints open comment threads as numbered footnotes', () => {
+    const comments = new Map([
+      ['intro-thesis', [thread({ text: 'Too vague' }, { authorDisplayName: 'Bob', text: 'Agreed' })]],
+      ['intro-paragraph', [thread({ text: 'Nice hook' }), thread({ text: 'Old note', resolved: true })]],
+    ]);
+    const { texts } = build(makeEssay(), { includeComments: true }, comments);
+
+    expect(texts(0)).toContain('1,2');
+    expect(texts(0)).toContain('1. Ada: Nice hook');
+    expect(texts(0)).toContain('2. On Thesis. Ada: Too vague / Bob: Agreed');
+    expect(texts(0).join(' ')).not.toContain('Old note');
+  });
+
+  it('leaves comments out unless asked', () => {
+    const comments = new Map([['intro-paragraph', [thread({ text: 'Nice hook' })]]]);
+    const { texts } = build(makeEssay(), {}, comments);
+
+    expect(texts(0).join(' ')).not.toContain('Nice hook');
+  });
+
+  it('keeps a footnote on the page of its marker', () => {
+    const comments = new Map([['conclusion-paragraph', [thread({ text: 'Strong ending' })]]]);
+    const { pages, texts } = build(makeEssay(40), { includeComments: true }, comments);
+    const last = pages.length - 1;
+
+    expect(texts(last)).toContain('A closing paragraph.');
+    expect(texts(last)).toContain('1. Ada: Strong ending');
+  });
+
+  it('marks comments in the outline next to the commented cell', () => {
+    const comments = new Map([['intro-thesis', [thread({ text: 'Too vague' })]]]);
+    const { raw, pages } = build(makeEssay(), { content: 'outline', includeComments: true }, comments);
+
+    const thesis = pages[0].find((t) => t.text === 'Hugo prefers mercy to law')!;
+    const marker = pages[0].find((t) => t.text === '1')!;
+    expect(marker.y).toBe(thesis.y);
+    expect(marker.x).toBeGreaterThan(thesis.x);
+    expect(marker.size).toBeLessThan(thesis.size);
+    expect(raw).toMatch(/[\d.]+ Ts [\d.]+ [\d.]+ Td <31> Tj 0 Ts/);
+    expect(pages[0].map((t) => t.text)).toContain('1. Ada: Too vague');
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks at spaces to fit the width, keeping newlines', () => {
+    const lines = wrapText('one two three\nfour', 'Helvetica', 10, measureText('one two', 'Helvetica', 10));
+
+    expect(lines).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('splits words longer than a line', () => {
+    const width = measureText('mmmm', 'Helvetica', 10);
+
+    expect(wrapText('m'.repeat(10), 'Helvetica', 10, width)).toEqual(['mmmm', 'mmmm', 'mm']);
+  });
+
+  it('indents the first line and reserves room at the end of the last', () => {
+    const width = measureText('one two three', 'Helvetica', 10);
+    const indent = measureText('one ', 'Helvetica', 10);
+
+    expect(wrapText('one two three', 'Helvetica', 10, width, { firstLineIndent: indent })).toEqual([
+      'one two',
+      'three',
+    ]);
+    expect(wrapText('one two three', 'Helvetica', 10, width, { reserve: 5 })).toEqual(['one two', 'three']);
+  });
+});
@@ -0,0 +1,573 @@
+/**
+ * Client-side PDF export - no React or UI dependencies
+ *
+ * Lays the essay out into lines ourselves and writes a plain PDF 1.4 file
+ * using the reader's built-in Times-Roman or Helvetica, so nothing has to be
+ * embedded or fetched. Two layouts:
+ * - essay: the final paragraphs, MLA-style, on portrait Letter pages, and
+ *   the Works Cited list on a page of its own
+ * - outline: each section's Purpose, Outline and Paragraph columns side by
+ *   side, on landscape Letter pages
+ *
+ * Open comment threads can be printed as footnotes at the bottom of the page
+ * their marker lands on.
+ */
+import type { Essay } from '../models/essay';
+import { citationToText, getWorksCited } from '../models/citation';
+import type { Comment, CommentThread } from '../models/comment';
+import { getOutlineSections, type OutlineRow } from './outline';
+import { getMlaHeadingLines, getSurname, type ExportMeta } from './mla';
+import { encodeWinAnsi, measureText, type PdfFontName } from './pdfFonts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PdfContent = 'essay' | 'outline';
+
+export type PdfFontFamily = 'Times New Roman' | 'Arial';
+
+export interface PdfOptions {
+  /** Final essay paragraphs, or the full outline grid */
+  content: PdfContent;
+  fontFamily: PdfFontFamily;
+  /** Font size in points */
+  fontSize: number;
+  /** Line spacing of the essay layout (the outline is always single spaced) */
+  lineSpacing: number;
+  /** Indent the first line of each essay paragraph by half an inch */
+  indentParagraphs: boolean;
+  /** MLA heading block and surname/page number header (essay layout) */
+  mlaHeader: boolean;
+  /** Print open comment threads as footnotes */
+  includeComments: boolean;
+}
+
+/** A run of text on a line; x is measured from the left page margin */
+interface TextRun {
+  x: number;
+  text: string;
+  size: number;
+  /** Baseline shift, for footnote markers */
+  rise?: number;
+}
+
+interface Footnote {
+  number: number;
+  text: string;
+}
+
+interface Line {
+  height: number;
+  /** Size of the line's main text, which sets its baseline */
+  size: number;
+  runs: TextRun[];
+  /** Horizontal rules [from, to] drawn along the top of the line */
+  rules?: [number, number][];
+  /** Notes that must appear on the same page as this line */
+  footnotes?: Footnote[];
+  /** Move to the next page with the following line (headings) */
+  keepWithNext?: boolean;
+  /** Start a new page with this line */
+  pageBreakBefore?: boolean;
+}
+
+interface PageLayout {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+interface LayoutContext {
+  font: PdfFontName;
+  options: PdfOptions;
+  page: PageLayout;
+  /** Width between the margins */
+  contentWidth: number;
+  comments: Map<string, CommentThread[]>;
+  nextFootnote: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  content: 'essay',
+  fontFamily: 'Times New Roman',
+  fontSize: 12,
+  lineSpacing: 2,
+  indentParagraphs: true,
+  mlaHeader: true,
+  includeComments: false,
+};
+
+export const PDF_FONT_FAMILIES: PdfFontFamily[] = ['Times New Roman', 'Arial'];
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const FONTS: Record<PdfFontFamily, PdfFontName> = {
+  'Times New Roman': 'Times-Roman',
+  Arial: 'Helvetica',
+};
+
+// US Letter, in points
+const INCH = 72;
+const PORTRAIT: PageLayout = { width: 8.5 * INCH, height: 11 * INCH, margin: INCH };
+const LANDSCAPE: PageLayout = { width: 11 * INCH, height: 8.5 * INCH, margin: 0.75 * INCH };
+
+// Single spacing, as a multiple of the font size
+const LEADING = 1.15;
+
+const COLUMN_GAP = 12;
+
+// =============================================================================
+// Text Layout
+// =============================================================================
+
+/**
+ * Break text into lines no wider than `width`. Newlines are kept; words
+ * longer than a line are split. `reserve` keeps room at the end of the last
+ * line (for a footnote marker).
+ */
+export function wrapText(
+  text: string,
+  font: PdfFontName,
+  size: number,
+  width: number,
+  { firstLineIndent = 0, reserve = 0 }: { firstLineIndent?: number; reserve?: number } = {}
+): string[] {
+  const lines: string[] = [];
+  const measure = (s: string) => measureText(s, font, size);
+  const available = () => width - (lines.length === 0 ? firstLineIndent : 0);
+
+  for (const hardLine of text.split(/\r?\n/)) {
+    let current = '';
+    for (const word of hardLine.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest) {
+        const candidate = current ? `${current} ${rest}` : rest;
+        if (measure(candidate) <= available()) {
+          current = candidate;
+          rest = '';
+        } else if (current) {
+          lines.push(current);
+          current = '';
+        } else {
+          const chars = Array.from(rest);
+          let end = 1;
+          while (end < chars.length && measure(chars.slice(0, end + 1).join('')) <= available()) end++;
+          lines.push(chars.slice(0, end).join(''));
+          rest = chars.slice(end).join('');
+        }
+      }
+    }
+    lines.push(current);
+  }
+
+  const last = lines[lines.length - 1];
+  const lastAvailable = width - (lines.length === 1 ? firstLineIndent : 0);
+  if (reserve && measure(last) + reserve > lastAvailable && last.includes(' ')) {
+    const split = last.lastIndexOf(' ');
+    lines.splice(lines.length - 1, 1, last.slice(0, split), last.slice(split + 1));
+  }
+  return lines;
+}
+
+const commentAuthor = (comment: Comment) => comment.authorDisplayName || comment.authorEmail;
+
+/**
+ * Footnotes for the open threads on the given cells, numbered in order.
+ * `labels` names the cell a note is about when the marker sits elsewhere.
+ */
+function takeFootnotes(ctx: LayoutContext, blockIds: string[], labels: Map<string, string> = new Map()): Footnote[] {
+  if (!ctx.options.includeComments) return [];
+  return blockIds.flatMap((blockId) =>
+    (ctx.comments.get(blockId) ?? [])
+      .filter((thread) => !thread.rootComment.resolved)
+      .sort((a, b) => a.rootComment.createdAt.getTime() - b.rootComment.createdAt.getTime())
+      .map((thread) => {
+        const label = labels.get(blockId);
+        const text = [thread.rootComment, ...thread.replies]
+          .map((comment) => `${commentAuthor(comment)}: ${comment.text.trim()}`)
+          .join(' / ');
+        return { number: ctx.nextFootnote++, text: label ? `On ${label}. ${text}` : text };
+      })
+  );
+}
+
+const markerText = (footnotes: Footnote[]) => footnotes.map((note) => note.number).join(',');
+
+const markerSize = (size: number) => size * 0.65;
+
+/**
+ * Superscript marker run placed after the given line text
+ */
+function markerRun(ctx: LayoutContext, footnotes: Footnote[], x: number, lineText: string, size: number): TextRun {
+  return {
+    x: x + measureText(lineText, ctx.font, size) + 1,
+    text: markerText(footnotes),
+    size: markerSize(size),
+    rise: size * 0.35,
+  };
+}
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+function layoutEssay(essay: Essay, meta: ExportMeta, ctx: LayoutContext): Line[] {
+  const { font, options, contentWidth } = ctx;
+  const size = options.fontSize;
+  const height = size * LEADING * options.lineSpacing;
+  const textLine = (text: string, align: 'left' | 'center' = 'left'): Line => ({
+    height,
+    size,
+    runs: [{ x: align === 'center' ? (contentWidth - measureText(text, font, size)) / 2 : 0, text, size }],
+  });
+  const centered = (text: string) => wrapText(text, font, size, contentWidth).map((line) => textLine(line, 'center'));
+
+  const lines: Line[] = [];
+  if (options.mlaHeader) {
+    getMlaHeadingLines(meta).forEach((text) => lines.push(textLine(text)));
+    lines.push(...centered(meta.title));
+  } else {
+    lines.push(...centered(meta.title));
+    if (meta.author.trim()) lines.push(...centered(meta.author.trim()));
+  }
+
+  const indent = options.indentParagraphs ? INCH / 2 : 0;
+  getOutlineSections(essay)
+    .filter((section) => section.paragraph.text.trim())
+    .forEach((section) => {
+      const labels = new Map(section.rows.map((row) => [row.blockId, row.label]));
+      const footnotes = takeFootnotes(
+        ctx,
+        [section.paragraph.blockId, ...section.rows.map((row) => row.blockId)],
+        labels
+      );
+      const reserve = footnotes.length ? measureText(markerText(footnotes), font, markerSize(size)) + 1 : 0;
+      const wrapped = wrapText(section.paragraph.text.trim(), font, size, contentWidth, {
+        firstLineIndent: indent,
+        reserve,
+      });
+      wrapped.forEach((text, i) => {
+        const x = i === 0 ? indent : 0;
+        const line: Line = { height, size, runs: [{ x, text, size }] };
+        if (i === wrapped.length - 1 && footnotes.length) {
+          line.runs.push(markerRun(ctx, footnotes, x, text, size));
+          line.footnotes = footnotes;
+        }
+        lines.push(line);
+      });
+    });
+
+  // Works Cited entries hang: the first line is flush left, the rest indented
+  const worksCited = getWorksCited(essay);
+  if (worksCited) {
+    lines.push({ ...centered(worksCited.heading)[0], pageBreakBefore: true });
+    worksCited.entries.forEach((entry) => {
+      wrapText(citationToText(entry), font, size, contentWidth - INCH / 2, { firstLineIndent: -INCH / 2 }).forEach(
+        (text, i) => lines.push({ height, size, runs: [{ x: i === 0 ? 0 : INCH / 2, text, size }] })
+      );
+    });
+  }
+
+  return lines;
+}
+
+function layoutOutline(essay: Essay, meta: ExportMeta, ctx: LayoutContext): Line[] {
+  const { font, options, contentWidth } = ctx;
+  const size = options.fontSize;
+  const height = size * LEADING;
+  const guidanceSize = size * 0.85;
+  const columnsWidth = contentWidth - 2 * COLUMN_GAP;
+  const purposeWidth = columnsWidth * 0.24;
+  const outlineX = purposeWidth + COLUMN_GAP;
+  const outlineWidth = (columnsWidth - purposeWidth) / 2;
+  const paragraphX = outlineX + outlineWidth + COLUMN_GAP;
+  const paragraphWidth = outlineWidth;
+
+  const titleSize = size * 1.4;
+  const lines: Line[] = [
+    {
+      height: titleSize * LEADING,
+      size: titleSize,
+      runs: [{ x: (contentWidth - measureText(meta.title, font, titleSize)) / 2, text: meta.title, size: titleSize }],
+    },
+  ];
+  const byline = [meta.author.trim(), meta.course?.trim()].filter(Boolean).join(', ');
+  if (byline) {
+    lines.push({ height, size, runs: [{ x: (contentWidth - measureText(byline, font, size)) / 2, text: byline, size }] });
+  }
+  lines.push({ height: height / 2, size, runs: [] });
+  lines.push({
+    height,
+    size,
+    runs: [
+      { x: 0, text: 'Purpose', size },
+      { x: outlineX, text: 'Outline', size },
+      { x: paragraphX, text: 'Paragraph', size },
+    ],
+  });
+
+  /** Lines of a cell, with its footnote marker after the last one */
+  const cell = (text: string, x: number, width: number, blockId: string) => {
+    const footnotes = takeFootnotes(ctx, [blockId]);
+    const reserve = footnotes.length ? measureText(markerText(footnotes), font, markerSize(size)) + 1 : 0;
+    const wrapped = wrapText(text.trim(), font, size, width, { reserve });
+    return wrapped.map((lineText, i) => {
+      const runs: TextRun[] = [{ x, text: lineText, size }];
+      const isLast = i === wrapped.length - 1;
+      if (isLast && footnotes.length) runs.push(markerRun(ctx, footnotes, x, lineText, size));
+      return { runs, footnotes: isLast ? footnotes : [] };
+    });
+  };
+
+  const rowSlots = (row: OutlineRow, isFirst: boolean): Line[] => {
+    const purpose: TextRun[] = [
+      { x: 0, text: row.label, size },
+      ...wrapText(row.purpose, font, guidanceSize, purposeWidth).map((text) => ({ x: 0, text, size: guidanceSize })),
+    ];
+    const outline = cell(row.text, outlineX, outlineWidth, row.blockId);
+    return Array.from({ length: Math.max(purpose.length, outline.length) }, (_, i) => ({
+      height,
+      size,
+      runs: [...(purpose[i] ? [purpose[i]] : []), ...(outline[i]?.runs ?? [])],
+      footnotes: outline[i]?.footnotes,
+      rules: i === 0 && !isFirst ? [[0, paragraphX - COLUMN_GAP / 2]] : undefined,
+    }));
+  };
+
+  getOutlineSections(essay).forEach((section) => {
+    const sectionSize = size * 1.15;
+    lines.push({ height: height / 2, size, runs: [] });
+    lines.push({
+      height: sectionSize * LEADING,
+      size: sectionSize,
+      runs: [{ x: 0, text: section.label, size: sectionSize }],
+      rules: [[0, contentWidth]],
+      keepWithNext: true,
+    });
+
+    const left = section.rows.flatMap((row, i) => rowSlots(row, i === 0));
+    const right = cell(section.paragraph.text, paragraphX, paragraphWidth, section.paragraph.blockId);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const slot: Line = left[i] ?? { height, size, runs: [] };
+      lines.push({
+        ...slot,
+        runs: [...slot.runs, ...(right[i]?.runs ?? [])],
+        footnotes: [...(slot.footnotes ?? []), ...(right[i]?.footnotes ?? [])],
+      });
+    }
+  });
+
+  return lines;
+}
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+interface Page {
+  ops: string[];
+  footnotes: Footnote[];
+}
+
+const footnoteSize = (size: number) => Math.max(8, size * 0.8);
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+const hexText = (text: string) =>
+  `<${encodeWinAnsi(text)
+    .map((code) => code.toString(16).padStart(2, '0'))
+    .join('')}>`;
+
+const textOp = (x: number, y: number, text: string, size: number, rise = 0) =>
+  rise
+    ? `BT /F1 ${num(size)} Tf ${num(rise)} Ts ${num(x)} ${num(y)} Td ${hexText(text)} Tj 0 Ts ET`
+    : `BT /F1 ${num(size)} Tf ${num(x)} ${num(y)} Td ${hexText(text)} Tj ET`;
+
+const ruleOp = (x1: number, x2: number, y: number) => `${num(x1)} ${num(y)} m ${num(x2)} ${num(y)} l S`;
+
+function paginate(lines: Line[], ctx: LayoutContext): Page[] {
+  const { page: layout, font, contentWidth } = ctx;
+  const noteSize = footnoteSize(ctx.options.fontSize);
+  const noteHeight = noteSize * LEADING;
+  const top = layout.height - layout.margin;
+
+  const wrapNote = (note: Footnote) => wrapText(`${note.number}. ${note.text}`, font, noteSize, contentWidth);
+  const notesHeight = (notes: Footnote[]) =>
+    notes.length ? noteHeight * (notes.reduce((sum, note) => sum + wrapNote(note).length, 0) + 0.5) : 0;
+
+  const pages: Page[] = [];
+  let page: Page = { ops: [], footnotes: [] };
+  let y = top;
+
+  lines.forEach((line, i) => {
+    const next = line.keepWithNext ? lines[i + 1] : undefined;
+    const needed = line.height + (next?.height ?? 0);
+    const notes = [...page.footnotes, ...(line.footnotes ?? []), ...(next?.footnotes ?? [])];
+    if (page.ops.length > 0 && (line.pageBreakBefore || y - needed < layout.margin + notesHeight(notes))) {
+      pages.push(page);
+      page = { ops: [], footnotes: [] };
+      y = top;
+    }
+
+    line.rules?.forEach(([from, to]) => page.ops.push(ruleOp(layout.margin + from, layout.margin + to, y)));
+    const baseline = y - line.size * 0.9;
+    line.runs.forEach((run) => {
+      if (run.text) page.ops.push(textOp(layout.margin + run.x, baseline, run.text, run.size, run.rise));
+    });
+    page.footnotes.push(...(line.footnotes ?? []));
+    y -= line.height;
+  });
+  pages.push(page);
+
+  pages.forEach((p) => {
+    if (!p.footnotes.length) return;
+    let noteY = layout.margin + notesHeight(p.footnotes);
+    p.ops.push(ruleOp(layout.margin, layout.margin + contentWidth / 3, noteY));
+    noteY -= noteHeight / 2;
+    p.footnotes.forEach((note) => {
+      wrapNote(note).forEach((text) => {
+        p.ops.push(textOp(layout.margin, noteY - noteSize * 0.9, text, noteSize));
+        noteY -= noteHeight;
+      });
+    });
+  });
+
+  return pages;
+}
+
+/**
+ * Running header: "Surname N" for MLA essays, otherwise the title and "Page N of M"
+ */
+function addPageHeaders(pages: Page[], meta: ExportMeta, ctx: LayoutContext): void {
+  const { page: layout, font, options } = ctx;
+  const size = Math.min(options.fontSize, 11);
+  const y = layout.height - layout.margin / 2;
+  const right = layout.width - layout.margin;
+
+  pages.forEach((page, i) => {
+    const number = String(i + 1);
+    if (options.content === 'essay' && options.mlaHeader) {
+      const text = `${getSurname(meta.author)} ${number}`.trim();
+      page.ops.push(textOp(right - measureText(text, font, size), y, text, size));
+      return;
+    }
+    const pageText = `Page ${number} of ${pages.length}`;
+    page.ops.push(textOp(right - measureText(pageText, font, size), y, pageText, size));
+    if (options.content === 'outline') {
+      page.ops.push(textOp(layout.margin, y, meta.title, size));
+    }
+  });
+}
+
+// =============================================================================
+// PDF File
+// =============================================================================
+
+/** A text string in the document info dictionary, as UTF-16BE with a byte order mark */
+const infoText = (text: string) =>
+  `<FEFF${Array.from(text)
+    .flatMap((char) => {
+      const code = char.codePointAt(0) ?? 0;
+      if (code <= 0xffff) return [code];
+      const offset = code - 0x10000;
+      return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+    })
+    .map((unit) => unit.toString(16).padStart(4, '0').toUpperCase())
+    .join('')}>`;
+
+const pdfDate = (date: Date) => {
+  const parts = [date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()];
+  return `D:${date.getUTCFullYear()}${parts.map((n) => String(n).padStart(2, '0')).join('')}Z`;
+};
+
+function writePdf(pages: Page[], layout: PageLayout, font: PdfFontName, meta: ExportMeta): Uint8Array {
+  const encoder = new TextEncoder();
+  // The comment line of high bytes marks the file as binary for transfer tools
+  const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+  let length = chunks[0].length + chunks[1].length;
+  const offsets: number[] = [];
+
+  const write = (text: string) => {
+    const bytes = encoder.encode(text);
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`);
+  object(
+    4,
+    `<< /Title ${infoText(meta.title)} /Author ${infoText(meta.author)} /Producer (Essay Helper) /CreationDate (${pdfDate(meta.date)}) >>`
+  );
+  pages.forEach((page, i) => {
+    const content = ['0.5 w 0.6 G', ...page.ops].join('\n');
+    object(
+      pageIds[i],
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(layout.width)} ${num(layout.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    object(pageIds[i] + 1, `<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream`);
+  });
+
+  const xrefOffset = length;
+  const size = offsets.length;
+  write(
+    `xref\n0 ${size}\n0000000000 65535 f \n` +
+      offsets
+        .slice(1)
+        .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+        .join('') +
+      `trailer\n<< /Size ${size} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Build a print-ready PDF of the essay or its outline. `comments` maps block
+ * ids to their threads, as kept by useComments.
+ */
+export function buildPdf(
+  essay: Essay,
+  meta: ExportMeta,
+  options: Partial<PdfOptions> = {},
+  comments: Map<string, CommentThread[]> = new Map()
+): Uint8Array {
+  const resolved = { ...DEFAULT_PDF_OPTIONS, ...options };
+  const page = resolved.content === 'outline' ? LANDSCAPE : PORTRAIT;
+  const ctx: LayoutContext = {
+    font: FONTS[resolved.fontFamily] ?? FONTS['Times New Roman'],
+    options: resolved,
+    page,
+    contentWidth: page.width - 2 * page.margin,
+    comments,
+    nextFootnote: 1,
+  };
+
+  const lines = resolved.content === 'outline' ? layoutOutline(essay, meta, ctx) : layoutEssay(essay, meta, ctx);
+  const pages = paginate(lines, ctx);
+  addPageHeaders(pages, meta, ctx);
+  return writePdf(pages, page, ctx.font, meta);
+}
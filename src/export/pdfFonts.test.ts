@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWinAnsi, measureText } from './pdfFonts';
+
+describe('encodeWinAnsi', () => {
+  it('keeps ASCII and Latin-1 as is', () => {
+    expect(encodeWinAnsi('Aé ü')).toEqual([0x41, 0xe9, 0x20, 0xfc]);
+  });
+
+  it('maps curly quotes and dashes to their WinAnsi codes', () => {
+    expect(encodeWinAnsi('“a”—‘b’…')).toEqual([0x93, 0x61, 0x94, 0x97, 0x91, 0x62, 0x92, 0x85]);
+  });
+
+  it('drops accents the encoding lacks and replaces other characters', () => {
+    expect(encodeWinAnsi('ő\t中😀')).toEqual([0x6f, 0x20, 0x3f, 0x3f]);
+  });
+});
+
+describe('measureText', () => {
+  it('sums the font advance widths at the given size', () => {
+    // H 722 + e 556 + l 222 + l 222 + o 556
+    expect(measureText('Hello', 'Helvetica', 10)).toBeCloseTo(22.78);
+    // H 722 + e 444 + l 278 + l 278 + o 500
+    expect(measureText('Hello', 'Times-Roman', 10)).toBeCloseTo(22.22);
+  });
+
+  it('measures accented letters like their base letter', () => {
+    expect(measureText('é', 'Times-Roman', 10)).toBe(measureText('e', 'Times-Roman', 10));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Metrics and encoding for the PDF standard fonts - no React or UI dependencies
+ *
+ * Every PDF reader ships Times-Roman and Helvetica, so we can reference them
+ * without embedding font files. Text is written in WinAnsiEncoding (Latin-1
+ * plus curly quotes, dashes and a few symbols); characters outside it fall
+ * back to their unaccented letter, or "?".
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PdfFontName = 'Times-Roman' | 'Helvetica';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Advance widths in 1/1000 em for character codes 32-126, from the Adobe AFM files
+const ASCII_WIDTHS: Record<PdfFontName, number[]> = {
+  'Times-Roman': [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+    921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+    556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+    333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+    500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+  ],
+  Helvetica: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+};
+
+/** WinAnsiEncoding codes 0x80-0x9F, which differ from Latin-1 */
+const WIN_ANSI_SPECIALS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/** Widths [Times-Roman, Helvetica] of the common non-letter characters above 126 */
+const SYMBOL_WIDTHS: Record<number, [number, number]> = {
+  0x80: [500, 556], 0x82: [333, 222], 0x84: [444, 333], 0x85: [1000, 1000], 0x86: [500, 556],
+  0x87: [500, 556], 0x89: [1000, 1000], 0x8b: [333, 333], 0x91: [333, 222], 0x92: [333, 222],
+  0x93: [444, 333], 0x94: [444, 333], 0x95: [350, 350], 0x96: [500, 556], 0x97: [1000, 1000],
+  0x99: [980, 1000], 0x9b: [333, 333], 0xa0: [250, 278], 0xa9: [760, 737], 0xab: [500, 556],
+  0xae: [760, 737], 0xb0: [400, 400], 0xb1: [564, 584], 0xb7: [250, 278], 0xbb: [500, 556],
+  0xd7: [564, 584], 0xdf: [500, 611], 0xf7: [564, 584],
+};
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * The WinAnsiEncoding code for a character, or null when it has none
+ */
+function winAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0) ?? 0;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_SPECIALS[char] ?? null;
+}
+
+/**
+ * Encode text as WinAnsiEncoding bytes. Tabs become spaces, accented letters
+ * outside the encoding lose their accent, anything else becomes "?".
+ */
+export function encodeWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text.replace(/\t/g, ' ')) {
+    const code = winAnsiCode(char) ?? winAnsiCode(char.normalize('NFD')[0]) ?? 0x3f;
+    bytes.push(code);
+  }
+  return bytes;
+}
+
+function codeWidth(code: number, font: PdfFontName): number {
+  if (code >= 0x20 && code <= 0x7e) return ASCII_WIDTHS[font][code - 0x20];
+  const symbol = SYMBOL_WIDTHS[code];
+  if (symbol) return symbol[font === 'Times-Roman' ? 0 : 1];
+  // Accented Latin-1 letters are as wide as their base letter
+  const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0);
+  if (base >= 0x20 && base <= 0x7e) return ASCII_WIDTHS[font][base - 0x20];
+  return font === 'Times-Roman' ? 500 : 556;
+}
+
+/**
+ * Width of text in points when set in the given font and size
+ */
+export function measureText(text: string, font: PdfFontName, size: number): number {
+  return (encodeWinAnsi(text).reduce((sum, code) => sum + codeWidth(code, font), 0) * size) / 1000;
+}
@@ -5,6 +5,9 @@ import {
   saveEssay,
   deleteEssay,
   updateEssayTitle,
+  listTrashedEssays,
+  trashEssay,
+  restoreEssay,
   getEssaySharingInfo,
   shareEssay,
   unshareEssay,
@@ -14,11 +17,20 @@ import {
   getSharedEssay,
   getPublicEssay,
   getEssayWithPermissions,
+  listVersions,
+  saveVersion,
+  subscribeToEssay,
+  updatePresence,
+  removePresence,
+  subscribeToPresence,
   FirestoreEssayStorage,
   firestoreStorage,
 } from './firestore';
 import type { Essay } from '../models/essay';
+import { CURRENT_SCHEMA_VERSION, EssayDataError } from '../models/schema';
+import essayV1 from '../models/fixtures/essay-v1.json';
 import type { Collaborator } from '../models/document';
+import type { EssayVersion } from '../models/version';
 
 // Mock firebase/firestore
 vi.mock('firebase/firestore', () => ({
@@ -29,6 +41,8 @@ vi.mock('firebase/firestore', () => ({
   setDoc: vi.fn(),
   deleteDoc: vi.fn(),
   updateDoc: vi.fn(),
+  onSnapshot: vi.fn(),
+  deleteField: vi.fn(() => ({ _deleteField: true })),
   serverTimestamp: vi.fn(() => ({ _serverTimestamp: true })),
   Timestamp: {
     now: vi.fn(() => ({ toMillis: () => Date.now() })),
@@ -47,12 +61,14 @@ import {
   setDoc,
   deleteDoc,
   updateDoc,
+  onSnapshot,
   doc,
   collection,
 } from 'firebase/firestore';
 
 const mockGetDocs = getDocs as Mock;
 const mockGetDoc = getDoc as Mock;
+const mockOnSnapshot = onSnapshot as Mock;
 const mockSetDoc = setDoc as Mock;
 const mockDeleteDoc = deleteDoc as Mock;
 const mockUpdateDoc = updateDoc as Mock;
@@ -108,7 +124,7 @@ describe('Essay CRUD', () => {
 
       const result = await listEssays('user123');
 
-      expect(result).toEqual([]);
+      expect(result).toEqual({ essays: [], unreadable: [] });
       expect(mockCollection).toHaveBeenCalled();
     });
 
@@ -118,29 +134,59 @@ describe('Essay CRUD', () => {
 
       mockGetDocs.mockResolvedValue({
         docs: [
-          { id: 'essay1', data: () => ({ title: 'Old', data: {}, updatedAt: older }) },
-          { id: 'essay2', data: () => ({ title: 'New', data: {}, updatedAt: newer }) },
+          { id: 'essay1', data: () => ({ title: 'Old', data: createMockEssay(), updatedAt: older }) },
+          { id: 'essay2', data: () => ({ title: 'New', data: createMockEssay(), updatedAt: newer }) },
         ],
       });
 
-      const result = await listEssays('user123');
+      const { essays } = await listEssays('user123');
 
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('essay2');
-      expect(result[1].id).toBe('essay1');
+      expect(essays).toHaveLength(2);
+      expect(essays[0].id).toBe('essay2');
+      expect(essays[1].id).toBe('essay1');
     });
 
     it('handles essays without updatedAt', async () => {
       mockGetDocs.mockResolvedValue({
         docs: [
-          { id: 'essay1', data: () => ({ title: 'No timestamp', data: {} }) },
+          { id: 'essay1', data: () => ({ title: 'No timestamp', data: createMockEssay() }) },
         ],
       });
 
-      const result = await listEssays('user123');
+      const { essays } = await listEssays('user123');
 
-      expect(result).toHaveLength(1);
-      expect(result[0].id).toBe('essay1');
+      expect(essays).toHaveLength(1);
+      expect(essays[0].id).toBe('essay1');
+    });
+
+    it('reports essays whose data is corrupted instead of listing them', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetDocs.mockResolvedValue({
+        docs: [
+          { id: 'good', data: () => ({ title: 'Good', data: createMockEssay() }) },
+          { id: 'bad', data: () => ({ title: 'Bad', data: { intro: 'oops' } }) },
+        ],
+      });
+
+      const { essays, unreadable } = await listEssays('user123');
+
+      expect(essays.map((e) => e.id)).toEqual(['good']);
+      expect(unreadable).toEqual([{ id: 'bad', title: 'Bad', error: expect.stringContaining('intro') }]);
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('bad'), expect.any(EssayDataError));
+      consoleError.mockRestore();
+    });
+
+    it('leaves out essays in the trash', async () => {
+      mockGetDocs.mockResolvedValue({
+        docs: [
+          { id: 'kept', data: () => ({ title: 'Kept', data: createMockEssay() }) },
+          { id: 'trashed', data: () => ({ title: 'Trashed', data: createMockEssay(), trashedAt: createMockTimestamp(1000) }) },
+        ],
+      });
+
+      const { essays } = await listEssays('user123');
+
+      expect(essays.map((e) => e.id)).toEqual(['kept']);
     });
   });
 
@@ -175,9 +221,26 @@ describe('Essay CRUD', () => {
       expect(result?.title).toBe('Test Essay');
       expect(result?.data).toEqual(mockEssay);
     });
+
+    it('upgrades essays saved before schema versioning', async () => {
+      mockGetDoc.mockResolvedValue({
+        exists: () => true,
+        id: 'essay123',
+        data: () => ({ title: 'Old Essay', data: essayV1 }),
+      });
+
+      const result = await getEssay('user123', 'essay123');
+
+      expect(result?.data.intro.paragraph).toBe('');
+      expect(result?.data).not.toHaveProperty('schemaVersion');
+    });
   });
 
   describe('saveEssay', () => {
+    beforeEach(() => {
+      mockGetDoc.mockResolvedValue({ exists: () => false });
+    });
+
     it('creates new essay with timestamp', async () => {
       mockSetDoc.mockResolvedValue(undefined);
 
@@ -199,7 +262,7 @@ describe('Essay CRUD', () => {
       expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'essayIndex', 'essay123');
     });
 
-    it('uses merge option for updates', async () => {
+    it('replaces essay data while keeping other document fields', async () => {
       mockSetDoc.mockResolvedValue(undefined);
 
       const mockEssay = createMockEssay();
@@ -207,19 +270,35 @@ describe('Essay CRUD', () => {
 
       expect(mockSetDoc).toHaveBeenCalledWith(
         expect.anything(),
-        expect.objectContaining({ title: 'Test', data: mockEssay }),
-        { merge: true }
+        expect.objectContaining({ title: 'Test', data: { ...mockEssay, schemaVersion: CURRENT_SCHEMA_VERSION } }),
+        { mergeFields: ['title', 'data', 'updatedAt', 'createdAt'] }
       );
     });
+
+    it('leaves createdAt alone when the essay already exists', async () => {
+      mockGetDoc.mockResolvedValue({ exists: () => true });
+      mockSetDoc.mockResolvedValue(undefined);
+
+      await saveEssay('user123', 'essay123', createMockEssay(), 'Test');
+
+      const [, fields, options] = mockSetDoc.mock.calls[0];
+      expect(fields).not.toHaveProperty('createdAt');
+      expect(options).toEqual({ mergeFields: ['title', 'data', 'updatedAt'] });
+    });
   });
 
   describe('deleteEssay', () => {
-    it('removes essay and index entry', async () => {
+    it('removes essay and index entry, leaving the rest to the cleanup function', async () => {
+      mockDoc.mockImplementation((_db, ...path: string[]) => ({ path: path.join('/') }));
       mockDeleteDoc.mockResolvedValue(undefined);
 
       await deleteEssay('user123', 'essay123');
 
-      expect(mockDeleteDoc).toHaveBeenCalledTimes(2);
+      expect(mockDeleteDoc.mock.calls.map(([ref]) => ref.path)).toEqual([
+        'users/user123/essays/essay123',
+        'essayIndex/essay123',
+      ]);
+      expect(mockGetDocs).not.toHaveBeenCalled();
     });
   });
 
@@ -238,6 +317,111 @@ describe('Essay CRUD', () => {
   });
 });
 
+describe('Trash', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDoc.mockImplementation((_db, ...path: string[]) => ({ path: path.join('/') }));
+    mockCollection.mockReturnValue({});
+  });
+
+  it('lists trashed essays, most recently trashed first', async () => {
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        { id: 'kept', data: () => ({ title: 'Kept', data: createMockEssay() }) },
+        { id: 'older', data: () => ({ title: 'Older', data: createMockEssay(), trashedAt: createMockTimestamp(1000) }) },
+        { id: 'newer', data: () => ({ title: 'Newer', data: createMockEssay(), trashedAt: createMockTimestamp(2000) }) },
+      ],
+    });
+
+    const result = await listTrashedEssays('user123');
+
+    expect(result.map((e) => e.id)).toEqual(['newer', 'older']);
+    expect(result[0].trashedAt).toEqual(new Date(2000));
+  });
+
+  it('stamps the essay and hides it from each collaborator', async () => {
+    mockGetDoc.mockResolvedValue({
+      exists: () => true,
+      data: () => ({ sharing: { collaborators: [{ email: 'friend@example.com', permission: 'editor' }] } }),
+    });
+    mockUpdateDoc.mockResolvedValue(undefined);
+
+    await expect(trashEssay('user123', 'essay123')).resolves.toBe(true);
+
+    expect(mockUpdateDoc.mock.calls.map(([ref, data]) => [ref.path, data])).toEqual([
+      ['users/user123/essays/essay123', { trashedAt: { _serverTimestamp: true } }],
+      ['sharedWithMe/friend@example.com/essays/user123_essay123', { trashedAt: { _serverTimestamp: true } }],
+    ]);
+  });
+
+  it('leaves an essay that was never saved alone', async () => {
+    mockGetDoc.mockResolvedValue({ exists: () => false });
+
+    await expect(trashEssay('user123', 'essay123')).resolves.toBe(false);
+
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+  });
+
+  it('still trashes the essay when a shared reference is missing', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetDoc.mockResolvedValue({
+      exists: () => true,
+      data: () => ({
+        sharing: {
+          collaborators: [
+            { email: 'gone@example.com', permission: 'viewer' },
+            { email: 'friend@example.com', permission: 'editor' },
+          ],
+        },
+      }),
+    });
+    mockUpdateDoc
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('No document to update'))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(trashEssay('user123', 'essay123')).resolves.toBe(true);
+
+    expect(mockUpdateDoc.mock.calls.map(([ref]) => ref.path)).toEqual([
+      'users/user123/essays/essay123',
+      'sharedWithMe/gone@example.com/essays/user123_essay123',
+      'sharedWithMe/friend@example.com/essays/user123_essay123',
+    ]);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('clears the stamp on restore', async () => {
+    mockGetDoc.mockResolvedValue({
+      exists: () => true,
+      data: () => ({ sharing: { collaborators: [{ email: 'friend@example.com', permission: 'editor' }] } }),
+    });
+    mockUpdateDoc.mockResolvedValue(undefined);
+
+    await restoreEssay('user123', 'essay123');
+
+    expect(mockUpdateDoc.mock.calls.map(([, data]) => data)).toEqual([
+      { trashedAt: { _deleteField: true } },
+      { trashedAt: { _deleteField: true } },
+    ]);
+  });
+
+  it('treats a trashed essay as missing for shared and public access', async () => {
+    const trashed = {
+      exists: () => true,
+      data: () => ({ title: 'Trashed', data: createMockEssay(), sharing: { isPublic: true }, trashedAt: createMockTimestamp(1000) }),
+    };
+    mockGetDoc.mockResolvedValue(trashed);
+
+    expect(await getSharedEssay('owner123', 'essay123')).toBeNull();
+
+    mockGetDoc
+      .mockResolvedValueOnce({ exists: () => true, data: () => ({ essayId: 'essay123', ownerUid: 'owner123' }) })
+      .mockResolvedValueOnce(trashed);
+    expect(await getPublicEssay('token123')).toBeNull();
+  });
+});
+
 describe('Sharing', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -626,7 +810,7 @@ describe('Permission Resolution', () => {
         })
         .mockResolvedValueOnce({
           exists: () => true,
-          data: () => ({ title: 'My Essay', data: {} }),
+          data: () => ({ title: 'My Essay', data: createMockEssay() }),
         });
 
       const result = await getEssayWithPermissions('essay123', 'owner123', 'owner@example.com');
@@ -645,7 +829,7 @@ describe('Permission Resolution', () => {
           exists: () => true,
           data: () => ({
             title: 'Shared Essay',
-            data: {},
+            data: createMockEssay(),
             sharing: {
               collaboratorEmails: ['editor@example.com'],
               editorEmails: ['editor@example.com'],
@@ -668,7 +852,7 @@ describe('Permission Resolution', () => {
           exists: () => true,
           data: () => ({
             title: 'Shared Essay',
-            data: {},
+            data: createMockEssay(),
             sharing: {
               collaboratorEmails: ['viewer@example.com'],
               editorEmails: [],
@@ -691,7 +875,7 @@ describe('Permission Resolution', () => {
           exists: () => true,
           data: () => ({
             title: 'Public Essay',
-            data: {},
+            data: createMockEssay(),
             sharing: {
               isPublic: true,
               publicPermission: 'viewer',
@@ -714,7 +898,7 @@ describe('Permission Resolution', () => {
           exists: () => true,
           data: () => ({
             title: 'Private Essay',
-            data: {},
+            data: createMockEssay(),
           }),
         });
 
@@ -734,7 +918,7 @@ describe('Permission Resolution', () => {
           exists: () => true,
           data: () => ({
             title: 'Shared Essay',
-            data: {},
+            data: createMockEssay(),
             sharing: {
               collaboratorEmails: ['Test@Example.COM'],
               editorEmails: ['Test@Example.COM'],
@@ -749,6 +933,195 @@ describe('Permission Resolution', () => {
   });
 });
 
+describe('Live Essay Updates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDoc.mockReturnValue({});
+  });
+
+  const subscribe = () => {
+    const onChange = vi.fn();
+    const onError = vi.fn();
+    const unsubscribe = vi.fn();
+    mockOnSnapshot.mockReturnValue(unsubscribe);
+    const result = subscribeToEssay('owner123', 'essay123', onChange, onError);
+    const [, onNext] = mockOnSnapshot.mock.calls[0];
+    return { onChange, onError, unsubscribe, result, onNext };
+  };
+
+  it('watches the essay document and returns its unsubscribe', () => {
+    const { unsubscribe, result } = subscribe();
+
+    expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'users', 'owner123', 'essays', 'essay123');
+    expect(result).toBe(unsubscribe);
+  });
+
+  it('delivers normalized documents', () => {
+    const { onChange, onNext } = subscribe();
+    const essay = createMockEssay();
+
+    onNext({ exists: () => true, id: 'essay123', data: () => ({ title: 'Live', data: essay }) });
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'essay123', title: 'Live', data: essay, ownerUid: 'owner123' })
+    );
+  });
+
+  it('delivers null once the essay is deleted', () => {
+    const { onChange, onNext } = subscribe();
+
+    onNext({ exists: () => false });
+
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('reports unreadable data as an error', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { onChange, onError, onNext } = subscribe();
+
+    onNext({ exists: () => true, id: 'essay123', data: () => ({ title: 'Bad', data: { intro: 'oops' } }) });
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(EssayDataError));
+    consoleError.mockRestore();
+  });
+});
+
+describe('Presence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDoc.mockReturnValue({});
+    mockCollection.mockReturnValue({});
+  });
+
+  const session = {
+    id: 'session1',
+    uid: 'user456',
+    displayName: 'Editor',
+    photoURL: null,
+    mode: 'editing' as const,
+    focusedCell: 'intro-thesis',
+  };
+
+  it('writes a heartbeat with a server timestamp', async () => {
+    mockSetDoc.mockResolvedValue(undefined);
+
+    await updatePresence('owner123', 'essay123', session);
+
+    expect(mockDoc).toHaveBeenCalledWith(
+      expect.anything(), 'users', 'owner123', 'essays', 'essay123', 'presence', 'session1'
+    );
+    const { id: _id, ...fields } = session;
+    expect(mockSetDoc).toHaveBeenCalledWith(expect.anything(), { ...fields, lastSeen: { _serverTimestamp: true } });
+  });
+
+  it('removes a session', async () => {
+    mockDeleteDoc.mockResolvedValue(undefined);
+
+    await removePresence('owner123', 'essay123', 'session1');
+
+    expect(mockDoc).toHaveBeenCalledWith(
+      expect.anything(), 'users', 'owner123', 'essays', 'essay123', 'presence', 'session1'
+    );
+    expect(mockDeleteDoc).toHaveBeenCalled();
+  });
+
+  it('delivers sessions with estimated timestamps for unconfirmed heartbeats', () => {
+    const onChange = vi.fn();
+    mockOnSnapshot.mockReturnValue(vi.fn());
+    subscribeToPresence('owner123', 'essay123', onChange);
+    const [, onNext] = mockOnSnapshot.mock.calls[0];
+    const data = vi.fn(() => ({ ...session, id: undefined, lastSeen: createMockTimestamp(5000) }));
+
+    onNext({ docs: [{ id: 'session1', data }] });
+
+    expect(mockCollection).toHaveBeenCalledWith(
+      expect.anything(), 'users', 'owner123', 'essays', 'essay123', 'presence'
+    );
+    expect(data).toHaveBeenCalledWith({ serverTimestamps: 'estimate' });
+    expect(onChange).toHaveBeenCalledWith([{ ...session, lastSeen: new Date(5000) }]);
+  });
+});
+
+describe('Version History', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDoc.mockReturnValue({});
+    mockCollection.mockReturnValue({});
+  });
+
+  describe('listVersions', () => {
+    it('reads the versions subcollection sorted by createdAt descending', async () => {
+      mockGetDocs.mockResolvedValue({
+        docs: [
+          { id: 'v1', data: () => ({ title: 'Old', data: createMockEssay(), authorUid: 'u', createdAt: createMockTimestamp(1000) }) },
+          { id: 'v2', data: () => ({ title: 'New', data: createMockEssay(), authorUid: 'u', createdAt: createMockTimestamp(2000) }) },
+        ],
+      });
+
+      const { versions, unreadableIds } = await listVersions('user123', 'essay123');
+
+      expect(mockCollection).toHaveBeenCalledWith(
+        expect.anything(), 'users', 'user123', 'essays', 'essay123', 'versions'
+      );
+      expect(versions.map((v) => v.id)).toEqual(['v2', 'v1']);
+      expect(versions[1].reason).toBe('auto');
+      expect(versions[1].restoredFromId).toBeNull();
+      expect(unreadableIds).toEqual([]);
+    });
+
+    it('reports snapshots whose data is corrupted', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetDocs.mockResolvedValue({
+        docs: [
+          { id: 'v1', data: () => ({ title: 'Good', data: createMockEssay(), authorUid: 'u', createdAt: createMockTimestamp(1000) }) },
+          { id: 'v2', data: () => ({ title: 'Bad', data: { intro: 'oops' }, authorUid: 'u', createdAt: createMockTimestamp(2000) }) },
+        ],
+      });
+
+      const { versions, unreadableIds } = await listVersions('user123', 'essay123');
+
+      expect(versions.map((v) => v.id)).toEqual(['v1']);
+      expect(unreadableIds).toEqual(['v2']);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('saveVersion', () => {
+    it('writes the snapshot with a server timestamp', async () => {
+      mockSetDoc.mockResolvedValue(undefined);
+      const version: EssayVersion = {
+        id: 'v1',
+        title: 'My Essay',
+        data: createMockEssay(),
+        authorUid: 'user123',
+        authorDisplayName: 'Test User',
+        createdAt: new Date(0),
+        reason: 'restore',
+        restoredFromId: 'v0',
+      };
+
+      const result = await saveVersion('user123', 'essay123', version);
+
+      expect(mockDoc).toHaveBeenCalledWith(
+        expect.anything(), 'users', 'user123', 'essays', 'essay123', 'versions', 'v1'
+      );
+      expect(mockSetDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          title: 'My Essay',
+          reason: 'restore',
+          restoredFromId: 'v0',
+          data: { ...version.data, schemaVersion: CURRENT_SCHEMA_VERSION },
+          createdAt: { _serverTimestamp: true },
+        })
+      );
+      expect(result.id).toBe('v1');
+      expect(result.createdAt.getTime()).toBeGreaterThan(0);
+    });
+  });
+});
+
 describe('FirestoreEssayStorage class', () => {
   it('implements EssayStorage interface', () => {
     const storage = new FirestoreEssayStorage();
@@ -767,6 +1140,8 @@ describe('FirestoreEssayStorage class', () => {
     expect(storage.getSharedEssay).toBe(getSharedEssay);
     expect(storage.getPublicEssay).toBe(getPublicEssay);
     expect(storage.getEssayWithPermissions).toBe(getEssayWithPermissions);
+    expect(storage.listVersions).toBe(listVersions);
+    expect(storage.saveVersion).toBe(saveVersion);
   });
 
   it('exports singleton instance', () => {
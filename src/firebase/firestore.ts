@@ -6,9 +6,12 @@ import {
   setDoc,
   deleteDoc,
   updateDoc,
+  deleteField,
   serverTimestamp,
   CollectionReference,
+  DocumentData,
   DocumentReference,
+  DocumentSnapshot,
   Timestamp,
   onSnapshot,
   Unsubscribe,
@@ -17,11 +20,17 @@ import { nanoid } from 'nanoid';
 import { db } from './config';
 import type { Essay } from '../models/essay';
 import type { Comment, BlockType } from '../models/comment';
+import type { EssayVersion, VersionList, VersionReason } from '../models/version';
+import type { PresenceMode, PresenceSession, PresenceUpdate } from '../models/presence';
+import { readEssayData, toStoredEssayData } from '../models/schema';
 import type { EssayStorage } from '../storage/interface';
+import { readAll, toUnreadableEssay } from '../storage/readAll';
 import type {
   Collaborator,
   SharingInfo,
   EssayDocument,
+  EssayList,
+  TrashedEssayDocument,
   SharedEssayRef,
   PermissionLevel,
   EssayWithPermissions,
@@ -75,15 +84,37 @@ function normalizeComment(id: string, data: Record<string, unknown>): Comment {
   };
 }
 
+function getVersionsCollection(userId: string, essayId: string): CollectionReference {
+  return collection(db, 'users', userId, 'essays', essayId, 'versions');
+}
+
+function getVersionDocRef(userId: string, essayId: string, versionId: string): DocumentReference {
+  return doc(db, 'users', userId, 'essays', essayId, 'versions', versionId);
+}
+
+function normalizeVersion(id: string, data: Record<string, unknown>): EssayVersion {
+  return {
+    id,
+    title: data.title as string,
+    data: readEssayData(data.data),
+    authorUid: data.authorUid as string,
+    authorDisplayName: data.authorDisplayName as string,
+    createdAt: toDate(data.createdAt as Timestamp | Date | undefined),
+    reason: (data.reason as VersionReason) ?? 'auto',
+    restoredFromId: (data.restoredFromId as string | null) ?? null,
+  };
+}
+
 function normalizeEssayDocument(id: string, data: Record<string, unknown>, ownerUid?: string): EssayDocument {
   return {
     id,
     title: data.title as string,
-    data: data.data as Essay,
+    data: readEssayData(data.data),
     updatedAt: toDate(data.updatedAt as Timestamp | Date | undefined),
     createdAt: data.createdAt ? toDate(data.createdAt as Timestamp | Date) : undefined,
     sharing: data.sharing ? normalizeSharingInfo(data.sharing as Record<string, unknown>) : undefined,
     ownerUid,
+    ...(data.trashedAt ? { trashedAt: toDate(data.trashedAt as Timestamp | Date) } : {}),
   };
 }
 
@@ -103,6 +134,19 @@ function normalizeSharingInfo(sharing: Record<string, unknown>): SharingInfo {
   };
 }
 
+/**
+ * Essay data as shared, public and permission lookups see it: trashed essays
+ * count as missing
+ */
+function readableEssayData(snapshot: DocumentSnapshot): DocumentData | null {
+  const data = snapshot.exists() ? snapshot.data() : null;
+  return data && !data.trashedAt ? data : null;
+}
+
+function getSharedRef(email: string, ownerUid: string, essayId: string): DocumentReference {
+  return doc(db, 'sharedWithMe', email.toLowerCase(), 'essays', `${ownerUid}_${essayId}`);
+}
+
 function normalizeSharedEssayRef(id: string, data: Record<string, unknown>): SharedEssayRef {
   return {
     id,
@@ -120,15 +164,19 @@ function normalizeSharedEssayRef(id: string, data: Record<string, unknown>): Sha
 // Essay CRUD
 // =============================================================================
 
-export async function listEssays(userId: string): Promise<EssayDocument[]> {
+export async function listEssays(userId: string): Promise<EssayList> {
   const essaysRef = getUserEssaysCollection(userId);
   const snapshot = await getDocs(essaysRef);
 
-  const essays = snapshot.docs.map((d) =>
-    normalizeEssayDocument(d.id, d.data() as Record<string, unknown>)
+  const { read, unreadable } = readAll(
+    snapshot.docs.filter((d) => !d.data().trashedAt),
+    (d) => normalizeEssayDocument(d.id, d.data() as Record<string, unknown>)
   );
 
-  return essays.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  return {
+    essays: read.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+    unreadable: unreadable.map(({ doc, error }) => toUnreadableEssay(doc.id, doc.data().title, error)),
+  };
 }
 
 export async function getEssay(userId: string, essayId: string): Promise<EssayDocument | null> {
@@ -154,16 +202,19 @@ export async function saveEssay(
     setTimeout(() => reject(new Error('Save timeout after 10 seconds')), 10000);
   });
 
-  const savePromise = setDoc(
-    docRef,
-    {
+  const save = async () => {
+    // createdAt is only written when the document is created
+    const exists = (await getDoc(docRef)).exists();
+    const fields = {
       title,
-      data: essayData,
+      data: toStoredEssayData(essayData),
       updatedAt: serverTimestamp(),
-      createdAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+      ...(exists ? {} : { createdAt: serverTimestamp() }),
+    };
+    // Replace data whole: a merge would keep fields removed from the essay
+    await setDoc(docRef, fields, { mergeFields: Object.keys(fields) });
+  };
+  const savePromise = save();
 
   await Promise.race([savePromise, timeoutPromise]);
 
@@ -173,6 +224,11 @@ export async function saveEssay(
   return essayId;
 }
 
+/**
+ * Comments, versions, presence, the public link and collaborators' sharedWithMe
+ * references are removed by the cleanupDeletedEssay Cloud Function once the
+ * essay document is gone.
+ */
 export async function deleteEssay(userId: string, essayId: string): Promise<void> {
   const docRef = getEssayDocRef(userId, essayId);
   await deleteDoc(docRef);
@@ -193,6 +249,58 @@ export async function updateEssayTitle(userId: string, essayId: string, title: s
   );
 }
 
+// =============================================================================
+// Trash
+// =============================================================================
+
+export async function listTrashedEssays(userId: string): Promise<TrashedEssayDocument[]> {
+  const snapshot = await getDocs(getUserEssaysCollection(userId));
+
+  // Unreadable essays are left out here; listEssays reports them
+  const { read: essays } = readAll(
+    snapshot.docs.filter((d) => d.data().trashedAt),
+    (d) => normalizeEssayDocument(d.id, d.data() as Record<string, unknown>) as TrashedEssayDocument
+  );
+
+  return essays.sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+}
+
+/**
+ * Hide (or show again) the essay in each collaborator's Shared with me.
+ * The references are flagged rather than deleted so a restore does not send
+ * the share notification again. A reference that is already gone is skipped:
+ * the essay itself is trashed or restored either way.
+ */
+async function setSharedRefsTrashed(ownerUid: string, essayId: string, trashed: boolean): Promise<void> {
+  const snapshot = await getDoc(getEssayDocRef(ownerUid, essayId));
+  const collaborators: Collaborator[] = snapshot.exists() ? snapshot.data().sharing?.collaborators ?? [] : [];
+
+  for (const collab of collaborators) {
+    try {
+      await updateDoc(getSharedRef(collab.email, ownerUid, essayId), {
+        trashedAt: trashed ? serverTimestamp() : deleteField(),
+      });
+    } catch (error) {
+      console.error(`Could not update the shared reference for ${collab.email}:`, error);
+    }
+  }
+}
+
+export async function trashEssay(userId: string, essayId: string): Promise<boolean> {
+  const docRef = getEssayDocRef(userId, essayId);
+  if (!(await getDoc(docRef)).exists()) {
+    return false;
+  }
+  await updateDoc(docRef, { trashedAt: serverTimestamp() });
+  await setSharedRefsTrashed(userId, essayId, true);
+  return true;
+}
+
+export async function restoreEssay(userId: string, essayId: string): Promise<void> {
+  await updateDoc(getEssayDocRef(userId, essayId), { trashedAt: deleteField() });
+  await setSharedRefsTrashed(userId, essayId, false);
+}
+
 // =============================================================================
 // Sharing
 // =============================================================================
@@ -349,9 +457,9 @@ export async function listSharedWithMe(userEmail: string): Promise<SharedEssayRe
   const sharedRef = collection(db, 'sharedWithMe', normalizedEmail, 'essays');
   const snapshot = await getDocs(sharedRef);
 
-  return snapshot.docs.map((d) =>
-    normalizeSharedEssayRef(d.id, d.data() as Record<string, unknown>)
-  );
+  return snapshot.docs
+    .filter((d) => !d.data().trashedAt)
+    .map((d) => normalizeSharedEssayRef(d.id, d.data() as Record<string, unknown>));
 }
 
 export async function getPublicEssay(token: string): Promise<EssayDocument | null> {
@@ -365,15 +473,9 @@ export async function getPublicEssay(token: string): Promise<EssayDocument | nul
   const { essayId, ownerUid } = publicSnap.data() as { essayId: string; ownerUid: string };
 
   const essayDocRef = getEssayDocRef(ownerUid, essayId);
-  const essaySnap = await getDoc(essayDocRef);
-
-  if (!essaySnap.exists()) {
-    return null;
-  }
-
-  const essayData = essaySnap.data();
+  const essayData = readableEssayData(await getDoc(essayDocRef));
 
-  if (!essayData.sharing?.isPublic) {
+  if (!essayData?.sharing?.isPublic) {
     return null;
   }
 
@@ -382,13 +484,13 @@ export async function getPublicEssay(token: string): Promise<EssayDocument | nul
 
 export async function getSharedEssay(ownerUid: string, essayId: string): Promise<EssayDocument | null> {
   const docRef = getEssayDocRef(ownerUid, essayId);
-  const snapshot = await getDoc(docRef);
+  const essayData = readableEssayData(await getDoc(docRef));
 
-  if (!snapshot.exists()) {
+  if (!essayData) {
     return null;
   }
 
-  return normalizeEssayDocument(snapshot.id, snapshot.data() as Record<string, unknown>, ownerUid);
+  return normalizeEssayDocument(essayId, essayData, ownerUid);
 }
 
 export async function saveSharingSettings(
@@ -489,10 +591,10 @@ export async function saveSharedEssay(
     docRef,
     {
       title,
-      data: essayData,
+      data: toStoredEssayData(essayData),
       updatedAt: serverTimestamp(),
     },
-    { merge: true }
+    { mergeFields: ['title', 'data', 'updatedAt'] }
   );
 
   return essayId;
@@ -510,10 +612,10 @@ export async function savePublicEssay(
     docRef,
     {
       title,
-      data: essayData,
+      data: toStoredEssayData(essayData),
       updatedAt: serverTimestamp(),
     },
-    { merge: true }
+    { mergeFields: ['title', 'data', 'updatedAt'] }
   );
 
   return essayId;
@@ -534,13 +636,12 @@ export async function getEssayWithPermissions(
   const { ownerUid } = indexSnap.data() as { ownerUid: string };
 
   const essayDocRef = getEssayDocRef(ownerUid, essayId);
-  const essaySnap = await getDoc(essayDocRef);
+  const essayData = readableEssayData(await getDoc(essayDocRef));
 
-  if (!essaySnap.exists()) {
+  if (!essayData) {
     return { essay: null, permission: null, ownerUid: null };
   }
 
-  const essayData = essaySnap.data();
   const normalizedDoc = normalizeEssayDocument(essayId, essayData as Record<string, unknown>, ownerUid);
 
   if (currentUserUid && currentUserUid === ownerUid) {
@@ -673,6 +774,139 @@ export function subscribeToComments(
   );
 }
 
+// =============================================================================
+// Live Essay Updates
+// =============================================================================
+
+/**
+ * Subscribe to real-time updates of an essay document. Local writes are
+ * delivered too (before the server confirms them).
+ */
+export function subscribeToEssay(
+  ownerUid: string,
+  essayId: string,
+  onChange: (essay: EssayDocument | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    getEssayDocRef(ownerUid, essayId),
+    (snapshot) => {
+      if (!snapshot.exists()) {
+        onChange(null);
+        return;
+      }
+      try {
+        onChange(normalizeEssayDocument(snapshot.id, snapshot.data() as Record<string, unknown>, ownerUid));
+      } catch (error) {
+        console.error('Error reading essay update:', error);
+        onError?.(error as Error);
+      }
+    },
+    (error) => {
+      console.error('Error subscribing to essay:', error);
+      onError?.(error);
+    }
+  );
+}
+
+// =============================================================================
+// Presence
+// =============================================================================
+
+function getPresenceCollection(ownerUid: string, essayId: string): CollectionReference {
+  return collection(db, 'users', ownerUid, 'essays', essayId, 'presence');
+}
+
+function getPresenceDocRef(ownerUid: string, essayId: string, sessionId: string): DocumentReference {
+  return doc(db, 'users', ownerUid, 'essays', essayId, 'presence', sessionId);
+}
+
+function normalizePresence(id: string, data: Record<string, unknown>): PresenceSession {
+  return {
+    id,
+    uid: data.uid as string,
+    displayName: (data.displayName as string) || 'Anonymous',
+    photoURL: (data.photoURL as string | null) ?? null,
+    mode: data.mode as PresenceMode,
+    focusedCell: (data.focusedCell as string | null) ?? null,
+    lastSeen: toDate(data.lastSeen as Timestamp | Date | undefined),
+  };
+}
+
+export async function updatePresence(ownerUid: string, essayId: string, session: PresenceUpdate): Promise<void> {
+  const { id, ...rest } = session;
+  await setDoc(getPresenceDocRef(ownerUid, essayId, id), { ...rest, lastSeen: serverTimestamp() });
+}
+
+export async function removePresence(ownerUid: string, essayId: string, sessionId: string): Promise<void> {
+  await deleteDoc(getPresenceDocRef(ownerUid, essayId, sessionId));
+}
+
+/**
+ * Subscribe to the sessions in an essay. lastSeen of a heartbeat the server
+ * has not confirmed yet is estimated from the local clock.
+ */
+export function subscribeToPresence(
+  ownerUid: string,
+  essayId: string,
+  onChange: (sessions: PresenceSession[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    getPresenceCollection(ownerUid, essayId),
+    (snapshot) => {
+      onChange(
+        snapshot.docs.map((d) =>
+          normalizePresence(d.id, d.data({ serverTimestamps: 'estimate' }) as Record<string, unknown>)
+        )
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to presence:', error);
+      onError?.(error);
+    }
+  );
+}
+
+// =============================================================================
+// Version History
+// =============================================================================
+
+export async function listVersions(userId: string, essayId: string): Promise<VersionList> {
+  const versionsRef = getVersionsCollection(userId, essayId);
+  const snapshot = await getDocs(versionsRef);
+
+  const { read, unreadable } = readAll(snapshot.docs, (d) =>
+    normalizeVersion(d.id, d.data() as Record<string, unknown>)
+  );
+
+  return {
+    versions: read.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    unreadableIds: unreadable.map(({ doc }) => doc.id),
+  };
+}
+
+export async function saveVersion(
+  userId: string,
+  essayId: string,
+  version: EssayVersion
+): Promise<EssayVersion> {
+  const versionDocRef = getVersionDocRef(userId, essayId, version.id);
+
+  await setDoc(versionDocRef, {
+    title: version.title,
+    data: toStoredEssayData(version.data),
+    authorUid: version.authorUid,
+    authorDisplayName: version.authorDisplayName,
+    createdAt: serverTimestamp(),
+    reason: version.reason,
+    restoredFromId: version.restoredFromId,
+  });
+
+  // Approximate the server timestamp with local time, as addComment does
+  return { ...version, createdAt: new Date() };
+}
+
 // =============================================================================
 // Storage Interface Implementation
 // =============================================================================
@@ -683,6 +917,9 @@ export class FirestoreEssayStorage implements EssayStorage {
   saveEssay = saveEssay;
   deleteEssay = deleteEssay;
   updateEssayTitle = updateEssayTitle;
+  listTrashedEssays = listTrashedEssays;
+  trashEssay = trashEssay;
+  restoreEssay = restoreEssay;
   getEssaySharingInfo = getEssaySharingInfo;
   shareEssay = shareEssay;
   unshareEssay = unshareEssay;
@@ -694,11 +931,17 @@ export class FirestoreEssayStorage implements EssayStorage {
   saveSharedEssay = saveSharedEssay;
   savePublicEssay = savePublicEssay;
   getEssayWithPermissions = getEssayWithPermissions;
+  subscribeToEssay = subscribeToEssay;
+  updatePresence = updatePresence;
+  removePresence = removePresence;
+  subscribeToPresence = subscribeToPresence;
   listComments = listComments;
   addComment = addComment;
   updateComment = updateComment;
   deleteComment = deleteComment;
   resolveThread = resolveThread;
+  listVersions = listVersions;
+  saveVersion = saveVersion;
 }
 
 export const firestoreStorage: EssayStorage = new FirestoreEssayStorage();
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useEssay } from './useEssay';
+import { StorageContext, type StorageContextValue } from '../contexts/StorageContext';
+import { MemoryEssayStorage } from '../storage/memory';
+import { createEssay } from '../models/essay';
+import type { Comment } from '../models/comment';
+
+const mockUser = {
+  uid: 'user-123',
+  email: 'test@example.com',
+  displayName: 'Test User',
+};
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({
+    user: mockUser,
+    loading: false,
+  })),
+}));
+
+/** Enforces the Firestore rule that comments are written by their own author */
+class RulesMemoryStorage extends MemoryEssayStorage {
+  async addComment(userId: string, essayId: string, comment: Comment): Promise<Comment> {
+    if (comment.authorUid !== mockUser.uid) {
+      throw new Error('Missing or insufficient permissions.');
+    }
+    return super.addComment(userId, essayId, comment);
+  }
+}
+
+const comment = (overrides: Partial<Comment>): Comment => ({
+  id: 'c1',
+  blockId: 'intro-thesis',
+  blockType: 'intro',
+  authorUid: 'someone-else',
+  authorEmail: 'ada@example.com',
+  authorDisplayName: 'Ada',
+  text: 'Too vague',
+  createdAt: new Date('2026-10-01T12:00:00Z'),
+  updatedAt: new Date('2026-10-01T12:00:00Z'),
+  parentCommentId: null,
+  resolved: false,
+  ...overrides,
+});
+
+describe('useEssay importEssay', () => {
+  let remote: RulesMemoryStorage;
+
+  const renderUseEssay = () => {
+    const value: StorageContextValue = {
+      storage: remote,
+      userId: mockUser.uid,
+      remoteStorage: remote,
+      deviceStorage: new MemoryEssayStorage(),
+    };
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <StorageContext.Provider value={value}>{children}</StorageContext.Provider>
+    );
+    return renderHook(() => useEssay(), { wrapper });
+  };
+
+  beforeEach(() => {
+    remote = new RulesMemoryStorage();
+  });
+
+  it("imports comments written by other accounts under the importing user's uid", async () => {
+    const { result } = renderUseEssay();
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let newId = '';
+    await act(async () => {
+      newId = await result.current.importEssay({
+        title: 'Imported',
+        essay: createEssay(),
+        comments: [
+          comment({ id: 'root' }),
+          comment({ id: 'reply', authorUid: 'another-account', authorDisplayName: 'Bo', parentCommentId: 'root' }),
+        ],
+      });
+    });
+
+    const saved = await remote.listComments(mockUser.uid, newId);
+    expect(saved.map((c) => [c.id, c.authorUid, c.authorDisplayName])).toEqual([
+      ['root', mockUser.uid, 'Ada'],
+      ['reply', mockUser.uid, 'Bo'],
+    ]);
+    expect(result.current.essays.map((e) => e.id)).toContain(newId);
+  });
+
+  it('keeps the imported essay when a comment cannot be saved', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(remote, 'addComment').mockRejectedValue(new Error('offline'));
+    const { result } = renderUseEssay();
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let newId = '';
+    await act(async () => {
+      newId = await result.current.importEssay({ title: 'Imported', essay: createEssay(), comments: [comment({})] });
+    });
+
+    expect(result.current.essays.map((e) => e.id)).toContain(newId);
+    expect(await remote.getEssay(mockUser.uid, newId)).not.toBeNull();
+    expect(consoleError).toHaveBeenCalledWith('Failed to import comment:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+});
+
+describe('useEssay trashEssay', () => {
+  let remote: MemoryEssayStorage;
+
+  const renderUseEssay = () => {
+    const value: StorageContextValue = {
+      storage: remote,
+      userId: mockUser.uid,
+      remoteStorage: remote,
+      deviceStorage: new MemoryEssayStorage(),
+    };
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <StorageContext.Provider value={value}>{children}</StorageContext.Provider>
+    );
+    return renderHook(() => useEssay(), { wrapper });
+  };
+
+  beforeEach(() => {
+    remote = new MemoryEssayStorage();
+  });
+
+  it('removes an essay that was never saved without putting it in the trash', async () => {
+    await remote.saveEssay(mockUser.uid, 'saved', createEssay(), 'Saved');
+    const { result } = renderUseEssay();
+    await waitFor(() => expect(result.current.essays.map((e) => e.id)).toEqual(['saved']));
+
+    let newId = '';
+    act(() => {
+      newId = result.current.createNewEssay();
+    });
+    await act(async () => {
+      await result.current.trashEssay(newId);
+    });
+
+    expect(result.current.essays.map((e) => e.id)).toEqual(['saved']);
+    expect(result.current.trashedEssays).toEqual([]);
+  });
+
+  it('rejects when the essay cannot be moved to the trash', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await remote.saveEssay(mockUser.uid, 'saved', createEssay(), 'Saved');
+    vi.spyOn(remote, 'trashEssay').mockRejectedValue(new Error('offline'));
+    const { result } = renderUseEssay();
+    await waitFor(() => expect(result.current.essays.map((e) => e.id)).toEqual(['saved']));
+
+    await act(async () => {
+      await expect(result.current.trashEssay('saved')).rejects.toThrow('offline');
+    });
+
+    expect(result.current.essays.map((e) => e.id)).toEqual(['saved']);
+    consoleError.mockRestore();
+  });
+});
@@ -1,57 +1,55 @@
 import { useState, useEffect, useCallback, useRef, MutableRefObject } from 'react';
 import { useDebouncedCallback } from 'use-debounce';
 import { useAuth } from './useAuth';
+import { useStorage } from './useStorage';
 import { useEssayUpdates, EssayUpdateFunctions } from './useEssayUpdates';
+import { useEssaySync, type UseEssaySyncReturn } from './useEssaySync';
 import { Essay, Claim, createEssay, generateId, getClaimById as modelGetClaimById } from '../models/essay';
+import { readEssayData } from '../models/schema';
+import { isSameEssay } from '../models/merge';
+import { createEssayFromTemplate, getTemplate, type TemplateId } from '../models/template';
+import { isTrashExpired } from '../models/trash';
 import { serializeEssay } from '../utils/essayEquals';
+import { LOCAL_USER_ID } from '../contexts/StorageContext';
+import type { EssayStorage } from '../storage/interface';
+import { assignCommentsTo, type ImportedEssay } from '../export/bundle';
+import type { ArchivedEssay } from '../export/archive';
 import type {
   EssayDocument,
+  TrashedEssayDocument,
+  UnreadableEssay,
   SharedEssayRef,
   SharingInfo,
   Collaborator,
   Permission,
 } from '../models/document';
-import {
-  listEssays,
-  getEssay,
-  saveEssay as saveEssayToFirestore,
-  deleteEssay as deleteEssayFromFirestore,
-  updateEssayTitle,
-  getEssaySharingInfo,
-  saveSharingSettings,
-  listSharedWithMe,
-  getSharedEssay,
-  saveSharedEssay as saveSharedEssayToFirestore,
-} from '../firebase/firestore';
-
-const STORAGE_KEY = 'essay-helper-data';
-
-function loadLocalEssay(): Essay | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored) as Essay;
-    }
-  } catch (e) {
-    console.error('Failed to load essay from localStorage:', e);
-  }
-  return null;
-}
 
-function saveLocalEssay(essay: Essay): void {
+// Signed-out essays used to live in a single localStorage blob
+const LEGACY_STORAGE_KEY = 'essay-helper-data';
+
+/**
+ * Move an essay left in the legacy localStorage blob into device storage
+ */
+async function importLegacyLocalEssay(deviceStorage: EssayStorage): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(essay));
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    await deviceStorage.saveEssay(LOCAL_USER_ID, generateId(), readEssayData(JSON.parse(stored)), 'Untitled Essay');
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   } catch (e) {
-    console.error('Failed to save essay to localStorage:', e);
+    console.error('Failed to import essay from localStorage:', e);
   }
 }
 
-function clearLocalEssay(): void {
-  try {
-    localStorage.removeItem(STORAGE_KEY);
-  } catch (e) {
-    console.error('Failed to clear localStorage:', e);
-  }
+function hasLocalContent(essay: Essay | undefined): boolean {
+  return !!(
+    essay &&
+    (essay.intro?.hook ||
+      essay.intro?.background ||
+      essay.intro?.thesis ||
+      essay.intro?.paragraph ||
+      essay.conclusion?.paragraph)
+  );
 }
 
 interface SaveSharingParams {
@@ -60,9 +58,15 @@ interface SaveSharingParams {
   publicPermission: 'viewer' | 'editor';
 }
 
-export interface UseEssayReturn extends EssayUpdateFunctions {
+export interface UseEssayReturn
+  extends EssayUpdateFunctions,
+    Pick<UseEssaySyncReturn, 'conflicts' | 'resolveConflict'> {
   essay: Essay;
   essays: EssayDocument[];
+  /** Essays in the trash, most recently trashed first */
+  trashedEssays: TrashedEssayDocument[];
+  /** The user's essays whose stored data could not be read */
+  unreadableEssays: UnreadableEssay[];
   currentEssayId: string | null;
   loading: boolean;
   showMigrationPrompt: boolean;
@@ -73,7 +77,15 @@ export interface UseEssayReturn extends EssayUpdateFunctions {
   getClaimById: (claimId: string) => Claim | undefined;
   resetEssay: () => void;
   selectEssay: (essayId: string) => Promise<void>;
-  createNewEssay: () => string;
+  createNewEssay: (templateId?: TemplateId) => string;
+  /** Save an imported essay (and its comments, when signed in) as a new essay; returns its id */
+  importEssay: (imported: ImportedEssay) => Promise<string>;
+  /** Every essay the user owns as last saved, with its comments, for an account export */
+  loadArchivedEssays: () => Promise<ArchivedEssay[]>;
+  /** Move an essay to the trash, where it can be restored until it is purged */
+  trashEssay: (essayId: string) => Promise<void>;
+  restoreEssay: (essayId: string) => Promise<void>;
+  /** Delete a trashed essay for good */
   deleteEssay: (essayId: string) => Promise<void>;
   renameEssay: (essayId: string, newTitle: string) => Promise<void>;
   handleMigrate: () => Promise<void>;
@@ -89,8 +101,11 @@ export interface UseEssayReturn extends EssayUpdateFunctions {
 
 export function useEssay(): UseEssayReturn {
   const { user, loading: authLoading } = useAuth();
+  const { storage, userId, remoteStorage, deviceStorage } = useStorage();
   const [essay, setEssay] = useState<Essay>(createEssay);
   const [essays, setEssays] = useState<EssayDocument[]>([]);
+  const [trashedEssays, setTrashedEssays] = useState<TrashedEssayDocument[]>([]);
+  const [unreadableEssays, setUnreadableEssays] = useState<UnreadableEssay[]>([]);
   const [currentEssayId, setCurrentEssayId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showMigrationPrompt, setShowMigrationPrompt] = useState(false);
@@ -104,7 +119,7 @@ export function useEssay(): UseEssayReturn {
   const [sharedEssayPermission, setSharedEssayPermission] = useState<Permission | null>(null);
 
   const autoSaveIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const localEssayRef = useRef<Essay | null>(null);
+  const localEssaysRef = useRef<EssayDocument[]>([]);
   const lastSavedEssayRef = useRef<string | null>(null);
   const essayRef: MutableRefObject<Essay> = useRef(essay);
   const essaysRef: MutableRefObject<EssayDocument[]> = useRef(essays);
@@ -117,57 +132,81 @@ export function useEssay(): UseEssayReturn {
     essaysRef.current = essays;
   }, [essays]);
 
+  const {
+    updateIntro,
+    addClaim,
+    updateClaim,
+    removeClaim,
+    updateBodyParagraph,
+    addProofBlock,
+    updateProofBlock,
+    removeProofBlock,
+    moveClaim,
+    moveBodyParagraph,
+    moveProofBlock,
+    addCounterargument,
+    removeCounterargument,
+    updateCounterargument,
+    updateConclusion,
+    replaceEssay,
+    repairEssay,
+    updateWordLimits,
+    addSource,
+    updateSource,
+    removeSource,
+    setProofBlockSource,
+    setCitationStyle,
+    undo,
+    redo,
+  } = useEssayUpdates(setEssay);
+
   useEffect(() => {
     if (authLoading) return;
 
     const loadData = async () => {
       setLoading(true);
 
-      if (user) {
-        try {
-          const userEssays = await listEssays(user.uid);
-          setEssays(userEssays);
-
-          const localData = loadLocalEssay();
-          const hasLocalContent =
-            localData &&
-            (localData.intro?.hook ||
-              localData.intro?.background ||
-              localData.intro?.thesis ||
-              localData.intro?.paragraph ||
-              localData.conclusion?.paragraph);
-
-          if (hasLocalContent && userEssays.length === 0) {
-            localEssayRef.current = localData;
-            setShowMigrationPrompt(true);
-            setEssay(localData);
-            lastSavedEssayRef.current = serializeEssay(localData);
-            setLastSavedAt(new Date());
-          } else if (userEssays.length > 0) {
-            const firstEssay = userEssays[0];
-            setCurrentEssayId(firstEssay.id);
-            const essayData = firstEssay.data || createEssay();
-            setEssay(essayData);
-            lastSavedEssayRef.current = serializeEssay(essayData);
-            setLastSavedAt(firstEssay.updatedAt);
-          } else {
-            const newId = generateId();
-            setCurrentEssayId(newId);
-            const newEssay = createEssay();
-            setEssay(newEssay);
-            lastSavedEssayRef.current = serializeEssay(newEssay);
-            setLastSavedAt(null);
-          }
-        } catch (error) {
-          console.error('Failed to load essays:', error);
-          setEssay(loadLocalEssay() || createEssay());
+      try {
+        await importLegacyLocalEssay(deviceStorage);
+
+        const { essays: userEssays, unreadable } = await storage.listEssays(userId);
+        setEssays(userEssays);
+        setUnreadableEssays(unreadable);
+
+        const localEssays = user
+          ? (await deviceStorage.listEssays(LOCAL_USER_ID)).essays.filter((e) => hasLocalContent(e.data))
+          : [];
+
+        if (localEssays.length > 0 && userEssays.length === 0) {
+          localEssaysRef.current = localEssays;
+          setShowMigrationPrompt(true);
+          setCurrentEssayId(null);
+          setEssay(localEssays[0].data);
+          lastSavedEssayRef.current = serializeEssay(localEssays[0].data);
+          setLastSavedAt(localEssays[0].updatedAt);
+        } else if (userEssays.length > 0) {
+          const firstEssay = userEssays[0];
+          setCurrentEssayId(firstEssay.id);
+          const essayData = firstEssay.data || createEssay();
+          setEssay(essayData);
+          lastSavedEssayRef.current = serializeEssay(essayData);
+          setLastSavedAt(firstEssay.updatedAt);
+        } else {
+          const newId = generateId();
+          setCurrentEssayId(newId);
+          const newEssay = createEssay();
+          setEssay(newEssay);
+          lastSavedEssayRef.current = serializeEssay(newEssay);
+          setLastSavedAt(null);
         }
-      } else {
+      } catch (error) {
+        console.error('Failed to load essays:', error);
         setEssays([]);
-        setCurrentEssayId(null);
-        const localData = loadLocalEssay() || createEssay();
-        setEssay(localData);
-        lastSavedEssayRef.current = serializeEssay(localData);
+        setUnreadableEssays([]);
+        setCurrentEssayId(generateId());
+        const newEssay = createEssay();
+        setEssay(newEssay);
+        lastSavedEssayRef.current = serializeEssay(newEssay);
       }
 
       setHasUnsavedChanges(false);
@@ -175,7 +214,7 @@ export function useEssay(): UseEssayReturn {
     };
 
     loadData();
-  }, [user, authLoading]);
+  }, [user, authLoading, storage, userId, deviceStorage]);
 
   useEffect(() => {
     if (authLoading) return;
@@ -188,7 +227,7 @@ export function useEssay(): UseEssayReturn {
     const loadSharedEssays = async () => {
       try {
         if (user.email) {
-          const shared = await listSharedWithMe(user.email);
+          const shared = await remoteStorage.listSharedWithMe(user.email);
           if (!cancelled) setSharedEssays(shared);
         }
       } catch (error) {
@@ -200,7 +239,44 @@ export function useEssay(): UseEssayReturn {
     return () => {
       cancelled = true;
     };
-  }, [user, authLoading]);
+  }, [user, authLoading, remoteStorage]);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    let cancelled = false;
+    // The purgeExpiredTrash Cloud Function purges expired essays daily. Purging
+    // here as well covers essays kept only on this device, and any the
+    // function has not reached yet.
+    const loadTrash = async () => {
+      try {
+        const trashed = await storage.listTrashedEssays(userId);
+        const now = new Date();
+        const kept: TrashedEssayDocument[] = [];
+        for (const trashedEssay of trashed) {
+          if (!isTrashExpired(trashedEssay.trashedAt, now)) {
+            kept.push(trashedEssay);
+            continue;
+          }
+          try {
+            await storage.deleteEssay(userId, trashedEssay.id);
+          } catch (error) {
+            console.error('Failed to purge essay from the trash:', error);
+            kept.push(trashedEssay);
+          }
+        }
+        if (!cancelled) setTrashedEssays(kept);
+      } catch (error) {
+        console.error('Failed to load the trash:', error);
+      }
+    };
+
+    loadTrash();
+    return () => {
+      cancelled = true;
+      setTrashedEssays([]);
+    };
+  }, [authLoading, storage, userId]);
 
   const markSaveComplete = useCallback((essayJson: string, timestamp: Date) => {
     lastSavedEssayRef.current = essayJson;
@@ -209,6 +285,28 @@ export function useEssay(): UseEssayReturn {
     setSaveError(null);
   }, []);
 
+  const getSyncedEssay = useCallback(
+    () => (lastSavedEssayRef.current ? (JSON.parse(lastSavedEssayRef.current) as Essay) : null),
+    []
+  );
+
+  const applyRemoteChange = useCallback((merged: Essay, remote: Essay) => {
+    setEssay(merged);
+    // Stored copies may order keys differently; only a real difference needs saving
+    lastSavedEssayRef.current = serializeEssay(isSameEssay(merged, remote) ? merged : remote);
+  }, []);
+
+  const { conflicts, resolveConflict, markSaving } = useEssaySync({
+    storage: isSharedEssay ? remoteStorage : storage,
+    ownerUid: isSharedEssay ? sharedEssayOwnerUid : userId,
+    essayId: currentEssayId,
+    enabled: !loading && !authLoading,
+    essay,
+    getSyncedEssay,
+    onRemoteChange: applyRemoteChange,
+    replaceEssay,
+  });
+
   const performSave = useCallback(async () => {
     if (loading || authLoading) return;
 
@@ -217,51 +315,67 @@ export function useEssay(): UseEssayReturn {
 
     if (currentEssayJson === lastSavedEssayRef.current) return;
 
+    if (!currentEssayId) return;
+
     const now = new Date();
+    const existingEssay = essaysRef.current.find((e) => e.id === currentEssayId);
+    const title = existingEssay?.title || 'Untitled Essay';
 
-    if (user && currentEssayId) {
-      try {
-        if (isSharedEssay && sharedEssayOwnerUid && sharedEssayPermission === 'editor') {
-          const sharedInfo = sharedEssays.find(
-            (e) => e.essayId === currentEssayId && e.ownerUid === sharedEssayOwnerUid
-          );
-          const title = sharedInfo?.title || 'Untitled Essay';
-          await saveSharedEssayToFirestore(sharedEssayOwnerUid, currentEssayId, currentEssay, title);
-        } else {
-          const existingEssay = essaysRef.current.find((e) => e.id === currentEssayId);
-          const title = existingEssay?.title || 'Untitled Essay';
-          await saveEssayToFirestore(user.uid, currentEssayId, currentEssay, title);
-
-          setEssays((prev) => {
-            const exists = prev.some((e) => e.id === currentEssayId);
-            if (exists) {
-              return prev.map((e) =>
-                e.id === currentEssayId ? { ...e, data: currentEssay, updatedAt: now } : e
-              );
-            }
-            return [
-              { id: currentEssayId, title, data: currentEssay, updatedAt: now } as EssayDocument,
-              ...prev,
-            ];
-          });
-        }
+    try {
+      markSaving(currentEssay);
+      if (isSharedEssay && sharedEssayOwnerUid && sharedEssayPermission === 'editor') {
+        const sharedInfo = sharedEssays.find(
+          (e) => e.essayId === currentEssayId && e.ownerUid === sharedEssayOwnerUid
+        );
+        await remoteStorage.saveSharedEssay(
+          sharedEssayOwnerUid,
+          currentEssayId,
+          currentEssay,
+          sharedInfo?.title || 'Untitled Essay'
+        );
+      } else {
+        await storage.saveEssay(userId, currentEssayId, currentEssay, title);
+
+        setEssays((prev) => {
+          const exists = prev.some((e) => e.id === currentEssayId);
+          if (exists) {
+            return prev.map((e) =>
+              e.id === currentEssayId ? { ...e, data: currentEssay, updatedAt: now } : e
+            );
+          }
+          return [
+            { id: currentEssayId, title, data: currentEssay, updatedAt: now } as EssayDocument,
+            ...prev,
+          ];
+        });
+      }
 
-        markSaveComplete(currentEssayJson, now);
-      } catch {
-        saveLocalEssay(currentEssay);
+      markSaveComplete(currentEssayJson, now);
+    } catch (error) {
+      console.error('Failed to save essay:', error);
+      if (!user) {
+        setSaveError('Could not save your changes on this device.');
+        return;
+      }
+      try {
+        await deviceStorage.saveEssay(LOCAL_USER_ID, currentEssayId, currentEssay, title);
         markSaveComplete(currentEssayJson, now);
         setSaveError('Could not save to cloud. Your changes are saved locally.');
+      } catch {
+        setSaveError('Could not save your changes.');
       }
-    } else if (!user) {
-      saveLocalEssay(currentEssay);
-      markSaveComplete(currentEssayJson, now);
     }
   }, [
     user,
+    userId,
+    storage,
+    remoteStorage,
+    deviceStorage,
     currentEssayId,
     loading,
     authLoading,
     markSaveComplete,
+    markSaving,
     isSharedEssay,
     sharedEssayOwnerUid,
     sharedEssayPermission,
@@ -311,44 +425,49 @@ export function useEssay(): UseEssayReturn {
   }, [hasUnsavedChanges]);
 
   const handleMigrate = useCallback(async () => {
-    if (!user || !localEssayRef.current) return;
+    if (!user || localEssaysRef.current.length === 0) return;
 
-    const newId = generateId();
-    setCurrentEssayId(newId);
-    setEssay(localEssayRef.current);
+    const localEssays = localEssaysRef.current;
+    const migrated: EssayDocument[] = [];
 
     try {
-      await saveEssayToFirestore(user.uid, newId, localEssayRef.current, 'Migrated Essay');
-      setEssays([
-        {
-          id: newId,
-          title: 'Migrated Essay',
-          data: localEssayRef.current,
-          updatedAt: new Date(),
-        } as EssayDocument,
-      ]);
-      clearLocalEssay();
+      for (const local of localEssays) {
+        const newId = generateId();
+        const title = local.title || 'Migrated Essay';
+        await storage.saveEssay(user.uid, newId, local.data, title);
+        await deviceStorage.deleteEssay(LOCAL_USER_ID, local.id);
+        migrated.push({ id: newId, title, data: local.data, updatedAt: new Date() });
+      }
     } catch (error) {
       console.error('Failed to migrate essay:', error);
     }
 
+    if (migrated.length > 0) {
+      setEssays(migrated);
+      setCurrentEssayId(migrated[0].id);
+      setEssay(migrated[0].data);
+      lastSavedEssayRef.current = serializeEssay(migrated[0].data);
+    }
+
     setShowMigrationPrompt(false);
-    localEssayRef.current = null;
-  }, [user]);
+    localEssaysRef.current = [];
+  }, [user, storage, deviceStorage]);
 
   const handleSkipMigration = useCallback(() => {
     const newId = generateId();
     setCurrentEssayId(newId);
     setEssay(createEssay());
     setShowMigrationPrompt(false);
-    localEssayRef.current = null;
-    clearLocalEssay();
-  }, []);
+
+    const localEssays = localEssaysRef.current;
+    localEssaysRef.current = [];
+    Promise.all(localEssays.map((e) => deviceStorage.deleteEssay(LOCAL_USER_ID, e.id))).catch((error) =>
+      console.error('Failed to clear local essays:', error)
+    );
+  }, [deviceStorage]);
 
   const selectEssay = useCallback(
     async (essayId: string) => {
-      if (!user) return;
-
       if (essayId === currentEssayId && !isSharedEssay) return;
 
       setLoading(true);
@@ -358,7 +477,7 @@ export function useEssay(): UseEssayReturn {
       setSharingInfo(null);
 
       try {
-        const essayData = await getEssay(user.uid, essayId);
+        const essayData = await storage.getEssay(userId, essayId);
         if (essayData) {
           setCurrentEssayId(essayId);
           const loadedData = essayData.data || createEssay();
@@ -383,7 +502,7 @@ export function useEssay(): UseEssayReturn {
       setHasUnsavedChanges(false);
       setLoading(false);
     },
-    [user, currentEssayId, isSharedEssay]
+    [storage, userId, currentEssayId, isSharedEssay]
   );
 
   const selectSharedEssay = useCallback(
@@ -392,7 +511,7 @@ export function useEssay(): UseEssayReturn {
 
       setLoading(true);
       try {
-        const essayData = await getSharedEssay(ownerUid, essayId);
+        const essayData = await remoteStorage.getSharedEssay(ownerUid, essayId);
         if (essayData) {
           setCurrentEssayId(essayId);
           const loadedData = essayData.data || createEssay();
@@ -409,7 +528,7 @@ export function useEssay(): UseEssayReturn {
       setHasUnsavedChanges(false);
       setLoading(false);
     },
-    [user]
+    [user, remoteStorage]
   );
 
   const loadSharingInfo = useCallback(async () => {
@@ -419,13 +538,13 @@ export function useEssay(): UseEssayReturn {
     }
 
     try {
-      const info = await getEssaySharingInfo(user.uid, currentEssayId);
+      const info = await storage.getEssaySharingInfo(user.uid, currentEssayId);
       setSharingInfo(info);
     } catch (error) {
       console.error('Failed to load sharing info:', error);
       setSharingInfo(null);
     }
-  }, [user, currentEssayId, isSharedEssay]);
+  }, [user, storage, currentEssayId, isSharedEssay]);
 
   const saveSharing = useCallback(
     async ({ collaborators, isPublic, publicPermission }: SaveSharingParams) => {
@@ -436,9 +555,10 @@ export function useEssay(): UseEssayReturn {
         const title = currentEssayData?.title || 'Untitled Essay';
 
         const currentEssay = essayRef.current;
-        await saveEssayToFirestore(user.uid, currentEssayId, currentEssay, title);
+        markSaving(currentEssay);
+        await storage.saveEssay(user.uid, currentEssayId, currentEssay, title);
 
-        const publicToken = await saveSharingSettings(
+        const publicToken = await storage.saveSharingSettings(
           user.uid,
           currentEssayId,
           collaborators,
@@ -463,12 +583,12 @@ export function useEssay(): UseEssayReturn {
         throw error;
       }
     },
-    [user, currentEssayId, isSharedEssay, essays, markSaveComplete]
+    [user, storage, currentEssayId, isSharedEssay, essays, markSaveComplete, markSaving]
   );
 
-  const createNewEssay = useCallback((): string => {
+  const createNewEssay = useCallback((templateId?: TemplateId): string => {
     const newId = generateId();
-    const newEssay = createEssay();
+    const newEssay = templateId ? createEssayFromTemplate(getTemplate(templateId)) : createEssay();
     setCurrentEssayId(newId);
     setEssay(newEssay);
     lastSavedEssayRef.current = serializeEssay(newEssay);
@@ -484,13 +604,50 @@ export function useEssay(): UseEssayReturn {
     return newId;
   }, []);
 
-  const deleteEssay = useCallback(
-    async (essayId: string) => {
-      if (!user) return;
+  const importEssay = useCallback(
+    async ({ title, essay: importedEssay, comments }: ImportedEssay): Promise<string> => {
+      const newId = generateId();
+      await storage.saveEssay(userId, newId, importedEssay, title);
+      setEssays((prev) => [
+        { id: newId, title, data: importedEssay, updatedAt: new Date() } as EssayDocument,
+        ...prev,
+      ]);
+      // Comments only sync for signed-in users. The essay is saved by now, so
+      // a comment that fails is logged rather than failing the import.
+      if (user) {
+        for (const comment of assignCommentsTo(comments, user.uid)) {
+          try {
+            await storage.addComment(userId, newId, comment);
+          } catch (error) {
+            console.error('Failed to import comment:', error);
+          }
+        }
+      }
+      return newId;
+    },
+    [storage, userId, user]
+  );
 
+  const loadArchivedEssays = useCallback(async (): Promise<ArchivedEssay[]> => {
+    const { essays: documents } = await storage.listEssays(userId);
+    return Promise.all(
+      documents.map(async (document) => ({
+        document,
+        comments: user ? await storage.listComments(userId, document.id) : [],
+      }))
+    );
+  }, [storage, userId, user]);
+
+  const trashEssay = useCallback(
+    async (essayId: string) => {
       try {
-        await deleteEssayFromFirestore(user.uid, essayId);
+        // An essay that was never saved has nothing to trash; its card just goes
+        const trashed = await storage.trashEssay(userId, essayId);
+        const entry = essays.find((e) => e.id === essayId);
         setEssays((prev) => prev.filter((e) => e.id !== essayId));
+        if (trashed && entry) {
+          setTrashedEssays((prev) => [{ ...entry, trashedAt: new Date() }, ...prev]);
+        }
 
         if (essayId === currentEssayId) {
           const remaining = essays.filter((e) => e.id !== essayId);
@@ -500,41 +657,60 @@ export function useEssay(): UseEssayReturn {
             createNewEssay();
           }
         }
+      } catch (error) {
+        console.error('Failed to move essay to the trash:', error);
+        throw error;
+      }
+    },
+    [storage, userId, currentEssayId, essays, selectEssay, createNewEssay]
+  );
+
+  const restoreEssay = useCallback(
+    async (essayId: string) => {
+      try {
+        await storage.restoreEssay(userId, essayId);
+        const restored = trashedEssays.find((e) => e.id === essayId);
+        setTrashedEssays((prev) => prev.filter((e) => e.id !== essayId));
+        if (restored) {
+          const { trashedAt: _trashedAt, ...essayDocument } = restored;
+          setEssays((prev) =>
+            [...prev, essayDocument].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+          );
+        }
+      } catch (error) {
+        console.error('Failed to restore essay:', error);
+      }
+    },
+    [storage, userId, trashedEssays]
+  );
+
+  const deleteEssay = useCallback(
+    async (essayId: string) => {
+      try {
+        await storage.deleteEssay(userId, essayId);
+        setTrashedEssays((prev) => prev.filter((e) => e.id !== essayId));
       } catch (error) {
         console.error('Failed to delete essay:', error);
       }
     },
-    [user, currentEssayId, essays, selectEssay, createNewEssay]
+    [storage, userId]
   );
 
   const renameEssay = useCallback(
     async (essayId: string, newTitle: string) => {
-      if (!user) return;
-
       setEssays((prev) =>
         prev.map((e) => (e.id === essayId ? { ...e, title: newTitle, updatedAt: new Date() } : e))
       );
 
       try {
-        await updateEssayTitle(user.uid, essayId, newTitle);
+        await storage.updateEssayTitle(userId, essayId, newTitle);
       } catch (error) {
         console.error('Failed to rename essay:', error);
       }
     },
-    [user]
+    [storage, userId]
   );
 
-  const {
-    updateIntro,
-    addClaim,
-    updateClaim,
-    removeClaim,
-    updateBodyParagraph,
-    addProofBlock,
-    updateProofBlock,
-    removeProofBlock,
-    updateConclusion,
-  } = useEssayUpdates(setEssay);
 
   const getClaimById = useCallback(
     (claimId: string) => modelGetClaimById(essay, claimId),
@@ -542,22 +718,16 @@ export function useEssay(): UseEssayReturn {
   );
 
   const resetEssay = useCallback(() => {
-    if (user) {
-      createNewEssay();
-    } else {
-      const newEssay = createEssay();
-      setEssay(newEssay);
-      saveLocalEssay(newEssay);
-      lastSavedEssayRef.current = serializeEssay(newEssay);
-      setHasUnsavedChanges(false);
-    }
-  }, [user, createNewEssay]);
+    createNewEssay();
+  }, [createNewEssay]);
 
   const dismissSaveError = useCallback(() => setSaveError(null), []);
 
   return {
     essay,
     essays,
+    trashedEssays,
+    unreadableEssays,
     currentEssayId,
     loading: loading || authLoading,
     showMigrationPrompt,
@@ -573,11 +743,33 @@ export function useEssay(): UseEssayReturn {
     addProofBlock,
     updateProofBlock,
     removeProofBlock,
+    moveClaim,
+    moveBodyParagraph,
+    moveProofBlock,
+    addCounterargument,
+    removeCounterargument,
+    updateCounterargument,
     updateConclusion,
+    replaceEssay,
+    repairEssay,
+    updateWordLimits,
+    addSource,
+    updateSource,
+    removeSource,
+    setProofBlockSource,
+    setCitationStyle,
+    undo,
+    redo,
+    conflicts,
+    resolveConflict,
     getClaimById,
     resetEssay,
     selectEssay,
     createNewEssay,
+    importEssay,
+    loadArchivedEssays,
+    trashEssay,
+    restoreEssay,
     deleteEssay,
     renameEssay,
     handleMigrate,
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useState } from 'react';
+import { useEssaySync } from './useEssaySync';
+import { useEssayUpdates } from './useEssayUpdates';
+import { MemoryEssayStorage } from '../storage/memory';
+import { createEssay, updateIntro, type Essay } from '../models/essay';
+
+const OWNER = 'owner-1';
+const ESSAY_ID = 'essay-1';
+
+function renderEssaySync(storage: MemoryEssayStorage, initial: Essay) {
+  const onRemoteChange = vi.fn();
+  const hook = renderHook(() => {
+    const [essay, setEssay] = useState(initial);
+    const { updateIntro: update, replaceEssay } = useEssayUpdates(setEssay);
+    const sync = useEssaySync({
+      storage,
+      ownerUid: OWNER,
+      essayId: ESSAY_ID,
+      enabled: true,
+      essay,
+      getSyncedEssay: () => initial,
+      onRemoteChange: (merged, remote) => {
+        onRemoteChange(merged, remote);
+        setEssay(merged);
+      },
+      replaceEssay,
+    });
+    return { essay, updateIntro: update, ...sync };
+  });
+  return { ...hook, onRemoteChange };
+}
+
+describe('useEssaySync', () => {
+  let storage: MemoryEssayStorage;
+  let initial: Essay;
+
+  beforeEach(async () => {
+    storage = new MemoryEssayStorage();
+    initial = updateIntro(createEssay(), 'thesis', 'Original thesis');
+    await storage.saveEssay(OWNER, ESSAY_ID, initial, 'Essay');
+  });
+
+  it('merges a remote edit into local edits to other fields', async () => {
+    const { result } = renderEssaySync(storage, initial);
+
+    act(() => result.current.updateIntro('hook', 'Local hook'));
+    await act(() => storage.saveEssay(OWNER, ESSAY_ID, updateIntro(initial, 'thesis', 'Remote thesis'), 'Essay'));
+
+    await waitFor(() => expect(result.current.essay.intro.thesis).toBe('Remote thesis'));
+    expect(result.current.essay.intro.hook).toBe('Local hook');
+    expect(result.current.conflicts).toEqual([]);
+  });
+
+  it('ignores its own saves coming back', async () => {
+    const { result, onRemoteChange } = renderEssaySync(storage, initial);
+
+    act(() => result.current.updateIntro('hook', 'Local hook'));
+    const saving = result.current.essay;
+    result.current.markSaving(saving);
+    await act(() => storage.saveEssay(OWNER, ESSAY_ID, saving, 'Essay'));
+
+    expect(onRemoteChange).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict and keeps the local value until resolved', async () => {
+    const { result } = renderEssaySync(storage, initial);
+
+    act(() => result.current.updateIntro('thesis', 'Local thesis'));
+    await act(() => storage.saveEssay(OWNER, ESSAY_ID, updateIntro(initial, 'thesis', 'Remote thesis'), 'Essay'));
+
+    await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+    expect(result.current.conflicts[0]).toMatchObject({ key: 'intro.thesis', local: 'Local thesis', remote: 'Remote thesis' });
+    expect(result.current.essay.intro.thesis).toBe('Local thesis');
+
+    act(() => result.current.resolveConflict('intro.thesis', 'remote'));
+
+    expect(result.current.essay.intro.thesis).toBe('Remote thesis');
+    expect(result.current.conflicts).toEqual([]);
+  });
+
+  it('keeps the local value when the conflict is resolved that way', async () => {
+    const { result } = renderEssaySync(storage, initial);
+
+    act(() => result.current.updateIntro('thesis', 'Local thesis'));
+    await act(() => storage.saveEssay(OWNER, ESSAY_ID, updateIntro(initial, 'thesis', 'Remote thesis'), 'Essay'));
+    await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+
+    act(() => result.current.resolveConflict('intro.thesis', 'local'));
+
+    expect(result.current.essay.intro.thesis).toBe('Local thesis');
+    expect(result.current.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Essay } from '../models/essay';
+import { mergeEssays, setEssayField, isSameEssay, type FieldConflict } from '../models/merge';
+import type { EssayStorage } from '../storage/interface';
+
+export interface UseEssaySyncReturn {
+  /**
+   * Fields edited both here and by someone else; the local value is kept
+   * until the conflict is resolved
+   */
+  conflicts: FieldConflict[];
+
+  /**
+   * Keep the local value of a conflicting field, or replace it with the
+   * remote one
+   */
+  resolveConflict: (key: string, choice: 'local' | 'remote') => void;
+
+  /**
+   * Call right before writing the essay, so the write coming back through
+   * the subscription is not mistaken for someone else's edit
+   */
+  markSaving: (essay: Essay) => void;
+}
+
+interface UseEssaySyncParams {
+  storage: EssayStorage;
+  ownerUid: string | null;
+  essayId: string | null;
+  enabled: boolean;
+  essay: Essay;
+  /**
+   * The copy of the essay last loaded from or saved to storage
+   */
+  getSyncedEssay: () => Essay | null;
+  /**
+   * Apply a merge of remote changes. `remote` is what storage now holds; if it
+   * equals `merged` there is nothing left to save.
+   */
+  onRemoteChange: (merged: Essay, remote: Essay) => void;
+  replaceEssay: (essay: Essay) => void;
+}
+
+/**
+ * Keep an open essay in step with edits made elsewhere.
+ *
+ * Every remote change is merged field by field with local edits made since the
+ * last copy both sides agreed on (see models/merge). Merges replace the essay
+ * from outside, so the local undo history starts over after each one.
+ */
+export function useEssaySync({
+  storage,
+  ownerUid,
+  essayId,
+  enabled,
+  essay,
+  getSyncedEssay,
+  onRemoteChange,
+  replaceEssay,
+}: UseEssaySyncParams): UseEssaySyncReturn {
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+
+  const essayRef = useRef(essay);
+  useEffect(() => {
+    essayRef.current = essay;
+  }, [essay]);
+
+  // Latest callbacks, so a new render does not resubscribe
+  const callbacksRef = useRef({ getSyncedEssay, onRemoteChange });
+  useEffect(() => {
+    callbacksRef.current = { getSyncedEssay, onRemoteChange };
+  }, [getSyncedEssay, onRemoteChange]);
+
+  // Last copy both sides agreed on, and our writes that have not come back yet
+  const baseRef = useRef<Essay | null>(null);
+  const pendingRef = useRef<Essay[]>([]);
+
+  useEffect(() => {
+    setConflicts([]);
+    pendingRef.current = [];
+    if (!enabled || !ownerUid || !essayId) return;
+
+    baseRef.current = callbacksRef.current.getSyncedEssay();
+
+    return storage.subscribeToEssay(
+      ownerUid,
+      essayId,
+      (doc) => {
+        if (!doc) return;
+        const remote = doc.data;
+
+        const echoIndex = pendingRef.current.findIndex((pending) => isSameEssay(pending, remote));
+        if (echoIndex >= 0) {
+          pendingRef.current = pendingRef.current.slice(echoIndex + 1);
+          baseRef.current = remote;
+          return;
+        }
+
+        const base = baseRef.current ?? remote;
+        baseRef.current = remote;
+        if (isSameEssay(base, remote)) return;
+
+        const result = mergeEssays(base, essayRef.current, remote);
+        essayRef.current = result.essay;
+        callbacksRef.current.onRemoteChange(result.essay, remote);
+
+        if (result.conflicts.length > 0) {
+          setConflicts((prev) => {
+            const byKey = new Map(prev.map((c) => [c.key, c]));
+            result.conflicts.forEach((c) => byKey.set(c.key, c));
+            return [...byKey.values()];
+          });
+        }
+      },
+      (error) => console.error('Error syncing essay:', error)
+    );
+  }, [storage, ownerUid, essayId, enabled]);
+
+  const resolveConflict = useCallback(
+    (key: string, choice: 'local' | 'remote') => {
+      const conflict = conflicts.find((c) => c.key === key);
+      if (!conflict) return;
+      if (choice === 'remote') {
+        replaceEssay(setEssayField(essayRef.current, key, conflict.remote));
+      }
+      setConflicts((prev) => prev.filter((c) => c.key !== key));
+    },
+    [conflicts, replaceEssay]
+  );
+
+  const markSaving = useCallback((saving: Essay) => {
+    pendingRef.current = [...pendingRef.current, saving];
+  }, []);
+
+  return { conflicts, resolveConflict, markSaving };
+}
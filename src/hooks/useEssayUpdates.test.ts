@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useState } from 'react';
+import { useEssayUpdates } from './useEssayUpdates';
+import { addClaim, createEssay, type Essay } from '../models/essay';
+import { COALESCE_WINDOW_MS } from '../models/history';
+
+function renderEssayUpdates(initial: Essay = createEssay(), onUpdate?: (essay: Essay) => void) {
+  return renderHook(() => {
+    const [essay, setEssay] = useState(initial);
+    const updates = useEssayUpdates(setEssay, onUpdate);
+    return { essay, setEssay, ...updates };
+  });
+}
+
+describe('useEssayUpdates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies updates and notifies onUpdate', () => {
+    const onUpdate = vi.fn();
+    const { result } = renderEssayUpdates(createEssay(), onUpdate);
+
+    act(() => result.current.updateIntro('hook', 'Hello'));
+
+    expect(result.current.essay.intro.hook).toBe('Hello');
+    expect(onUpdate).toHaveBeenCalledWith(result.current.essay);
+  });
+
+  describe('undo/redo', () => {
+    it('undoes and redoes a single edit', () => {
+      const onUpdate = vi.fn();
+      const { result } = renderEssayUpdates(createEssay(), onUpdate);
+
+      act(() => result.current.updateIntro('thesis', 'Thesis'));
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.thesis).toBe('');
+      expect(onUpdate).toHaveBeenLastCalledWith(result.current.essay);
+
+      act(() => result.current.redo());
+      expect(result.current.essay.intro.thesis).toBe('Thesis');
+    });
+
+    it('coalesces keystrokes within a cell into one step', () => {
+      const { result } = renderEssayUpdates();
+
+      act(() => result.current.updateIntro('hook', 'H'));
+      vi.advanceTimersByTime(100);
+      act(() => result.current.updateIntro('hook', 'He'));
+      vi.advanceTimersByTime(100);
+      act(() => result.current.updateIntro('hook', 'Hey'));
+
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.hook).toBe('');
+    });
+
+    it('separates typing bursts and different cells', () => {
+      const { result } = renderEssayUpdates();
+
+      act(() => result.current.updateIntro('hook', 'First'));
+      vi.advanceTimersByTime(COALESCE_WINDOW_MS + 1);
+      act(() => result.current.updateIntro('hook', 'First burst'));
+      act(() => result.current.updateIntro('thesis', 'Thesis'));
+
+      act(() => result.current.undo());
+      expect(result.current.essay.intro).toMatchObject({ hook: 'First burst', thesis: '' });
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.hook).toBe('First');
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.hook).toBe('');
+    });
+
+    it('restores a removed claim together with its body paragraph', () => {
+      const start = addClaim(createEssay());
+      const { result } = renderEssayUpdates(start);
+      const [, second] = start.intro.claims;
+      const secondBody = start.bodyParagraphs[1];
+
+      act(() => result.current.updateBodyParagraph(secondBody.id, 'paragraph', 'Body text'));
+      act(() => result.current.removeClaim(second.id));
+      expect(result.current.essay.bodyParagraphs).toHaveLength(1);
+
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.claims.map((c) => c.id)).toContain(second.id);
+      const restoredBody = result.current.essay.bodyParagraphs.find((b) => b.id === secondBody.id);
+      expect(restoredBody).toMatchObject({ provingClaimId: second.id, paragraph: 'Body text' });
+
+      act(() => result.current.redo());
+      expect(result.current.essay.intro.claims.map((c) => c.id)).not.toContain(second.id);
+      expect(result.current.essay.bodyParagraphs.map((b) => b.id)).not.toContain(secondBody.id);
+    });
+
+    it('undoes a claim move in one step, restoring body order', () => {
+      const start = addClaim(createEssay());
+      const { result } = renderEssayUpdates(start);
+      const [first, second] = start.intro.claims;
+
+      act(() => result.current.moveClaim(second.id, 0));
+      expect(result.current.essay.intro.claims.map((c) => c.id)).toEqual([second.id, first.id]);
+      expect(result.current.essay.bodyParagraphs.map((b) => b.provingClaimId)).toEqual([second.id, first.id]);
+
+      act(() => result.current.undo());
+      expect(result.current.essay).toBe(start);
+    });
+
+    it('restores a removed proof block', () => {
+      const { result } = renderEssayUpdates();
+      const bodyId = result.current.essay.bodyParagraphs[0].id;
+
+      act(() => result.current.addProofBlock(bodyId));
+      const added = result.current.essay.bodyParagraphs[0].proofBlocks[1];
+      act(() => result.current.updateProofBlock(bodyId, added.id, 'quote', 'A quote'));
+      act(() => result.current.removeProofBlock(bodyId, added.id));
+
+      act(() => result.current.undo());
+      expect(result.current.essay.bodyParagraphs[0].proofBlocks[1]).toMatchObject({ id: added.id, quote: 'A quote' });
+    });
+
+    it('does not record no-op operations', () => {
+      const { result } = renderEssayUpdates();
+
+      act(() => result.current.updateIntro('hook', 'Hook'));
+      // Removing the only claim is a no-op in the model
+      act(() => result.current.removeClaim(result.current.essay.intro.claims[0].id));
+
+      act(() => result.current.undo());
+      expect(result.current.essay.intro.hook).toBe('');
+    });
+
+    it('clears redo after a new edit', () => {
+      const { result } = renderEssayUpdates();
+
+      act(() => result.current.updateIntro('hook', 'One'));
+      act(() => result.current.undo());
+      act(() => result.current.updateIntro('thesis', 'Two'));
+      act(() => result.current.redo());
+
+      expect(result.current.essay.intro).toMatchObject({ hook: '', thesis: 'Two' });
+    });
+
+    it('forgets history when the essay is replaced from outside', () => {
+      const { result } = renderEssayUpdates();
+      const other = createEssay();
+
+      act(() => result.current.updateIntro('hook', 'Old essay edit'));
+      act(() => result.current.setEssay(other));
+      act(() => result.current.undo());
+
+      expect(result.current.essay).toBe(other);
+    });
+
+    it('makes a restored version undoable', () => {
+      const { result } = renderEssayUpdates();
+      const restored = createEssay();
+
+      act(() => result.current.updateIntro('hook', 'Current'));
+      act(() => result.current.replaceEssay(restored));
+      act(() => result.current.undo());
+
+      expect(result.current.essay.intro.hook).toBe('Current');
+    });
+
+    it('makes a structure repair undoable', () => {
+      const broken = addClaim(createEssay());
+      broken.bodyParagraphs[1] = { ...broken.bodyParagraphs[1], provingClaimId: 'deleted' };
+      const { result } = renderEssayUpdates(broken);
+
+      act(() => result.current.repairEssay({ type: 'delete-body', bodyId: broken.bodyParagraphs[1].id }));
+      expect(result.current.essay.bodyParagraphs).toHaveLength(1);
+
+      act(() => result.current.undo());
+      expect(result.current.essay).toBe(broken);
+    });
+  });
+});
@@ -1,10 +1,15 @@
-import { useCallback, Dispatch, SetStateAction } from 'react';
+import { useCallback, useRef, Dispatch, SetStateAction } from 'react';
 import {
   Essay,
   Intro,
   BodyParagraph,
   Conclusion,
+  Counterargument,
   ProofBlock,
+  Source,
+  SourceType,
+  CitationStyle,
+  WordLimits,
   updateIntro as modelUpdateIntro,
   addClaim as modelAddClaim,
   updateClaim as modelUpdateClaim,
@@ -13,8 +18,23 @@ import {
   addProofBlock as modelAddProofBlock,
   updateProofBlock as modelUpdateProofBlock,
   removeProofBlock as modelRemoveProofBlock,
+  moveClaim as modelMoveClaim,
+  moveBodyParagraph as modelMoveBodyParagraph,
+  moveProofBlock as modelMoveProofBlock,
+  addCounterargument as modelAddCounterargument,
+  removeCounterargument as modelRemoveCounterargument,
+  updateCounterargument as modelUpdateCounterargument,
   updateConclusion as modelUpdateConclusion,
+  setWordLimits as modelSetWordLimits,
+  createSource,
+  addSource as modelAddSource,
+  updateSource as modelUpdateSource,
+  removeSource as modelRemoveSource,
+  setProofBlockSource as modelSetProofBlockSource,
+  setCitationStyle as modelSetCitationStyle,
 } from '../models/essay';
+import { applyRepair, type IntegrityRepair } from '../models/integrity';
+import { createHistory, recordEdit, undoEdit, redoEdit, type EditHistory, type HistoryStep } from '../models/history';
 
 export interface EssayUpdateFunctions {
   updateIntro: (field: keyof Intro, value: Intro[keyof Intro]) => void;
@@ -25,27 +45,78 @@ export interface EssayUpdateFunctions {
   addProofBlock: (bodyId: string) => void;
   updateProofBlock: (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) => void;
   removeProofBlock: (bodyId: string, proofBlockId: string) => void;
+  moveClaim: (claimId: string, toIndex: number) => void;
+  moveBodyParagraph: (bodyId: string, toIndex: number) => void;
+  moveProofBlock: (bodyId: string, proofBlockId: string, toIndex: number) => void;
+  addCounterargument: () => void;
+  removeCounterargument: () => void;
+  updateCounterargument: (field: keyof Counterargument, value: string) => void;
   updateConclusion: (field: keyof Conclusion, value: string) => void;
+  replaceEssay: (essay: Essay) => void;
+  repairEssay: (repair: IntegrityRepair) => void;
+  updateWordLimits: (limits: WordLimits) => void;
+  addSource: (type?: SourceType) => void;
+  updateSource: (sourceId: string, fields: Partial<Omit<Source, 'id'>>) => void;
+  removeSource: (sourceId: string) => void;
+  setProofBlockSource: (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) => void;
+  setCitationStyle: (style: CitationStyle) => void;
+  undo: () => void;
+  redo: () => void;
 }
 
 export function useEssayUpdates(
   setEssay: Dispatch<SetStateAction<Essay>>,
   onUpdate?: (essay: Essay) => void
 ): EssayUpdateFunctions {
-  const applyTransform = useCallback(
-    (transform: (essay: Essay) => Essay) => {
+  const historyRef = useRef(createHistory());
+  // The essay produced by the last step; anything else means the essay was
+  // replaced from outside (loaded, switched) and the history no longer applies
+  const lastResultRef = useRef<Essay | null>(null);
+
+  const applyStep = useCallback(
+    (step: (essay: Essay) => Essay) => {
+      // React may invoke an updater twice (StrictMode); run the step once per call
+      let applied: { from: Essay; to: Essay } | null = null;
       setEssay((prev) => {
-        const updated = transform(prev);
-        onUpdate?.(updated);
+        if (applied?.from === prev) return applied.to;
+        if (prev !== lastResultRef.current) historyRef.current = createHistory();
+
+        const updated = step(prev);
+        applied = { from: prev, to: updated };
+        lastResultRef.current = updated;
+        if (updated !== prev) onUpdate?.(updated);
         return updated;
       });
     },
     [setEssay, onUpdate]
   );
 
+  const applyTransform = useCallback(
+    (transform: (essay: Essay) => Essay, groupKey: string | null = null) =>
+      applyStep((prev) => {
+        const updated = transform(prev);
+        if (updated !== prev) {
+          historyRef.current = recordEdit(historyRef.current, prev, groupKey, Date.now());
+        }
+        return updated;
+      }),
+    [applyStep]
+  );
+
+  const applyHistoryStep = useCallback(
+    (move: (history: EditHistory, current: Essay) => HistoryStep | null) =>
+      applyStep((prev) => {
+        const result = move(historyRef.current, prev);
+        if (!result) return prev;
+        historyRef.current = result.history;
+        return result.essay;
+      }),
+    [applyStep]
+  );
+
   const updateIntro = useCallback(
     (field: keyof Intro, value: Intro[keyof Intro]) =>
-      applyTransform((essay) => modelUpdateIntro(essay, field, value)),
+      applyTransform((essay) => modelUpdateIntro(essay, field, value), `intro.${field}`),
     [applyTransform]
   );
 
@@ -53,7 +124,7 @@ export function useEssayUpdates(
 
   const updateClaim = useCallback(
     (claimId: string, text: string) =>
-      applyTransform((essay) => modelUpdateClaim(essay, claimId, text)),
+      applyTransform((essay) => modelUpdateClaim(essay, claimId, text), `claim.${claimId}`),
     [applyTransform]
   );
 
@@ -64,7 +135,7 @@ export function useEssayUpdates(
 
   const updateBodyParagraph = useCallback(
     (bodyId: string, field: keyof BodyParagraph, value: BodyParagraph[keyof BodyParagraph]) =>
-      applyTransform((essay) => modelUpdateBodyParagraph(essay, bodyId, field, value)),
+      applyTransform((essay) => modelUpdateBodyParagraph(essay, bodyId, field, value), `body.${bodyId}.${field}`),
     [applyTransform]
   );
 
@@ -75,7 +146,10 @@ export function useEssayUpdates(
 
   const updateProofBlock = useCallback(
     (bodyId: string, proofBlockId: string, field: keyof ProofBlock, value: string) =>
-      applyTransform((essay) => modelUpdateProofBlock(essay, bodyId, proofBlockId, field, value)),
+      applyTransform(
+        (essay) => modelUpdateProofBlock(essay, bodyId, proofBlockId, field, value),
+        `proof.${proofBlockId}.${field}`
+      ),
     [applyTransform]
   );
 
@@ -85,12 +159,90 @@ export function useEssayUpdates(
     [applyTransform]
   );
 
+  const moveClaim = useCallback(
+    (claimId: string, toIndex: number) => applyTransform((essay) => modelMoveClaim(essay, claimId, toIndex)),
+    [applyTransform]
+  );
+
+  const moveBodyParagraph = useCallback(
+    (bodyId: string, toIndex: number) => applyTransform((essay) => modelMoveBodyParagraph(essay, bodyId, toIndex)),
+    [applyTransform]
+  );
+
+  const moveProofBlock = useCallback(
+    (bodyId: string, proofBlockId: string, toIndex: number) =>
+      applyTransform((essay) => modelMoveProofBlock(essay, bodyId, proofBlockId, toIndex)),
+    [applyTransform]
+  );
+
+  const addCounterargument = useCallback(() => applyTransform(modelAddCounterargument), [applyTransform]);
+
+  const removeCounterargument = useCallback(() => applyTransform(modelRemoveCounterargument), [applyTransform]);
+
+  const updateCounterargument = useCallback(
+    (field: keyof Counterargument, value: string) =>
+      applyTransform((essay) => modelUpdateCounterargument(essay, field, value), `counterargument.${field}`),
+    [applyTransform]
+  );
+
   const updateConclusion = useCallback(
     (field: keyof Conclusion, value: string) =>
-      applyTransform((essay) => modelUpdateConclusion(essay, field, value)),
+      applyTransform((essay) => modelUpdateConclusion(essay, field, value), `conclusion.${field}`),
     [applyTransform]
   );
 
+  const replaceEssay = useCallback(
+    (essay: Essay) => applyTransform(() => essay),
+    [applyTransform]
+  );
+
+  const repairEssay = useCallback(
+    (repair: IntegrityRepair) => applyTransform((essay) => applyRepair(essay, repair)),
+    [applyTransform]
+  );
+
+  const updateWordLimits = useCallback(
+    (limits: WordLimits) => applyTransform((essay) => modelSetWordLimits(essay, limits), 'wordLimits'),
+    [applyTransform]
+  );
+
+  const addSource = useCallback(
+    (type?: SourceType) => applyTransform((essay) => modelAddSource(essay, createSource(type))),
+    [applyTransform]
+  );
+
+  const updateSource = useCallback(
+    (sourceId: string, fields: Partial<Omit<Source, 'id'>>) =>
+      applyTransform(
+        (essay) => modelUpdateSource(essay, sourceId, fields),
+        `source.${sourceId}.${Object.keys(fields).join(',')}`
+      ),
+    [applyTransform]
+  );
+
+  const removeSource = useCallback(
+    (sourceId: string) => applyTransform((essay) => modelRemoveSource(essay, sourceId)),
+    [applyTransform]
+  );
+
+  const setProofBlockSource = useCallback(
+    (bodyId: string, proofBlockId: string, sourceId: string | null, page?: string) =>
+      applyTransform(
+        (essay) => modelSetProofBlockSource(essay, bodyId, proofBlockId, sourceId, page),
+        `proof.${proofBlockId}.source`
+      ),
+    [applyTransform]
+  );
+
+  const setCitationStyle = useCallback(
+    (style: CitationStyle) => applyTransform((essay) => modelSetCitationStyle(essay, style)),
+    [applyTransform]
+  );
+
+  const undo = useCallback(() => applyHistoryStep(undoEdit), [applyHistoryStep]);
+
+  const redo = useCallback(() => applyHistoryStep(redoEdit), [applyHistoryStep]);
+
   return {
     updateIntro,
     addClaim,
@@ -100,6 +252,22 @@ export function useEssayUpdates(
     addProofBlock,
     updateProofBlock,
     removeProofBlock,
+    moveClaim,
+    moveBodyParagraph,
+    moveProofBlock,
+    addCounterargument,
+    removeCounterargument,
+    updateCounterargument,
     updateConclusion,
+    replaceEssay,
+    repairEssay,
+    updateWordLimits,
+    addSource,
+    updateSource,
+    removeSource,
+    setProofBlockSource,
+    setCitationStyle,
+    undo,
+    redo,
   };
 }
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { createElement, type ReactNode } from 'react';
+import { usePresence } from './usePresence';
+import { MemoryEssayStorage } from '../storage/memory';
+import { StorageContext, type StorageContextValue } from '../contexts/StorageContext';
+import { SESSION_TIMEOUT_MS, type PresenceUpdate } from '../models/presence';
+
+const mockUser = {
+  uid: 'user-123',
+  email: 'me@example.com',
+  displayName: 'Me Myself',
+  photoURL: null,
+};
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: mockUser, loading: false })),
+}));
+
+const OWNER = 'owner-1';
+const ESSAY_ID = 'essay-1';
+
+function otherSession(id: string, overrides: Partial<PresenceUpdate> = {}): PresenceUpdate {
+  return {
+    id,
+    uid: 'friend',
+    displayName: 'Friend',
+    photoURL: null,
+    mode: 'editing',
+    focusedCell: null,
+    ...overrides,
+  };
+}
+
+describe('usePresence', () => {
+  let clock: number;
+  let storage: MemoryEssayStorage;
+
+  const renderPresence = () => {
+    const value = {
+      storage,
+      userId: mockUser.uid,
+      remoteStorage: storage,
+      deviceStorage: storage,
+    } as StorageContextValue;
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(StorageContext.Provider, { value }, children);
+    return renderHook(() => usePresence({ essayId: ESSAY_ID, ownerUid: OWNER, mode: 'editing' }), { wrapper });
+  };
+
+  const listSessions = () =>
+    new Promise<{ id: string; uid: string; focusedCell: string | null }[]>((resolve) => {
+      const unsubscribe = storage.subscribeToPresence(OWNER, ESSAY_ID, (sessions) => {
+        resolve(sessions);
+        queueMicrotask(unsubscribe);
+      });
+    });
+
+  beforeEach(() => {
+    clock = Date.now();
+    storage = new MemoryEssayStorage({ now: () => new Date(clock) });
+  });
+
+  it('announces this tab and lists other people, not the current user', async () => {
+    await storage.updatePresence(OWNER, ESSAY_ID, otherSession('friend-tab', { focusedCell: 'intro-thesis' }));
+    const { result } = renderPresence();
+
+    await waitFor(() => expect(result.current.collaborators.map((s) => s.uid)).toEqual(['friend']));
+    expect(result.current.presenceByCell.get('intro-thesis')?.[0].displayName).toBe('Friend');
+    expect((await listSessions()).map((s) => s.uid).sort()).toEqual(['friend', 'user-123']);
+  });
+
+  it('shares the focused cell', async () => {
+    const { result } = renderPresence();
+
+    act(() => result.current.focusCell('claim1'));
+
+    await waitFor(async () => {
+      const own = (await listSessions()).find((s) => s.uid === mockUser.uid);
+      expect(own?.focusedCell).toBe('claim1');
+    });
+  });
+
+  it('hides and removes sessions that stopped sending heartbeats', async () => {
+    clock = Date.now() - SESSION_TIMEOUT_MS - 1000;
+    await storage.updatePresence(OWNER, ESSAY_ID, otherSession('friend-tab'));
+    clock = Date.now();
+    const { result } = renderPresence();
+
+    await waitFor(async () => expect((await listSessions()).map((s) => s.id)).not.toContain('friend-tab'));
+    expect(result.current.collaborators).toEqual([]);
+  });
+
+  it('removes its session on unmount', async () => {
+    const { unmount } = renderPresence();
+    await waitFor(async () => expect(await listSessions()).toHaveLength(1));
+
+    unmount();
+
+    await waitFor(async () => expect(await listSessions()).toEqual([]));
+  });
+});
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useDebouncedCallback } from 'use-debounce';
+import { useAuth } from './useAuth';
+import { useStorage } from './useStorage';
+import {
+  generateSessionId,
+  getOtherCollaborators,
+  groupByFocusedCell,
+  isSessionStale,
+  HEARTBEAT_INTERVAL_MS,
+  type PresenceMode,
+  type PresenceSession,
+} from '../models/presence';
+
+export interface UsePresenceReturn {
+  /**
+   * Other people in the essay, one entry per person, sorted by name
+   */
+  collaborators: PresenceSession[];
+
+  /**
+   * Map from cell block id to the people focused on that cell
+   */
+  presenceByCell: Map<string, PresenceSession[]>;
+
+  /**
+   * Report the cell this tab has focused (null when none)
+   */
+  focusCell: (cellId: string | null) => void;
+}
+
+interface UsePresenceParams {
+  essayId: string | null;
+  ownerUid?: string | null;
+  mode: PresenceMode;
+}
+
+// Focus moving between cells blurs one before focusing the next; wait for both
+const FOCUS_HEARTBEAT_DELAY_MS = 300;
+
+/**
+ * Announce this tab in an essay and watch who else is there.
+ *
+ * Presence lives in the cloud backend only and needs a signed-in user.
+ * Sessions that stop sending heartbeats are hidden, and deleted by whoever
+ * notices them first.
+ */
+export function usePresence({ essayId, ownerUid, mode }: UsePresenceParams): UsePresenceReturn {
+  const { user } = useAuth();
+  const { remoteStorage } = useStorage();
+  const [sessions, setSessions] = useState<PresenceSession[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [sessionId] = useState(generateSessionId);
+  const focusedCellRef = useRef<string | null>(null);
+
+  const uid = user?.uid ?? null;
+  const effectiveOwnerUid = ownerUid ?? uid;
+
+  // Latest heartbeat fields, so a rename or mode change does not restart the session
+  const heartbeatRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    heartbeatRef.current = () => {
+      if (!user || !effectiveOwnerUid || !essayId) return;
+      remoteStorage
+        .updatePresence(effectiveOwnerUid, essayId, {
+          id: sessionId,
+          uid: user.uid,
+          displayName: user.displayName || user.email || 'Anonymous',
+          photoURL: user.photoURL ?? null,
+          mode,
+          focusedCell: focusedCellRef.current,
+        })
+        .catch((error) => console.error('Failed to update presence:', error));
+    };
+  }, [user, effectiveOwnerUid, essayId, remoteStorage, sessionId, mode]);
+
+  useEffect(() => {
+    if (!uid || !effectiveOwnerUid || !essayId) {
+      setSessions([]);
+      return;
+    }
+
+    const removeSession = (id: string) =>
+      remoteStorage
+        .removePresence(effectiveOwnerUid, essayId, id)
+        .catch((error) => console.error('Failed to remove presence:', error));
+
+    const unsubscribe = remoteStorage.subscribeToPresence(
+      effectiveOwnerUid,
+      essayId,
+      (updated) => {
+        const current = new Date();
+        updated.filter((s) => s.id !== sessionId && isSessionStale(s, current)).forEach((s) => removeSession(s.id));
+        setNow(current);
+        setSessions(updated);
+      },
+      (error) => console.error('Error subscribing to presence:', error)
+    );
+
+    heartbeatRef.current();
+    const interval = setInterval(() => {
+      heartbeatRef.current();
+      setNow(new Date());
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const handlePageHide = () => removeSession(sessionId);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+      unsubscribe();
+      removeSession(sessionId);
+    };
+  }, [uid, effectiveOwnerUid, essayId, remoteStorage, sessionId]);
+
+  const sendFocusHeartbeat = useDebouncedCallback(() => heartbeatRef.current(), FOCUS_HEARTBEAT_DELAY_MS);
+
+  const focusCell = useCallback(
+    (cellId: string | null) => {
+      if (focusedCellRef.current === cellId) return;
+      focusedCellRef.current = cellId;
+      sendFocusHeartbeat();
+    },
+    [sendFocusHeartbeat]
+  );
+
+  const collaborators = useMemo(
+    () => (uid ? getOtherCollaborators(sessions, uid, now) : []),
+    [sessions, uid, now]
+  );
+
+  const presenceByCell = useMemo(() => groupByFocusedCell(collaborators), [collaborators]);
+
+  return { collaborators, presenceByCell, focusCell };
+}
@@ -0,0 +1,12 @@
+import { useContext } from 'react';
+import { StorageContext, StorageContextValue } from '../contexts/StorageContext';
+
+export function useStorage(): StorageContextValue {
+  const context = useContext(StorageContext);
+
+  if (!context) {
+    throw new Error('useStorage must be used within a StorageProvider');
+  }
+
+  return context;
+}
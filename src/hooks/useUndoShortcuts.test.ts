@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, fireEvent } from '@testing-library/react';
+import { useUndoShortcuts } from './useUndoShortcuts';
+
+describe('useUndoShortcuts', () => {
+  const undo = vi.fn();
+  const redo = vi.fn();
+  let grid: HTMLElement;
+  let cell: HTMLTextAreaElement;
+  let outsideInput: HTMLInputElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    grid = document.createElement('main');
+    grid.className = 'essay-grid';
+    cell = document.createElement('textarea');
+    grid.appendChild(cell);
+    outsideInput = document.createElement('input');
+    document.body.append(grid, outsideInput);
+  });
+
+  afterEach(() => {
+    grid.remove();
+    outsideInput.remove();
+  });
+
+  it('undoes on Ctrl+Z and redoes on Ctrl+Shift+Z inside the grid', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: true }));
+
+    fireEvent.keyDown(cell, { key: 'z', ctrlKey: true });
+    expect(undo).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(cell, { key: 'Z', ctrlKey: true, shiftKey: true });
+    expect(redo).toHaveBeenCalledTimes(1);
+  });
+
+  it('supports Cmd on macOS', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: true }));
+
+    fireEvent.keyDown(cell, { key: 'z', metaKey: true });
+    expect(undo).toHaveBeenCalledTimes(1);
+  });
+
+  it('prevents the browser default undo', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: true }));
+
+    const notCancelled = fireEvent.keyDown(cell, { key: 'z', ctrlKey: true });
+    expect(notCancelled).toBe(false);
+  });
+
+  it('leaves text fields outside the grid alone', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: true }));
+
+    fireEvent.keyDown(outsideInput, { key: 'z', ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it('ignores plain Z and other shortcuts', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: true }));
+
+    fireEvent.keyDown(cell, { key: 'z' });
+    fireEvent.keyDown(cell, { key: 'y', ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+    expect(redo).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when disabled', () => {
+    renderHook(() => useUndoShortcuts({ undo, redo, enabled: false }));
+
+    fireEvent.keyDown(cell, { key: 'z', ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+
+interface UseUndoShortcutsParams {
+  undo: () => void;
+  redo: () => void;
+  enabled: boolean;
+  /** Only text fields inside this selector are handled; other inputs keep native undo */
+  scopeSelector?: string;
+}
+
+/**
+ * Bind Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to essay-level undo and redo.
+ * Fields outside the essay grid (title, comments, dialogs) keep the
+ * browser's own undo.
+ */
+export function useUndoShortcuts({ undo, redo, enabled, scopeSelector = '.essay-grid' }: UseUndoShortcutsParams) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (event.key.toLowerCase() !== 'z') return;
+
+      const target = event.target as HTMLElement | null;
+      const inTextField = !!target?.closest?.('input, textarea, [contenteditable="true"]');
+      if (inTextField && !target?.closest(scopeSelector)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, enabled, scopeSelector]);
+}
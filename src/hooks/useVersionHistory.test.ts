@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useVersionHistory } from './useVersionHistory';
+import { MemoryEssayStorage } from '../storage/memory';
+import { createEssay, updateIntro, type Essay } from '../models/essay';
+import { createVersion, SNAPSHOT_INTERVAL_MS } from '../models/version';
+
+const mockUser = {
+  uid: 'user-123',
+  email: 'test@example.com',
+  displayName: 'Test User',
+};
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({
+    user: mockUser,
+    loading: false,
+  })),
+}));
+
+const storage = new MemoryEssayStorage();
+
+vi.mock('./useStorage', () => ({
+  useStorage: vi.fn(() => ({
+    storage,
+    userId: 'user-123',
+    remoteStorage: storage,
+    deviceStorage: storage,
+  })),
+}));
+
+const ESSAY_ID = 'essay-1';
+
+function withThesis(essay: Essay, thesis: string): Essay {
+  return updateIntro(essay, 'thesis', thesis);
+}
+
+interface HookProps {
+  essay: Essay;
+  canEdit?: boolean;
+  onRestore?: (essay: Essay) => void;
+}
+
+function renderVersionHistory(initial: HookProps) {
+  return renderHook(
+    ({ essay, canEdit = true, onRestore = vi.fn() }: HookProps) =>
+      useVersionHistory({ essay, essayId: ESSAY_ID, title: 'My Essay', canEdit, onRestore }),
+    { initialProps: initial }
+  );
+}
+
+describe('useVersionHistory', () => {
+  beforeEach(() => {
+    storage.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads existing versions newest first', async () => {
+    await storage.saveVersion('user-123', ESSAY_ID, createVersion(createEssay(), 'Old', 'user-123', 'Test User'));
+    vi.advanceTimersByTime(1000);
+    await storage.saveVersion('user-123', ESSAY_ID, createVersion(createEssay(), 'New', 'user-123', 'Test User'));
+
+    const { result } = renderVersionHistory({ essay: createEssay() });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.versions.map((v) => v.title)).toEqual(['New', 'Old']);
+  });
+
+  it('snapshots the pre-edit essay when the first edit lands', async () => {
+    const original = withThesis(createEssay(), 'Original thesis');
+    const { result, rerender } = renderVersionHistory({ essay: original });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ essay: withThesis(original, 'Edited thesis') });
+
+    await waitFor(() => expect(result.current.versions).toHaveLength(1));
+    expect(result.current.versions[0]).toMatchObject({
+      authorUid: 'user-123',
+      authorDisplayName: 'Test User',
+      reason: 'auto',
+    });
+    expect(result.current.versions[0].data.intro.thesis).toBe('Original thesis');
+  });
+
+  it('takes at most one snapshot per interval', async () => {
+    const original = withThesis(createEssay(), 'One');
+    const { result, rerender } = renderVersionHistory({ essay: original });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    const second = withThesis(original, 'Two');
+    rerender({ essay: second });
+    await waitFor(() => expect(result.current.versions).toHaveLength(1));
+
+    const third = withThesis(original, 'Three');
+    rerender({ essay: third });
+    expect(result.current.versions).toHaveLength(1);
+
+    vi.advanceTimersByTime(SNAPSHOT_INTERVAL_MS);
+    rerender({ essay: withThesis(original, 'Four') });
+
+    await waitFor(() => expect(result.current.versions).toHaveLength(2));
+    expect(result.current.versions[0].data.intro.thesis).toBe('Three');
+  });
+
+  it('does not snapshot a blank essay', async () => {
+    const blank = createEssay();
+    const { result, rerender } = renderVersionHistory({ essay: blank });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ essay: withThesis(blank, 'First words') });
+
+    expect(result.current.versions).toEqual([]);
+    expect((await storage.listVersions('user-123', ESSAY_ID)).versions).toEqual([]);
+  });
+
+  it('does not snapshot for read-only users', async () => {
+    const original = withThesis(createEssay(), 'Original');
+    const { result, rerender } = renderVersionHistory({ essay: original, canEdit: false });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ essay: withThesis(original, 'Remote change'), canEdit: false });
+
+    expect(result.current.canRestore).toBe(false);
+    expect(result.current.versions).toEqual([]);
+  });
+
+  it('restores a version and records the restore as a new version', async () => {
+    const old = createVersion(withThesis(createEssay(), 'Old thesis'), 'My Essay', 'user-123', 'Test User');
+    await storage.saveVersion('user-123', ESSAY_ID, old);
+    const onRestore = vi.fn();
+    const current = withThesis(createEssay(), 'Current thesis');
+
+    const { result } = renderVersionHistory({ essay: current, onRestore });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.restoreVersion(result.current.versions[0]);
+    });
+
+    expect(onRestore).toHaveBeenCalledWith(old.data);
+    const [restored, captured] = result.current.versions;
+    expect(restored).toMatchObject({ reason: 'restore', restoredFromId: old.id });
+    expect(restored.data.intro.thesis).toBe('Old thesis');
+    expect(captured.reason).toBe('auto');
+    expect(captured.data.intro.thesis).toBe('Current thesis');
+    expect((await storage.listVersions('user-123', ESSAY_ID)).versions).toHaveLength(3);
+  });
+
+  it('does not capture the current essay again if it is already the newest version', async () => {
+    const essay = withThesis(createEssay(), 'Saved thesis');
+    const old = createVersion(withThesis(createEssay(), 'Old thesis'), 'My Essay', 'user-123', 'Test User');
+    await storage.saveVersion('user-123', ESSAY_ID, old);
+    vi.advanceTimersByTime(1000);
+    await storage.saveVersion('user-123', ESSAY_ID, createVersion(essay, 'My Essay', 'user-123', 'Test User'));
+
+    const { result } = renderVersionHistory({ essay });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.restoreVersion(result.current.versions[1]);
+    });
+
+    expect(result.current.versions).toHaveLength(3);
+    expect(result.current.versions[0].reason).toBe('restore');
+  });
+
+  it('refuses to restore without edit permission', async () => {
+    const onRestore = vi.fn();
+    const version = createVersion(createEssay(), 'My Essay', 'user-123', 'Test User');
+    const { result } = renderVersionHistory({ essay: createEssay(), canEdit: false, onRestore });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.restoreVersion(version);
+    });
+
+    expect(onRestore).not.toHaveBeenCalled();
+    expect(result.current.error).toBe('You do not have permission to restore versions');
+  });
+});
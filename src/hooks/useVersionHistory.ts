@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useStorage } from './useStorage';
+import type { Essay } from '../models/essay';
+import {
+  createVersion,
+  isSnapshotDue,
+  isEssayBlank,
+  type EssayVersion,
+  type VersionReason,
+} from '../models/version';
+import { essayEquals } from '../utils/essayEquals';
+
+export interface UseVersionHistoryReturn {
+  /**
+   * Snapshots of the essay, newest first
+   */
+  versions: EssayVersion[];
+
+  /**
+   * Replace the essay with a snapshot. The current state is captured first if
+   * it is not already in the history, and the restore itself is recorded as
+   * a new version.
+   */
+  restoreVersion: (version: EssayVersion) => Promise<void>;
+
+  /**
+   * Whether the current user can create snapshots and restore
+   */
+  canRestore: boolean;
+
+  /**
+   * Whether versions are currently loading
+   */
+  loading: boolean;
+
+  /**
+   * Any error that occurred
+   */
+  error: string | null;
+
+  /**
+   * How many snapshots could not be read and are left out of `versions`
+   */
+  unreadableCount: number;
+}
+
+interface UseVersionHistoryParams {
+  essay: Essay;
+  essayId: string | null;
+  title: string;
+  ownerUid?: string | null;
+  canEdit: boolean;
+  onRestore: (essay: Essay) => void;
+}
+
+export function useVersionHistory({
+  essay,
+  essayId,
+  title,
+  ownerUid,
+  canEdit,
+  onRestore,
+}: UseVersionHistoryParams): UseVersionHistoryReturn {
+  const { user } = useAuth();
+  const { storage, userId, remoteStorage } = useStorage();
+  const [versions, setVersions] = useState<EssayVersion[]>([]);
+  const [unreadableCount, setUnreadableCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Essays owned by someone else always live in the cloud under the owner's uid
+  const backend = ownerUid ? remoteStorage : storage;
+  const effectiveUserId = ownerUid ?? userId;
+
+  // Snapshots on someone else's essay must be attributed to a signed-in user
+  const canRestore = canEdit && (!ownerUid || !!user);
+
+  const versionsRef = useRef<EssayVersion[]>([]);
+  useEffect(() => {
+    versionsRef.current = versions;
+  }, [versions]);
+
+  const essayRef = useRef(essay);
+  const latestSnapshotAtRef = useRef<Date | null>(null);
+
+  useEffect(() => {
+    if (!essayId) {
+      setVersions([]);
+      setUnreadableCount(0);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    latestSnapshotAtRef.current = null;
+
+    backend
+      .listVersions(effectiveUserId, essayId)
+      .then(({ versions: loaded, unreadableIds }) => {
+        if (cancelled) return;
+        setVersions(loaded);
+        setUnreadableCount(unreadableIds.length);
+        latestSnapshotAtRef.current = loaded[0]?.createdAt ?? null;
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading versions:', err);
+        setVersions([]);
+        setUnreadableCount(0);
+        setError('Failed to load version history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, effectiveUserId, essayId]);
+
+  const saveSnapshot = useCallback(
+    async (data: Essay, reason: VersionReason, restoredFromId: string | null = null) => {
+      if (!essayId) return;
+
+      const version = createVersion(
+        data,
+        title,
+        user?.uid ?? userId,
+        user?.displayName || user?.email || 'Anonymous',
+        reason,
+        restoredFromId
+      );
+      // Claim the slot immediately so rapid edits don't queue duplicate snapshots
+      latestSnapshotAtRef.current = version.createdAt;
+
+      const saved = await backend.saveVersion(effectiveUserId, essayId, version);
+      setVersions((prev) => [saved, ...prev]);
+    },
+    [backend, effectiveUserId, essayId, title, user, userId]
+  );
+
+  const isCaptured = useCallback((data: Essay) => {
+    const latest = versionsRef.current[0];
+    return !!latest && essayEquals(latest.data, data);
+  }, []);
+
+  // Periodic snapshots: when an edit lands and the newest snapshot is older
+  // than the interval, capture the essay as it was just before the edit
+  const essayIdRef = useRef(essayId);
+  useEffect(() => {
+    const previous = essayRef.current;
+    const switchedEssay = essayIdRef.current !== essayId;
+    essayRef.current = essay;
+    essayIdRef.current = essayId;
+
+    if (switchedEssay || previous === essay || loading || !canRestore) return;
+    if (!isSnapshotDue(latestSnapshotAtRef.current, new Date())) return;
+    if (isEssayBlank(previous) || isCaptured(previous)) return;
+
+    saveSnapshot(previous, 'auto').catch((err) => {
+      console.error('Error saving version:', err);
+    });
+  }, [essay, essayId, loading, canRestore, isCaptured, saveSnapshot]);
+
+  const restoreVersion = useCallback(
+    async (version: EssayVersion): Promise<void> => {
+      if (!canRestore || !essayId) {
+        setError('You do not have permission to restore versions');
+        return;
+      }
+
+      try {
+        setError(null);
+        const current = essayRef.current;
+        if (!isEssayBlank(current) && !isCaptured(current)) {
+          await saveSnapshot(current, 'auto');
+        }
+        onRestore(version.data);
+        await saveSnapshot(version.data, 'restore', version.id);
+      } catch (err) {
+        console.error('Error restoring version:', err);
+        setError('Failed to restore version');
+      }
+    },
+    [canRestore, essayId, isCaptured, saveSnapshot, onRestore]
+  );
+
+  return {
+    versions,
+    restoreVersion,
+    canRestore,
+    loading,
+    error,
+    unreadableCount,
+  };
+}
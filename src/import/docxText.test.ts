@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { extractDocxText } from './docxText';
+import { buildDocx } from '../export/docx';
+import { createZip } from '../utils/zip';
+import { createEssay } from '../models/essay';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const docxWithBody = (body: string) =>
+  createZip([
+    {
+      name: 'word/document.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}"><w:body>${body}</w:body></w:document>`,
+    },
+  ]);
+
+describe('extractDocxText', () => {
+  it('returns each non-empty paragraph separated by a blank line', async () => {
+    const docx = docxWithBody(
+      '<w:p><w:r><w:t>First </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>paragraph.</w:t></w:r></w:p>' +
+        '<w:p/>' +
+        '<w:p><w:r><w:t>Second</w:t><w:tab/><w:t>with a tab</w:t><w:br/><w:t>and a break.</w:t></w:r></w:p>'
+    );
+
+    expect(await extractDocxText(docx)).toBe('First paragraph.\n\nSecond\twith a tab\nand a break.');
+  });
+
+  it('reads documents written by our own .docx export', async () => {
+    const essay = createEssay();
+    essay.intro.paragraph = 'An opening paragraph.';
+    essay.conclusion.paragraph = 'A closing paragraph.';
+    const docx = buildDocx(essay, { title: 'Title', author: 'Ada', date: new Date(2026, 9, 19) });
+
+    const text = await extractDocxText(docx);
+
+    expect(text).toContain('An opening paragraph.\n\nA closing paragraph.');
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    await expect(extractDocxText(new TextEncoder().encode('plain text'))).rejects.toThrow('Not a ZIP archive');
+    await expect(extractDocxText(createZip([{ name: 'other.xml', data: '<x/>' }]))).rejects.toThrow(
+      'Not a Word document'
+    );
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Plain text from a Word document, for importing drafts - no React or UI
+ * dependencies
+ *
+ * Reads only the main document part: each non-empty paragraph becomes a
+ * paragraph of text, with tabs and line breaks kept. Headers, footers,
+ * footnotes and formatting are left behind.
+ */
+import { readZip } from '../utils/zip';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const DOCUMENT_PART = 'word/document.xml';
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * The text of one <w:p>: runs in order, with <w:tab/> as a tab and <w:br/> or
+ * <w:cr/> as a line break
+ */
+function getParagraphText(paragraph: Element): string {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach((node) => {
+    if (node.namespaceURI !== WORD_NAMESPACE) return;
+    if (node.localName === 't') text += node.textContent ?? '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+}
+
+/**
+ * Paragraph text of a .docx file, separated by blank lines. Throws if the file
+ * is not a Word document.
+ */
+export async function extractDocxText(data: Uint8Array): Promise<string> {
+  const files = await readZip(data);
+  const xml = files.get(DOCUMENT_PART);
+  if (!xml) {
+    throw new Error('Not a Word document');
+  }
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Word document is corrupted');
+  }
+
+  return Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))
+    .map(getParagraphText)
+    .filter((text) => text.trim())
+    .join('\n\n');
+}
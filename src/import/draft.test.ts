@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEssayFromDraft,
+  getFirstSentence,
+  joinWithPrevious,
+  splitDraft,
+  suggestDraftRoles,
+  type DraftParagraph,
+} from './draft';
+import { validateEssay } from '../models/schema';
+
+const DRAFT = [
+  'Les Misérables asks whether people can change. Hugo answers yes.',
+  'Mercy changes Valjean. The bishop forgives the theft of his silver.',
+  'Law cannot change Javert. He cannot live with an act of mercy.',
+  'Hugo prefers mercy to law.',
+];
+
+describe('splitDraft', () => {
+  it('splits at blank lines and trims each paragraph', () => {
+    expect(splitDraft('  First line\nstill first.\r\n\r\n\n  Second.  \n')).toEqual([
+      'First line\nstill first.',
+      'Second.',
+    ]);
+  });
+
+  it('splits at every line break when there are no blank lines', () => {
+    expect(splitDraft('One.\nTwo.\nThree.')).toEqual(['One.', 'Two.', 'Three.']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitDraft(' \n\n ')).toEqual([]);
+  });
+});
+
+describe('suggestDraftRoles', () => {
+  it('maps the first paragraph to the intro, the last to the conclusion and the rest to the body', () => {
+    expect(suggestDraftRoles(DRAFT).map((p) => p.role)).toEqual(['intro', 'body', 'body', 'conclusion']);
+  });
+
+  it('treats a single paragraph as the intro', () => {
+    expect(suggestDraftRoles(['Only one.']).map((p) => p.role)).toEqual(['intro']);
+  });
+});
+
+describe('joinWithPrevious', () => {
+  it('joins a paragraph onto the one above, keeping the earlier role', () => {
+    const paragraphs: DraftParagraph[] = [
+      { text: 'A', role: 'intro' },
+      { text: 'B', role: 'body' },
+      { text: 'C', role: 'conclusion' },
+    ];
+
+    expect(joinWithPrevious(paragraphs, 1)).toEqual([
+      { text: 'A\n\nB', role: 'intro' },
+      { text: 'C', role: 'conclusion' },
+    ]);
+    expect(joinWithPrevious(paragraphs, 0)).toBe(paragraphs);
+  });
+});
+
+describe('getFirstSentence', () => {
+  it('ends at the first sentence mark, keeping closing quotes', () => {
+    expect(getFirstSentence('He said "Stop!" Then he left.')).toBe('He said "Stop!"');
+  });
+
+  it('uses the whole text without a sentence mark', () => {
+    expect(getFirstSentence('  no full stop ')).toBe('no full stop');
+  });
+});
+
+describe('createEssayFromDraft', () => {
+  it('builds a valid essay with a body paragraph and matching claim per body paragraph', () => {
+    const essay = createEssayFromDraft(suggestDraftRoles(DRAFT));
+
+    expect(validateEssay(essay)).toEqual([]);
+    expect(essay.intro.paragraph).toBe(DRAFT[0]);
+    expect(essay.conclusion.paragraph).toBe(DRAFT[3]);
+    expect(essay.bodyParagraphs.map((b) => b.paragraph)).toEqual([DRAFT[1], DRAFT[2]]);
+    expect(essay.intro.claims.map((c) => c.text)).toEqual(['Mercy changes Valjean.', 'Law cannot change Javert.']);
+    essay.bodyParagraphs.forEach((body, i) => expect(body.provingClaimId).toBe(essay.intro.claims[i].id));
+  });
+
+  it('joins paragraphs with the same role and leaves skipped ones out', () => {
+    const essay = createEssayFromDraft([
+      { text: 'Hook.', role: 'intro' },
+      { text: 'Thesis.', role: 'intro' },
+      { text: 'Notes to self', role: 'skip' },
+      { text: 'Some disagree.', role: 'counterargument' },
+      { text: 'The end.', role: 'conclusion' },
+    ]);
+
+    expect(essay.intro.paragraph).toBe('Hook.\n\nThesis.');
+    expect(essay.counterargument?.paragraph).toBe('Some disagree.');
+    expect(JSON.stringify(essay)).not.toContain('Notes to self');
+  });
+
+  it('keeps the template structure when there are no body paragraphs', () => {
+    const essay = createEssayFromDraft([{ text: 'Intro.', role: 'intro' }], 'compare-contrast');
+
+    expect(essay.templateId).toBe('compare-contrast');
+    expect(essay.bodyParagraphs.length).toBeGreaterThan(0);
+    expect(validateEssay(essay)).toEqual([]);
+  });
+
+  it('gives body paragraphs as many proof blocks as the template starts with', () => {
+    const template = createEssayFromDraft([], 'research');
+    const essay = createEssayFromDraft([{ text: 'Body.', role: 'body' }], 'research');
+
+    expect(essay.bodyParagraphs[0].proofBlocks).toHaveLength(template.bodyParagraphs[0].proofBlocks.length);
+  });
+});
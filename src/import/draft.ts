@@ -0,0 +1,132 @@
+/**
+ * Turning a draft written elsewhere into an essay - no React or UI dependencies
+ *
+ * The draft is split into paragraphs, each paragraph gets a role (suggested
+ * from its position, then adjusted by the user), and the essay is built from
+ * the roles: body paragraphs each get a claim of their own, taken from their
+ * topic sentence.
+ */
+import {
+  createBodyParagraph,
+  createClaim,
+  createCounterargument,
+  createProofBlock,
+  type Essay,
+} from '../models/essay';
+import { createEssayFromTemplate, getTemplate, type TemplateId } from '../models/template';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Where a draft paragraph goes in the essay; 'skip' leaves it out */
+export type DraftRole = 'intro' | 'body' | 'counterargument' | 'conclusion' | 'skip';
+
+export interface DraftParagraph {
+  text: string;
+  role: DraftRole;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DRAFT_ROLES: { value: DraftRole; label: string }[] = [
+  { value: 'intro', label: 'Intro' },
+  { value: 'body', label: 'Body paragraph' },
+  { value: 'counterargument', label: 'Counterargument' },
+  { value: 'conclusion', label: 'Conclusion' },
+  { value: 'skip', label: 'Leave out' },
+];
+
+// A sentence ends at . ! or ? plus any closing quotes or brackets, before a space or the end
+const FIRST_SENTENCE = /^[\s\S]+?[.!?]+["'”’)\]]*(?=\s|$)/;
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Split draft text into trimmed paragraphs. Paragraphs are separated by blank
+ * lines; text without any blank line is split at every line break instead, as
+ * many editors paste one line per paragraph.
+ */
+export function splitDraft(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+  const separator = /\n\s*\n/.test(normalized) ? /\n\s*\n/ : /\n/;
+  return normalized
+    .split(separator)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Suggested roles by position: the first paragraph is the intro, the last the
+ * conclusion and everything between a body paragraph
+ */
+export function suggestDraftRoles(paragraphs: string[]): DraftParagraph[] {
+  return paragraphs.map((text, i): DraftParagraph => ({
+    text,
+    role: i === 0 ? 'intro' : i === paragraphs.length - 1 ? 'conclusion' : 'body',
+  }));
+}
+
+/**
+ * Join a paragraph onto the one before it, for drafts split in the wrong place.
+ * The joined paragraph keeps the earlier paragraph's role.
+ */
+export function joinWithPrevious(paragraphs: DraftParagraph[], index: number): DraftParagraph[] {
+  if (index <= 0 || index >= paragraphs.length) return paragraphs;
+  const previous = paragraphs[index - 1];
+  return [
+    ...paragraphs.slice(0, index - 1),
+    { ...previous, text: `${previous.text}\n\n${paragraphs[index].text}` },
+    ...paragraphs.slice(index + 1),
+  ];
+}
+
+/**
+ * The topic sentence of a paragraph, used as the claim it proves
+ */
+export const getFirstSentence = (text: string): string => (text.match(FIRST_SENTENCE)?.[0] ?? text).trim();
+
+/**
+ * Build an essay from reviewed draft paragraphs. Intro, counterargument and
+ * conclusion paragraphs are joined in order; each body paragraph becomes a body
+ * paragraph proving a new claim. An essay with no body paragraphs keeps the
+ * template's empty ones.
+ */
+export function createEssayFromDraft(paragraphs: DraftParagraph[], templateId?: TemplateId): Essay {
+  const base = createEssayFromTemplate(getTemplate(templateId));
+  const textFor = (role: DraftRole) =>
+    paragraphs
+      .filter((p) => p.role === role)
+      .map((p) => p.text)
+      .join('\n\n');
+
+  const bodies = paragraphs.filter((p) => p.role === 'body');
+  const claims = bodies.map((p) => createClaim(getFirstSentence(p.text)));
+  const proofBlocksPerBody = base.bodyParagraphs[0].proofBlocks.length;
+  const bodyParagraphs = bodies.map((p, i) => ({
+    ...createBodyParagraph(claims[i]),
+    proofBlocks: Array.from({ length: proofBlocksPerBody }, createProofBlock),
+    paragraph: p.text,
+  }));
+
+  const counterargumentText = textFor('counterargument');
+
+  return {
+    ...base,
+    intro: {
+      ...base.intro,
+      paragraph: textFor('intro'),
+      ...(claims.length > 0 ? { claims } : {}),
+    },
+    ...(bodyParagraphs.length > 0 ? { bodyParagraphs } : {}),
+    ...(counterargumentText
+      ? { counterargument: { ...(base.counterargument ?? createCounterargument()), paragraph: counterargumentText } }
+      : {}),
+    conclusion: { ...base.conclusion, paragraph: textFor('conclusion') },
+  };
+}
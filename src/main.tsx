@@ -4,6 +4,11 @@ import { BrowserRouter } from 'react-router-dom';
 import './index.css';
 import App from './App';
 import { AuthProvider } from './contexts/AuthContext';
+import { StorageProvider } from './contexts/StorageContext';
+import { firestoreStorage } from './firebase/firestore';
+import { IndexedDbEssayStorage } from './storage/indexedDb';
+
+const deviceStorage = new IndexedDbEssayStorage();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error('Root element not found');
@@ -12,7 +17,9 @@ createRoot(rootElement).render(
   <StrictMode>
     <BrowserRouter>
       <AuthProvider>
-        <App />
+        <StorageProvider remote={firestoreStorage} device={deviceStorage}>
+          <App />
+        </StorageProvider>
       </AuthProvider>
     </BrowserRouter>
   </StrictMode>
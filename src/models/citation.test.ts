@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addInTextCitation,
+  citationToText,
+  formatInTextCitation,
+  formatSource,
+  getProofBlockCitation,
+  getSourceLabel,
+  getWorksCited,
+  getWorksCitedText,
+  type CitationEntry,
+} from './citation';
+import { CITATION_STYLES, createEssay, createSource, type Essay, type Source } from './essay';
+import fixtures from './fixtures/citations.json';
+
+const book: Source = {
+  ...createSource('book'),
+  id: 'book',
+  authors: ['Victor Hugo'],
+  title: 'Les Misérables',
+  container: 'Signet',
+  published: '1987',
+};
+
+const article: Source = {
+  ...createSource('article'),
+  id: 'article',
+  authors: ['Jane Smith', 'Ken Lee'],
+  title: 'Mercy in Hugo',
+  container: 'Victorian Studies',
+  published: '2010',
+  pages: '12-19',
+};
+
+const website: Source = {
+  ...createSource('website'),
+  id: 'website',
+  authors: [],
+  title: 'Reading Hugo Today',
+  container: 'The Hugo Society',
+  url: 'https://hugo.example.org/today',
+  accessed: '3 May 2024',
+};
+
+const withSources = (sources: Source[], citationStyle?: Essay['citationStyle']): Essay => ({
+  ...createEssay(),
+  sources,
+  ...(citationStyle ? { citationStyle } : {}),
+});
+
+interface CitationFixture {
+  name: string;
+  source: Partial<Source>;
+  page: string;
+  mla: { inText: string; entry: string };
+  apa: { inText: string; entry: string };
+  chicago: { inText: string; entry: string };
+}
+
+/** Citation text with italic parts marked *like this*, as the fixtures write them */
+const withItalics = (entry: CitationEntry | null): string | null =>
+  entry && entry.map((part) => (part.italic ? `*${part.text}*` : part.text)).join('');
+
+// Every fixture in every style; blank fields are left out of the fixtures
+const cases = (fixtures as CitationFixture[]).flatMap((fixture) =>
+  CITATION_STYLES.map((style) => ({
+    name: fixture.name,
+    style,
+    source: { ...createSource(), ...fixture.source },
+    page: fixture.page,
+    expected: fixture[style],
+  }))
+);
+
+describe('formatSource', () => {
+  it.each(cases)('$style: $name', ({ source, style, expected }) => {
+    expect(withItalics(formatSource(source, style))).toBe(expected.entry);
+  });
+
+  it('italicizes only the title of a whole work', () => {
+    expect(formatSource(book, 'mla')).toEqual([
+      { text: 'Hugo, Victor. ' },
+      { text: 'Les Misérables', italic: true },
+      { text: '. Signet, 1987.' },
+    ]);
+  });
+});
+
+describe('formatInTextCitation', () => {
+  it.each(cases)('$style: $name', ({ source, style, page, expected }) => {
+    expect(withItalics(formatInTextCitation(source, style, page))).toBe(expected.inText);
+  });
+
+  it('is null for a source without a title or author', () => {
+    expect(formatInTextCitation(createSource(), 'mla', '4')).toBeNull();
+  });
+});
+
+describe('getProofBlockCitation', () => {
+  const proofBlock = { id: 'p1', quote: 'My brother', analysis: '', connection: '', sourceId: 'book', page: '45' };
+
+  it('cites the proof block\'s source and page in the given style', () => {
+    expect(getProofBlockCitation(proofBlock, [book], 'apa')).toBe('(Hugo, 1987, p. 45)');
+  });
+
+  it('is null without a cited source', () => {
+    const { sourceId: _sourceId, ...uncited } = proofBlock;
+    expect(getProofBlockCitation(uncited, [book], 'mla')).toBeNull();
+    expect(getProofBlockCitation(proofBlock, [], 'mla')).toBeNull();
+  });
+});
+
+describe('addInTextCitation', () => {
+  it('puts the citation after the closing quote and before the period', () => {
+    expect(addInTextCitation('"My brother, you no longer belong to evil."', '(Hugo 106)')).toBe(
+      '"My brother, you no longer belong to evil" (Hugo 106).'
+    );
+  });
+
+  it('keeps a question or exclamation mark inside the quote', () => {
+    expect(addInTextCitation('“Who am I?”', '(Hugo 212)')).toBe('“Who am I?” (Hugo 212).');
+  });
+
+  it('ends evidence without punctuation with a period', () => {
+    expect(addInTextCitation('he took the candlesticks ', '(Hugo 45)')).toBe('he took the candlesticks (Hugo 45).');
+  });
+});
+
+describe('getWorksCited', () => {
+  it('lists entries alphabetically under the style heading', () => {
+    const worksCited = getWorksCited(withSources([article, website, book]));
+    expect(worksCited?.heading).toBe('Works Cited');
+    expect(worksCited?.entries.map((entry) => citationToText(entry).slice(0, 12))).toEqual([
+      'Hugo, Victor',
+      '“Reading Hug',
+      'Smith, Jane,',
+    ]);
+  });
+
+  it('uses "References" for APA and Chicago', () => {
+    expect(getWorksCited(withSources([book], 'apa'))?.heading).toBe('References');
+    expect(getWorksCited(withSources([book], 'chicago'))?.heading).toBe('References');
+  });
+
+  it('skips sources without a title or author and is null without any', () => {
+    expect(getWorksCited(withSources([createSource()]))).toBeNull();
+    expect(getWorksCited(createEssay())).toBeNull();
+  });
+});
+
+describe('getWorksCitedText', () => {
+  it('puts the heading and each entry on its own line', () => {
+    expect(getWorksCitedText(withSources([book]))).toBe('Works Cited\nHugo, Victor. Les Misérables. Signet, 1987.');
+  });
+
+  it('is empty without sources', () => {
+    expect(getWorksCitedText(createEssay())).toBe('');
+  });
+});
+
+describe('getSourceLabel', () => {
+  it('prefers the title, then the first author', () => {
+    expect(getSourceLabel(book)).toBe('Les Misérables');
+    expect(getSourceLabel({ ...book, title: ' ' })).toBe('Victor Hugo');
+    expect(getSourceLabel(createSource())).toBe('Untitled source');
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Citations - no React or UI dependencies
+ *
+ * Formats an essay's sources as parenthetical in-text citations and as a
+ * Works Cited or reference list, in MLA 9, APA 7 or Chicago author-date.
+ * Citations are lists of parts so exports can italicize titles;
+ * citationToText gives the plain text.
+ */
+import type { CitationStyle, Essay, ProofBlock, Source } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A run of entry text; titles of whole works are italic */
+export interface CitationPart {
+  text: string;
+  italic?: boolean;
+}
+
+export type CitationEntry = CitationPart[];
+
+export interface WorksCited {
+  /** "Works Cited" for MLA, "References" for APA */
+  heading: string;
+  /** Entries in alphabetical order */
+  entries: CitationEntry[];
+}
+
+interface PersonName {
+  given: string;
+  family: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'mla';
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  mla: 'MLA 9',
+  apa: 'APA 7',
+  chicago: 'Chicago author-date',
+};
+
+const HEADINGS: Record<CitationStyle, string> = {
+  mla: 'Works Cited',
+  apa: 'References',
+  chicago: 'References',
+};
+
+/** Words of a title kept in an in-text citation for a source without an author */
+const SHORT_TITLE_WORDS = 4;
+
+const YEAR = /\b\d{4}\b/;
+
+/** Words a shortened title shouldn't end on */
+const TRAILING_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// =============================================================================
+// Formatting Helpers
+// =============================================================================
+
+/**
+ * Split a name as written into given and family names. "Hugo, Victor" puts
+ * the family name first; a single word (e.g. an organization) is all family.
+ */
+function parseName(name: string): PersonName {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (trimmed.includes(',')) {
+    const [family, ...given] = trimmed.split(',');
+    return { family: family.trim(), given: given.join(',').trim() };
+  }
+  const words = trimmed.split(' ');
+  return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') };
+}
+
+const invertedName = ({ given, family }: PersonName): string => (given ? `${family}, ${given}` : family);
+
+const naturalName = ({ given, family }: PersonName): string => (given ? `${given} ${family}` : family);
+
+const initials = (given: string): string =>
+  given
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .map((name) => `${name[0].toUpperCase()}.`)
+    .join(' ');
+
+/** End a piece of an entry with a period, unless it already ends a sentence */
+const terminate = (text: string): string => (/[.!?]["'”’]?$/.test(text) ? text : `${text}.`);
+
+const namedAuthors = (source: Source): string[] => source.authors.map((a) => a.trim()).filter(Boolean);
+
+/** "Hugo, Victor", "Hugo, Victor, and Jane Smith" or "Hugo, Victor, et al." */
+function mlaAuthors(authors: string[]): string {
+  if (authors.length === 0) return '';
+  const first = invertedName(parseName(authors[0]));
+  if (authors.length === 1) return first;
+  if (authors.length === 2) return `${first}, and ${naturalName(parseName(authors[1]))}`;
+  return `${first}, et al.`;
+}
+
+/** "Hugo, V.", "Hugo, V., & Smith, J." or "Hugo, V., Smith, J., & Lee, K." */
+function apaAuthors(authors: string[]): string {
+  const names = authors.map((author) => {
+    const { given, family } = parseName(author);
+    return given ? `${family}, ${initials(given)}` : family;
+  });
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+}
+
+/** "Hugo, Victor", "Hugo, Victor, and Jane Smith" or "Hugo, Victor, Jane Smith, and Ken Lee" */
+function chicagoAuthors(authors: string[]): string {
+  if (authors.length === 0) return '';
+  const first = invertedName(parseName(authors[0]));
+  if (authors.length === 1) return first;
+  const rest = authors.slice(1).map((author) => naturalName(parseName(author)));
+  return `${[first, ...rest.slice(0, -1)].join(', ')}, and ${rest[rest.length - 1]}`;
+}
+
+/** The year of a publication date, e.g. "2010" from "5 March 2010"; the date as typed when it has no year */
+const getYear = (published: string): string => published.match(YEAR)?.[0] ?? published.trim();
+
+/** "(2021, March 12)" from "12 March 2021" or "March 12, 2021"; "(n.d.)" without a year */
+function apaDate(published: string): string {
+  const year = published.match(YEAR)?.[0];
+  if (!year) return `(${published.trim() || 'n.d.'})`;
+  const rest = published.replace(year, '').replace(/,/g, ' ').trim().replace(/\s+/g, ' ');
+  const dayFirst = rest.match(/^(\d{1,2}) (\p{L}+)$/u);
+  const monthDay = dayFirst ? `${dayFirst[2]} ${dayFirst[1]}` : rest;
+  return monthDay ? `(${year}, ${monthDay})` : `(${year})`;
+}
+
+/** Pieces joined with commas; a piece is skipped when empty */
+function listParts(pieces: (CitationPart | string)[]): CitationPart[] {
+  const parts = pieces
+    .map((piece) => (typeof piece === 'string' ? { text: piece.trim() } : { ...piece, text: piece.text.trim() }))
+    .filter((piece) => piece.text);
+  return parts.flatMap((part, i) => (i === 0 ? [part] : [{ text: ', ' }, part]));
+}
+
+/** Join parts into sentences, merging neighboring plain text */
+function joinEntry(sentences: CitationPart[][]): CitationEntry {
+  const entry: CitationEntry = [];
+  sentences
+    .filter((sentence) => sentence.length > 0)
+    .forEach((sentence, i) => {
+      if (i > 0) entry.push({ text: ' ' });
+      const last = sentence[sentence.length - 1];
+      entry.push(...sentence.slice(0, -1), { ...last, text: last.italic ? last.text : terminate(last.text) });
+      if (last.italic && !/[.!?]$/.test(last.text)) entry.push({ text: '.' });
+    });
+  return joinParts(entry);
+}
+
+/** Merge neighboring plain parts, dropping empty ones */
+function joinParts(parts: CitationPart[]): CitationEntry {
+  return parts
+    .filter((part) => part.text)
+    .reduce<CitationEntry>((merged, part) => {
+      const previous = merged[merged.length - 1];
+      if (previous && !previous.italic && !part.italic) {
+        merged[merged.length - 1] = { text: previous.text + part.text };
+      } else {
+        merged.push(part);
+      }
+      return merged;
+    }, []);
+}
+
+function mlaEntry(source: Source): CitationEntry {
+  const authors = mlaAuthors(namedAuthors(source));
+  const title = source.title.trim();
+  const quotedTitle = title && `“${terminate(title)}”`;
+
+  if (source.type === 'book') {
+    return joinEntry([
+      authors ? [{ text: authors }] : [],
+      title ? [{ text: title, italic: true }] : [],
+      listParts([source.container, source.published]),
+    ]);
+  }
+
+  const container = { text: source.container, italic: true };
+  const details =
+    source.type === 'article'
+      ? listParts([container, source.published, source.pages.trim() && `pp. ${source.pages.trim()}`, source.url])
+      : listParts([container, source.published, source.url]);
+  return joinEntry([
+    authors ? [{ text: authors }] : [],
+    quotedTitle ? [{ text: quotedTitle }] : [],
+    details,
+    source.type === 'website' && source.accessed.trim() ? [{ text: `Accessed ${source.accessed.trim()}` }] : [],
+  ]);
+}
+
+function apaEntry(source: Source): CitationEntry {
+  const authors = apaAuthors(namedAuthors(source));
+  const date = apaDate(source.published);
+  const title = source.title.trim();
+  const italicTitle = source.type !== 'article';
+  const titlePart: CitationPart[] = title ? [{ text: title, ...(italicTitle ? { italic: true } : {}) }] : [];
+
+  const details =
+    source.type === 'article'
+      ? listParts([{ text: source.container, italic: true }, source.pages])
+      : listParts([source.container]);
+
+  // Without an author the title takes the author's place
+  const sentences = authors
+    ? [[{ text: authors }], [{ text: date }], titlePart, details]
+    : [titlePart, [{ text: date }], details];
+  const entry = joinEntry(sentences);
+  return source.url.trim() ? [...entry, { text: ` ${source.url.trim()}` }] : entry;
+}
+
+function chicagoEntry(source: Source): CitationEntry {
+  const authors = chicagoAuthors(namedAuthors(source));
+  const year = getYear(source.published) || 'n.d.';
+  const title = source.title.trim();
+  const titlePart: CitationPart[] = !title
+    ? []
+    : source.type === 'book'
+      ? [{ text: title, italic: true }]
+      : [{ text: `“${terminate(title)}”` }];
+
+  const details =
+    source.type === 'article'
+      ? listParts([{ text: source.container, italic: true }, source.pages])
+      : listParts([source.container]);
+  const accessed = source.type === 'website' && source.accessed.trim() ? [{ text: `Accessed ${source.accessed.trim()}` }] : [];
+
+  // Without an author the title takes the author's place
+  const lead = authors ? [[{ text: authors }], [{ text: year }], titlePart] : [titlePart, [{ text: year }]];
+  return joinEntry([...lead, details, accessed, listParts([source.url])]);
+}
+
+/**
+ * Family names as an in-text citation gives them. `etAl` is the number of
+ * authors from which only the first is named.
+ */
+function inTextAuthors(authors: string[], and: string, etAl: number): string {
+  const names = authors.map((author) => parseName(author).family);
+  if (names.length >= etAl) return `${names[0]} et al.`;
+  if (names.length <= 2) return names.join(` ${and} `);
+  return `${names.slice(0, -1).join(', ')}, ${and} ${names[names.length - 1]}`;
+}
+
+/**
+ * A title shortened for an in-text citation: its main title (before any
+ * subtitle), cut to its first few words
+ */
+function shortTitle(title: string): string {
+  const main = title.split(/[:?!]/)[0].trim() || title.trim();
+  const words = main.split(/\s+/);
+  if (words.length <= SHORT_TITLE_WORDS) return main;
+  const kept = words.slice(0, SHORT_TITLE_WORDS);
+  while (kept.length > 1 && TRAILING_WORDS.has(kept[kept.length - 1].toLowerCase())) kept.pop();
+  return kept.join(' ');
+}
+
+/**
+ * The title standing in for a missing author: italic for a book (and in APA,
+ * anything but an article), in quotes otherwise. `comma` is tucked inside
+ * the closing quote, as American usage wants.
+ */
+function titleInText(source: Source, style: CitationStyle, comma: boolean): CitationPart[] {
+  const title = shortTitle(source.title);
+  const italic = source.type === 'book' || (style === 'apa' && source.type !== 'article');
+  if (italic) return [{ text: title, italic: true }, ...(comma ? [{ text: ',' }] : [])];
+  return [{ text: `“${title}${comma ? ',' : ''}”` }];
+}
+
+const apaPage = (page: string): string => (/[-–,]/.test(page) ? `pp. ${page}` : `p. ${page}`);
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/** Short name for a source in pickers: its title, else its first author */
+export const getSourceLabel = (source: Source): string =>
+  source.title.trim() || namedAuthors(source)[0] || 'Untitled source';
+
+export const getCitationStyle = (essay: Essay): CitationStyle => essay.citationStyle ?? DEFAULT_CITATION_STYLE;
+
+export const citationToText = (entry: CitationEntry): string => entry.map((part) => part.text).join('');
+
+/**
+ * One source as a Works Cited (MLA) or reference list (APA, Chicago) entry
+ */
+export function formatSource(source: Source, style: CitationStyle): CitationEntry {
+  if (style === 'apa') return apaEntry(source);
+  if (style === 'chicago') return chicagoEntry(source);
+  return mlaEntry(source);
+}
+
+/**
+ * Parenthetical citation for evidence from a source, e.g. "(Hugo 45)" in
+ * MLA, "(Hugo, 1987, p. 45)" in APA or "(Hugo 1987, 45)" in Chicago. The
+ * (shortened) title stands in for a missing author and "n.d." for a missing
+ * date. Null for a source without a title or author.
+ */
+export function formatInTextCitation(source: Source, style: CitationStyle, page = ''): CitationEntry | null {
+  const authors = namedAuthors(source);
+  if (authors.length === 0 && !source.title.trim()) return null;
+  const trimmedPage = page.trim();
+  const year = getYear(source.published);
+
+  let parts: CitationPart[];
+  if (style === 'apa') {
+    // (Author, Year, p. 4)
+    const who = authors.length > 0 ? [{ text: `${inTextAuthors(authors, '&', 3)},` }] : titleInText(source, style, true);
+    parts = [...who, { text: ` ${year || 'n.d.'}${trimmedPage ? `, ${apaPage(trimmedPage)}` : ''}` }];
+  } else if (style === 'chicago') {
+    // (Author Year, 4), or (Author, n.d., 4) without a date
+    const who = authors.length > 0 ? [{ text: inTextAuthors(authors, 'and', 4) }] : titleInText(source, style, !year);
+    const when = year ? ` ${year}` : authors.length > 0 ? ', n.d.' : ' n.d.';
+    parts = [...who, { text: `${when}${trimmedPage ? `, ${trimmedPage}` : ''}` }];
+  } else {
+    // (Author 4)
+    const who = authors.length > 0 ? [{ text: inTextAuthors(authors, 'and', 3) }] : titleInText(source, style, false);
+    parts = [...who, { text: trimmedPage ? ` ${trimmedPage}` : '' }];
+  }
+  return joinParts([{ text: '(' }, ...parts, { text: ')' }]);
+}
+
+/**
+ * In-text citation for a proof block's evidence as plain text, or null when
+ * it cites no source (or one not filled in yet)
+ */
+export function getProofBlockCitation(proofBlock: ProofBlock, sources: Source[], style: CitationStyle): string | null {
+  const source = sources.find((s) => s.id === proofBlock.sourceId);
+  const citation = source && formatInTextCitation(source, style, proofBlock.page);
+  return citation ? citationToText(citation) : null;
+}
+
+/**
+ * Evidence with its in-text citation, which goes after the closing quote
+ * mark and before the sentence's final period
+ */
+export function addInTextCitation(text: string, citation: string): string {
+  const [, body, mark, closers] = text.trim().match(/^([\s\S]*?)([.!?]?)(["'”’]*)$/) ?? [];
+  // A question or exclamation stays inside the quote; a period moves after the citation
+  return mark === '?' || mark === '!' ? `${body}${mark}${closers} ${citation}.` : `${body}${closers} ${citation}.`;
+}
+
+/**
+ * The essay's sources as a Works Cited list in its citation style, sorted
+ * alphabetically; null when no source has a title or author yet
+ */
+export function getWorksCited(essay: Essay): WorksCited | null {
+  // Sources without a title or author are still being filled in
+  const sources = (essay.sources ?? []).filter((s) => s.title.trim() || namedAuthors(s).length > 0);
+  if (sources.length === 0) return null;
+  const style = getCitationStyle(essay);
+  const sortKey = (entry: CitationEntry) => citationToText(entry).replace(/^[“"']/, '').toLowerCase();
+  const entries = sources
+    .map((source) => formatSource(source, style))
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  return { heading: HEADINGS[style], entries };
+}
+
+/**
+ * The Works Cited list as plain text: the heading, then one entry per line
+ */
+export function getWorksCitedText(essay: Essay): string {
+  const worksCited = getWorksCited(essay);
+  return worksCited ? [worksCited.heading, ...worksCited.entries.map(citationToText)].join('\n') : '';
+}
@@ -10,7 +10,13 @@ import { nanoid } from 'nanoid';
 /**
  * The type of block that a comment is attached to
  */
-export type BlockType = 'claim' | 'bodyParagraph' | 'proofBlock' | 'intro' | 'conclusion';
+export type BlockType =
+  | 'claim'
+  | 'bodyParagraph'
+  | 'proofBlock'
+  | 'intro'
+  | 'counterargument'
+  | 'conclusion';
 
 /**
  * A single comment on an essay block
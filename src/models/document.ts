@@ -46,6 +46,24 @@ export interface EssayDocument {
   createdAt?: Date;
   sharing?: SharingInfo;
   ownerUid?: string;
+  /** Set while the essay is in the trash */
+  trashedAt?: Date;
+}
+
+export type TrashedEssayDocument = EssayDocument & { trashedAt: Date };
+
+/** An essay left out of a listing because its stored data cannot be read */
+export interface UnreadableEssay {
+  id: string;
+  title: string;
+  /** What is wrong with the data */
+  error: string;
+}
+
+export interface EssayList {
+  essays: EssayDocument[];
+  /** Essays that exist but could not be read, so they can be reported rather than vanish */
+  unreadable: UnreadableEssay[];
 }
 
 export interface SharedEssayRef {
@@ -12,8 +12,23 @@ import {
   addProofBlock,
   updateProofBlock,
   removeProofBlock,
+  moveClaim,
+  moveBodyParagraph,
+  moveProofBlock,
+  addCounterargument,
+  removeCounterargument,
+  updateCounterargument,
+  setWordLimits,
+  createSource,
+  addSource,
+  updateSource,
+  removeSource,
+  setProofBlockSource,
+  setCitationStyle,
+  createCounterargument,
   updateConclusion,
   getClaimById,
+  getEssayParagraphs,
   getFullEssayText,
   generateId,
   type Essay,
@@ -272,6 +287,121 @@ describe('Pure Transformation Functions', () => {
     });
   });
 
+  describe('moveClaim', () => {
+    it('moves a claim and keeps body paragraphs in claim order', () => {
+      const essay = createTestEssay();
+      const updated = moveClaim(essay, 'claim-2', 0);
+      expect(updated.intro.claims.map((c) => c.id)).toEqual(['claim-2', 'claim-1']);
+      expect(updated.bodyParagraphs.map((bp) => bp.id)).toEqual(['body-2', 'body-1']);
+      expect(updated.bodyParagraphs.map((bp) => bp.provingClaimId)).toEqual(['claim-2', 'claim-1']);
+    });
+
+    it('clamps the target index', () => {
+      const essay = createTestEssay();
+      const updated = moveClaim(essay, 'claim-1', 10);
+      expect(updated.intro.claims.map((c) => c.id)).toEqual(['claim-2', 'claim-1']);
+    });
+
+    it('returns the same essay when nothing moves', () => {
+      const essay = createTestEssay();
+      expect(moveClaim(essay, 'claim-1', 0)).toBe(essay);
+      expect(moveClaim(essay, 'missing', 1)).toBe(essay);
+    });
+
+    it('keeps body paragraphs without a claim at the end', () => {
+      const essay = createTestEssay();
+      const orphan = { ...essay.bodyParagraphs[0], id: 'body-orphan', provingClaimId: 'gone' };
+      const withOrphan = { ...essay, bodyParagraphs: [orphan, ...essay.bodyParagraphs] };
+      const updated = moveClaim(withOrphan, 'claim-2', 0);
+      expect(updated.bodyParagraphs.map((bp) => bp.id)).toEqual(['body-2', 'body-1', 'body-orphan']);
+    });
+
+    it('does not mutate the original essay', () => {
+      const essay = createTestEssay();
+      moveClaim(essay, 'claim-2', 0);
+      expect(essay.intro.claims[0].id).toBe('claim-1');
+      expect(essay.bodyParagraphs[0].id).toBe('body-1');
+    });
+  });
+
+  describe('moveBodyParagraph', () => {
+    it('moves a body paragraph and reorders claims to match', () => {
+      const essay = createTestEssay();
+      const updated = moveBodyParagraph(essay, 'body-1', 1);
+      expect(updated.bodyParagraphs.map((bp) => bp.id)).toEqual(['body-2', 'body-1']);
+      expect(updated.intro.claims.map((c) => c.id)).toEqual(['claim-2', 'claim-1']);
+    });
+
+    it('keeps body content and claim links intact', () => {
+      const essay = createTestEssay();
+      const updated = moveBodyParagraph(essay, 'body-2', 0);
+      expect(updated.bodyParagraphs[0]).toBe(essay.bodyParagraphs[1]);
+      expect(getClaimById(updated, updated.bodyParagraphs[0].provingClaimId)?.text).toBe('Second claim');
+    });
+
+    it('returns the same essay when nothing moves', () => {
+      const essay = createTestEssay();
+      expect(moveBodyParagraph(essay, 'body-2', 1)).toBe(essay);
+      expect(moveBodyParagraph(essay, 'missing', 0)).toBe(essay);
+    });
+  });
+
+  describe('moveProofBlock', () => {
+    it('reorders proof blocks within a body paragraph', () => {
+      const essay = createTestEssay();
+      const updated = moveProofBlock(essay, 'body-1', 'proof-2', 0);
+      expect(updated.bodyParagraphs[0].proofBlocks.map((pb) => pb.id)).toEqual(['proof-2', 'proof-1']);
+      expect(updated.bodyParagraphs[1]).toBe(essay.bodyParagraphs[1]);
+    });
+
+    it('ignores proof blocks from another body paragraph', () => {
+      const essay = createTestEssay();
+      expect(moveProofBlock(essay, 'body-1', 'proof-3', 0)).toBe(essay);
+    });
+
+    it('returns the same essay when nothing moves', () => {
+      const essay = createTestEssay();
+      expect(moveProofBlock(essay, 'body-1', 'proof-1', 0)).toBe(essay);
+      expect(moveProofBlock(essay, 'missing', 'proof-1', 1)).toBe(essay);
+    });
+  });
+
+  describe('counterargument', () => {
+    it('is not part of a new essay', () => {
+      expect(createEssay().counterargument).toBeUndefined();
+    });
+
+    it('adds an empty counterargument section', () => {
+      const updated = addCounterargument(createTestEssay());
+      expect(updated.counterargument).toEqual(createCounterargument());
+    });
+
+    it('does not replace an existing counterargument', () => {
+      const essay = addCounterargument(createTestEssay());
+      const withText = updateCounterargument(essay, 'rebuttal', 'But...');
+      expect(addCounterargument(withText)).toBe(withText);
+    });
+
+    it('updates a counterargument field', () => {
+      const essay = addCounterargument(createTestEssay());
+      const updated = updateCounterargument(essay, 'opposingView', 'Others say');
+      expect(updated.counterargument?.opposingView).toBe('Others say');
+      expect(updated.counterargument?.concession).toBe('');
+    });
+
+    it('ignores updates when there is no counterargument', () => {
+      const essay = createTestEssay();
+      expect(updateCounterargument(essay, 'rebuttal', 'x')).toBe(essay);
+    });
+
+    it('removes the section without leaving an undefined key', () => {
+      const essay = addCounterargument(createTestEssay());
+      const updated = removeCounterargument(essay);
+      expect('counterargument' in updated).toBe(false);
+      expect(removeCounterargument(updated)).toBe(updated);
+    });
+  });
+
   describe('updateConclusion', () => {
     it('updates the restatement field', () => {
       const essay = createTestEssay();
@@ -286,6 +416,63 @@ describe('Pure Transformation Functions', () => {
       expect(updated.conclusion.soWhat).toBe('New so what');
     });
   });
+
+  describe('setWordLimits', () => {
+    it('keeps positive limits only', () => {
+      const updated = setWordLimits(createTestEssay(), { essay: 800, paragraph: 0 });
+      expect(updated.wordLimits).toEqual({ essay: 800 });
+    });
+
+    it('drops the setting when no limit is left', () => {
+      const limited = setWordLimits(createTestEssay(), { essay: 800 });
+      expect(setWordLimits(limited, { essay: undefined })).not.toHaveProperty('wordLimits');
+    });
+  });
+
+  describe('sources', () => {
+    const withSource = () => addSource(createTestEssay(), { ...createSource(), id: 'source-1', title: 'Les Misérables' });
+
+    it('adds a blank book by default', () => {
+      const updated = addSource(createTestEssay());
+      expect(updated.sources).toEqual([
+        { id: 'test-id', type: 'book', authors: [], title: '', container: '', published: '', pages: '', url: '', accessed: '' },
+      ]);
+    });
+
+    it('updates the fields of one source', () => {
+      const updated = updateSource(withSource(), 'source-1', { authors: ['Victor Hugo'], published: '1862' });
+      expect(updated.sources?.[0]).toMatchObject({ title: 'Les Misérables', authors: ['Victor Hugo'], published: '1862' });
+    });
+
+    it('cites a source and page for a proof block', () => {
+      const updated = setProofBlockSource(withSource(), 'body-1', 'proof-1', 'source-1', '45');
+      expect(updated.bodyParagraphs[0].proofBlocks[0]).toMatchObject({ sourceId: 'source-1', page: '45' });
+      expect(updated.bodyParagraphs[0].proofBlocks[1]).not.toHaveProperty('sourceId');
+    });
+
+    it('leaves out a blank page and drops the citation for a null source', () => {
+      const cited = setProofBlockSource(withSource(), 'body-1', 'proof-1', 'source-1', ' ');
+      expect(cited.bodyParagraphs[0].proofBlocks[0]).not.toHaveProperty('page');
+      const uncited = setProofBlockSource(cited, 'body-1', 'proof-1', null);
+      expect(uncited.bodyParagraphs[0].proofBlocks[0]).not.toHaveProperty('sourceId');
+    });
+
+    it('removes a source with its citations and drops the empty list', () => {
+      const cited = setProofBlockSource(withSource(), 'body-1', 'proof-1', 'source-1', '45');
+      const updated = removeSource(cited, 'source-1');
+      expect(updated).not.toHaveProperty('sources');
+      expect(updated.bodyParagraphs[0].proofBlocks[0]).toEqual({
+        id: 'proof-1',
+        quote: 'Quote 1',
+        analysis: 'Analysis 1',
+        connection: 'Connection 1',
+      });
+    });
+
+    it('sets the citation style', () => {
+      expect(setCitationStyle(createTestEssay(), 'apa').citationStyle).toBe('apa');
+    });
+  });
 });
 
 describe('Query Functions', () => {
@@ -353,6 +540,12 @@ describe('Query Functions', () => {
       expect(text).toBe('Intro paragraph\n\nBody 2\n\nConclusion');
     });
 
+    it('places the counterargument between the body and the conclusion', () => {
+      const essay = { ...createTestEssay(), counterargument: { ...createCounterargument(), paragraph: 'Counter' } };
+      const text = getFullEssayText(essay);
+      expect(text).toBe('Intro paragraph\n\nBody 1\n\nBody 2\n\nCounter\n\nConclusion');
+    });
+
     it('trims whitespace from paragraphs', () => {
       const essay = createTestEssay();
       essay.intro.paragraph = '  Intro with spaces  ';
@@ -370,5 +563,25 @@ describe('Query Functions', () => {
       const text = getFullEssayText(essay);
       expect(text).toBe('');
     });
+
+    it('appends the Works Cited list after the conclusion', () => {
+      const essay: Essay = {
+        ...createTestEssay(),
+        sources: [{ ...createSource(), authors: ['Victor Hugo'], title: 'Les Misérables', container: 'Signet', published: '1987' }],
+      };
+      const text = getFullEssayText(essay);
+      expect(text).toBe(
+        'Intro paragraph\n\nBody 1\n\nBody 2\n\nConclusion\n\nWorks Cited\nHugo, Victor. Les Misérables. Signet, 1987.'
+      );
+    });
+  });
+
+  describe('getEssayParagraphs', () => {
+    it('lists the written paragraphs in reading order, keeping line breaks inside them', () => {
+      const essay = createTestEssay();
+      essay.bodyParagraphs[0].paragraph = ' Line one\nLine two ';
+      essay.bodyParagraphs[1].paragraph = '   ';
+      expect(getEssayParagraphs(essay)).toEqual(['Intro paragraph', 'Line one\nLine two', 'Conclusion']);
+    });
   });
 });
@@ -2,6 +2,7 @@
  * Pure essay data model - no React or UI dependencies
  */
 import { nanoid } from 'nanoid';
+import { getWorksCitedText } from './citation';
 
 // =============================================================================
 // Types
@@ -12,8 +13,38 @@ export interface ProofBlock {
   quote: string;
   analysis: string;
   connection: string;
+  /** Source the evidence comes from, from the essay's sources */
+  sourceId?: string;
+  /** Page (or pages) of the evidence in its source */
+  page?: string;
 }
 
+export const SOURCE_TYPES = ['book', 'article', 'website'] as const;
+
+export type SourceType = (typeof SOURCE_TYPES)[number];
+
+/** A work the essay draws evidence from, listed in its Works Cited */
+export interface Source {
+  id: string;
+  type: SourceType;
+  /** Each author as written, e.g. "Victor Hugo"; empty when there is no author */
+  authors: string[];
+  title: string;
+  /** Publisher of a book, journal or magazine of an article, name of a website */
+  container: string;
+  /** Year or full date of publication */
+  published: string;
+  /** Page range of an article in its journal */
+  pages: string;
+  url: string;
+  /** When a website was visited */
+  accessed: string;
+}
+
+export const CITATION_STYLES = ['mla', 'apa', 'chicago'] as const;
+
+export type CitationStyle = (typeof CITATION_STYLES)[number];
+
 export interface Claim {
   id: string;
   text: string;
@@ -36,15 +67,39 @@ export interface BodyParagraph {
   paragraph: string;
 }
 
+export interface Counterargument {
+  opposingView: string;
+  concession: string;
+  rebuttal: string;
+  paragraph: string;
+}
+
 export interface Conclusion {
   restatement: string;
   soWhat: string;
   paragraph: string;
 }
 
+/** Assignment word limits; a missing limit means no limit */
+export interface WordLimits {
+  /** Words in the whole essay */
+  essay?: number;
+  /** Words in any one paragraph */
+  paragraph?: number;
+}
+
 export interface Essay {
+  /** Template the essay was created from; missing means the argument template */
+  templateId?: string;
+  wordLimits?: WordLimits;
+  /** Works the evidence comes from; missing means none yet */
+  sources?: Source[];
+  /** Style of the Works Cited list; missing means MLA */
+  citationStyle?: CitationStyle;
   intro: Intro;
   bodyParagraphs: BodyParagraph[];
+  /** Optional counterclaim paragraph, placed between the body and the conclusion */
+  counterargument?: Counterargument;
   conclusion: Conclusion;
 }
 
@@ -75,6 +130,25 @@ export const createBodyParagraph = (claim: Claim): BodyParagraph => ({
   paragraph: '',
 });
 
+export const createSource = (type: SourceType = 'book'): Source => ({
+  id: generateId(),
+  type,
+  authors: [],
+  title: '',
+  container: '',
+  published: '',
+  pages: '',
+  url: '',
+  accessed: '',
+});
+
+export const createCounterargument = (): Counterargument => ({
+  opposingView: '',
+  concession: '',
+  rebuttal: '',
+  paragraph: '',
+});
+
 export const createEssay = (): Essay => {
   const claim1 = createClaim('');
   return {
@@ -205,6 +279,116 @@ export const removeProofBlock = (
   }),
 });
 
+const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, item);
+  return next;
+};
+
+const clampIndex = (index: number, length: number): number =>
+  Math.max(0, Math.min(index, length - 1));
+
+/**
+ * Sort `items` to follow the order of `order`, keeping items whose key is not
+ * in `order` at the end in their original relative order
+ */
+const sortByOrder = <T>(items: T[], order: string[], key: (item: T) => string): T[] => {
+  const rank = (item: T) => {
+    const index = order.indexOf(key(item));
+    return index === -1 ? order.length : index;
+  };
+  return [...items].sort((a, b) => rank(a) - rank(b));
+};
+
+/**
+ * Move a claim to a new position. Body paragraphs are reordered to match,
+ * so Body N keeps proving Claim N.
+ */
+export const moveClaim = (essay: Essay, claimId: string, toIndex: number): Essay => {
+  const { claims } = essay.intro;
+  const fromIndex = claims.findIndex((c) => c.id === claimId);
+  const target = clampIndex(toIndex, claims.length);
+  if (fromIndex === -1 || fromIndex === target) return essay;
+
+  const movedClaims = moveItem(claims, fromIndex, target);
+  return {
+    ...essay,
+    intro: { ...essay.intro, claims: movedClaims },
+    bodyParagraphs: sortByOrder(
+      essay.bodyParagraphs,
+      movedClaims.map((c) => c.id),
+      (bp) => bp.provingClaimId
+    ),
+  };
+};
+
+/**
+ * Move a body paragraph to a new position. Claims are reordered to match,
+ * so the intro lists claims in the order they are argued.
+ */
+export const moveBodyParagraph = (essay: Essay, bodyId: string, toIndex: number): Essay => {
+  const { bodyParagraphs } = essay;
+  const fromIndex = bodyParagraphs.findIndex((bp) => bp.id === bodyId);
+  const target = clampIndex(toIndex, bodyParagraphs.length);
+  if (fromIndex === -1 || fromIndex === target) return essay;
+
+  const movedBodies = moveItem(bodyParagraphs, fromIndex, target);
+  return {
+    ...essay,
+    intro: {
+      ...essay.intro,
+      claims: sortByOrder(
+        essay.intro.claims,
+        movedBodies.map((bp) => bp.provingClaimId),
+        (c) => c.id
+      ),
+    },
+    bodyParagraphs: movedBodies,
+  };
+};
+
+export const moveProofBlock = (
+  essay: Essay,
+  bodyId: string,
+  proofBlockId: string,
+  toIndex: number
+): Essay => {
+  const body = essay.bodyParagraphs.find((bp) => bp.id === bodyId);
+  if (!body) return essay;
+  const fromIndex = body.proofBlocks.findIndex((pb) => pb.id === proofBlockId);
+  const target = clampIndex(toIndex, body.proofBlocks.length);
+  if (fromIndex === -1 || fromIndex === target) return essay;
+
+  return {
+    ...essay,
+    bodyParagraphs: essay.bodyParagraphs.map((bp) =>
+      bp.id === bodyId
+        ? { ...bp, proofBlocks: moveItem(bp.proofBlocks, fromIndex, target) }
+        : bp
+    ),
+  };
+};
+
+export const addCounterargument = (essay: Essay): Essay =>
+  essay.counterargument ? essay : { ...essay, counterargument: createCounterargument() };
+
+export const removeCounterargument = (essay: Essay): Essay => {
+  if (!essay.counterargument) return essay;
+  // Drop the key rather than setting it to undefined, which Firestore rejects
+  const { counterargument: _counterargument, ...rest } = essay;
+  return rest;
+};
+
+export const updateCounterargument = (
+  essay: Essay,
+  field: keyof Counterargument,
+  value: string
+): Essay =>
+  essay.counterargument
+    ? { ...essay, counterargument: { ...essay.counterargument, [field]: value } }
+    : essay;
+
 export const updateConclusion = (
   essay: Essay,
   field: keyof Conclusion,
@@ -214,6 +398,80 @@ export const updateConclusion = (
   conclusion: { ...essay.conclusion, [field]: value },
 });
 
+/**
+ * Set the assignment word limits. Limits that are not positive are dropped,
+ * and so is the whole setting when no limit is left, as Firestore rejects
+ * undefined values.
+ */
+export const setWordLimits = (essay: Essay, limits: WordLimits): Essay => {
+  const { wordLimits: _wordLimits, ...rest } = essay;
+  const kept = Object.fromEntries(
+    Object.entries(limits).filter(([, limit]) => typeof limit === 'number' && limit > 0)
+  ) as WordLimits;
+  return Object.keys(kept).length > 0 ? { ...rest, wordLimits: kept } : rest;
+};
+
+export const addSource = (essay: Essay, source: Source = createSource()): Essay => ({
+  ...essay,
+  sources: [...(essay.sources ?? []), source],
+});
+
+export const updateSource = (
+  essay: Essay,
+  sourceId: string,
+  fields: Partial<Omit<Source, 'id'>>
+): Essay => ({
+  ...essay,
+  sources: (essay.sources ?? []).map((s) => (s.id === sourceId ? { ...s, ...fields } : s)),
+});
+
+/**
+ * Remove a source and its citations from proof blocks. The sources list is
+ * dropped with the last source, as Firestore rejects undefined values.
+ */
+export const removeSource = (essay: Essay, sourceId: string): Essay => {
+  const { sources: _sources, ...rest } = essay;
+  const sources = (essay.sources ?? []).filter((s) => s.id !== sourceId);
+  return {
+    ...rest,
+    ...(sources.length > 0 ? { sources } : {}),
+    bodyParagraphs: essay.bodyParagraphs.map((bp) => ({
+      ...bp,
+      proofBlocks: bp.proofBlocks.map((pb) => (pb.sourceId === sourceId ? withoutCitation(pb) : pb)),
+    })),
+  };
+};
+
+const withoutCitation = ({ sourceId: _sourceId, page: _page, ...proofBlock }: ProofBlock): ProofBlock => proofBlock;
+
+/**
+ * Cite a source (and page) for a proof block's evidence; a null source
+ * removes the citation
+ */
+export const setProofBlockSource = (
+  essay: Essay,
+  bodyId: string,
+  proofBlockId: string,
+  sourceId: string | null,
+  page = ''
+): Essay => ({
+  ...essay,
+  bodyParagraphs: essay.bodyParagraphs.map((bp) =>
+    bp.id === bodyId
+      ? {
+          ...bp,
+          proofBlocks: bp.proofBlocks.map((pb) => {
+            if (pb.id !== proofBlockId) return pb;
+            if (sourceId === null) return withoutCitation(pb);
+            return { ...withoutCitation(pb), sourceId, ...(page.trim() ? { page } : {}) };
+          }),
+        }
+      : bp
+  ),
+});
+
+export const setCitationStyle = (essay: Essay, citationStyle: CitationStyle): Essay => ({ ...essay, citationStyle });
+
 // =============================================================================
 // Query Functions
 // =============================================================================
@@ -221,12 +479,21 @@ export const updateConclusion = (
 export const getClaimById = (essay: Essay, claimId: string): Claim | undefined =>
   essay.intro.claims.find((c) => c.id === claimId);
 
-export const getFullEssayText = (essay: Essay): string =>
+/**
+ * The written paragraphs in reading order, trimmed, skipping empty ones
+ */
+export const getEssayParagraphs = (essay: Essay): string[] =>
   [
     essay.intro.paragraph,
     ...essay.bodyParagraphs.map((b) => b.paragraph),
+    essay.counterargument?.paragraph,
     essay.conclusion.paragraph,
   ]
     .map((p) => p?.trim())
-    .filter(Boolean)
-    .join('\n\n');
+    .filter((p): p is string => !!p);
+
+/**
+ * The written paragraphs, followed by the Works Cited list when the essay has sources
+ */
+export const getFullEssayText = (essay: Essay): string =>
+  [...getEssayParagraphs(essay), getWorksCitedText(essay)].filter(Boolean).join('\n\n');
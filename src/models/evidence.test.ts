@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { checkEvidence, getEvidenceLabel, matchQuote } from './evidence';
+import { createBodyParagraph, createClaim, createProofBlock, type BodyParagraph } from './essay';
+
+const QUOTE = 'He had no bread to eat, and so he took a loaf from the baker.';
+
+describe('matchQuote', () => {
+  it('finds a quote regardless of case, punctuation and quote marks', () => {
+    const paragraph = `Hugo opens with hunger: “he had no bread to eat — and so he took a loaf from the baker” (Hugo 54).`;
+    expect(matchQuote(QUOTE, paragraph)).toEqual({ status: 'used', similarity: 1 });
+  });
+
+  it('lets an ellipsis in the paragraph leave out words', () => {
+    const paragraph = 'Valjean "had no bread . . . so he took a loaf from the baker."';
+    expect(matchQuote(QUOTE, paragraph)?.status).toBe('used');
+  });
+
+  it('lets an ellipsis in the quote skip words of the paragraph', () => {
+    const paragraph = 'He had no bread to eat for his sister and her seven children, and so he took a loaf from the baker.';
+    expect(matchQuote('He had no bread to eat … and so he took a loaf', paragraph)?.status).toBe('used');
+  });
+
+  it('accepts bracketed edits in place of the original words', () => {
+    const paragraph = 'We learn that "[Valjean] had no bread to eat, and so [he stole] a loaf from the baker."';
+    expect(matchQuote(QUOTE, paragraph)?.status).toBe('used');
+  });
+
+  it('flags a quote reproduced with changed words as misquoted', () => {
+    const paragraph = 'He "had no food to eat, so he stole a loaf from the baker."';
+    const match = matchQuote(QUOTE, paragraph);
+    expect(match?.status).toBe('misquoted');
+    expect(match?.similarity).toBeGreaterThanOrEqual(0.5);
+    expect(match?.similarity).toBeLessThan(1);
+  });
+
+  it('reports a quote the paragraph never uses', () => {
+    const paragraph = 'Valjean steals because his family is starving, and the law punishes him harshly.';
+    expect(matchQuote(QUOTE, paragraph)?.status).toBe('unused');
+  });
+
+  it('does not let an ellipsis alone stand in for the whole quote', () => {
+    expect(matchQuote(QUOTE, 'Hugo writes ". . ." and moves on.')?.status).toBe('unused');
+  });
+
+  it('is null for a quote without words', () => {
+    expect(matchQuote(' … ', 'Anything')).toBeNull();
+  });
+});
+
+describe('checkEvidence', () => {
+  const makeBody = (paragraph: string, quotes: string[]): BodyParagraph => ({
+    ...createBodyParagraph(createClaim()),
+    paragraph,
+    proofBlocks: quotes.map((quote, i) => ({ ...createProofBlock(), id: `p${i + 1}`, quote })),
+  });
+
+  it('checks each proof block with a quote and counts the ones used', () => {
+    const body = makeBody('The bishop says "my brother, you no longer belong to evil" and means it.', [
+      'My brother, you no longer belong to evil.',
+      '',
+      'Javert jumps from a bridge.',
+    ]);
+
+    expect(checkEvidence(body)).toEqual({
+      checks: [
+        { proofBlockId: 'p1', status: 'used', similarity: 1 },
+        { proofBlockId: 'p3', status: 'unused', similarity: 0 },
+      ],
+      used: 1,
+    });
+  });
+
+  it('is null until the paragraph is written', () => {
+    expect(checkEvidence(makeBody('  ', ['My brother']))).toBeNull();
+  });
+
+  it('is null without quotes to check', () => {
+    expect(checkEvidence(makeBody('A written paragraph.', ['']))).toBeNull();
+  });
+});
+
+describe('getEvidenceLabel', () => {
+  it('describes each status', () => {
+    expect(getEvidenceLabel('unused')).toBe('Not in paragraph');
+  });
+});
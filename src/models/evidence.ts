@@ -0,0 +1,158 @@
+/**
+ * Evidence coverage - no React or UI dependencies
+ *
+ * Checks that each proof block's quote actually made it into its body
+ * paragraph. Matching is word by word and forgiving: case, punctuation and
+ * quote marks are ignored, an ellipsis or a [bracketed edit] on either side
+ * may stand in for any run of words, and quoting just part of the evidence
+ * is fine as long as it is at least half of it.
+ */
+import type { BodyParagraph } from './essay';
+import { getWords } from './stats';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * - used: at least half of the quote appears in the paragraph word for word,
+ *   allowing for ellipses and bracketed edits
+ * - misquoted: it appears, but with words changed, added or missing
+ * - unused: the paragraph doesn't quote it
+ */
+export type EvidenceStatus = 'used' | 'misquoted' | 'unused';
+
+export interface QuoteMatch {
+  status: EvidenceStatus;
+  /** Share of the quote's words the paragraph reproduces, less changes; 0-1 */
+  similarity: number;
+}
+
+export interface EvidenceCheck extends QuoteMatch {
+  proofBlockId: string;
+}
+
+export interface EvidenceCoverage {
+  /** One check per proof block with a quote, in proof block order */
+  checks: EvidenceCheck[];
+  used: number;
+}
+
+/** A word, or null for an ellipsis or bracketed edit */
+type Token = string | null;
+
+interface Alignment {
+  /** Matched words less changed, added and missing ones */
+  score: number;
+  matches: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Similarity from which a quote that doesn't match exactly counts as misquoted */
+export const MISQUOTE_SIMILARITY = 0.5;
+
+const EVIDENCE_LABELS: Record<EvidenceStatus, string> = {
+  used: 'Quoted',
+  misquoted: 'Misquoted',
+  unused: 'Not in paragraph',
+};
+
+// Bracketed edits, ellipses (… or ... or . . .) and words with inner apostrophes
+const TOKEN_PATTERN = /\[[^\]]*\]|\.\s?\.\s?\.|…|[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/** Lowercase words with straight apostrophes; runs of gaps become one */
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(TOKEN_PATTERN)]
+    .map(([token]): Token => (/^[\p{L}\p{N}]/u.test(token) ? token.toLowerCase().replace(/’/g, "'") : null))
+    .filter((token, i, tokens) => token !== null || (i > 0 && tokens[i - 1] !== null));
+}
+
+const better = (a: Alignment, b: Alignment): boolean =>
+  b.score > a.score || (b.score === a.score && b.matches > a.matches);
+
+/**
+ * Best alignment of any stretch of the quote with any stretch of the
+ * paragraph. Matching words score one and every changed, added or missing
+ * word in between costs one, except where a gap on either side absorbs it.
+ */
+function alignQuote(quote: Token[], paragraph: Token[]): Alignment {
+  const n = quote.length;
+  const m = paragraph.length;
+  // best[i][j]: alignments ending before quote token i and paragraph token j.
+  // Every cell starts empty: both stretches may start anywhere.
+  const best: Alignment[][] = Array.from({ length: n + 1 }, () =>
+    Array.from({ length: m + 1 }, () => ({ score: 0, matches: 0 }))
+  );
+  const offer = (i: number, j: number, alignment: Alignment) => {
+    if (better(best[i][j], alignment)) best[i][j] = alignment;
+  };
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      const current = best[i][j];
+      const q = i < n ? quote[i] : undefined;
+      const p = j < m ? paragraph[j] : undefined;
+      const { score, matches } = current;
+
+      if (q === null) {
+        // The quote's gap ends here or swallows a paragraph token
+        offer(i + 1, j, current);
+        if (p !== undefined) offer(i, j + 1, current);
+      }
+      if (p === null) {
+        // The paragraph's gap ends here or stands in for a quote word
+        offer(i, j + 1, current);
+        if (q) offer(i + 1, j, current);
+      }
+      if (q && p) {
+        offer(i + 1, j + 1, q === p ? { score: score + 1, matches: matches + 1 } : { score: score - 1, matches });
+      }
+      if (q) offer(i + 1, j, { score: score - 1, matches });
+      if (p) offer(i, j + 1, { score: score - 1, matches });
+    }
+  }
+
+  // ...and end anywhere
+  return best.flat().reduce((top, alignment) => (better(top, alignment) ? alignment : top));
+}
+
+/**
+ * How faithfully a paragraph reproduces a quote; null for a quote without
+ * words
+ */
+export function matchQuote(quote: string, paragraph: string): QuoteMatch | null {
+  const quoteTokens = tokenize(quote);
+  const words = quoteTokens.filter((token) => token !== null).length;
+  if (words === 0) return null;
+
+  const { score, matches } = alignQuote(quoteTokens, tokenize(paragraph));
+  const similarity = Math.max(0, score) / words;
+  const exact = score === matches && similarity >= MISQUOTE_SIMILARITY;
+  return {
+    status: exact ? 'used' : similarity >= MISQUOTE_SIMILARITY ? 'misquoted' : 'unused',
+    similarity,
+  };
+}
+
+/**
+ * Whether each proof block's quote appears in the body paragraph; null until
+ * there is both a written paragraph and a quote to look for
+ */
+export function checkEvidence(body: BodyParagraph): EvidenceCoverage | null {
+  if (getWords(body.paragraph).length === 0) return null;
+  const checks = body.proofBlocks.flatMap((proofBlock) => {
+    const match = matchQuote(proofBlock.quote, body.paragraph);
+    return match ? [{ proofBlockId: proofBlock.id, ...match }] : [];
+  });
+  if (checks.length === 0) return null;
+  return { checks, used: checks.filter((check) => check.status === 'used').length };
+}
+
+export const getEvidenceLabel = (status: EvidenceStatus): string => EVIDENCE_LABELS[status];
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHistory,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  canUndo,
+  canRedo,
+  COALESCE_WINDOW_MS,
+  HISTORY_LIMIT,
+  type EditHistory,
+} from './history';
+import { createEssay, updateIntro, addClaim, removeClaim, type Essay } from './essay';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function withHook(essay: Essay, hook: string): Essay {
+  return updateIntro(essay, 'hook', hook);
+}
+
+describe('createHistory', () => {
+  it('starts with nothing to undo or redo', () => {
+    const history = createHistory();
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(false);
+  });
+});
+
+describe('recordEdit', () => {
+  it('stores the essay as it was before the edit', () => {
+    const before = createEssay();
+    const history = recordEdit(createHistory(), before, 'intro.hook', 0);
+
+    expect(history.past).toEqual([{ essay: before, groupKey: 'intro.hook', at: 0 }]);
+  });
+
+  it('coalesces keystrokes in the same cell within the window', () => {
+    const e0 = createEssay();
+    const e1 = withHook(e0, 'H');
+    let history = recordEdit(createHistory(), e0, 'intro.hook', 0);
+    history = recordEdit(history, e1, 'intro.hook', COALESCE_WINDOW_MS);
+
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].essay).toBe(e0);
+    expect(history.past[0].at).toBe(COALESCE_WINDOW_MS);
+  });
+
+  it('keeps coalescing while typing continues past the window in total', () => {
+    let essay = createEssay();
+    let history = createHistory();
+    for (let i = 0; i < 5; i++) {
+      history = recordEdit(history, essay, 'intro.hook', i * (COALESCE_WINDOW_MS - 1));
+      essay = withHook(essay, 'x'.repeat(i + 1));
+    }
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('starts a new step after a pause', () => {
+    const e0 = createEssay();
+    let history = recordEdit(createHistory(), e0, 'intro.hook', 0);
+    history = recordEdit(history, withHook(e0, 'H'), 'intro.hook', COALESCE_WINDOW_MS + 1);
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('starts a new step when moving to another cell', () => {
+    const e0 = createEssay();
+    let history = recordEdit(createHistory(), e0, 'intro.hook', 0);
+    history = recordEdit(history, withHook(e0, 'H'), 'intro.thesis', 10);
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('never coalesces structural operations', () => {
+    const e0 = createEssay();
+    let history = recordEdit(createHistory(), e0, null, 0);
+    history = recordEdit(history, addClaim(e0), null, 10);
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('clears redo', () => {
+    const e0 = createEssay();
+    const e1 = withHook(e0, 'H');
+    let history = recordEdit(createHistory(), e0, 'intro.hook', 0);
+    history = undoEdit(history, e1)!.history;
+    expect(canRedo(history)).toBe(true);
+
+    history = recordEdit(history, e0, 'intro.hook', 10);
+    expect(canRedo(history)).toBe(false);
+    expect(history.past).toHaveLength(1);
+  });
+
+  it(`keeps at most ${HISTORY_LIMIT} steps`, () => {
+    let history: EditHistory = createHistory();
+    const first = createEssay();
+    history = recordEdit(history, first, null, 0);
+    for (let i = 1; i <= HISTORY_LIMIT; i++) {
+      history = recordEdit(history, createEssay(), null, i);
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].essay).not.toBe(first);
+  });
+});
+
+describe('undoEdit / redoEdit', () => {
+  it('returns null when there is nothing to undo or redo', () => {
+    const essay = createEssay();
+    expect(undoEdit(createHistory(), essay)).toBeNull();
+    expect(redoEdit(createHistory(), essay)).toBeNull();
+  });
+
+  it('undoes and redoes a text edit', () => {
+    const e0 = createEssay();
+    const e1 = withHook(e0, 'Hello');
+    const history = recordEdit(createHistory(), e0, 'intro.hook', 0);
+
+    const undone = undoEdit(history, e1)!;
+    expect(undone.essay).toBe(e0);
+    expect(canUndo(undone.history)).toBe(false);
+
+    const redone = redoEdit(undone.history, undone.essay)!;
+    expect(redone.essay).toBe(e1);
+    expect(canRedo(redone.history)).toBe(false);
+    expect(canUndo(redone.history)).toBe(true);
+  });
+
+  it('restores a removed claim together with its body paragraph', () => {
+    const e0 = addClaim(createEssay());
+    const removedClaim = e0.intro.claims[1];
+    const e1 = removeClaim(e0, removedClaim.id);
+    const history = recordEdit(createHistory(), e0, null, 0);
+
+    const { essay } = undoEdit(history, e1)!;
+
+    expect(essay.intro.claims.map((c) => c.id)).toContain(removedClaim.id);
+    expect(essay.bodyParagraphs.map((b) => b.provingClaimId)).toEqual(essay.intro.claims.map((c) => c.id));
+  });
+
+  it('walks back and forward through several steps', () => {
+    const e0 = createEssay();
+    const e1 = addClaim(e0);
+    const e2 = withHook(e1, 'Hook');
+    let history = recordEdit(createHistory(), e0, null, 0);
+    history = recordEdit(history, e1, 'intro.hook', 10);
+
+    const u1 = undoEdit(history, e2)!;
+    const u2 = undoEdit(u1.history, u1.essay)!;
+    expect([u1.essay, u2.essay]).toEqual([e1, e0]);
+
+    const r1 = redoEdit(u2.history, u2.essay)!;
+    const r2 = redoEdit(r1.history, r1.essay)!;
+    expect([r1.essay, r2.essay]).toEqual([e1, e2]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Pure undo/redo history over essay snapshots - no React or UI dependencies
+ *
+ * Every edit stores the essay as it was before the edit. Because essays are
+ * immutable, structural operations (e.g. removeClaim, which also removes the
+ * claim's body paragraph) are undone by returning to the earlier snapshot.
+ */
+import type { Essay } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HistoryEntry {
+  essay: Essay;
+  /** Field key for text edits (coalescing), null for structural operations */
+  groupKey: string | null;
+  /** Time of the most recent edit folded into this entry */
+  at: number;
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: Essay[];
+}
+
+export interface HistoryStep {
+  history: EditHistory;
+  essay: Essay;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Keystrokes in the same cell closer together than this form one undo step
+ */
+export const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * Maximum number of undo steps kept
+ */
+export const HISTORY_LIMIT = 100;
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+export const createHistory = (): EditHistory => ({ past: [], future: [] });
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Record an edit, given the essay as it was before the edit.
+ * Consecutive edits with the same group key inside the coalescing window
+ * extend the previous step instead of adding a new one. Any edit clears redo.
+ */
+export function recordEdit(
+  history: EditHistory,
+  before: Essay,
+  groupKey: string | null,
+  now: number,
+  windowMs: number = COALESCE_WINDOW_MS
+): EditHistory {
+  const last = history.past[history.past.length - 1];
+  const canCoalesce =
+    last &&
+    history.future.length === 0 &&
+    groupKey !== null &&
+    last.groupKey === groupKey &&
+    now - last.at <= windowMs;
+
+  if (canCoalesce) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+
+  const past = [...history.past, { essay: before, groupKey, at: now }];
+  return { past: past.slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Step back one edit, or null if there is nothing to undo
+ */
+export function undoEdit(history: EditHistory, current: Essay): HistoryStep | null {
+  const last = history.past[history.past.length - 1];
+  if (!last) return null;
+  return {
+    essay: last.essay,
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+  };
+}
+
+/**
+ * Re-apply the most recently undone edit, or null if there is nothing to redo
+ */
+export function redoEdit(history: EditHistory, current: Essay): HistoryStep | null {
+  const next = history.future[history.future.length - 1];
+  if (next === undefined) return null;
+  return {
+    essay: next,
+    history: {
+      past: [...history.past, { essay: current, groupKey: null, at: 0 }],
+      future: history.future.slice(0, -1),
+    },
+  };
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+export const canUndo = (history: EditHistory): boolean => history.past.length > 0;
+
+export const canRedo = (history: EditHistory): boolean => history.future.length > 0;
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { applyRepair, checkEssayIntegrity, getRepairOptions } from './integrity';
+import { createProofBlock, type BodyParagraph, type Essay } from './essay';
+
+const body = (id: string, provingClaimId: string, paragraph = ''): BodyParagraph => ({
+  id,
+  provingClaimId,
+  purpose: '',
+  proofBlocks: [createProofBlock()],
+  recap: '',
+  paragraph,
+});
+
+function createTestEssay(bodies: BodyParagraph[] = [body('body-1', 'claim-1'), body('body-2', 'claim-2')]): Essay {
+  return {
+    intro: {
+      hook: '',
+      background: '',
+      thesis: 'Mercy is stronger than law',
+      claims: [
+        { id: 'claim-1', text: 'The bishop changes Valjean' },
+        { id: 'claim-2', text: 'Javert cannot bend' },
+      ],
+      paragraph: '',
+    },
+    bodyParagraphs: bodies,
+    conclusion: { restatement: '', soWhat: '', paragraph: '' },
+  };
+}
+
+describe('checkEssayIntegrity', () => {
+  it('finds nothing when each claim has one body paragraph', () => {
+    expect(checkEssayIntegrity(createTestEssay())).toEqual([]);
+  });
+
+  it('finds body paragraphs whose claim is gone and the claim left without one', () => {
+    const essay = createTestEssay([body('body-1', 'claim-1'), body('body-2', 'deleted')]);
+
+    expect(checkEssayIntegrity(essay)).toEqual([
+      { type: 'missing-claim', bodyId: 'body-2', bodyIndex: 1 },
+      { type: 'unproven-claim', claimId: 'claim-2', claimIndex: 1 },
+    ]);
+  });
+
+  it('finds a second body paragraph proving the same claim', () => {
+    const essay = createTestEssay([body('body-1', 'claim-1'), body('body-2', 'claim-2'), body('body-3', 'claim-1')]);
+
+    expect(checkEssayIntegrity(essay)).toEqual([
+      { type: 'shared-claim', bodyId: 'body-3', bodyIndex: 2, claimId: 'claim-1' },
+    ]);
+  });
+});
+
+describe('getRepairOptions', () => {
+  const essay = createTestEssay([body('body-1', 'deleted'), body('body-2', 'claim-2')]);
+  const [orphan, unproven] = checkEssayIntegrity(essay);
+
+  it('offers to link a body paragraph to an unproven claim, give it a new claim or delete it', () => {
+    expect(getRepairOptions(essay, orphan)).toEqual([
+      { type: 'link', bodyId: 'body-1', claimId: 'claim-1' },
+      { type: 'create-claim', bodyId: 'body-1' },
+      { type: 'delete-body', bodyId: 'body-1' },
+    ]);
+  });
+
+  it('offers to link an unproven claim to a body paragraph, give it a new one or delete it', () => {
+    expect(getRepairOptions(essay, unproven)).toEqual([
+      { type: 'link', bodyId: 'body-1', claimId: 'claim-1' },
+      { type: 'create-body', claimId: 'claim-1' },
+      { type: 'delete-claim', claimId: 'claim-1' },
+    ]);
+  });
+
+  it('never offers to delete the only claim', () => {
+    const single = createTestEssay([]);
+    single.intro.claims = [single.intro.claims[0]];
+    const [issue] = checkEssayIntegrity(single);
+
+    expect(getRepairOptions(single, issue)).toEqual([{ type: 'create-body', claimId: 'claim-1' }]);
+  });
+});
+
+describe('applyRepair', () => {
+  it('links a body paragraph and puts it in claim order', () => {
+    const essay = createTestEssay([body('body-2', 'claim-2'), body('body-1', 'deleted')]);
+    const repaired = applyRepair(essay, { type: 'link', bodyId: 'body-1', claimId: 'claim-1' });
+
+    expect(repaired.bodyParagraphs.map((bp) => [bp.id, bp.provingClaimId])).toEqual([
+      ['body-1', 'claim-1'],
+      ['body-2', 'claim-2'],
+    ]);
+    expect(checkEssayIntegrity(repaired)).toEqual([]);
+  });
+
+  it('creates an empty claim at the body paragraph position', () => {
+    const essay = createTestEssay([body('body-1', 'claim-1'), body('body-x', 'deleted', 'Kept text'), body('body-2', 'claim-2')]);
+    const repaired = applyRepair(essay, { type: 'create-claim', bodyId: 'body-x' });
+
+    expect(repaired.intro.claims.map((c) => c.text)).toEqual(['The bishop changes Valjean', '', 'Javert cannot bend']);
+    expect(repaired.bodyParagraphs.map((bp) => bp.id)).toEqual(['body-1', 'body-x', 'body-2']);
+    expect(repaired.bodyParagraphs[1].paragraph).toBe('Kept text');
+    expect(checkEssayIntegrity(repaired)).toEqual([]);
+  });
+
+  it('creates a body paragraph in claim order', () => {
+    const essay = createTestEssay([body('body-2', 'claim-2')]);
+    const repaired = applyRepair(essay, { type: 'create-body', claimId: 'claim-1' });
+
+    expect(repaired.bodyParagraphs.map((bp) => bp.provingClaimId)).toEqual(['claim-1', 'claim-2']);
+    expect(checkEssayIntegrity(repaired)).toEqual([]);
+  });
+
+  it('deletes body paragraphs and claims', () => {
+    const essay = createTestEssay([body('body-1', 'claim-1'), body('body-x', 'deleted')]);
+
+    expect(applyRepair(essay, { type: 'delete-body', bodyId: 'body-x' }).bodyParagraphs).toHaveLength(1);
+    expect(applyRepair(essay, { type: 'delete-claim', claimId: 'claim-2' }).intro.claims).toHaveLength(1);
+  });
+
+  it('returns the same essay for unknown ids', () => {
+    const essay = createTestEssay();
+
+    expect(applyRepair(essay, { type: 'link', bodyId: 'nope', claimId: 'claim-1' })).toBe(essay);
+    expect(applyRepair(essay, { type: 'delete-body', bodyId: 'nope' })).toBe(essay);
+    expect(applyRepair(essay, { type: 'create-body', claimId: 'nope' })).toBe(essay);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Claim / body paragraph integrity - no React or UI dependencies
+ *
+ * Every claim should be proved by exactly one body paragraph, and every body
+ * paragraph should prove a claim that exists. The editor keeps that true, but
+ * concurrent edits and old data can break it. The checker finds the broken
+ * links and each issue lists the repairs that would fix it.
+ */
+import { createBodyParagraph, createClaim, type BodyParagraph, type Claim, type Essay } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type IntegrityIssue =
+  /** A body paragraph proving a claim that no longer exists */
+  | { type: 'missing-claim'; bodyId: string; bodyIndex: number }
+  /** A body paragraph proving a claim an earlier body paragraph already proves */
+  | { type: 'shared-claim'; bodyId: string; bodyIndex: number; claimId: string }
+  /** A claim no body paragraph proves */
+  | { type: 'unproven-claim'; claimId: string; claimIndex: number };
+
+export type IntegrityRepair =
+  | { type: 'link'; bodyId: string; claimId: string }
+  | { type: 'create-claim'; bodyId: string }
+  | { type: 'delete-body'; bodyId: string }
+  | { type: 'create-body'; claimId: string }
+  | { type: 'delete-claim'; claimId: string };
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Body paragraphs in the order of the claims they prove, so Body N proves
+ * Claim N. Body paragraphs without a claim keep their order at the end.
+ */
+function sortBodiesByClaims(essay: Essay): Essay {
+  const order = essay.intro.claims.map((c) => c.id);
+  const rank = (body: BodyParagraph) => {
+    const index = order.indexOf(body.provingClaimId);
+    return index === -1 ? order.length : index;
+  };
+  return { ...essay, bodyParagraphs: [...essay.bodyParagraphs].sort((a, b) => rank(a) - rank(b)) };
+}
+
+const insertAt = <T>(items: T[], index: number, item: T): T[] => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index),
+];
+
+/**
+ * Apply one repair. Unknown ids leave the essay unchanged.
+ */
+export function applyRepair(essay: Essay, repair: IntegrityRepair): Essay {
+  const { claims } = essay.intro;
+
+  switch (repair.type) {
+    case 'link': {
+      const body = essay.bodyParagraphs.find((bp) => bp.id === repair.bodyId);
+      if (!body || !claims.some((c) => c.id === repair.claimId)) return essay;
+      return sortBodiesByClaims({
+        ...essay,
+        bodyParagraphs: essay.bodyParagraphs.map((bp) =>
+          bp.id === repair.bodyId ? { ...bp, provingClaimId: repair.claimId } : bp
+        ),
+      });
+    }
+
+    case 'create-claim': {
+      const bodyIndex = essay.bodyParagraphs.findIndex((bp) => bp.id === repair.bodyId);
+      if (bodyIndex === -1) return essay;
+      const claim = createClaim('');
+      return sortBodiesByClaims({
+        ...essay,
+        intro: { ...essay.intro, claims: insertAt(claims, Math.min(bodyIndex, claims.length), claim) },
+        bodyParagraphs: essay.bodyParagraphs.map((bp) =>
+          bp.id === repair.bodyId ? { ...bp, provingClaimId: claim.id } : bp
+        ),
+      });
+    }
+
+    case 'delete-body':
+      return essay.bodyParagraphs.some((bp) => bp.id === repair.bodyId)
+        ? { ...essay, bodyParagraphs: essay.bodyParagraphs.filter((bp) => bp.id !== repair.bodyId) }
+        : essay;
+
+    case 'create-body': {
+      const claim = claims.find((c) => c.id === repair.claimId);
+      if (!claim) return essay;
+      return sortBodiesByClaims({ ...essay, bodyParagraphs: [...essay.bodyParagraphs, createBodyParagraph(claim)] });
+    }
+
+    case 'delete-claim':
+      // An essay always keeps at least one claim
+      if (claims.length <= 1 || !claims.some((c) => c.id === repair.claimId)) return essay;
+      return { ...essay, intro: { ...essay.intro, claims: claims.filter((c) => c.id !== repair.claimId) } };
+  }
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Broken links between claims and body paragraphs: body paragraphs first, in
+ * order, then claims without a body paragraph
+ */
+export function checkEssayIntegrity(essay: Essay): IntegrityIssue[] {
+  const claimIds = new Set(essay.intro.claims.map((c) => c.id));
+  const proved = new Set<string>();
+  const issues: IntegrityIssue[] = [];
+
+  essay.bodyParagraphs.forEach((body, bodyIndex) => {
+    if (!claimIds.has(body.provingClaimId)) {
+      issues.push({ type: 'missing-claim', bodyId: body.id, bodyIndex });
+    } else if (proved.has(body.provingClaimId)) {
+      issues.push({ type: 'shared-claim', bodyId: body.id, bodyIndex, claimId: body.provingClaimId });
+    } else {
+      proved.add(body.provingClaimId);
+    }
+  });
+
+  essay.intro.claims.forEach((claim, claimIndex) => {
+    if (!proved.has(claim.id)) issues.push({ type: 'unproven-claim', claimId: claim.id, claimIndex });
+  });
+
+  return issues;
+}
+
+/** Claims no body paragraph proves */
+const getUnprovenClaims = (essay: Essay, issues: IntegrityIssue[]): Claim[] =>
+  issues.flatMap((issue) =>
+    issue.type === 'unproven-claim' ? essay.intro.claims.filter((c) => c.id === issue.claimId) : []
+  );
+
+/** Body paragraphs without a claim of their own */
+const getUnlinkedBodies = (essay: Essay, issues: IntegrityIssue[]): BodyParagraph[] =>
+  issues.flatMap((issue) =>
+    issue.type === 'unproven-claim' ? [] : essay.bodyParagraphs.filter((bp) => bp.id === issue.bodyId)
+  );
+
+/**
+ * The repairs that fix an issue: linking it to a piece that is also missing
+ * its partner first, then creating the missing piece, then deleting
+ */
+export function getRepairOptions(essay: Essay, issue: IntegrityIssue): IntegrityRepair[] {
+  const issues = checkEssayIntegrity(essay);
+
+  if (issue.type === 'unproven-claim') {
+    return [
+      ...getUnlinkedBodies(essay, issues).map((body): IntegrityRepair => ({
+        type: 'link',
+        bodyId: body.id,
+        claimId: issue.claimId,
+      })),
+      { type: 'create-body', claimId: issue.claimId },
+      ...(essay.intro.claims.length > 1 ? [{ type: 'delete-claim', claimId: issue.claimId } as const] : []),
+    ];
+  }
+
+  return [
+    ...getUnprovenClaims(essay, issues).map((claim): IntegrityRepair => ({
+      type: 'link',
+      bodyId: issue.bodyId,
+      claimId: claim.id,
+    })),
+    { type: 'create-claim', bodyId: issue.bodyId },
+    { type: 'delete-body', bodyId: issue.bodyId },
+  ];
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { getKeyTerms, groupDiagnosticsByBlock, lintEssay, mentionsTerms, type Diagnostic } from './lint';
+import { createEssay, type Essay } from './essay';
+
+/** An essay that passes every check */
+function makeEssay(): Essay {
+  const essay = createEssay();
+  essay.intro.thesis = 'Mercy is stronger than law';
+  essay.intro.claims[0].text = 'The bishop changes Valjean';
+  essay.bodyParagraphs[0].paragraph = 'When the bishop forgives him, Valjean begins to change.';
+  essay.bodyParagraphs[0].proofBlocks[0].quote = 'You no longer belong to evil.';
+  essay.bodyParagraphs[0].proofBlocks[0].analysis = 'The gift is a new start.';
+  essay.conclusion.restatement = 'Mercy wins because the bishop changed Valjean.';
+  return essay;
+}
+
+const rulesOf = (diagnostics: Diagnostic[]) => diagnostics.map((d) => d.rule);
+
+describe('getKeyTerms', () => {
+  it('drops common words and word endings', () => {
+    expect(getKeyTerms('The bishop changes Valjean')).toEqual(['bishop', 'chang', 'valjean']);
+    expect(getKeyTerms("Javert's changing")).toEqual(['javert', 'chang']);
+  });
+});
+
+describe('mentionsTerms', () => {
+  it('matches any key term in another form', () => {
+    expect(mentionsTerms('Change came slowly.', getKeyTerms('Prison changed him'))).toBe(true);
+    expect(mentionsTerms('The weather was cold.', getKeyTerms('Prison changed him'))).toBe(false);
+  });
+
+  it('treats claims made only of common words as mentioned', () => {
+    expect(mentionsTerms('Anything at all', getKeyTerms('It is what it is'))).toBe(true);
+  });
+});
+
+describe('lintEssay', () => {
+  it('passes a complete essay', () => {
+    expect(lintEssay(makeEssay())).toEqual([]);
+  });
+
+  it('flags a missing thesis and empty claims as errors', () => {
+    const essay = makeEssay();
+    essay.intro.thesis = '  ';
+    essay.intro.claims.push({ id: 'c2', text: '' });
+
+    const diagnostics = lintEssay(essay);
+
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ rule: 'thesis-missing', severity: 'error', blockId: 'intro-thesis' })
+    );
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ rule: 'claim-empty', severity: 'error', blockId: 'c2', message: 'Claim 2 is empty.' })
+    );
+  });
+
+  it('flags a body paragraph that never mentions its claim', () => {
+    const essay = makeEssay();
+    essay.bodyParagraphs[0].paragraph = 'The weather in Paris was cold that winter.';
+
+    expect(lintEssay(essay)).toEqual([
+      {
+        rule: 'paragraph-off-claim',
+        severity: 'warning',
+        blockId: `${essay.bodyParagraphs[0].id}-paragraph`,
+        message: 'Body paragraph 1 never mentions its claim, "The bishop changes Valjean".',
+      },
+    ]);
+  });
+
+  it('does not check paragraphs that are not written yet', () => {
+    const essay = makeEssay();
+    essay.bodyParagraphs[0].paragraph = '';
+
+    expect(lintEssay(essay)).toEqual([]);
+  });
+
+  it('flags evidence without analysis on the analysis cell', () => {
+    const essay = makeEssay();
+    const proofBlock = essay.bodyParagraphs[0].proofBlocks[0];
+    proofBlock.analysis = '';
+
+    expect(lintEssay(essay)).toEqual([
+      expect.objectContaining({
+        rule: 'evidence-without-analysis',
+        blockId: `${proofBlock.id}-analysis`,
+        message: 'Proof 1 in body paragraph 1 has evidence but no analysis.',
+      }),
+    ]);
+  });
+
+  it('flags each claim the restatement leaves out', () => {
+    const essay = makeEssay();
+    essay.intro.claims.push({ id: 'c2', text: 'Javert cannot bend' });
+    essay.conclusion.restatement = 'Mercy wins because the bishop changed Valjean.';
+
+    expect(lintEssay(essay)).toEqual([
+      expect.objectContaining({
+        rule: 'restatement-missing-claim',
+        blockId: 'conclusion-restatement',
+        message: 'The restatement does not mention claim 2, "Javert cannot bend".',
+      }),
+    ]);
+  });
+
+  it('lists diagnostics in essay order', () => {
+    const essay = makeEssay();
+    essay.intro.thesis = '';
+    essay.bodyParagraphs[0].proofBlocks[0].analysis = '';
+    essay.conclusion.restatement = 'Law matters.';
+
+    expect(rulesOf(lintEssay(essay))).toEqual([
+      'thesis-missing',
+      'evidence-without-analysis',
+      'restatement-missing-claim',
+    ]);
+  });
+});
+
+describe('groupDiagnosticsByBlock', () => {
+  it('collects the diagnostics for each block', () => {
+    const essay = makeEssay();
+    essay.intro.claims.push({ id: 'c2', text: 'Javert cannot bend' }, { id: 'c3', text: 'Law fails Fantine' });
+    essay.conclusion.restatement = 'Law matters.';
+
+    const byBlock = groupDiagnosticsByBlock(lintEssay(essay));
+
+    expect(byBlock.get('conclusion-restatement')).toHaveLength(2);
+    expect(byBlock.has('intro-thesis')).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Structural essay linter - no React or UI dependencies
+ *
+ * Checks that an essay follows the structure the editor teaches: a thesis,
+ * claims that say something, body paragraphs about their claims, evidence
+ * that is analyzed and a conclusion that comes back to every claim. Each
+ * diagnostic points at the block (cell) it is about, using the same block ids
+ * as comments.
+ */
+import type { BodyParagraph, Claim, Essay } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LintRule =
+  | 'thesis-missing'
+  | 'claim-empty'
+  | 'paragraph-off-claim'
+  | 'evidence-without-analysis'
+  | 'restatement-missing-claim';
+
+/** Errors break the essay's structure; warnings are worth a second look */
+export type LintSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** Cell the diagnostic is about, e.g. "intro-thesis" or "<proofBlockId>-analysis" */
+  blockId: string;
+  message: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Each rule as a checklist item, in essay order */
+export const LINT_RULES: { rule: LintRule; label: string }[] = [
+  { rule: 'thesis-missing', label: 'The intro states a thesis' },
+  { rule: 'claim-empty', label: 'Every claim is filled in' },
+  { rule: 'paragraph-off-claim', label: 'Each body paragraph talks about its claim' },
+  { rule: 'evidence-without-analysis', label: 'All evidence is analyzed' },
+  { rule: 'restatement-missing-claim', label: 'The conclusion restates every claim' },
+];
+
+/**
+ * Words too common to show that a paragraph is about a claim
+ */
+const STOP_WORDS = new Set(
+  (
+    'a an the and or but nor so yet of to in on at by for from with without about into over under than then ' +
+    'is are was were be been being am do does did has have had will would can could should may might must ' +
+    'this that these those it its they them their there here he she his her him we us our you your i me my ' +
+    'not no all any each every some many much more most very also just only even because while when where ' +
+    'which who whom whose what how why if as one two'
+  ).split(' ')
+);
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+const isBlank = (text: string | undefined): boolean => !text?.trim();
+
+/** A word without common endings, so "change", "changes" and "changing" match */
+function stem(word: string): string {
+  const stemmed = word.replace(/(?:ies|ied|ing|ed|es|s)$/, '').replace(/[ey]$/, '');
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/**
+ * The words of a text that carry its meaning, stemmed and without duplicates
+ */
+export function getKeyTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z'’]*/g) ?? [];
+  const terms = words
+    .map((word) => word.replace(/['’](?:s)?$/, ''))
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stem);
+  return [...new Set(terms)];
+}
+
+/**
+ * Whether a text uses at least one of a claim's key terms. Claims without any
+ * key terms (only common words) count as mentioned.
+ */
+export function mentionsTerms(text: string, terms: string[]): boolean {
+  if (terms.length === 0) return true;
+  const used = new Set(getKeyTerms(text));
+  return terms.some((term) => used.has(term));
+}
+
+const quoted = (text: string): string => `"${text.trim()}"`;
+
+function lintBodyParagraph(body: BodyParagraph, index: number, claim: Claim | undefined): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const name = `Body paragraph ${index + 1}`;
+
+  if (claim && !isBlank(claim.text) && !isBlank(body.paragraph)) {
+    if (!mentionsTerms(body.paragraph, getKeyTerms(claim.text))) {
+      diagnostics.push({
+        rule: 'paragraph-off-claim',
+        severity: 'warning',
+        blockId: `${body.id}-paragraph`,
+        message: `${name} never mentions its claim, ${quoted(claim.text)}.`,
+      });
+    }
+  }
+
+  body.proofBlocks.forEach((proofBlock, i) => {
+    if (!isBlank(proofBlock.quote) && isBlank(proofBlock.analysis)) {
+      diagnostics.push({
+        rule: 'evidence-without-analysis',
+        severity: 'warning',
+        blockId: `${proofBlock.id}-analysis`,
+        message: `Proof ${i + 1} in ${name.toLowerCase()} has evidence but no analysis.`,
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Everything that breaks the expected essay structure, in essay order
+ */
+export function lintEssay(essay: Essay): Diagnostic[] {
+  const { intro, conclusion } = essay;
+  const diagnostics: Diagnostic[] = [];
+
+  if (isBlank(intro.thesis)) {
+    diagnostics.push({
+      rule: 'thesis-missing',
+      severity: 'error',
+      blockId: 'intro-thesis',
+      message: 'The intro has no thesis yet. Every claim should prove it.',
+    });
+  }
+
+  intro.claims.forEach((claim, i) => {
+    if (isBlank(claim.text)) {
+      diagnostics.push({
+        rule: 'claim-empty',
+        severity: 'error',
+        blockId: claim.id,
+        message: `Claim ${i + 1} is empty.`,
+      });
+    }
+  });
+
+  essay.bodyParagraphs.forEach((body, i) => {
+    const claim = intro.claims.find((c) => c.id === body.provingClaimId);
+    diagnostics.push(...lintBodyParagraph(body, i, claim));
+  });
+
+  if (!isBlank(conclusion.restatement)) {
+    intro.claims.forEach((claim, i) => {
+      if (isBlank(claim.text) || mentionsTerms(conclusion.restatement, getKeyTerms(claim.text))) return;
+      diagnostics.push({
+        rule: 'restatement-missing-claim',
+        severity: 'warning',
+        blockId: 'conclusion-restatement',
+        message: `The restatement does not mention claim ${i + 1}, ${quoted(claim.text)}.`,
+      });
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Diagnostics grouped by the block they are about, for cell badges
+ */
+export function groupDiagnosticsByBlock(diagnostics: Diagnostic[]): Map<string, Diagnostic[]> {
+  const byBlock = new Map<string, Diagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    byBlock.set(diagnostic.blockId, [...(byBlock.get(diagnostic.blockId) ?? []), diagnostic]);
+  }
+  return byBlock;
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import { mergeEssays, setEssayField, isSameEssay } from './merge';
+import {
+  addClaim,
+  addCounterargument,
+  addProofBlock,
+  addSource,
+  createSource,
+  moveClaim,
+  moveProofBlock,
+  removeClaim,
+  removeCounterargument,
+  removeProofBlock,
+  setProofBlockSource,
+  updateBodyParagraph,
+  updateClaim,
+  updateCounterargument,
+  updateIntro,
+  updateProofBlock,
+  updateSource,
+  type Essay,
+} from './essay';
+
+function makeEssay(): Essay {
+  return {
+    intro: {
+      hook: 'Hook',
+      background: 'Background',
+      thesis: 'Thesis',
+      claims: [
+        { id: 'c1', text: 'Claim 1' },
+        { id: 'c2', text: 'Claim 2' },
+        { id: 'c3', text: 'Claim 3' },
+      ],
+      paragraph: '',
+    },
+    bodyParagraphs: ['1', '2', '3'].map((n) => ({
+      id: `b${n}`,
+      provingClaimId: `c${n}`,
+      purpose: `Purpose ${n}`,
+      proofBlocks: [
+        { id: `p${n}a`, quote: 'Quote a', analysis: 'Analysis a', connection: '' },
+        { id: `p${n}b`, quote: 'Quote b', analysis: '', connection: '' },
+      ],
+      recap: '',
+      paragraph: '',
+    })),
+    conclusion: { restatement: '', soWhat: '', paragraph: '' },
+  };
+}
+
+describe('mergeEssays', () => {
+  const base = makeEssay();
+
+  it('returns the shared essay when nothing changed', () => {
+    const { essay, conflicts } = mergeEssays(base, base, base);
+    expect(essay).toEqual(base);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('combines edits to different fields', () => {
+    const local = updateIntro(base, 'hook', 'Local hook');
+    const remote = updateProofBlock(base, 'b2', 'p2a', 'quote', 'Remote quote');
+
+    const { essay, conflicts } = mergeEssays(base, local, remote);
+
+    expect(essay.intro.hook).toBe('Local hook');
+    expect(essay.bodyParagraphs[1].proofBlocks[0].quote).toBe('Remote quote');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('does not conflict when both sides made the same edit', () => {
+    const local = updateClaim(base, 'c1', 'Same');
+    const remote = updateClaim(base, 'c1', 'Same');
+
+    expect(mergeEssays(base, local, remote).conflicts).toEqual([]);
+  });
+
+  it('keeps the local value and reports a conflict when both sides edit a field', () => {
+    const local = updateBodyParagraph(base, 'b1', 'purpose', 'Mine');
+    const remote = updateBodyParagraph(base, 'b1', 'purpose', 'Theirs');
+
+    const { essay, conflicts } = mergeEssays(base, local, remote);
+
+    expect(essay.bodyParagraphs[0].purpose).toBe('Mine');
+    expect(conflicts).toEqual([
+      { key: 'body.b1.purpose', label: 'Body 1 · Purpose', local: 'Mine', remote: 'Theirs' },
+    ]);
+  });
+
+  it('matches items by id when one side reorders and the other edits', () => {
+    const local = moveClaim(base, 'c3', 0);
+    const remote = updateClaim(base, 'c3', 'Edited remotely');
+
+    const { essay, conflicts } = mergeEssays(base, local, remote);
+
+    expect(essay.intro.claims.map((c) => c.id)).toEqual(['c3', 'c1', 'c2']);
+    expect(essay.intro.claims[0].text).toBe('Edited remotely');
+    expect(essay.bodyParagraphs.map((b) => b.id)).toEqual(['b3', 'b1', 'b2']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('takes the remote order when only the remote side reordered', () => {
+    const local = updateProofBlock(base, 'b1', 'p1b', 'analysis', 'Local analysis');
+    const remote = moveProofBlock(base, 'b1', 'p1b', 0);
+
+    const { essay } = mergeEssays(base, local, remote);
+
+    expect(essay.bodyParagraphs[0].proofBlocks.map((pb) => pb.id)).toEqual(['p1b', 'p1a']);
+    expect(essay.bodyParagraphs[0].proofBlocks[0].analysis).toBe('Local analysis');
+  });
+
+  it('keeps items added on both sides', () => {
+    const local = addProofBlock(base, 'b1');
+    const remote = addClaim(base);
+
+    const { essay } = mergeEssays(base, local, remote);
+
+    expect(essay.bodyParagraphs[0].proofBlocks).toHaveLength(3);
+    expect(essay.intro.claims).toHaveLength(4);
+    expect(essay.bodyParagraphs).toHaveLength(4);
+    expect(essay.bodyParagraphs[3].provingClaimId).toBe(essay.intro.claims[3].id);
+  });
+
+  it('places an item added remotely after the item it follows there', () => {
+    const local = base;
+    const remote = {
+      ...base,
+      intro: {
+        ...base.intro,
+        claims: [base.intro.claims[0], { id: 'new', text: 'New' }, ...base.intro.claims.slice(1)],
+      },
+    };
+
+    const { essay } = mergeEssays(base, local, remote);
+
+    expect(essay.intro.claims.map((c) => c.id)).toEqual(['c1', 'new', 'c2', 'c3']);
+  });
+
+  it('applies a deletion the other side did not edit', () => {
+    const local = updateIntro(base, 'thesis', 'New thesis');
+    const remote = removeProofBlock(removeClaim(base, 'c2'), 'b1', 'p1b');
+
+    const { essay } = mergeEssays(base, local, remote);
+
+    expect(essay.intro.claims.map((c) => c.id)).toEqual(['c1', 'c3']);
+    expect(essay.bodyParagraphs.map((b) => b.id)).toEqual(['b1', 'b3']);
+    expect(essay.bodyParagraphs[0].proofBlocks.map((pb) => pb.id)).toEqual(['p1a']);
+  });
+
+  it('keeps an item deleted on one side but edited on the other', () => {
+    const local = removeProofBlock(base, 'b1', 'p1b');
+    const remote = updateProofBlock(base, 'b1', 'p1b', 'quote', 'Still needed');
+
+    const { essay } = mergeEssays(base, local, remote);
+
+    expect(essay.bodyParagraphs[0].proofBlocks.map((pb) => pb.quote)).toEqual(['Quote a', 'Still needed']);
+  });
+
+  it('merges the counterargument like any other section', () => {
+    const withCounter = addCounterargument(base);
+    const local = updateCounterargument(withCounter, 'rebuttal', 'Mine');
+    const remote = updateCounterargument(withCounter, 'concession', 'Theirs');
+
+    const { essay } = mergeEssays(withCounter, local, remote);
+
+    expect(essay.counterargument).toEqual({ opposingView: '', concession: 'Theirs', rebuttal: 'Mine', paragraph: '' });
+  });
+
+  it('applies a counterargument added or removed on one side', () => {
+    expect(mergeEssays(base, base, addCounterargument(base)).essay.counterargument).toBeDefined();
+
+    const withCounter = addCounterargument(base);
+    expect(mergeEssays(withCounter, withCounter, removeCounterargument(withCounter)).essay).not.toHaveProperty(
+      'counterargument'
+    );
+  });
+
+  it('takes word limits changed on one side', () => {
+    const remote = { ...base, wordLimits: { essay: 800 } };
+    expect(mergeEssays(base, { ...base }, remote).essay.wordLimits).toEqual({ essay: 800 });
+    expect(mergeEssays(remote, { ...base }, remote).essay).not.toHaveProperty('wordLimits');
+  });
+
+  it('merges sources added and edited on both sides', () => {
+    const withSource = addSource(base, { ...createSource(), id: 's1', title: 'Les Misérables' });
+    const local = updateSource(withSource, 's1', { published: '1862' });
+    const remote = addSource(updateSource(withSource, 's1', { authors: ['Victor Hugo'] }), { ...createSource(), id: 's2' });
+
+    const { essay, conflicts } = mergeEssays(withSource, local, remote);
+
+    expect(essay.sources?.map((s) => s.id)).toEqual(['s1', 's2']);
+    expect(essay.sources?.[0]).toMatchObject({ title: 'Les Misérables', published: '1862', authors: ['Victor Hugo'] });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('takes a proof block citation set on one side', () => {
+    const withSource = addSource(base, { ...createSource(), id: 's1' });
+    const remote = setProofBlockSource(withSource, 'b1', 'p1a', 's1', '12');
+    const local = updateProofBlock(withSource, 'b1', 'p1a', 'analysis', 'Mine');
+
+    const { essay } = mergeEssays(withSource, local, remote);
+
+    expect(essay.bodyParagraphs[0].proofBlocks[0]).toMatchObject({ analysis: 'Mine', sourceId: 's1', page: '12' });
+    expect(mergeEssays(remote, local, remote).essay.bodyParagraphs[0].proofBlocks[0]).not.toHaveProperty('sourceId');
+  });
+});
+
+describe('setEssayField', () => {
+  const essay = addCounterargument(makeEssay());
+
+  it.each([
+    ['intro.thesis', (e: Essay) => e.intro.thesis],
+    ['claim.c2', (e: Essay) => e.intro.claims[1].text],
+    ['body.b3.recap', (e: Essay) => e.bodyParagraphs[2].recap],
+    ['proof.p2b.connection', (e: Essay) => e.bodyParagraphs[1].proofBlocks[1].connection],
+    ['counterargument.rebuttal', (e: Essay) => e.counterargument!.rebuttal],
+    ['conclusion.soWhat', (e: Essay) => e.conclusion.soWhat],
+  ])('sets %s', (key, read) => {
+    expect(read(setEssayField(essay, key, 'Value'))).toBe('Value');
+  });
+
+  it('returns the essay unchanged for a field that no longer exists', () => {
+    expect(setEssayField(essay, 'proof.gone.quote', 'Value')).toBe(essay);
+  });
+});
+
+describe('isSameEssay', () => {
+  it('ignores key order', () => {
+    const essay = makeEssay();
+    const reordered = { conclusion: essay.conclusion, bodyParagraphs: essay.bodyParagraphs, intro: essay.intro };
+    expect(isSameEssay(essay, reordered)).toBe(true);
+    expect(isSameEssay(essay, updateIntro(essay, 'hook', 'Changed'))).toBe(false);
+  });
+});
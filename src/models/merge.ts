@@ -0,0 +1,356 @@
+/**
+ * Three-way merge of concurrent essay edits - no React or UI dependencies
+ *
+ * When a remote copy of an essay arrives while local edits are pending, each
+ * text field is merged against the last copy both sides agreed on (the base):
+ * whichever side changed a field wins, and a field changed differently on both
+ * sides is a conflict. Conflicts keep the local value and are reported so the
+ * editor can offer the remote one.
+ *
+ * Claims, body paragraphs and proof blocks are matched by their stable ids, so
+ * reordering on one side and editing on the other both survive. An item
+ * deleted on one side stays deleted unless the other side edited it.
+ */
+import {
+  updateBodyParagraph,
+  updateClaim,
+  updateConclusion,
+  updateCounterargument,
+  updateIntro,
+  updateProofBlock,
+  type BodyParagraph,
+  type Claim,
+  type Conclusion,
+  type Counterargument,
+  type Essay,
+  type Intro,
+  type ProofBlock,
+  type Source,
+} from './essay';
+import { getEssayFields } from './version';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A field edited differently on both sides. `key` is the stable field key
+ * used by getEssayFields (e.g. "proof.abc1234.quote").
+ */
+export interface FieldConflict {
+  key: string;
+  label: string;
+  local: string;
+  remote: string;
+}
+
+export interface MergeResult {
+  essay: Essay;
+  conflicts: FieldConflict[];
+}
+
+type TextConflict = Omit<FieldConflict, 'label'>;
+
+interface MergeContext {
+  conflicts: TextConflict[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const INTRO_FIELDS = ['hook', 'background', 'thesis', 'paragraph'] as const;
+const BODY_FIELDS = ['purpose', 'recap', 'paragraph'] as const;
+const PROOF_FIELDS = ['quote', 'analysis', 'connection'] as const;
+const COUNTERARGUMENT_FIELDS = ['opposingView', 'concession', 'rebuttal', 'paragraph'] as const;
+const CONCLUSION_FIELDS = ['restatement', 'soWhat', 'paragraph'] as const;
+
+// =============================================================================
+// Merge Helpers
+// =============================================================================
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a).filter((k) => (a as Record<string, unknown>)[k] !== undefined);
+  const bKeys = Object.keys(b).filter((k) => (b as Record<string, unknown>)[k] !== undefined);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((k) => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+  );
+}
+
+function mergeValue<T>(base: T | undefined, local: T, remote: T): T {
+  if (deepEqual(local, remote) || deepEqual(remote, base)) return local;
+  if (deepEqual(local, base)) return remote;
+  return local;
+}
+
+function mergeText(
+  ctx: MergeContext,
+  key: string,
+  base: string | undefined,
+  local: string,
+  remote: string
+): string {
+  const baseValue = base ?? '';
+  if (local === remote || remote === baseValue) return local;
+  if (local === baseValue) return remote;
+  ctx.conflicts.push({ key, local, remote });
+  return local;
+}
+
+function mergeFields<T extends object, K extends keyof T & string>(
+  ctx: MergeContext,
+  fields: readonly K[],
+  keyFor: (field: K) => string,
+  base: T | undefined,
+  local: T,
+  remote: T
+): Pick<T, K> {
+  const merged = {} as Pick<T, K>;
+  for (const field of fields) {
+    merged[field] = mergeText(
+      ctx,
+      keyFor(field),
+      base?.[field] as string | undefined,
+      local[field] as string,
+      remote[field] as string
+    ) as T[K];
+  }
+  return merged;
+}
+
+/**
+ * Whether `order` keeps the relative order of the ids it shares with `base`
+ */
+function keepsOrder(base: string[], order: string[]): boolean {
+  const shared = new Set(base);
+  const kept = order.filter((id) => shared.has(id));
+  const inOrder = new Set(kept);
+  return deepEqual(kept, base.filter((id) => inOrder.has(id)));
+}
+
+/**
+ * Merge two versions of a list of items with stable ids.
+ * Order follows whichever side reordered (local if both did); items only
+ * the other side has are placed after the item they follow there.
+ */
+function mergeList<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+
+  const resolve = (id: string): T | null => {
+    const baseItem = baseById.get(id);
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+    if (localItem && remoteItem) return mergeItem(baseItem, localItem, remoteItem);
+    const only = (localItem ?? remoteItem) as T;
+    // Added on one side, or deleted on the other: keep additions and edited items
+    return !baseItem || !deepEqual(baseItem, only) ? only : null;
+  };
+
+  const ids = (items: T[]) => items.map((item) => item.id);
+  const remoteReordered = keepsOrder(ids(base), ids(local)) && !keepsOrder(ids(base), ids(remote));
+  const [primary, secondary] = remoteReordered ? [remote, local] : [local, remote];
+
+  const order = primary.map((item) => item.id);
+  const placed = new Set(order);
+  secondary.forEach((item, index) => {
+    if (placed.has(item.id)) return;
+    const previous = index > 0 ? secondary[index - 1].id : null;
+    const at = previous === null ? 0 : order.indexOf(previous) + 1;
+    order.splice(at, 0, item.id);
+    placed.add(item.id);
+  });
+
+  return order.map(resolve).filter((item): item is T => item !== null);
+}
+
+function mergeIntro(ctx: MergeContext, base: Intro, local: Intro, remote: Intro): Intro {
+  return {
+    ...mergeFields(ctx, INTRO_FIELDS, (field) => `intro.${field}`, base, local, remote),
+    claims: mergeList(base.claims, local.claims, remote.claims, (b, l, r): Claim => ({
+      id: l.id,
+      text: mergeText(ctx, `claim.${l.id}`, b?.text, l.text, r.text),
+    })),
+  };
+}
+
+function mergeProofBlock(
+  ctx: MergeContext,
+  base: ProofBlock | undefined,
+  local: ProofBlock,
+  remote: ProofBlock
+): ProofBlock {
+  const sourceId = mergeValue(base?.sourceId, local.sourceId, remote.sourceId);
+  const page = mergeValue(base?.page, local.page, remote.page);
+  return {
+    id: local.id,
+    ...mergeFields(ctx, PROOF_FIELDS, (field) => `proof.${local.id}.${field}`, base, local, remote),
+    ...(sourceId !== undefined ? { sourceId } : {}),
+    ...(page !== undefined ? { page } : {}),
+  };
+}
+
+/** Each field of a source on its own, so edits to different fields both land */
+function mergeSource(base: Source | undefined, local: Source, remote: Source): Source {
+  const field = <K extends keyof Source>(key: K): Source[K] => mergeValue(base?.[key], local[key], remote[key]);
+  return {
+    id: local.id,
+    type: field('type'),
+    authors: field('authors'),
+    title: field('title'),
+    container: field('container'),
+    published: field('published'),
+    pages: field('pages'),
+    url: field('url'),
+    accessed: field('accessed'),
+  };
+}
+
+function mergeBodyParagraph(
+  ctx: MergeContext,
+  base: BodyParagraph | undefined,
+  local: BodyParagraph,
+  remote: BodyParagraph
+): BodyParagraph {
+  return {
+    id: local.id,
+    provingClaimId: mergeValue(base?.provingClaimId, local.provingClaimId, remote.provingClaimId),
+    ...mergeFields(ctx, BODY_FIELDS, (field) => `body.${local.id}.${field}`, base, local, remote),
+    proofBlocks: mergeList(base?.proofBlocks ?? [], local.proofBlocks, remote.proofBlocks, (b, l, r) =>
+      mergeProofBlock(ctx, b, l, r)
+    ),
+  };
+}
+
+function mergeCounterargument(
+  ctx: MergeContext,
+  base: Counterargument | undefined,
+  local: Counterargument | undefined,
+  remote: Counterargument | undefined
+): Counterargument | undefined {
+  if (local && remote) {
+    return mergeFields(ctx, COUNTERARGUMENT_FIELDS, (field) => `counterargument.${field}`, base, local, remote);
+  }
+  // Present on one side only: an addition, or a removal the other side did not edit over
+  const only = local ?? remote;
+  return only && (!base || !deepEqual(base, only)) ? only : undefined;
+}
+
+/**
+ * Keep body paragraphs in claim order, as moveClaim does
+ */
+function followClaimOrder(claims: Claim[], bodies: BodyParagraph[]): BodyParagraph[] {
+  const position = new Map(claims.map((claim, index) => [claim.id, index]));
+  const rank = (body: BodyParagraph) => position.get(body.provingClaimId) ?? claims.length;
+  return [...bodies].sort((a, b) => rank(a) - rank(b));
+}
+
+function parseFieldKey(key: string): { section: string; id: string; field: string } {
+  const [section, ...rest] = key.split('.');
+  if (section === 'claim') return { section, id: rest[0], field: 'text' };
+  if (section === 'body' || section === 'proof') return { section, id: rest[0], field: rest[1] };
+  return { section, id: '', field: rest[0] };
+}
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Merge local and remote edits made since `base`
+ */
+export function mergeEssays(base: Essay, local: Essay, remote: Essay): MergeResult {
+  const ctx: MergeContext = { conflicts: [] };
+
+  const intro = mergeIntro(ctx, base.intro, local.intro, remote.intro);
+  const bodyParagraphs = mergeList(
+    base.bodyParagraphs,
+    local.bodyParagraphs,
+    remote.bodyParagraphs,
+    (b, l, r) => mergeBodyParagraph(ctx, b, l, r)
+  );
+  const counterargument = mergeCounterargument(
+    ctx,
+    base.counterargument,
+    local.counterargument,
+    remote.counterargument
+  );
+  const conclusion = mergeFields(
+    ctx,
+    CONCLUSION_FIELDS,
+    (field) => `conclusion.${field}`,
+    base.conclusion,
+    local.conclusion,
+    remote.conclusion
+  );
+  const templateId = mergeValue(base.templateId, local.templateId, remote.templateId);
+  const wordLimits = mergeValue(base.wordLimits, local.wordLimits, remote.wordLimits);
+  const citationStyle = mergeValue(base.citationStyle, local.citationStyle, remote.citationStyle);
+  // A source edited on both sides keeps the local copy
+  const sources = mergeList(base.sources ?? [], local.sources ?? [], remote.sources ?? [], mergeSource);
+
+  const essay: Essay = {
+    ...(templateId !== undefined ? { templateId } : {}),
+    ...(wordLimits !== undefined ? { wordLimits } : {}),
+    ...(sources.length > 0 ? { sources } : {}),
+    ...(citationStyle !== undefined ? { citationStyle } : {}),
+    intro,
+    bodyParagraphs: followClaimOrder(intro.claims, bodyParagraphs),
+    ...(counterargument ? { counterargument } : {}),
+    conclusion,
+  };
+
+  const labels = new Map(getEssayFields(essay).map((field) => [field.key, field.label]));
+  const conflicts = ctx.conflicts.map((conflict) => ({
+    ...conflict,
+    label: labels.get(conflict.key) ?? conflict.key,
+  }));
+
+  return { essay, conflicts };
+}
+
+/**
+ * Set one text field, addressed by its getEssayFields key.
+ * Returns the essay unchanged if the field no longer exists.
+ */
+export function setEssayField(essay: Essay, key: string, value: string): Essay {
+  const { section, id, field } = parseFieldKey(key);
+  switch (section) {
+    case 'intro':
+      return updateIntro(essay, field as keyof Intro, value);
+    case 'claim':
+      return updateClaim(essay, id, value);
+    case 'body':
+      return updateBodyParagraph(essay, id, field as keyof BodyParagraph, value);
+    case 'proof': {
+      const body = essay.bodyParagraphs.find((bp) => bp.proofBlocks.some((pb) => pb.id === id));
+      return body ? updateProofBlock(essay, body.id, id, field as keyof ProofBlock, value) : essay;
+    }
+    case 'counterargument':
+      return essay.counterargument ? updateCounterargument(essay, field as keyof Counterargument, value) : essay;
+    case 'conclusion':
+      return updateConclusion(essay, field as keyof Conclusion, value);
+    default:
+      return essay;
+  }
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Structural equality, ignoring key order (stored copies may reorder keys)
+ */
+export const isSameEssay = (a: Essay, b: Essay): boolean => deepEqual(a, b);
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTransition,
+  draftBodyParagraph,
+  draftConclusionParagraph,
+  draftCounterargumentParagraph,
+  draftIntroParagraph,
+} from './outlineDraft';
+import { createBodyParagraph, createClaim, createCounterargument, createEssay, createProofBlock, type ProofBlock } from './essay';
+import { DEFAULT_PHRASE_BANK, getCounterargumentTemplate, getPhraseBank, getTemplate } from './template';
+
+const argument = getTemplate('argument');
+const narrative = getTemplate('narrative');
+const { intro: emptyIntro, conclusion: emptyConclusion } = createEssay();
+
+describe('addTransition', () => {
+  it('opens the sentence with the phrase and closes it with a period', () => {
+    expect(addTransition('However,', 'The bell rings too early')).toBe('However, the bell rings too early.');
+    expect(addTransition('However,', 'teens need more sleep')).toBe('However, teens need more sleep.');
+  });
+
+  it('keeps capitals on names and the word I', () => {
+    expect(addTransition('For example,', 'Hugo shows mercy')).toBe('For example, Hugo shows mercy.');
+    expect(addTransition('Ultimately,', 'I believe in mercy')).toBe('Ultimately, I believe in mercy.');
+  });
+
+  it('keeps the punctuation the student wrote', () => {
+    expect(addTransition('', 'why does it matter?')).toBe('Why does it matter?');
+    expect(addTransition('Then,', 'he said "stop."')).toBe('Then, he said "stop."');
+  });
+
+  it('joins line breaks into one sentence', () => {
+    expect(addTransition('', 'Mercy\n  changes people')).toBe('Mercy changes people.');
+  });
+
+  it('skips the phrase when the sentence already starts with a transition', () => {
+    expect(addTransition('However,', 'However, sleep matters')).toBe('However, sleep matters.');
+    expect(addTransition('For example,', 'Furthermore the data agree', ['Furthermore,'])).toBe(
+      'Furthermore the data agree.'
+    );
+  });
+
+  it('only matches whole words', () => {
+    expect(addTransition('Finally,', 'There was peace', ['The'])).toBe('Finally, there was peace.');
+  });
+});
+
+describe('draftIntroParagraph', () => {
+  it('follows the outline order and numbers the claims that are filled in', () => {
+    const intro = {
+      ...emptyIntro,
+      hook: 'What makes a person good?',
+      thesis: 'Hugo shows that mercy is stronger than law',
+    };
+    intro.claims = [
+      { id: 'a', text: 'the bishop changes Valjean' },
+      { id: 'b', text: '' },
+      { id: 'c', text: 'Javert cannot bend' },
+    ];
+
+    expect(draftIntroParagraph(intro, argument.intro, DEFAULT_PHRASE_BANK)).toBe(
+      'What makes a person good? Hugo shows that mercy is stronger than law. ' +
+        'First, the bishop changes Valjean. Second, Javert cannot bend.'
+    );
+  });
+
+  it('is empty for an empty outline', () => {
+    expect(draftIntroParagraph(emptyIntro, argument.intro, DEFAULT_PHRASE_BANK)).toBe('');
+  });
+});
+
+describe('draftBodyParagraph', () => {
+  it('takes the proof phrases in turn for each filled-in proof block', () => {
+    const body = {
+      ...createBodyParagraph(createClaim()),
+      purpose: 'Mercy changes Valjean',
+      recap: 'mercy matters more than law',
+      proofBlocks: [
+        { ...createProofBlock(), quote: 'The bishop gives him the candlesticks', analysis: 'he is forgiven' },
+        createProofBlock(),
+        { ...createProofBlock(), quote: 'Valjean spares Javert', connection: 'the change lasts' },
+      ],
+    };
+
+    expect(draftBodyParagraph(body, argument.body, DEFAULT_PHRASE_BANK)).toBe(
+      'Mercy changes Valjean. For example, the bishop gives him the candlesticks. This shows that he is forgiven. ' +
+        'In addition, Valjean spares Javert. Therefore, the change lasts. Overall, mercy matters more than law.'
+    );
+  });
+
+  it("cites each proof block's evidence after its quote", () => {
+    const body = {
+      ...createBodyParagraph(createClaim()),
+      proofBlocks: [
+        { ...createProofBlock(), quote: '"My brother, you no longer belong to evil."', analysis: 'he is forgiven' },
+        { ...createProofBlock(), quote: 'Valjean spares Javert' },
+      ],
+    };
+    const cite = (pb: ProofBlock) => (pb.id === body.proofBlocks[0].id ? '(Hugo 106)' : null);
+
+    expect(draftBodyParagraph(body, argument.body, DEFAULT_PHRASE_BANK, cite)).toBe(
+      'For example, "My brother, you no longer belong to evil" (Hugo 106). This shows that he is forgiven. ' +
+        'In addition, Valjean spares Javert.'
+    );
+  });
+
+  it("uses the essay type's phrases", () => {
+    const body = {
+      ...createBodyParagraph(createClaim()),
+      proofBlocks: [
+        { ...createProofBlock(), quote: 'we missed the bus', analysis: 'Nobody spoke' },
+        { ...createProofBlock(), quote: 'the rain started' },
+      ],
+    };
+
+    expect(draftBodyParagraph(body, narrative.body, getPhraseBank(narrative))).toBe(
+      'At first, we missed the bus. Nobody spoke. Then, the rain started.'
+    );
+  });
+});
+
+describe('draftCounterargumentParagraph', () => {
+  it('frames the opposing view, concession and rebuttal', () => {
+    const counterargument = {
+      ...createCounterargument(),
+      opposingView: 'later starts hurt sports',
+      concession: 'practice times would move',
+      rebuttal: 'rested athletes play better',
+    };
+
+    expect(
+      draftCounterargumentParagraph(counterargument, getCounterargumentTemplate(argument), DEFAULT_PHRASE_BANK)
+    ).toBe(
+      'Some may argue that later starts hurt sports. It is true that practice times would move. ' +
+        'However, rested athletes play better.'
+    );
+  });
+});
+
+describe('draftConclusionParagraph', () => {
+  it('leaves out empty fields', () => {
+    const conclusion = { ...emptyConclusion, soWhat: 'we should forgive more often' };
+
+    expect(draftConclusionParagraph(conclusion, argument.conclusion, DEFAULT_PHRASE_BANK)).toBe(
+      'Ultimately, we should forgive more often.'
+    );
+  });
+});
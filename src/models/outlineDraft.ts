@@ -0,0 +1,167 @@
+/**
+ * "Draft from outline": a starting paragraph stitched together from a
+ * section's outline fields - no React or UI dependencies
+ *
+ * Deterministic by design: each filled-in field becomes one sentence, in the
+ * order the outline shows them, opened with a transition phrase from the
+ * essay type's phrase bank. The same outline always gives the same draft, so
+ * students can see exactly where each sentence came from.
+ */
+import type { BodyParagraph, Conclusion, Counterargument, Intro, ProofBlock } from './essay';
+import { addInTextCitation } from './citation';
+import type {
+  BodyTemplate,
+  ConclusionTemplate,
+  CounterargumentTemplate,
+  IntroTemplate,
+  PhraseBank,
+  PhraseField,
+} from './template';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One outline field to turn into a sentence */
+interface DraftPart {
+  field: PhraseField;
+  text: string;
+  /** Position among the filled-in repeats of the field, picking its phrase */
+  index: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Words that are only capitalized because they start the sentence, so they
+ * are lowercased after a transition. Anything else (names, titles, "I") keeps
+ * its capital.
+ */
+const SENTENCE_STARTERS = new Set(
+  (
+    'a an the this that these those it its there here they their them we our us he she his her you your my ' +
+    'one some many most all each every both such what when where why how while although though because since ' +
+    'if as in on at by for from with without after before during to of not no people'
+  ).split(' ')
+);
+
+// Ends in . ! or ? plus any closing quotes or brackets
+const SENTENCE_END = /[.!?]["'”’)\]]*$/;
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Outline text as one sentence: line breaks joined and closing punctuation
+ * added. The first letter is left as the student typed it.
+ */
+function toSentence(text: string): string {
+  const sentence = text.replace(/\s+/g, ' ').trim();
+  return SENTENCE_END.test(sentence) ? sentence : `${sentence}.`;
+}
+
+const capitalize = (sentence: string): string => sentence.charAt(0).toUpperCase() + sentence.slice(1);
+
+function lowercaseStarter(sentence: string): string {
+  const firstWord = sentence.match(/^[A-Za-z]+/)?.[0] ?? '';
+  return SENTENCE_STARTERS.has(firstWord.toLowerCase()) ? sentence.charAt(0).toLowerCase() + sentence.slice(1) : sentence;
+}
+
+const startsWithPhrase = (sentence: string, phrase: string): boolean => {
+  const bare = phrase.replace(/,$/, '').toLowerCase();
+  return sentence.toLowerCase().startsWith(bare) && !/[a-z]/i.test(sentence.charAt(bare.length));
+};
+
+/**
+ * A sentence opened with a transition phrase, unless the student already
+ * started it with that phrase or one of `known`
+ */
+export function addTransition(phrase: string, text: string, known: string[] = []): string {
+  const sentence = toSentence(text);
+  if (!phrase || [phrase, ...known].some((p) => startsWithPhrase(sentence, p))) return capitalize(sentence);
+  return `${phrase} ${lowercaseStarter(sentence)}`;
+}
+
+/**
+ * Join the filled-in parts into a paragraph, one sentence each
+ */
+export function assembleParagraph(parts: DraftPart[], phrases: PhraseBank): string {
+  const known = Object.values(phrases).flat();
+  return parts
+    .filter((part) => part.text.trim())
+    .map(({ field, text, index }) => {
+      const bank = phrases[field];
+      return addTransition(bank.length > 0 ? bank[index % bank.length] : '', text, known);
+    })
+    .join(' ');
+}
+
+/**
+ * Parts for a list of repeated values, numbered among the filled-in ones
+ */
+const repeated = (field: PhraseField, texts: string[]): DraftPart[] =>
+  texts.filter((text) => text.trim()).map((text, index) => ({ field, text, index }));
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/** Intro fields in outline order, then one sentence per claim */
+export const draftIntroParagraph = (intro: Intro, template: IntroTemplate, phrases: PhraseBank): string =>
+  assembleParagraph(
+    [
+      ...template.fields.map((field) => ({ field: field.key, text: intro[field.key], index: 0 })),
+      ...repeated('claim', intro.claims.map((claim) => claim.text)),
+    ],
+    phrases
+  );
+
+/**
+ * The topic sentence, each proof block's fields in turn, then the recap.
+ * `cite` gives a proof block's in-text citation, which follows its evidence.
+ */
+export function draftBodyParagraph(
+  body: BodyParagraph,
+  template: BodyTemplate,
+  phrases: PhraseBank,
+  cite: (proofBlock: ProofBlock) => string | null = () => null
+): string {
+  const filledProofs = body.proofBlocks.filter((pb) => template.proof.fields.some((field) => pb[field.key].trim()));
+  const proofText = (proofBlock: ProofBlock, key: BodyTemplate['proof']['fields'][number]['key']): string => {
+    const citation = key === 'quote' && proofBlock.quote.trim() ? cite(proofBlock) : null;
+    return citation ? addInTextCitation(proofBlock.quote, citation) : proofBlock[key];
+  };
+  return assembleParagraph(
+    [
+      ...template.lead.map((field) => ({ field: field.key, text: body[field.key], index: 0 })),
+      ...filledProofs.flatMap((proofBlock, index) =>
+        template.proof.fields.map((field) => ({ field: field.key, text: proofText(proofBlock, field.key), index }))
+      ),
+      ...template.close.map((field) => ({ field: field.key, text: body[field.key], index: 0 })),
+    ],
+    phrases
+  );
+}
+
+export const draftCounterargumentParagraph = (
+  counterargument: Counterargument,
+  template: CounterargumentTemplate,
+  phrases: PhraseBank
+): string =>
+  assembleParagraph(
+    template.fields.map((field) => ({ field: field.key, text: counterargument[field.key], index: 0 })),
+    phrases
+  );
+
+export const draftConclusionParagraph = (
+  conclusion: Conclusion,
+  template: ConclusionTemplate,
+  phrases: PhraseBank
+): string =>
+  assembleParagraph(
+    template.fields.map((field) => ({ field: field.key, text: conclusion[field.key], index: 0 })),
+    phrases
+  );
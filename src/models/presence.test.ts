@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInitials,
+  getOtherCollaborators,
+  getPresenceColor,
+  groupByFocusedCell,
+  isSessionStale,
+  SESSION_TIMEOUT_MS,
+  type PresenceSession,
+} from './presence';
+
+const NOW = new Date(Date.UTC(2024, 0, 1, 12));
+
+function makeSession(id: string, overrides: Partial<PresenceSession> = {}): PresenceSession {
+  return {
+    id,
+    uid: `uid-${id}`,
+    displayName: `Person ${id}`,
+    photoURL: null,
+    mode: 'editing',
+    focusedCell: null,
+    lastSeen: NOW,
+    ...overrides,
+  };
+}
+
+const secondsAgo = (seconds: number) => new Date(NOW.getTime() - seconds * 1000);
+
+describe('isSessionStale', () => {
+  it('keeps sessions seen within the timeout', () => {
+    expect(isSessionStale(makeSession('a', { lastSeen: new Date(NOW.getTime() - SESSION_TIMEOUT_MS) }), NOW)).toBe(
+      false
+    );
+  });
+
+  it('expires sessions not seen for longer', () => {
+    expect(isSessionStale(makeSession('a', { lastSeen: new Date(NOW.getTime() - SESSION_TIMEOUT_MS - 1) }), NOW)).toBe(
+      true
+    );
+  });
+});
+
+describe('getOtherCollaborators', () => {
+  it('leaves out the current user and stale sessions', () => {
+    const sessions = [
+      makeSession('me', { uid: 'me' }),
+      makeSession('b', { displayName: 'Bea' }),
+      makeSession('c', { lastSeen: secondsAgo(600) }),
+    ];
+
+    expect(getOtherCollaborators(sessions, 'me', NOW).map((s) => s.id)).toEqual(['b']);
+  });
+
+  it('shows one entry per person, from their most recent tab', () => {
+    const sessions = [
+      makeSession('tab1', { uid: 'ann', displayName: 'Ann', lastSeen: secondsAgo(10), focusedCell: 'intro-hook' }),
+      makeSession('tab2', { uid: 'ann', displayName: 'Ann', lastSeen: secondsAgo(2), focusedCell: 'intro-thesis' }),
+    ];
+
+    const [ann] = getOtherCollaborators(sessions, 'me', NOW);
+    expect(ann.focusedCell).toBe('intro-thesis');
+  });
+
+  it('sorts people by name', () => {
+    const sessions = [makeSession('z', { displayName: 'Zoe' }), makeSession('a', { displayName: 'Abe' })];
+
+    expect(getOtherCollaborators(sessions, 'me', NOW).map((s) => s.displayName)).toEqual(['Abe', 'Zoe']);
+  });
+});
+
+describe('groupByFocusedCell', () => {
+  it('groups sessions by focused cell, skipping unfocused ones', () => {
+    const a = makeSession('a', { focusedCell: 'claim1' });
+    const b = makeSession('b', { focusedCell: 'claim1' });
+    const c = makeSession('c');
+
+    const byCell = groupByFocusedCell([a, b, c]);
+
+    expect([...byCell.keys()]).toEqual(['claim1']);
+    expect(byCell.get('claim1')).toEqual([a, b]);
+  });
+});
+
+describe('getPresenceColor', () => {
+  it('gives the same person the same color', () => {
+    expect(getPresenceColor('user-1')).toBe(getPresenceColor('user-1'));
+    expect(getPresenceColor('user-1')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+describe('getInitials', () => {
+  it.each([
+    ['Ada Lovelace', 'AL'],
+    ['Grace Brewster Hopper', 'GH'],
+    ['plato', 'P'],
+    ['  ', '?'],
+  ])('%j -> %s', (name, initials) => {
+    expect(getInitials(name)).toBe(initials);
+  });
+});
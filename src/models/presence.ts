@@ -0,0 +1,104 @@
+/**
+ * Presence data model - who has an essay open, and where - no React or UI dependencies
+ *
+ * Every open editor tab is a session that rewrites its heartbeat document
+ * every HEARTBEAT_INTERVAL_MS. A session that has not been seen for
+ * SESSION_TIMEOUT_MS (a closed laptop, a crashed tab) is stale: it is hidden
+ * and may be deleted by anyone viewing the essay.
+ */
+import { nanoid } from 'nanoid';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PresenceMode = 'viewing' | 'editing';
+
+/**
+ * One open editor tab. `focusedCell` is the block id of the focused cell, as
+ * used for comments (e.g. "intro-thesis", "abc1234-quote").
+ */
+export interface PresenceSession {
+  id: string;
+  uid: string;
+  displayName: string;
+  photoURL: string | null;
+  mode: PresenceMode;
+  focusedCell: string | null;
+  lastSeen: Date;
+}
+
+/**
+ * A heartbeat as written by a session; storage sets lastSeen
+ */
+export type PresenceUpdate = Omit<PresenceSession, 'lastSeen'>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/** Three missed heartbeats */
+export const SESSION_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+const PRESENCE_COLORS = ['#e8590c', '#2f9e44', '#1971c2', '#9c36b5', '#c2255c', '#0c8599', '#f08c00'];
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+export const generateSessionId = (): string => nanoid(10);
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+export const isSessionStale = (session: PresenceSession, now: Date): boolean =>
+  now.getTime() - session.lastSeen.getTime() > SESSION_TIMEOUT_MS;
+
+/**
+ * Sessions of other people still in the essay, one per person (their most
+ * recent tab), sorted by name. The user's own sessions are left out.
+ */
+export function getOtherCollaborators(sessions: PresenceSession[], ownUid: string, now: Date): PresenceSession[] {
+  const latestByUid = new Map<string, PresenceSession>();
+  sessions
+    .filter((session) => session.uid !== ownUid && !isSessionStale(session, now))
+    .forEach((session) => {
+      const latest = latestByUid.get(session.uid);
+      if (!latest || session.lastSeen > latest.lastSeen) latestByUid.set(session.uid, session);
+    });
+  return [...latestByUid.values()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Group sessions by the cell they have focused
+ */
+export function groupByFocusedCell(sessions: PresenceSession[]): Map<string, PresenceSession[]> {
+  const byCell = new Map<string, PresenceSession[]>();
+  sessions.forEach((session) => {
+    if (!session.focusedCell) return;
+    byCell.set(session.focusedCell, [...(byCell.get(session.focusedCell) ?? []), session]);
+  });
+  return byCell;
+}
+
+/**
+ * A stable color per person, so their avatar and highlighted cell match
+ */
+export function getPresenceColor(uid: string): string {
+  let hash = 0;
+  for (const char of uid) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+export function getInitials(displayName: string): string {
+  const words = displayName.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : '';
+  return (first + last).toUpperCase();
+}
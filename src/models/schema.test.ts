@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  EssayDataError,
+  getSchemaVersion,
+  migrateEssayData,
+  readEssayData,
+  toStoredEssayData,
+  validateEssay,
+} from './schema';
+import { createEssay, createSource, addCounterargument } from './essay';
+import { DEFAULT_CITATION_STYLE, getCitationStyle } from './citation';
+import essayV1 from './fixtures/essay-v1.json';
+import essayV2 from './fixtures/essay-v2.json';
+
+// One fixture per schema version, oldest first. Add the previous version's
+// fixture here whenever CURRENT_SCHEMA_VERSION is bumped.
+const FIXTURES: [number, unknown][] = [
+  [1, essayV1],
+  [2, essayV2],
+];
+
+describe('fixtures', () => {
+  it('cover every schema version', () => {
+    expect(FIXTURES.map(([version]) => version)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i + 1)
+    );
+  });
+
+  it.each(FIXTURES)('version %i reads as a valid essay', (version, fixture) => {
+    expect(getSchemaVersion(fixture as Record<string, unknown>)).toBe(version);
+    const essay = readEssayData(structuredClone(fixture));
+    expect(validateEssay(essay)).toEqual([]);
+    expect(essay).not.toHaveProperty('schemaVersion');
+  });
+
+  it.each(FIXTURES)('version %i migrates to the current version', (_version, fixture) => {
+    expect(migrateEssayData(structuredClone(fixture)).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe('migrateEssayData', () => {
+  it('fills text fields missing from version 1 data', () => {
+    const essay = readEssayData(structuredClone(essayV1));
+
+    expect(essay.intro.paragraph).toBe('');
+    expect(essay.intro.claims[1].text).toBe('Later starts improve grades');
+    expect(essay.bodyParagraphs[0].proofBlocks[0].connection).toBe('');
+    expect(essay.bodyParagraphs[0].recap).toBe('');
+    expect(essay.bodyParagraphs[1].paragraph).toBe('');
+    expect(essay.conclusion.paragraph).toBe('');
+    expect(essay.counterargument).toBeUndefined();
+  });
+
+  it('keeps existing content', () => {
+    const essay = readEssayData(structuredClone(essayV1));
+
+    expect(essay.intro.thesis).toBe('High schools should start later');
+    expect(essay.bodyParagraphs[0].proofBlocks[0].quote).toBe('Teens need 8 to 10 hours of sleep each night.');
+    expect(essay.bodyParagraphs.map((b) => b.provingClaimId)).toEqual(['claim01', 'claim02']);
+  });
+
+  it('leaves current data unchanged apart from the version', () => {
+    const { schemaVersion: _schemaVersion, ...expected } = essayV2;
+    expect(readEssayData(structuredClone(essayV2))).toEqual(expected);
+  });
+
+  it('does not modify its input', () => {
+    const input = structuredClone(essayV1);
+    migrateEssayData(input);
+    expect(input).toEqual(essayV1);
+  });
+
+  it('rejects data from a newer version', () => {
+    expect(() => migrateEssayData({ ...essayV2, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      EssayDataError
+    );
+  });
+
+  it.each([0, 1.5, '2', null])('rejects schema version %j', (schemaVersion) => {
+    expect(() => migrateEssayData({ ...essayV2, schemaVersion })).toThrow(/invalid schema version/);
+  });
+
+  it.each([null, 'essay', [], 42])('rejects %j', (data) => {
+    expect(() => migrateEssayData(data)).toThrow(EssayDataError);
+  });
+});
+
+describe('toStoredEssayData', () => {
+  it('stamps the current version and round-trips through readEssayData', () => {
+    const essay = addCounterargument(createEssay());
+    const stored = toStoredEssayData(essay);
+
+    expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(readEssayData(stored)).toEqual(essay);
+  });
+});
+
+describe('validateEssay', () => {
+  it('accepts a new essay', () => {
+    expect(validateEssay(createEssay())).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    const essay = createEssay();
+    const corrupted = {
+      ...essay,
+      templateId: 7,
+      intro: { ...essay.intro, thesis: null, claims: [{ text: 'No id' }] },
+      bodyParagraphs: [{ ...essay.bodyParagraphs[0], proofBlocks: 'none' }],
+      conclusion: 'The end',
+    };
+
+    expect(validateEssay(corrupted)).toEqual([
+      'templateId: expected a string',
+      'intro.thesis: expected a string',
+      'intro.claims[0].id: expected a string',
+      'bodyParagraphs[0].proofBlocks: expected an array',
+      'conclusion: expected an object',
+    ]);
+  });
+
+  it('requires at least one claim and one proof block', () => {
+    const essay = createEssay();
+    const corrupted = {
+      ...essay,
+      intro: { ...essay.intro, claims: [] },
+      bodyParagraphs: [{ ...essay.bodyParagraphs[0], proofBlocks: [] }],
+    };
+
+    expect(validateEssay(corrupted)).toEqual([
+      'intro.claims: expected at least one item',
+      'bodyParagraphs[0].proofBlocks: expected at least one item',
+    ]);
+  });
+
+  it('accepts positive whole word limits only', () => {
+    const essay = createEssay();
+    expect(validateEssay({ ...essay, wordLimits: { essay: 800, paragraph: 150 } })).toEqual([]);
+    expect(validateEssay({ ...essay, wordLimits: { essay: -1, paragraph: 1.5 } })).toEqual([
+      'wordLimits.essay: expected a positive whole number',
+      'wordLimits.paragraph: expected a positive whole number',
+    ]);
+    expect(validateEssay({ ...essay, wordLimits: 500 })).toEqual(['wordLimits: expected an object']);
+  });
+
+  it('checks sources, the citation style and proof block citations', () => {
+    const essay = createEssay();
+    const source = { ...createSource('website'), title: 'Reading Hugo Today' };
+    const cited = {
+      ...essay,
+      sources: [source],
+      citationStyle: 'apa',
+      bodyParagraphs: [
+        { ...essay.bodyParagraphs[0], proofBlocks: [{ ...essay.bodyParagraphs[0].proofBlocks[0], sourceId: source.id, page: '4' }] },
+      ],
+    };
+    expect(validateEssay(cited)).toEqual([]);
+
+    expect(
+      validateEssay({
+        ...cited,
+        sources: [{ ...source, type: 'film', authors: 'Hugo' }],
+        citationStyle: 'harvard',
+        bodyParagraphs: [{ ...cited.bodyParagraphs[0], proofBlocks: [{ ...cited.bodyParagraphs[0].proofBlocks[0], page: 4 }] }],
+      })
+    ).toEqual([
+      'citationStyle: expected one of mla, apa, chicago',
+      'sources[0].type: expected one of book, article, website',
+      'sources[0].authors: expected an array of strings',
+      'bodyParagraphs[0].proofBlocks[0].page: expected a string',
+    ]);
+    expect(validateEssay({ ...essay, sources: {} })).toEqual(['sources: expected an array']);
+  });
+});
+
+describe('readEssayData', () => {
+  it('throws an EssayDataError listing the issues', () => {
+    const { intro: _intro, ...noIntro } = essayV2;
+    const corrupted = { ...noIntro, bodyParagraphs: {} };
+
+    try {
+      readEssayData(corrupted);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(EssayDataError);
+      expect((error as EssayDataError).issues).toEqual([
+        'intro: expected an object',
+        'bodyParagraphs: expected an array',
+      ]);
+    }
+  });
+
+  it('falls back to the default citation style for one it does not know', () => {
+    const essay = readEssayData({ ...essayV2, citationStyle: 'harvard' });
+
+    expect(essay).not.toHaveProperty('citationStyle');
+    expect(getCitationStyle(essay)).toBe(DEFAULT_CITATION_STYLE);
+    expect(() => readEssayData({ ...essayV2, citationStyle: 42 })).toThrow(EssayDataError);
+  });
+});
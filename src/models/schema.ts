@@ -0,0 +1,297 @@
+/**
+ * Stored essay schema: versioning, migrations and validation - no React or UI dependencies
+ *
+ * Essay data is written with a `schemaVersion` and upgraded on read, one
+ * migration at a time, so documents saved by any earlier release keep loading
+ * after the model changes. The in-memory Essay never carries the version;
+ * storage backends stamp it on write (toStoredEssayData) and strip it on read
+ * (readEssayData).
+ *
+ * To change the stored shape: bump CURRENT_SCHEMA_VERSION, add a migration
+ * from the previous version to MIGRATIONS, update validateEssay, and add a
+ * fixture for the previous version under ./fixtures.
+ *
+ * Versions:
+ * 1 - unversioned documents written before schemaVersion existed. Text fields
+ *     added after the first release may be missing.
+ * 2 - every text field present; optional counterargument and templateId.
+ *     Optional wordLimits, sources, citationStyle and proof block sourceId
+ *     and page were added later without a version bump, as older documents
+ *     without them are already valid.
+ *
+ * A new citation style is not a shape change either, but it is a value older
+ * releases don't know. Readers therefore drop a citationStyle they don't
+ * recognise, so the essay still opens in the default style, rather than
+ * rejecting the whole essay.
+ */
+import { CITATION_STYLES, SOURCE_TYPES, type Essay } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type StoredEssayData = Essay & { schemaVersion: number };
+
+type EssayRecord = Record<string, unknown>;
+
+type Migration = (data: EssayRecord) => EssayRecord;
+
+/**
+ * Stored essay data that cannot be read: not an object, written by a newer
+ * release, or corrupted. `issues` lists each problem with its path.
+ */
+export class EssayDataError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'EssayDataError';
+    this.issues = issues;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/** Version assumed for documents without a schemaVersion */
+const UNVERSIONED = 1;
+
+const INTRO_TEXT_FIELDS = ['hook', 'background', 'thesis', 'paragraph'] as const;
+const CLAIM_TEXT_FIELDS = ['text'] as const;
+const BODY_TEXT_FIELDS = ['purpose', 'recap', 'paragraph'] as const;
+const PROOF_TEXT_FIELDS = ['quote', 'analysis', 'connection'] as const;
+const COUNTERARGUMENT_TEXT_FIELDS = ['opposingView', 'concession', 'rebuttal', 'paragraph'] as const;
+const CONCLUSION_TEXT_FIELDS = ['restatement', 'soWhat', 'paragraph'] as const;
+const WORD_LIMIT_FIELDS = ['essay', 'paragraph'] as const;
+const SOURCE_TEXT_FIELDS = ['title', 'container', 'published', 'pages', 'url', 'accessed'] as const;
+const PROOF_CITATION_FIELDS = ['sourceId', 'page'] as const;
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+const isRecord = (value: unknown): value is EssayRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Add '' for missing text fields. Non-objects pass through for validation to report.
+ */
+const fillText = (value: unknown, fields: readonly string[]): unknown =>
+  isRecord(value) ? { ...Object.fromEntries(fields.map((field) => [field, ''])), ...value } : value;
+
+const mapArray = (value: unknown, fn: (item: unknown) => unknown): unknown =>
+  Array.isArray(value) ? value.map(fn) : value;
+
+function fillMissingText(data: EssayRecord): EssayRecord {
+  const intro = fillText(data.intro ?? {}, INTRO_TEXT_FIELDS);
+  return {
+    ...data,
+    intro: isRecord(intro)
+      ? { ...intro, claims: mapArray(intro.claims, (claim) => fillText(claim, CLAIM_TEXT_FIELDS)) }
+      : intro,
+    bodyParagraphs: mapArray(data.bodyParagraphs ?? [], (body) => {
+      const filled = fillText(body, BODY_TEXT_FIELDS);
+      return isRecord(filled)
+        ? { ...filled, proofBlocks: mapArray(filled.proofBlocks, (pb) => fillText(pb, PROOF_TEXT_FIELDS)) }
+        : filled;
+    }),
+    ...(data.counterargument !== undefined
+      ? { counterargument: fillText(data.counterargument, COUNTERARGUMENT_TEXT_FIELDS) }
+      : {}),
+    conclusion: fillText(data.conclusion ?? {}, CONCLUSION_TEXT_FIELDS),
+  };
+}
+
+/**
+ * Remove a citationStyle written by a newer release; without one the essay
+ * uses the default style. Anything but a string is left for validation to
+ * report.
+ */
+function dropUnknownCitationStyle(data: EssayRecord): EssayRecord {
+  const { citationStyle, ...rest } = data;
+  const unknown = typeof citationStyle === 'string' && !(CITATION_STYLES as readonly string[]).includes(citationStyle);
+  return unknown ? rest : data;
+}
+
+/**
+ * MIGRATIONS[n] upgrades version n data to version n + 1
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: fillMissingText,
+};
+
+// =============================================================================
+// Pure Transformation Functions
+// =============================================================================
+
+/**
+ * Stamp an essay with the current schema version for storage
+ */
+export const toStoredEssayData = (essay: Essay): StoredEssayData => ({
+  ...essay,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+});
+
+/**
+ * Upgrade stored data to the current schema version, without validating it.
+ * The result still carries schemaVersion.
+ */
+export function migrateEssayData(data: unknown): EssayRecord {
+  if (!isRecord(data)) {
+    throw new EssayDataError('Essay data is not an object');
+  }
+
+  let version = getSchemaVersion(data);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new EssayDataError(
+      `Essay data is schema version ${version}, newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    migrated = { ...MIGRATIONS[version](migrated), schemaVersion: version + 1 };
+    version += 1;
+  }
+  return migrated;
+}
+
+/**
+ * Read stored essay data of any schema version: migrate, validate, and strip
+ * the schema version. Throws EssayDataError if the data cannot be used.
+ */
+export function readEssayData(data: unknown): Essay {
+  const { schemaVersion: _schemaVersion, ...migrated } = dropUnknownCitationStyle(migrateEssayData(data));
+  const issues = validateEssay(migrated);
+  if (issues.length > 0) {
+    throw new EssayDataError('Essay data is corrupted', issues);
+  }
+  return migrated as unknown as Essay;
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Schema version of stored data; unversioned data is version 1.
+ * Throws EssayDataError for a version that is not a positive integer.
+ */
+export function getSchemaVersion(data: EssayRecord): number {
+  const version = data.schemaVersion === undefined ? UNVERSIONED : data.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < UNVERSIONED) {
+    throw new EssayDataError(`Essay data has an invalid schema version: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Check that data has the current Essay shape. Returns one message per
+ * problem, e.g. "bodyParagraphs[0].proofBlocks[1].quote: expected a string".
+ */
+export function validateEssay(data: unknown): string[] {
+  const issues: string[] = [];
+
+  const checkRecord = (value: unknown, path: string): value is EssayRecord => {
+    if (isRecord(value)) return true;
+    issues.push(`${path}: expected an object`);
+    return false;
+  };
+
+  const checkText = (record: EssayRecord, fields: readonly string[], path: string) => {
+    fields.forEach((field) => {
+      if (typeof record[field] !== 'string') issues.push(`${path}.${field}: expected a string`);
+    });
+  };
+
+  const checkList = (value: unknown, path: string, checkItem: (item: unknown, itemPath: string) => void) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array`);
+    } else if (value.length === 0) {
+      issues.push(`${path}: expected at least one item`);
+    } else {
+      value.forEach((item, i) => checkItem(item, `${path}[${i}]`));
+    }
+  };
+
+  const checkItem = (fields: readonly string[]) => (item: unknown, path: string) => {
+    if (!checkRecord(item, path)) return;
+    checkText(item, ['id', ...fields], path);
+  };
+
+  const checkOneOf = (value: unknown, options: readonly string[], path: string) => {
+    if (!options.includes(value as string)) issues.push(`${path}: expected one of ${options.join(', ')}`);
+  };
+
+  const checkProofBlock = (item: unknown, path: string) => {
+    checkItem(PROOF_TEXT_FIELDS)(item, path);
+    if (!isRecord(item)) return;
+    PROOF_CITATION_FIELDS.forEach((field) => {
+      if (item[field] !== undefined && typeof item[field] !== 'string') issues.push(`${path}.${field}: expected a string`);
+    });
+  };
+
+  const checkSource = (item: unknown, path: string) => {
+    if (!checkRecord(item, path)) return;
+    checkText(item, ['id', ...SOURCE_TEXT_FIELDS], path);
+    checkOneOf(item.type, SOURCE_TYPES, `${path}.type`);
+    if (!Array.isArray(item.authors) || item.authors.some((author) => typeof author !== 'string')) {
+      issues.push(`${path}.authors: expected an array of strings`);
+    }
+  };
+
+  if (!checkRecord(data, 'essay')) return issues;
+
+  if (data.templateId !== undefined && typeof data.templateId !== 'string') {
+    issues.push('templateId: expected a string');
+  }
+
+  if (data.wordLimits !== undefined && checkRecord(data.wordLimits, 'wordLimits')) {
+    const limits = data.wordLimits;
+    WORD_LIMIT_FIELDS.forEach((field) => {
+      const limit = limits[field];
+      if (limit !== undefined && !(Number.isInteger(limit) && (limit as number) > 0)) {
+        issues.push(`wordLimits.${field}: expected a positive whole number`);
+      }
+    });
+  }
+
+  if (data.citationStyle !== undefined) checkOneOf(data.citationStyle, CITATION_STYLES, 'citationStyle');
+
+  if (data.sources !== undefined) {
+    if (Array.isArray(data.sources)) {
+      data.sources.forEach((source, i) => checkSource(source, `sources[${i}]`));
+    } else {
+      issues.push('sources: expected an array');
+    }
+  }
+
+  if (checkRecord(data.intro, 'intro')) {
+    checkText(data.intro, INTRO_TEXT_FIELDS, 'intro');
+    checkList(data.intro.claims, 'intro.claims', checkItem(CLAIM_TEXT_FIELDS));
+  }
+
+  if (Array.isArray(data.bodyParagraphs)) {
+    data.bodyParagraphs.forEach((body, i) => {
+      const path = `bodyParagraphs[${i}]`;
+      if (!checkRecord(body, path)) return;
+      checkText(body, ['id', 'provingClaimId', ...BODY_TEXT_FIELDS], path);
+      checkList(body.proofBlocks, `${path}.proofBlocks`, checkProofBlock);
+    });
+  } else {
+    issues.push('bodyParagraphs: expected an array');
+  }
+
+  if (data.counterargument !== undefined && checkRecord(data.counterargument, 'counterargument')) {
+    checkText(data.counterargument, COUNTERARGUMENT_TEXT_FIELDS, 'counterargument');
+  }
+
+  if (checkRecord(data.conclusion, 'conclusion')) {
+    checkText(data.conclusion, CONCLUSION_TEXT_FIELDS, 'conclusion');
+  }
+
+  return issues;
+}
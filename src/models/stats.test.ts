@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countSentences,
+  countWords,
+  formatReadingTime,
+  getEssayStats,
+  getParagraphStats,
+  getTextStats,
+  isOverLimit,
+  splitSentences,
+} from './stats';
+import { addCounterargument, createEssay, type Essay } from './essay';
+import { getTemplate } from './template';
+
+function createWrittenEssay(): Essay {
+  const essay = addCounterargument(createEssay());
+  essay.intro.paragraph = 'Mercy changes people. It changed Valjean.';
+  essay.bodyParagraphs[0].paragraph = 'The bishop forgives him.';
+  essay.conclusion.paragraph = 'We should forgive more often!';
+  return essay;
+}
+
+describe('countWords', () => {
+  it('counts runs of text between spaces', () => {
+    expect(countWords("  Valjean's  candlesticks,\nsilver and   old ")).toBe(5);
+  });
+
+  it('skips stray punctuation', () => {
+    expect(countWords('Mercy - or law? — 1862')).toBe(4);
+    expect(countWords('')).toBe(0);
+  });
+});
+
+describe('countSentences', () => {
+  it('ends sentences at end marks followed by a space', () => {
+    expect(countSentences('Is it fair? No! It is not.')).toBe(3);
+  });
+
+  it('counts closing quotes with the sentence and trailing text as a sentence', () => {
+    expect(countSentences('He said "stop." Then he left')).toBe(2);
+  });
+
+  it('ignores end marks without words', () => {
+    expect(countSentences('... !')).toBe(0);
+    expect(countSentences('3.5 percent agreed.')).toBe(1);
+  });
+
+  it('ends a sentence at a blank line even without an end mark', () => {
+    const text = 'Mercy changes people\n\nThe bishop forgives him.';
+    expect(splitSentences(text)).toEqual([
+      { text: 'Mercy changes people', start: 0, end: 20 },
+      { text: 'The bishop forgives him.', start: 22, end: 46 },
+    ]);
+  });
+});
+
+describe('getTextStats', () => {
+  it('averages words per sentence and rounds reading time up', () => {
+    expect(getTextStats('Mercy changes people. It changed Valjean completely.')).toEqual({
+      words: 7,
+      sentences: 2,
+      averageSentenceLength: 3.5,
+      readingMinutes: 1,
+    });
+  });
+
+  it('is all zeros for an empty text', () => {
+    expect(getTextStats('  ')).toEqual({ words: 0, sentences: 0, averageSentenceLength: 0, readingMinutes: 0 });
+  });
+
+  it('reads 200 words a minute', () => {
+    expect(getTextStats('word '.repeat(200)).readingMinutes).toBe(1);
+    expect(getTextStats('word '.repeat(201)).readingMinutes).toBe(2);
+  });
+});
+
+describe('getParagraphStats', () => {
+  it('lists every paragraph cell in essay order with its section label', () => {
+    const stats = getParagraphStats(createWrittenEssay(), getTemplate('argument'));
+
+    expect(stats.map(({ key, label, stats }) => [key, label, stats.words])).toEqual([
+      ['intro', 'Intro', 6],
+      ['body-0', 'Body 1', 4],
+      ['counterargument', 'Counterargument', 0],
+      ['conclusion', 'Conclusion', 5],
+    ]);
+  });
+
+  it("uses the essay's own template by default", () => {
+    const essay = { ...createEssay(), templateId: 'narrative' };
+    expect(getParagraphStats(essay).map((p) => p.label).slice(0, 2)).toEqual(['Opening', 'Scene 1']);
+  });
+});
+
+describe('getEssayStats', () => {
+  it('counts the written paragraphs together', () => {
+    expect(getEssayStats(createWrittenEssay())).toMatchObject({ words: 15, sentences: 4 });
+  });
+
+  it('does not run an unfinished paragraph into the next one', () => {
+    const essay = createWrittenEssay();
+    essay.intro.paragraph = 'Mercy changes people';
+    expect(getEssayStats(essay)).toMatchObject({ words: 12, sentences: 3, averageSentenceLength: 4 });
+  });
+});
+
+describe('isOverLimit', () => {
+  it('is only over when the count passes the limit', () => {
+    expect(isOverLimit(150, 150)).toBe(false);
+    expect(isOverLimit(151, 150)).toBe(true);
+    expect(isOverLimit(5000, undefined)).toBe(false);
+  });
+});
+
+describe('formatReadingTime', () => {
+  it('shows whole minutes', () => {
+    expect(formatReadingTime(3)).toBe('3 min read');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Essay statistics - no React or UI dependencies
+ *
+ * Word and sentence counts and reading time for each written paragraph and
+ * for the whole essay, checked against the assignment's word limits.
+ */
+import { getEssayParagraphs, type Essay } from './essay';
+import { fillPrompt, getCounterargumentTemplate, getSectionOrder, getTemplate, type EssayTemplate } from './template';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TextStats {
+  words: number;
+  sentences: number;
+  /** Words per sentence; 0 when there are no sentences */
+  averageSentenceLength: number;
+  /** Whole minutes, rounded up; 0 for an empty text */
+  readingMinutes: number;
+}
+
+/** A sentence and where it sits in the text */
+export interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ParagraphStats {
+  /** Same key as the section's collapsed state, e.g. "intro" or "body-0" */
+  key: string;
+  /** Section label from the template, e.g. "Body 1" */
+  label: string;
+  stats: TextStats;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Typical silent reading speed for essay prose */
+export const WORDS_PER_MINUTE = 200;
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/** Runs of non-space characters with at least one letter or digit */
+export const getWords = (text: string): string[] =>
+  text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+
+export const countWords = (text: string): number => getWords(text).length;
+
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+
+const SENTENCE_PATTERN = /\S[\s\S]*?(?:[.!?]+["'”’)\]]*(?=\s|$)|$)/g;
+
+/** Paragraphs between blank lines, each with its offset in the text */
+function splitParagraphs(text: string): { text: string; start: number }[] {
+  const paragraphs: { text: string; start: number }[] = [];
+  let start = 0;
+  for (const match of text.matchAll(PARAGRAPH_BREAK)) {
+    paragraphs.push({ text: text.slice(start, match.index), start });
+    start = match.index + match[0].length;
+  }
+  paragraphs.push({ text: text.slice(start), start });
+  return paragraphs;
+}
+
+/**
+ * Sentences end at ".", "!" or "?" (and any closing quotes or brackets)
+ * followed by a space, or at a blank line. Trailing text without an end
+ * mark still counts.
+ */
+export const splitSentences = (text: string): Sentence[] =>
+  splitParagraphs(text).flatMap((paragraph) =>
+    [...paragraph.text.matchAll(SENTENCE_PATTERN)]
+      .map((match) => {
+        const sentence = match[0].trimEnd();
+        const start = paragraph.start + match.index;
+        return { text: sentence, start, end: start + sentence.length };
+      })
+      .filter((sentence) => countWords(sentence.text) > 0)
+  );
+
+export const countSentences = (text: string): number => splitSentences(text).length;
+
+export function getTextStats(text: string): TextStats {
+  const words = countWords(text);
+  const sentences = countSentences(text);
+  return {
+    words,
+    sentences,
+    averageSentenceLength: sentences > 0 ? words / sentences : 0,
+    readingMinutes: Math.ceil(words / WORDS_PER_MINUTE),
+  };
+}
+
+/**
+ * Statistics for each paragraph cell, in the template's section order
+ */
+export function getParagraphStats(essay: Essay, template: EssayTemplate = getTemplate(essay.templateId)): ParagraphStats[] {
+  return getSectionOrder(essay, template).flatMap((kind): ParagraphStats[] => {
+    switch (kind) {
+      case 'intro':
+        return [{ key: 'intro', label: template.intro.label, stats: getTextStats(essay.intro.paragraph) }];
+      case 'body':
+        return essay.bodyParagraphs.map((body, i) => ({
+          key: `body-${i}`,
+          label: fillPrompt(template.body.label, { n: String(i + 1) }),
+          stats: getTextStats(body.paragraph),
+        }));
+      case 'counterargument':
+        return essay.counterargument
+          ? [{
+              key: 'counterargument',
+              label: getCounterargumentTemplate(template).label,
+              stats: getTextStats(essay.counterargument.paragraph),
+            }]
+          : [];
+      case 'conclusion':
+        return [{ key: 'conclusion', label: template.conclusion.label, stats: getTextStats(essay.conclusion.paragraph) }];
+    }
+  });
+}
+
+/**
+ * Statistics for the written paragraphs, leaving out the Works Cited list
+ */
+export const getEssayStats = (essay: Essay): TextStats => getTextStats(getEssayParagraphs(essay).join('\n\n'));
+
+/** Whether a word count goes over a limit; no limit is never exceeded */
+export const isOverLimit = (words: number, limit: number | undefined): boolean =>
+  limit !== undefined && words > limit;
+
+export const formatReadingTime = (minutes: number): string => `${minutes} min read`;
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeStyle, countSyllables, formatGrade, getReadingGrade, splitByHints, type StyleHint } from './style';
+
+/** Each hint as its rule and the text it covers */
+const flagged = (text: string) => analyzeStyle(text).hints.map((h) => [h.rule, text.slice(h.start, h.end)]);
+
+describe('countSyllables', () => {
+  it('counts vowel groups, skipping a silent final e', () => {
+    expect(countSyllables('cake')).toBe(1);
+    expect(countSyllables('table')).toBe(2);
+    expect(countSyllables('mercy')).toBe(2);
+    expect(countSyllables('candlesticks,')).toBe(3);
+  });
+
+  it('counts short words as one syllable and ignores non-words', () => {
+    expect(countSyllables('I')).toBe(1);
+    expect(countSyllables('—')).toBe(0);
+  });
+});
+
+describe('getReadingGrade', () => {
+  it('applies the Flesch-Kincaid formula', () => {
+    // 0.39 * 3 words per sentence + 11.8 * 1 syllable per word - 15.59
+    expect(getReadingGrade('The cat sat.')).toBe(-2.6);
+  });
+
+  it('rises with longer sentences and longer words', () => {
+    const simple = getReadingGrade('The man was kind. He gave him food.')!;
+    const complex = getReadingGrade('The bishop’s unexpected generosity fundamentally transforms Valjean’s understanding.')!;
+    expect(complex).toBeGreaterThan(simple);
+  });
+
+  it('is null without words', () => {
+    expect(getReadingGrade(' ... ')).toBeNull();
+  });
+});
+
+describe('formatGrade', () => {
+  it('shows whole grades from zero up', () => {
+    expect(formatGrade(8.46)).toBe('Grade 8');
+    expect(formatGrade(-2.6)).toBe('Grade 0');
+  });
+});
+
+describe('analyzeStyle', () => {
+  it('flags passive voice, with or without an adverb', () => {
+    expect(flagged('The letter was written by Hugo. Valjean is quickly forgiven.')).toEqual([
+      ['passive-voice', 'was written'],
+      ['passive-voice', 'is quickly forgiven'],
+    ]);
+    expect(flagged('He was happy. They were at home.')).toEqual([]);
+  });
+
+  it('flags sentences over 30 words', () => {
+    const long = `${'word '.repeat(31).trim()}.`;
+    expect(flagged(`Short one. ${long}`)).toEqual([['long-sentence', long]]);
+    expect(flagged(`${'word '.repeat(30).trim()}.`)).toEqual([]);
+  });
+
+  it('flags sentences that start like the one before', () => {
+    expect(flagged('He ran. He hid. "He" smiled. She left.')).toEqual([
+      ['repeated-opener', 'He'],
+      ['repeated-opener', 'He'],
+    ]);
+  });
+
+  it('flags weak words and explains each one', () => {
+    const text = 'It felt very nice, and a  lot of things changed. A kind man.';
+    expect(flagged(text)).toEqual([
+      ['weak-word', 'very'],
+      ['weak-word', 'nice'],
+      ['weak-word', 'a  lot'],
+      ['weak-word', 'things'],
+    ]);
+    expect(analyzeStyle(text).hints[2].message).toBe('"a lot" is vague. Say how much or how many.');
+  });
+
+  it('lists hints in text order with the grade', () => {
+    const report = analyzeStyle('It was very nice. It was written badly.');
+    expect(report.hints.map((h) => h.rule)).toEqual(['weak-word', 'weak-word', 'repeated-opener', 'passive-voice']);
+    expect(report.grade).toBe(2.2);
+  });
+
+  it('has no grade or hints for an empty paragraph', () => {
+    expect(analyzeStyle('')).toEqual({ grade: null, hints: [] });
+  });
+});
+
+describe('splitByHints', () => {
+  const hint = (start: number, end: number): StyleHint => ({ rule: 'weak-word', start, end, message: '' });
+
+  it('splits where hints start and end and keeps every hint covering each run', () => {
+    const first = hint(1, 4);
+    const second = hint(2, 6);
+
+    expect(splitByHints('abcdef', [first, second])).toEqual([
+      { text: 'a', hints: [] },
+      { text: 'b', hints: [first] },
+      { text: 'cd', hints: [first, second] },
+      { text: 'ef', hints: [second] },
+    ]);
+  });
+
+  it('returns the whole text without hints', () => {
+    expect(splitByHints('abc', [])).toEqual([{ text: 'abc', hints: [] }]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Readability and style hints - no React or UI dependencies
+ *
+ * Scores a paragraph's reading level and points at sentences and words worth
+ * a second look: passive voice, very long sentences, sentences that start
+ * the same way as the one before and vague words. Everything is heuristic and
+ * runs locally; hints are suggestions, not errors.
+ */
+import { getWords, splitSentences } from './stats';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type StyleRule = 'passive-voice' | 'long-sentence' | 'repeated-opener' | 'weak-word';
+
+export interface StyleHint {
+  rule: StyleRule;
+  /** Character range of the flagged text in the paragraph */
+  start: number;
+  end: number;
+  /** Why it was flagged and what to try instead */
+  message: string;
+}
+
+export interface StyleReport {
+  /** Flesch-Kincaid grade level; null for a paragraph without words */
+  grade: number | null;
+  hints: StyleHint[];
+}
+
+/** A run of text covered by the same hints, for highlighting */
+export interface StyleSegment {
+  text: string;
+  hints: StyleHint[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Each rule with its label, in the order hints are listed */
+export const STYLE_RULES: { rule: StyleRule; label: string }[] = [
+  { rule: 'long-sentence', label: 'Long sentence' },
+  { rule: 'passive-voice', label: 'Passive voice' },
+  { rule: 'repeated-opener', label: 'Repeated opener' },
+  { rule: 'weak-word', label: 'Weak word' },
+];
+
+/** Sentences with more words than this are flagged */
+export const LONG_SENTENCE_WORDS = 30;
+
+const STRONGER_WORD = 'Try one stronger word instead, e.g. "exhausted" for "very tired".';
+const NAME_IT = 'Name what you actually mean.';
+const SAY_HOW_MUCH = 'Say how much or how many.';
+const COMMIT = 'Commit to the point, or explain how it differs.';
+
+/** Vague words and phrases, with what to do instead */
+const WEAK_WORDS: Record<string, string> = {
+  very: STRONGER_WORD,
+  really: STRONGER_WORD,
+  thing: NAME_IT,
+  things: NAME_IT,
+  stuff: NAME_IT,
+  'a lot': SAY_HOW_MUCH,
+  lots: SAY_HOW_MUCH,
+  'kind of': COMMIT,
+  'sort of': COMMIT,
+  basically: 'It rarely adds anything; try cutting it.',
+  nice: 'Say what makes it so.',
+};
+
+const WEAK_WORD_PATTERN = new RegExp(
+  `\\b(?:${Object.keys(WEAK_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => phrase.replace(' ', '\\s+'))
+    .join('|')})\\b`,
+  'gi'
+);
+
+/** Past participles that don't end in "-ed" */
+const IRREGULAR_PARTICIPLES = [
+  'beaten', 'born', 'bought', 'brought', 'built', 'caught', 'chosen', 'done', 'drawn', 'driven', 'eaten',
+  'felt', 'forgiven', 'forgotten', 'found', 'given', 'grown', 'heard', 'held', 'hidden', 'kept', 'known',
+  'left', 'lost', 'made', 'paid', 'said', 'seen', 'sent', 'shown', 'sold', 'spent', 'spoken', 'stolen',
+  'taken', 'taught', 'thought', 'thrown', 'told', 'won', 'worn', 'written',
+];
+
+/** A form of "to be", an optional adverb and a past participle, e.g. "was quickly forgiven" */
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being)\\s+(?:[a-z]+ly\\s+)?(?:[a-z]{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'gi'
+);
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Estimated syllables in a word: groups of vowels, less a silent final "e"
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+/**
+ * Flesch-Kincaid grade level, to one decimal place; null without words
+ */
+export function getReadingGrade(text: string): number | null {
+  const words = getWords(text);
+  if (words.length === 0) return null;
+  const sentences = Math.max(1, splitSentences(text).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+const findAll = (text: string, pattern: RegExp): RegExpExecArray[] => [...text.matchAll(pattern)];
+
+/** First word of a sentence, without quotes or punctuation, for comparing openers */
+const getOpener = (sentence: string): { word: string; offset: number } | null => {
+  const match = sentence.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/u);
+  return match?.index !== undefined ? { word: match[0], offset: match.index } : null;
+};
+
+const ruleOrder = (rule: StyleRule): number => STYLE_RULES.findIndex((r) => r.rule === rule);
+
+/**
+ * Readability grade and style hints for a paragraph, hints in text order
+ */
+export function analyzeStyle(text: string): StyleReport {
+  const hints: StyleHint[] = [];
+  const sentences = splitSentences(text);
+
+  sentences.forEach((sentence) => {
+    const words = getWords(sentence.text).length;
+    if (words > LONG_SENTENCE_WORDS) {
+      hints.push({
+        rule: 'long-sentence',
+        start: sentence.start,
+        end: sentence.end,
+        message: `This sentence has ${words} words. Long sentences are hard to follow; try splitting it in two.`,
+      });
+    }
+  });
+
+  findAll(text, PASSIVE_PATTERN).forEach((match) => {
+    hints.push({
+      rule: 'passive-voice',
+      start: match.index,
+      end: match.index + match[0].length,
+      message: 'Passive voice hides who does the action. Try starting with who does it.',
+    });
+  });
+
+  sentences.forEach((sentence, i) => {
+    const opener = getOpener(sentence.text);
+    const previous = i > 0 ? getOpener(sentences[i - 1].text) : null;
+    if (!opener || !previous || opener.word.toLowerCase() !== previous.word.toLowerCase()) return;
+    hints.push({
+      rule: 'repeated-opener',
+      start: sentence.start + opener.offset,
+      end: sentence.start + opener.offset + opener.word.length,
+      message: `This sentence starts with "${opener.word}", like the one before it. Try a different opening.`,
+    });
+  });
+
+  findAll(text, WEAK_WORD_PATTERN).forEach((match) => {
+    const phrase = match[0].toLowerCase().replace(/\s+/g, ' ');
+    hints.push({
+      rule: 'weak-word',
+      start: match.index,
+      end: match.index + match[0].length,
+      message: `"${phrase}" is vague. ${WEAK_WORDS[phrase]}`,
+    });
+  });
+
+  hints.sort((a, b) => a.start - b.start || ruleOrder(a.rule) - ruleOrder(b.rule));
+  return { grade: getReadingGrade(text), hints };
+}
+
+/**
+ * Split a text where hints start and end, so each run can be highlighted
+ * with every hint that covers it. Joining the runs gives back the text.
+ */
+export function splitByHints(text: string, hints: StyleHint[]): StyleSegment[] {
+  const boundaries = [...new Set([0, text.length, ...hints.flatMap((h) => [h.start, h.end])])].sort((a, b) => a - b);
+  return boundaries.slice(0, -1).map((start, i) => {
+    const end = boundaries[i + 1];
+    return { text: text.slice(start, end), hints: hints.filter((h) => h.start < end && h.end > start) };
+  });
+}
+
+export const getStyleRuleLabel = (rule: StyleRule): string => STYLE_RULES[ruleOrder(rule)].label;
+
+/** Grade as shown to students: whole grades, never below zero */
+export const formatGrade = (grade: number): string => `Grade ${Math.max(0, Math.round(grade))}`;
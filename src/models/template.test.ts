@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  createEssayFromTemplate,
+  getTemplate,
+  getCounterargumentTemplate,
+  getSectionOrder,
+  parsePrompt,
+  hasPromptRefs,
+  formatPromptRef,
+  fillPrompt,
+  getPhraseBank,
+  DEFAULT_PHRASE_BANK,
+} from './template';
+import { createCounterargument } from './essay';
+
+describe('parsePrompt', () => {
+  it('splits text and refs', () => {
+    expect(parsePrompt('Why is {thesis} true?')).toEqual([
+      { text: 'Why is ' },
+      { ref: 'thesis' },
+      { text: ' true?' },
+    ]);
+  });
+
+  it('handles adjacent and leading refs', () => {
+    expect(parsePrompt('{claim}{n}')).toEqual([{ ref: 'claim' }, { ref: 'n' }]);
+  });
+
+  it('leaves unknown braces as text', () => {
+    expect(parsePrompt('{other} text')).toEqual([{ text: '{other} text' }]);
+  });
+
+  it('returns no parts for an empty prompt', () => {
+    expect(parsePrompt('')).toEqual([]);
+  });
+});
+
+describe('hasPromptRefs', () => {
+  it('detects refs', () => {
+    expect(hasPromptRefs('Claim {n}')).toBe(true);
+    expect(hasPromptRefs('Grab the reader')).toBe(false);
+  });
+});
+
+describe('formatPromptRef', () => {
+  it('joins lists with commas', () => {
+    expect(formatPromptRef(['a', 'b', 'c'])).toBe('a, b, c');
+  });
+
+  it('formats missing values as empty text', () => {
+    expect(formatPromptRef(undefined)).toBe('');
+  });
+});
+
+describe('fillPrompt', () => {
+  it('replaces every ref', () => {
+    expect(fillPrompt('{proofs} show {claim} ({n})', { proofs: ['x', 'y'], claim: 'c', n: '2' })).toBe(
+      'x, y show c (2)'
+    );
+  });
+
+  it('replaces missing refs with empty text', () => {
+    expect(fillPrompt('Because {thesis}', {})).toBe('Because ');
+  });
+});
+
+describe('getTemplate', () => {
+  it('finds templates by id', () => {
+    expect(getTemplate('narrative').name).toBe('Narrative');
+  });
+
+  it('falls back to the argument template for missing or unknown ids', () => {
+    expect(getTemplate(undefined).id).toBe(DEFAULT_TEMPLATE_ID);
+    expect(getTemplate('limerick').id).toBe(DEFAULT_TEMPLATE_ID);
+  });
+});
+
+describe('getCounterargumentTemplate', () => {
+  it('falls back to the argument prompts for templates without a counterargument', () => {
+    const narrative = getTemplate('narrative');
+    expect(narrative.counterargument).toBeNull();
+    expect(getCounterargumentTemplate(narrative)).toBe(getTemplate('argument').counterargument);
+  });
+
+  it('uses the template prompts when defined', () => {
+    const research = getTemplate('research');
+    expect(getCounterargumentTemplate(research)).toBe(research.counterargument);
+  });
+});
+
+describe('getSectionOrder', () => {
+  it("uses the template's sections", () => {
+    const essay = createEssayFromTemplate(getTemplate('narrative'));
+    expect(getSectionOrder(essay, getTemplate('narrative'))).toEqual(['intro', 'body', 'conclusion']);
+  });
+
+  it('shows a counterargument the template does not list before the conclusion', () => {
+    const essay = { ...createEssayFromTemplate(getTemplate('narrative')), counterargument: createCounterargument() };
+    expect(getSectionOrder(essay, getTemplate('narrative'))).toEqual(['intro', 'body', 'counterargument', 'conclusion']);
+  });
+
+  it('keeps the counterargument slot for templates that list it, even before one is added', () => {
+    const essay = createEssayFromTemplate(getTemplate('argument'));
+    expect(getSectionOrder(essay, getTemplate('argument'))).toEqual(['intro', 'body', 'counterargument', 'conclusion']);
+  });
+});
+
+describe('createEssayFromTemplate', () => {
+  it('records the template and builds its default structure', () => {
+    const template = getTemplate('research');
+    const essay = createEssayFromTemplate(template);
+
+    expect(essay.templateId).toBe('research');
+    expect(essay.intro.claims).toHaveLength(template.defaults.claims);
+    expect(essay.bodyParagraphs).toHaveLength(template.defaults.claims);
+    essay.bodyParagraphs.forEach((body, i) => {
+      expect(body.provingClaimId).toBe(essay.intro.claims[i].id);
+      expect(body.proofBlocks).toHaveLength(template.defaults.proofBlocks);
+    });
+    expect(essay.counterargument).toBeDefined();
+  });
+
+  it('gives every proof block its own id', () => {
+    const essay = createEssayFromTemplate(getTemplate('literary-analysis'));
+    const ids = essay.bodyParagraphs.flatMap((body) => body.proofBlocks.map((pb) => pb.id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('omits the counterargument by default for argument essays', () => {
+    const essay = createEssayFromTemplate(getTemplate('argument'));
+    expect(essay.counterargument).toBeUndefined();
+    expect(essay.intro.claims).toHaveLength(1);
+  });
+});
+
+describe('TEMPLATES', () => {
+  it('has unique ids', () => {
+    const ids = TEMPLATES.map((t) => t.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(TEMPLATES.map((t) => [t.id, t] as const))('%s has the rows each section needs', (_id, template) => {
+    expect(template.intro.fields.length).toBeGreaterThan(0);
+    expect(template.body.lead.length).toBeGreaterThan(0);
+    expect(template.body.proof.fields.length).toBeGreaterThan(0);
+    expect(template.conclusion.fields.length).toBeGreaterThan(0);
+    expect(template.defaults.claims).toBeGreaterThan(0);
+    expect(template.defaults.proofBlocks).toBeGreaterThan(0);
+  });
+
+  it.each(TEMPLATES.map((t) => [t.id, t] as const))('%s lists each section once', (_id, template) => {
+    expect(new Set(template.sections).size).toBe(template.sections.length);
+    expect(template.sections).toEqual(expect.arrayContaining(['intro', 'body', 'conclusion']));
+    expect(template.sections.includes('counterargument')).toBe(template.counterargument !== null);
+  });
+});
+
+describe('getPhraseBank', () => {
+  it('uses the default phrases for templates without their own', () => {
+    expect(getPhraseBank(getTemplate('argument'))).toEqual(DEFAULT_PHRASE_BANK);
+  });
+
+  it('replaces only the phrases a template overrides', () => {
+    const phrases = getPhraseBank(getTemplate('narrative'));
+    expect(phrases.quote[0]).toBe('At first,');
+    expect(phrases.claim).toEqual([]);
+    expect(phrases.rebuttal).toEqual(DEFAULT_PHRASE_BANK.rebuttal);
+  });
+});
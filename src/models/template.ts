@@ -0,0 +1,810 @@
+/**
+ * Essay templates - no React or UI dependencies
+ *
+ * A template supplies the sections the editor shows and their order, plus the
+ * labels, purpose prompts and placeholder text for each one. All templates
+ * share the Essay data shape (intro with claims, body paragraphs with proof
+ * blocks, optional counterargument, conclusion), so switching templates never
+ * loses content.
+ *
+ * Templates cannot define fields of their own: a field's `key` names a field of
+ * that shape, and a template only relabels it (a narrative's Setting is the
+ * intro's background). Each section kind keeps its own editor component; the
+ * template decides their order and wording, not which fields they have.
+ */
+import {
+  createBodyParagraph,
+  createClaim,
+  createCounterargument,
+  createEssay,
+  createProofBlock,
+  type Conclusion,
+  type Counterargument,
+  type Essay,
+  type Intro,
+  type ProofBlock,
+} from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Values a prompt can reference with `{name}` tokens:
+ * - thesis: the intro thesis
+ * - claim: the claim the current body paragraph proves
+ * - claims: every claim, as a list
+ * - proofs: summaries of the current body paragraph's proof blocks
+ * - n: the 1-based position of the current claim, body paragraph or proof block
+ */
+export type PromptRef = 'thesis' | 'claim' | 'claims' | 'proofs' | 'n';
+
+export type PromptRefs = Partial<Record<PromptRef, string | string[]>>;
+
+export type PromptPart = { text: string } | { ref: PromptRef };
+
+export interface FieldTemplate<K extends string> {
+  key: K;
+  label: string;
+  /** Guidance shown in the Purpose column */
+  purpose: string;
+  /** Placeholder for the Outline cell */
+  placeholder: string;
+}
+
+export type RepeatedFieldTemplate = Omit<FieldTemplate<string>, 'key'>;
+
+/**
+ * Flat section: a list of outline rows next to one paragraph.
+ * `fields` must not be empty - the paragraph cell sits beside the first row.
+ */
+export interface SectionTemplate<K extends string> {
+  label: string;
+  fields: FieldTemplate<K>[];
+  paragraph: string;
+}
+
+export interface IntroTemplate extends SectionTemplate<Exclude<keyof Intro, 'claims' | 'paragraph'>> {
+  /** Row repeated once per claim */
+  claim: RepeatedFieldTemplate;
+}
+
+export interface BodyTemplate {
+  /** Section label, e.g. "Body {n}" */
+  label: string;
+  /** Rows before the proof blocks; must not be empty */
+  lead: FieldTemplate<'purpose'>[];
+  proof: {
+    /** Proof block header, e.g. "Proof {n}" */
+    label: string;
+    fields: FieldTemplate<keyof Omit<ProofBlock, 'id' | 'sourceId' | 'page'>>[];
+  };
+  /** Rows after the proof blocks */
+  close: FieldTemplate<'recap'>[];
+  paragraph: string;
+}
+
+export type CounterargumentTemplate = SectionTemplate<Exclude<keyof Counterargument, 'paragraph'>>;
+
+export type ConclusionTemplate = SectionTemplate<Exclude<keyof Conclusion, 'paragraph'>>;
+
+/** Outline fields "Draft from outline" can open with a transition phrase */
+export type PhraseField =
+  | Exclude<keyof Intro, 'claims' | 'paragraph'>
+  | 'claim'
+  | 'purpose'
+  | keyof Omit<ProofBlock, 'id' | 'sourceId' | 'page'>
+  | 'recap'
+  | Exclude<keyof Counterargument, 'paragraph'>
+  | Exclude<keyof Conclusion, 'paragraph'>;
+
+/**
+ * Transition phrases that open the sentence drafted from each outline field.
+ * Repeated fields (claims, proof blocks) take the phrases in turn, starting
+ * over after the last; an empty list adds no transition.
+ */
+export type PhraseBank = Record<PhraseField, string[]>;
+
+/** A part of the essay a template can show; `body` stands for every body paragraph */
+export type SectionKind = 'intro' | 'body' | 'counterargument' | 'conclusion';
+
+export type TemplateId = 'argument' | 'compare-contrast' | 'literary-analysis' | 'narrative' | 'research';
+
+export interface EssayTemplate {
+  id: TemplateId;
+  name: string;
+  description: string;
+  /** Sections in the order the editor and exports show them */
+  sections: SectionKind[];
+  intro: IntroTemplate;
+  body: BodyTemplate;
+  /** Null when the essay type has no counterargument section; list it in `sections` otherwise */
+  counterargument: CounterargumentTemplate | null;
+  conclusion: ConclusionTemplate;
+  /** Structure of a new essay */
+  defaults: {
+    claims: number;
+    proofBlocks: number;
+    counterargument: boolean;
+  };
+  /** Replacements for DEFAULT_PHRASE_BANK entries that suit this essay type */
+  phrases?: Partial<PhraseBank>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'argument';
+
+export const DEFAULT_PHRASE_BANK: PhraseBank = {
+  hook: [],
+  background: [],
+  thesis: [],
+  claim: ['First,', 'Second,', 'Third,', 'Fourth,', 'Fifth,'],
+  purpose: [],
+  quote: ['For example,', 'In addition,', 'Furthermore,'],
+  analysis: ['This shows that', 'This suggests that', 'This reveals that'],
+  connection: ['In this way,', 'Therefore,', 'As a result,'],
+  recap: ['Overall,'],
+  opposingView: ['Some may argue that'],
+  concession: ['It is true that'],
+  rebuttal: ['However,'],
+  restatement: ['In conclusion,'],
+  soWhat: ['Ultimately,'],
+};
+
+const ARGUMENT_COUNTERARGUMENT: CounterargumentTemplate = {
+  label: 'Counterargument',
+  fields: [
+    {
+      key: 'opposingView',
+      label: 'Opposing View',
+      purpose: 'What someone who disagrees with {thesis} would argue',
+      placeholder: 'What is the strongest argument against {thesis}?',
+    },
+    {
+      key: 'concession',
+      label: 'Concession',
+      purpose: 'Acknowledge what is reasonable about the opposing view',
+      placeholder: 'What part of the opposing view is fair or partly true?',
+    },
+    {
+      key: 'rebuttal',
+      label: 'Rebuttal',
+      purpose: 'Why {thesis} is still true',
+      placeholder: 'Why does {thesis} hold despite the opposing view?',
+    },
+  ],
+  paragraph:
+    'Write your counterargument paragraph: present the opposing view fairly, concede what it gets right, then show why "{thesis}" still holds...',
+};
+
+const ARGUMENT: EssayTemplate = {
+  id: 'argument',
+  name: 'Argument',
+  description: 'Prove a thesis with claims, evidence and analysis.',
+  sections: ['intro', 'body', 'counterargument', 'conclusion'],
+  intro: {
+    label: 'Intro',
+    fields: [
+      { key: 'hook', label: 'Hook', purpose: 'Grab the reader', placeholder: 'How will you hook the reader?' },
+      {
+        key: 'background',
+        label: 'Background',
+        purpose: 'Provide context and background',
+        placeholder: 'What context does the reader need?',
+      },
+      {
+        key: 'thesis',
+        label: 'Thesis',
+        purpose: 'The new idea that is true',
+        placeholder: "What is the new idea you're arguing is true?",
+      },
+    ],
+    claim: {
+      label: 'Claim {n}',
+      purpose: 'Because... (reason {n} why {thesis} is true)',
+      placeholder: 'Claim {n}: Why is {thesis} true?',
+    },
+    paragraph:
+      'Write your introduction paragraph here, weaving together your hook, background, thesis, and claims...',
+  },
+  body: {
+    label: 'Body {n}',
+    lead: [
+      {
+        key: 'purpose',
+        label: 'Purpose',
+        purpose: 'Topic sentence: introduce that you will prove {claim}',
+        placeholder: 'e.g., This paragraph will show that {claim}.',
+      },
+    ],
+    proof: {
+      label: 'Proof {n}',
+      fields: [
+        {
+          key: 'quote',
+          label: 'Evidence',
+          purpose: 'Supporting evidence',
+          placeholder: 'What quote or other evidence supports {claim}?',
+        },
+        {
+          key: 'analysis',
+          label: 'Analysis',
+          purpose: 'Interpret the evidence',
+          placeholder: 'What does this evidence show? Explain its significance.',
+        },
+        {
+          key: 'connection',
+          label: 'Connection',
+          purpose: 'Why this proves {claim}',
+          placeholder: 'How does this prove {claim}?',
+        },
+      ],
+    },
+    close: [
+      {
+        key: 'recap',
+        label: 'Recap',
+        purpose: 'Tie body together to say {thesis} is true because {claim} is true because {proofs} are true',
+        placeholder: 'e.g., {proofs} show that {claim} is true which shows that {thesis} is true.',
+      },
+    ],
+    paragraph:
+      'Write your body paragraph proving "{claim}", weaving together your evidence, analysis, and connection...',
+  },
+  counterargument: ARGUMENT_COUNTERARGUMENT,
+  conclusion: {
+    label: 'Conclusion',
+    fields: [
+      {
+        key: 'restatement',
+        label: 'Restatement',
+        purpose: '{thesis} because {claims}',
+        placeholder: 'How will you restate {thesis} and your claims ({claims}) in your own words?',
+      },
+      {
+        key: 'soWhat',
+        label: 'So What',
+        purpose: 'Future implications of {thesis} being true',
+        placeholder: 'What are the future implications of {thesis} being true?',
+      },
+    ],
+    paragraph: 'Write your conclusion restating "{thesis}" and explaining why it matters...',
+  },
+  defaults: { claims: 1, proofBlocks: 1, counterargument: false },
+};
+
+const COMPARE_CONTRAST: EssayTemplate = {
+  id: 'compare-contrast',
+  name: 'Compare & Contrast',
+  description: 'Weigh two subjects point by point to show what the comparison reveals.',
+  sections: ['intro', 'body', 'conclusion'],
+  intro: {
+    label: 'Intro',
+    fields: [
+      {
+        key: 'hook',
+        label: 'Hook',
+        purpose: 'Grab the reader',
+        placeholder: 'How will you draw the reader into these two subjects?',
+      },
+      {
+        key: 'background',
+        label: 'Subjects',
+        purpose: 'Introduce both subjects being compared',
+        placeholder: 'What are the two subjects, and what does the reader need to know about each?',
+      },
+      {
+        key: 'thesis',
+        label: 'Thesis',
+        purpose: 'What the comparison reveals',
+        placeholder: 'What does comparing these subjects reveal?',
+      },
+    ],
+    claim: {
+      label: 'Point {n}',
+      purpose: 'Point of comparison {n} that supports {thesis}',
+      placeholder: 'Point {n}: On what basis will you compare the subjects?',
+    },
+    paragraph: 'Write your introduction presenting both subjects and what comparing them reveals...',
+  },
+  body: {
+    label: 'Point {n}',
+    lead: [
+      {
+        key: 'purpose',
+        label: 'Focus',
+        purpose: 'Topic sentence: introduce the point of comparison {claim}',
+        placeholder: 'e.g., The two subjects differ most clearly in {claim}.',
+      },
+    ],
+    proof: {
+      label: 'Example {n}',
+      fields: [
+        {
+          key: 'quote',
+          label: 'Subject A',
+          purpose: 'How the first subject handles {claim}',
+          placeholder: 'What evidence shows how the first subject handles {claim}?',
+        },
+        {
+          key: 'analysis',
+          label: 'Subject B',
+          purpose: 'How the second subject handles {claim}',
+          placeholder: 'What evidence shows how the second subject handles {claim}?',
+        },
+        {
+          key: 'connection',
+          label: 'Comparison',
+          purpose: 'The similarity or difference, and why it matters',
+          placeholder: 'Are the subjects alike or different here, and what does that show?',
+        },
+      ],
+    },
+    close: [
+      {
+        key: 'recap',
+        label: 'Recap',
+        purpose: 'Show how {claim} supports {thesis}',
+        placeholder: 'e.g., Taken together, {proofs} show that {claim}, which supports {thesis}.',
+      },
+    ],
+    paragraph: 'Write your paragraph comparing the subjects on "{claim}", moving between both subjects...',
+  },
+  counterargument: null,
+  conclusion: {
+    label: 'Conclusion',
+    fields: [
+      {
+        key: 'restatement',
+        label: 'Synthesis',
+        purpose: 'Bring the points together: {claims}',
+        placeholder: 'How do {claims} together show {thesis}?',
+      },
+      {
+        key: 'soWhat',
+        label: 'So What',
+        purpose: 'Why this comparison matters',
+        placeholder: 'What should the reader take away from seeing these subjects side by side?',
+      },
+    ],
+    paragraph: 'Write your conclusion drawing the comparison together and explaining why "{thesis}" matters...',
+  },
+  defaults: { claims: 3, proofBlocks: 1, counterargument: false },
+};
+
+const LITERARY_ANALYSIS: EssayTemplate = {
+  id: 'literary-analysis',
+  name: 'Literary Analysis',
+  description: 'Interpret a text through its devices, characters and themes.',
+  sections: ['intro', 'body', 'conclusion'],
+  intro: {
+    label: 'Intro',
+    fields: [
+      {
+        key: 'hook',
+        label: 'Hook',
+        purpose: 'Grab the reader',
+        placeholder: 'What question, quotation or observation about the text will draw the reader in?',
+      },
+      {
+        key: 'background',
+        label: 'Context',
+        purpose: 'Title, author and what the reader needs to know about the text',
+        placeholder: 'Which text and author? What context matters for your reading?',
+      },
+      {
+        key: 'thesis',
+        label: 'Thesis',
+        purpose: 'Your interpretation of the text',
+        placeholder: 'What do you argue the text means or does?',
+      },
+    ],
+    claim: {
+      label: 'Element {n}',
+      purpose: 'A literary element or device that shows {thesis}',
+      placeholder: 'Element {n}: Which device, character or theme supports {thesis}?',
+    },
+    paragraph: 'Write your introduction naming the text and author and presenting your interpretation...',
+  },
+  body: {
+    label: 'Body {n}',
+    lead: [
+      {
+        key: 'purpose',
+        label: 'Topic Sentence',
+        purpose: 'Introduce how {claim} supports your reading',
+        placeholder: 'e.g., Through {claim}, the author shows...',
+      },
+    ],
+    proof: {
+      label: 'Quote {n}',
+      fields: [
+        {
+          key: 'quote',
+          label: 'Quotation',
+          purpose: 'A passage from the text, with page or line',
+          placeholder: 'Which passage shows {claim}? Include page or line numbers.',
+        },
+        {
+          key: 'analysis',
+          label: 'Close Reading',
+          purpose: 'Examine word choice, imagery and technique',
+          placeholder: 'What do specific words or techniques in the passage do?',
+        },
+        {
+          key: 'connection',
+          label: 'Link to Thesis',
+          purpose: 'How this passage shows {claim}',
+          placeholder: 'How does this passage show {claim}?',
+        },
+      ],
+    },
+    close: [
+      {
+        key: 'recap',
+        label: 'Recap',
+        purpose: 'Tie the evidence back to {thesis}',
+        placeholder: 'e.g., {proofs} show how {claim} develops {thesis}.',
+      },
+    ],
+    paragraph: 'Write your analysis paragraph on "{claim}", embedding quotations and close reading...',
+  },
+  counterargument: null,
+  conclusion: {
+    label: 'Conclusion',
+    fields: [
+      {
+        key: 'restatement',
+        label: 'Restatement',
+        purpose: 'Revisit {thesis} in light of {claims}',
+        placeholder: 'How do {claims} together support {thesis}?',
+      },
+      {
+        key: 'soWhat',
+        label: 'Significance',
+        purpose: 'What this reading reveals about the text or the world',
+        placeholder: 'Why does this interpretation of the text matter?',
+      },
+    ],
+    paragraph: 'Write your conclusion restating "{thesis}" and the significance of your reading...',
+  },
+  defaults: { claims: 3, proofBlocks: 2, counterargument: false },
+};
+
+const NARRATIVE: EssayTemplate = {
+  id: 'narrative',
+  name: 'Narrative',
+  description: 'Tell a story scene by scene, building to what it means.',
+  sections: ['intro', 'body', 'conclusion'],
+  intro: {
+    label: 'Opening',
+    fields: [
+      {
+        key: 'hook',
+        label: 'Hook',
+        purpose: 'Pull the reader into the story',
+        placeholder: 'What opening line, image or moment will pull the reader in?',
+      },
+      {
+        key: 'background',
+        label: 'Setting',
+        purpose: 'Where and when, and who is involved',
+        placeholder: 'Where and when does the story take place? Who is in it?',
+      },
+      {
+        key: 'thesis',
+        label: 'Central Idea',
+        purpose: 'The insight the story builds toward',
+        placeholder: 'What will the reader understand by the end?',
+      },
+    ],
+    claim: {
+      label: 'Moment {n}',
+      purpose: 'Key moment {n} of the story',
+      placeholder: 'Moment {n}: What happens?',
+    },
+    paragraph: 'Write your opening, setting the scene and drawing the reader into the story...',
+  },
+  body: {
+    label: 'Scene {n}',
+    lead: [
+      {
+        key: 'purpose',
+        label: 'Scene Setup',
+        purpose: 'Set up {claim}',
+        placeholder: 'e.g., Where are we, and what leads into {claim}?',
+      },
+    ],
+    proof: {
+      label: 'Beat {n}',
+      fields: [
+        {
+          key: 'quote',
+          label: 'Action',
+          purpose: 'What happens',
+          placeholder: 'What happens in this part of {claim}?',
+        },
+        {
+          key: 'analysis',
+          label: 'Detail',
+          purpose: 'Sensory detail and dialogue',
+          placeholder: 'What do you see, hear or feel? What is said?',
+        },
+        {
+          key: 'connection',
+          label: 'Reflection',
+          purpose: 'Thoughts and feelings in the moment',
+          placeholder: 'What did you think or feel, and why does it matter?',
+        },
+      ],
+    },
+    close: [
+      {
+        key: 'recap',
+        label: 'Transition',
+        purpose: 'Move the story forward toward {thesis}',
+        placeholder: 'How does this scene lead into the next?',
+      },
+    ],
+    paragraph: 'Write the scene for "{claim}", showing rather than telling...',
+  },
+  counterargument: null,
+  conclusion: {
+    label: 'Ending',
+    fields: [
+      {
+        key: 'restatement',
+        label: 'Resolution',
+        purpose: 'How the story ends',
+        placeholder: 'How are things resolved after {claims}?',
+      },
+      {
+        key: 'soWhat',
+        label: 'Reflection',
+        purpose: 'What the experience taught: {thesis}',
+        placeholder: 'Looking back, how does the story show {thesis}?',
+      },
+    ],
+    paragraph: 'Write your ending, resolving the story and reflecting on "{thesis}"...',
+  },
+  defaults: { claims: 3, proofBlocks: 1, counterargument: false },
+  phrases: {
+    claim: [],
+    quote: ['At first,', 'Then,', 'Next,', 'Finally,'],
+    analysis: [],
+    connection: [],
+    recap: [],
+    restatement: ['In the end,'],
+    soWhat: ['Looking back,'],
+  },
+};
+
+const RESEARCH: EssayTemplate = {
+  id: 'research',
+  name: 'Research',
+  description: 'Answer a research question with findings drawn from sources.',
+  sections: ['intro', 'body', 'counterargument', 'conclusion'],
+  intro: {
+    label: 'Intro',
+    fields: [
+      {
+        key: 'hook',
+        label: 'Hook',
+        purpose: 'Grab the reader',
+        placeholder: 'What fact, statistic or question will draw the reader in?',
+      },
+      {
+        key: 'background',
+        label: 'Background',
+        purpose: 'Context and what is already known',
+        placeholder: 'What do readers need to know about the topic and existing research?',
+      },
+      {
+        key: 'thesis',
+        label: 'Thesis',
+        purpose: 'Your answer to the research question',
+        placeholder: 'What is your research question, and what do you conclude?',
+      },
+    ],
+    claim: {
+      label: 'Finding {n}',
+      purpose: 'Finding {n} that supports {thesis}',
+      placeholder: 'Finding {n}: What did your research show?',
+    },
+    paragraph: 'Write your introduction presenting the topic, what is known, and your thesis...',
+  },
+  body: {
+    label: 'Body {n}',
+    lead: [
+      {
+        key: 'purpose',
+        label: 'Topic Sentence',
+        purpose: 'Introduce the finding {claim}',
+        placeholder: 'e.g., Research shows that {claim}.',
+      },
+    ],
+    proof: {
+      label: 'Source {n}',
+      fields: [
+        {
+          key: 'quote',
+          label: 'Source Evidence',
+          purpose: 'A quotation, statistic or finding from a source',
+          placeholder: 'What does a source say about {claim}? Note the author and page.',
+        },
+        {
+          key: 'analysis',
+          label: 'Interpretation',
+          purpose: 'Explain what the evidence means',
+          placeholder: 'What does this evidence show? How reliable is it?',
+        },
+        {
+          key: 'connection',
+          label: 'Connection',
+          purpose: 'Why this supports {claim}',
+          placeholder: 'How does this evidence support {claim}?',
+        },
+      ],
+    },
+    close: [
+      {
+        key: 'recap',
+        label: 'Recap',
+        purpose: 'Tie the sources together to support {claim} and {thesis}',
+        placeholder: 'e.g., {proofs} show that {claim}, which supports {thesis}.',
+      },
+    ],
+    paragraph: 'Write your body paragraph on "{claim}", citing your sources...',
+  },
+  counterargument: {
+    label: 'Counterevidence',
+    fields: [
+      {
+        key: 'opposingView',
+        label: 'Counterevidence',
+        purpose: 'Research that complicates {thesis}',
+        placeholder: 'What sources or data point the other way?',
+      },
+      {
+        key: 'concession',
+        label: 'Limitations',
+        purpose: 'What your evidence cannot show',
+        placeholder: 'What are the limits of your sources or method?',
+      },
+      {
+        key: 'rebuttal',
+        label: 'Response',
+        purpose: 'Why {thesis} still holds',
+        placeholder: 'Why does the weight of evidence still support {thesis}?',
+      },
+    ],
+    paragraph: 'Write your paragraph addressing counterevidence and limitations, and why "{thesis}" still holds...',
+  },
+  conclusion: {
+    label: 'Conclusion',
+    fields: [
+      {
+        key: 'restatement',
+        label: 'Restatement',
+        purpose: '{thesis} because {claims}',
+        placeholder: 'How will you restate {thesis} and your findings ({claims})?',
+      },
+      {
+        key: 'soWhat',
+        label: 'Implications',
+        purpose: 'What follows from the findings, and what to study next',
+        placeholder: 'What follows from your findings, and what should be studied next?',
+      },
+    ],
+    paragraph: 'Write your conclusion restating "{thesis}" and the implications of your research...',
+  },
+  defaults: { claims: 3, proofBlocks: 2, counterargument: true },
+};
+
+/**
+ * All templates, in the order the picker shows them
+ */
+export const TEMPLATES: readonly EssayTemplate[] = [ARGUMENT, COMPARE_CONTRAST, LITERARY_ANALYSIS, NARRATIVE, RESEARCH];
+
+const PROMPT_TOKEN = /\{(thesis|claim|claims|proofs|n)\}/g;
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a new essay with the template's default structure
+ */
+export function createEssayFromTemplate(template: EssayTemplate): Essay {
+  const base = createEssay();
+  const claims = Array.from({ length: Math.max(1, template.defaults.claims) }, () => createClaim());
+  const bodyParagraphs = claims.map((claim) => ({
+    ...createBodyParagraph(claim),
+    proofBlocks: Array.from({ length: Math.max(1, template.defaults.proofBlocks) }, createProofBlock),
+  }));
+
+  return {
+    ...base,
+    templateId: template.id,
+    intro: { ...base.intro, claims },
+    bodyParagraphs,
+    ...(template.defaults.counterargument && template.counterargument
+      ? { counterargument: createCounterargument() }
+      : {}),
+  };
+}
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Look up a template by id. Essays saved before templates existed, or with an
+ * unknown id, use the argument template.
+ */
+export const getTemplate = (templateId: string | undefined): EssayTemplate =>
+  TEMPLATES.find((t) => t.id === templateId) ?? ARGUMENT;
+
+/**
+ * The transition phrases for an essay type: the defaults with the template's
+ * replacements
+ */
+export const getPhraseBank = (template: EssayTemplate): PhraseBank => ({
+  ...DEFAULT_PHRASE_BANK,
+  ...template.phrases,
+});
+
+/**
+ * The counterargument prompts to use for an essay. Falls back to the argument
+ * template's prompts when the essay has a counterargument its template does
+ * not define (e.g. imported from another essay type).
+ */
+export const getCounterargumentTemplate = (template: EssayTemplate): CounterargumentTemplate =>
+  template.counterargument ?? ARGUMENT_COUNTERARGUMENT;
+
+/**
+ * The sections to show for an essay, in its template's order. A counterargument
+ * the template does not list (e.g. imported from another essay type) is shown
+ * before the conclusion so it is not lost.
+ */
+export function getSectionOrder(essay: Essay, template: EssayTemplate): SectionKind[] {
+  if (!essay.counterargument || template.sections.includes('counterargument')) return template.sections;
+  const conclusion = template.sections.indexOf('conclusion');
+  const at = conclusion === -1 ? template.sections.length : conclusion;
+  return [...template.sections.slice(0, at), 'counterargument', ...template.sections.slice(at)];
+}
+
+/**
+ * Split a prompt into literal text and `{ref}` tokens
+ */
+export function parsePrompt(prompt: string): PromptPart[] {
+  const parts: PromptPart[] = [];
+  let lastIndex = 0;
+  for (const match of prompt.matchAll(PROMPT_TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push({ text: prompt.slice(lastIndex, index) });
+    parts.push({ ref: match[1] as PromptRef });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < prompt.length) parts.push({ text: prompt.slice(lastIndex) });
+  return parts;
+}
+
+export const hasPromptRefs = (prompt: string): boolean => parsePrompt(prompt).some((part) => 'ref' in part);
+
+/**
+ * Format a ref value as plain text; lists are comma-separated
+ */
+export const formatPromptRef = (value: string | string[] | undefined): string =>
+  Array.isArray(value) ? value.join(', ') : (value ?? '');
+
+/**
+ * Fill a prompt's tokens with plain text, e.g. for textarea placeholders
+ */
+export const fillPrompt = (prompt: string, refs: PromptRefs): string =>
+  parsePrompt(prompt)
+    .map((part) => ('ref' in part ? formatPromptRef(refs[part.ref]) : part.text))
+    .join('');
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getDaysUntilPurge, getPurgeDate, isTrashExpired } from './trash';
+
+const trashedAt = new Date('2024-03-01T12:00:00Z');
+const daysLater = (days: number) => new Date(trashedAt.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe('getPurgeDate', () => {
+  it('keeps an essay in the trash for 30 days', () => {
+    expect(getPurgeDate(trashedAt)).toEqual(new Date('2024-03-31T12:00:00Z'));
+  });
+});
+
+describe('isTrashExpired', () => {
+  it('expires once the 30 days are up', () => {
+    expect(isTrashExpired(trashedAt, daysLater(29.9))).toBe(false);
+    expect(isTrashExpired(trashedAt, daysLater(30))).toBe(true);
+  });
+});
+
+describe('getDaysUntilPurge', () => {
+  it('counts a started day as a whole one and never goes below zero', () => {
+    expect(getDaysUntilPurge(trashedAt, trashedAt)).toBe(30);
+    expect(getDaysUntilPurge(trashedAt, daysLater(29.5))).toBe(1);
+    expect(getDaysUntilPurge(trashedAt, daysLater(31))).toBe(0);
+  });
+});
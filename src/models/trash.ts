@@ -0,0 +1,30 @@
+/**
+ * Trash - deleted essays kept for a while so they can be restored - no React or UI dependencies
+ *
+ * Deleting an essay only stamps it with trashedAt: it leaves the essay list
+ * and stops opening for collaborators and public links. TRASH_RETENTION_DAYS
+ * later it is purged for good, with its comments, versions, public link and
+ * share references.
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/** When an essay trashed at `trashedAt` is purged */
+export const getPurgeDate = (trashedAt: Date): Date => new Date(trashedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const isTrashExpired = (trashedAt: Date, now: Date): boolean =>
+  now.getTime() >= getPurgeDate(trashedAt).getTime();
+
+/** Whole days left before the purge, counting a started day as one */
+export const getDaysUntilPurge = (trashedAt: Date, now: Date): number =>
+  Math.max(0, Math.ceil((getPurgeDate(trashedAt).getTime() - now.getTime()) / DAY_MS));
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createVersion,
+  isSnapshotDue,
+  getEssayFields,
+  diffEssays,
+  isEssayBlank,
+  diffWords,
+  SNAPSHOT_INTERVAL_MS,
+} from './version';
+import {
+  createEssay,
+  addClaim,
+  removeClaim,
+  updateIntro,
+  updateClaim,
+  updateProofBlock,
+  addCounterargument,
+  type Essay,
+} from './essay';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function createTestEssay(): Essay {
+  let essay = createEssay();
+  essay = updateIntro(essay, 'thesis', 'School should start later');
+  essay = updateClaim(essay, essay.intro.claims[0].id, 'Teens need sleep');
+  essay = addClaim(essay);
+  essay = updateClaim(essay, essay.intro.claims[1].id, 'Grades improve');
+  return essay;
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+describe('createVersion', () => {
+  it('creates an auto version by default', () => {
+    const essay = createEssay();
+    const version = createVersion(essay, 'My Essay', 'user-1', 'Test User');
+
+    expect(version.id).toEqual(expect.any(String));
+    expect(version.data).toBe(essay);
+    expect(version.title).toBe('My Essay');
+    expect(version.authorUid).toBe('user-1');
+    expect(version.authorDisplayName).toBe('Test User');
+    expect(version.createdAt).toBeInstanceOf(Date);
+    expect(version.reason).toBe('auto');
+    expect(version.restoredFromId).toBeNull();
+  });
+
+  it('records the version a restore came from', () => {
+    const version = createVersion(createEssay(), 'Title', 'user-1', 'Test User', 'restore', 'v-old');
+    expect(version.reason).toBe('restore');
+    expect(version.restoredFromId).toBe('v-old');
+  });
+});
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+describe('isSnapshotDue', () => {
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  it('is due when there are no snapshots yet', () => {
+    expect(isSnapshotDue(null, now)).toBe(true);
+  });
+
+  it('is not due within the interval', () => {
+    const latest = new Date(now.getTime() - SNAPSHOT_INTERVAL_MS + 1000);
+    expect(isSnapshotDue(latest, now)).toBe(false);
+  });
+
+  it('is due once the interval has passed', () => {
+    const latest = new Date(now.getTime() - SNAPSHOT_INTERVAL_MS);
+    expect(isSnapshotDue(latest, now)).toBe(true);
+  });
+
+  it('accepts a custom interval', () => {
+    const latest = new Date(now.getTime() - 2000);
+    expect(isSnapshotDue(latest, now, 1000)).toBe(true);
+    expect(isSnapshotDue(latest, now, 5000)).toBe(false);
+  });
+});
+
+describe('getEssayFields', () => {
+  it('lists fields in reading order with stable keys', () => {
+    const essay = createTestEssay();
+    const fields = getEssayFields(essay);
+    const [claim1, claim2] = essay.intro.claims;
+    const body1 = essay.bodyParagraphs[0];
+    const proof1 = body1.proofBlocks[0];
+
+    expect(fields.map((f) => f.key).slice(0, 7)).toEqual([
+      'intro.hook',
+      'intro.background',
+      'intro.thesis',
+      `claim.${claim1.id}`,
+      `claim.${claim2.id}`,
+      'intro.paragraph',
+      `body.${body1.id}.purpose`,
+    ]);
+    expect(fields.find((f) => f.key === `proof.${proof1.id}.quote`)?.label).toBe('Body 1 · Proof 1 · Evidence');
+    expect(fields[fields.length - 1].key).toBe('conclusion.paragraph');
+  });
+
+  it('includes the counterargument before the conclusion when present', () => {
+    const essay = addCounterargument(createTestEssay());
+    const keys = getEssayFields(essay).map((f) => f.key);
+
+    expect(keys.slice(-7)).toEqual([
+      'counterargument.opposingView',
+      'counterargument.concession',
+      'counterargument.rebuttal',
+      'counterargument.paragraph',
+      'conclusion.restatement',
+      'conclusion.soWhat',
+      'conclusion.paragraph',
+    ]);
+    expect(getEssayFields(createTestEssay()).some((f) => f.key.startsWith('counterargument'))).toBe(false);
+  });
+
+  it('treats missing values as empty strings', () => {
+    const essay = createEssay();
+    const legacy = { ...essay, intro: { ...essay.intro, hook: undefined as unknown as string } };
+    expect(getEssayFields(legacy)[0].value).toBe('');
+  });
+});
+
+describe('isEssayBlank', () => {
+  it('is true for a new essay', () => {
+    expect(isEssayBlank(createEssay())).toBe(true);
+  });
+
+  it('ignores whitespace-only fields', () => {
+    expect(isEssayBlank(updateIntro(createEssay(), 'hook', '   '))).toBe(true);
+  });
+
+  it('is false once any field has text', () => {
+    const essay = createEssay();
+    expect(isEssayBlank(updateClaim(essay, essay.intro.claims[0].id, 'A claim'))).toBe(false);
+  });
+});
+
+describe('diffEssays', () => {
+  it('marks every field unchanged for identical essays', () => {
+    const essay = createTestEssay();
+    const rows = diffEssays(essay, essay);
+    expect(rows.every((row) => row.change === 'unchanged')).toBe(true);
+  });
+
+  it('marks edited fields as changed', () => {
+    const before = createTestEssay();
+    const after = updateIntro(before, 'thesis', 'School should start at 9');
+    const row = diffEssays(before, after).find((r) => r.key === 'intro.thesis');
+
+    expect(row).toMatchObject({
+      before: 'School should start later',
+      after: 'School should start at 9',
+      change: 'changed',
+    });
+  });
+
+  it('marks a removed claim and its body paragraph as removed, in place', () => {
+    const before = createTestEssay();
+    const removedClaim = before.intro.claims[0];
+    const after = removeClaim(before, removedClaim.id);
+    const rows = diffEssays(before, after);
+
+    const claimIndex = rows.findIndex((r) => r.key === `claim.${removedClaim.id}`);
+    expect(rows[claimIndex]).toMatchObject({ before: 'Teens need sleep', after: '', change: 'removed' });
+    expect(rows[claimIndex - 1].key).toBe('intro.thesis');
+
+    const removedBody = before.bodyParagraphs[0];
+    expect(rows.filter((r) => r.key.startsWith(`body.${removedBody.id}`)).every((r) => r.change === 'removed')).toBe(
+      true
+    );
+  });
+
+  it('marks fields that only exist in the newer essay as added', () => {
+    const before = createTestEssay();
+    const after = addClaim(before);
+    const newClaim = after.intro.claims[2];
+    const row = diffEssays(before, after).find((r) => r.key === `claim.${newClaim.id}`);
+    expect(row?.change).toBe('added');
+  });
+
+  it('matches proof blocks by id', () => {
+    const before = createTestEssay();
+    const body = before.bodyParagraphs[0];
+    const proof = body.proofBlocks[0];
+    const after = updateProofBlock(before, body.id, proof.id, 'quote', '"Sleep matters"');
+    const changed = diffEssays(before, after).filter((r) => r.change !== 'unchanged');
+    expect(changed.map((r) => r.key)).toEqual([`proof.${proof.id}.quote`]);
+  });
+});
+
+describe('diffWords', () => {
+  it('returns a single same segment for equal text', () => {
+    expect(diffWords('the quick fox', 'the quick fox')).toEqual([{ type: 'same', text: 'the quick fox' }]);
+  });
+
+  it('reports inserted and removed words', () => {
+    expect(diffWords('the quick fox', 'the slow brown fox')).toEqual([
+      { type: 'same', text: 'the' },
+      { type: 'removed', text: ' quick' },
+      { type: 'added', text: ' slow brown' },
+      { type: 'same', text: ' fox' },
+    ]);
+  });
+
+  it('handles empty strings', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+  });
+
+  it('reassembles both sides from the segments', () => {
+    const before = 'Sleep is important for teenagers.';
+    const after = 'Sleep is very important for all teenagers!';
+    const segments = diffWords(before, after);
+    const rebuild = (skip: string) =>
+      segments
+        .filter((s) => s.type !== skip)
+        .map((s) => s.text)
+        .join('');
+    expect(rebuild('added').trim()).toBe(before);
+    expect(rebuild('removed').trim()).toBe(after);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Pure version history model - no React or UI dependencies
+ */
+import { nanoid } from 'nanoid';
+import type { Essay } from './essay';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Why a snapshot was taken: periodically while editing, or by a restore
+ */
+export type VersionReason = 'auto' | 'restore';
+
+/**
+ * A point-in-time snapshot of an essay
+ */
+export interface EssayVersion {
+  id: string;
+  title: string;
+  data: Essay;
+  authorUid: string;
+  authorDisplayName: string;
+  createdAt: Date;
+  reason: VersionReason;
+  restoredFromId: string | null;
+}
+
+export interface VersionList {
+  versions: EssayVersion[];
+  /** Ids of snapshots whose data could not be read */
+  unreadableIds: string[];
+}
+
+/**
+ * A single text field of an essay, addressed by a stable key
+ */
+export interface EssayField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export type FieldChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+/**
+ * One row of a side-by-side comparison between two essays
+ */
+export interface FieldDiff {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+  change: FieldChange;
+}
+
+export interface WordDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Minimum time between automatic snapshots while someone is editing
+ */
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+export const generateVersionId = (): string => nanoid(7);
+
+export const createVersion = (
+  data: Essay,
+  title: string,
+  authorUid: string,
+  authorDisplayName: string,
+  reason: VersionReason = 'auto',
+  restoredFromId: string | null = null
+): EssayVersion => ({
+  id: generateVersionId(),
+  title,
+  data,
+  authorUid,
+  authorDisplayName,
+  createdAt: new Date(),
+  reason,
+  restoredFromId,
+});
+
+// =============================================================================
+// Query Functions
+// =============================================================================
+
+/**
+ * Whether enough time has passed since the newest snapshot to take another
+ */
+export function isSnapshotDue(
+  latestSnapshotAt: Date | null,
+  now: Date,
+  intervalMs: number = SNAPSHOT_INTERVAL_MS
+): boolean {
+  if (!latestSnapshotAt) return true;
+  return now.getTime() - latestSnapshotAt.getTime() >= intervalMs;
+}
+
+/**
+ * Flatten an essay into its text fields in reading order.
+ * Keys use the stable ids of claims, body paragraphs and proof blocks so the
+ * same field can be matched across versions even after reordering.
+ */
+export function getEssayFields(essay: Essay): EssayField[] {
+  const fields: EssayField[] = [
+    { key: 'intro.hook', label: 'Intro · Hook', value: essay.intro.hook },
+    { key: 'intro.background', label: 'Intro · Background', value: essay.intro.background },
+    { key: 'intro.thesis', label: 'Intro · Thesis', value: essay.intro.thesis },
+  ];
+
+  essay.intro.claims.forEach((claim, index) => {
+    fields.push({ key: `claim.${claim.id}`, label: `Intro · Claim ${index + 1}`, value: claim.text });
+  });
+  fields.push({ key: 'intro.paragraph', label: 'Intro · Paragraph', value: essay.intro.paragraph });
+
+  essay.bodyParagraphs.forEach((body, bodyIndex) => {
+    const section = `Body ${bodyIndex + 1}`;
+    fields.push({ key: `body.${body.id}.purpose`, label: `${section} · Purpose`, value: body.purpose });
+    body.proofBlocks.forEach((proof, proofIndex) => {
+      const prefix = `${section} · Proof ${proofIndex + 1}`;
+      fields.push(
+        { key: `proof.${proof.id}.quote`, label: `${prefix} · Evidence`, value: proof.quote },
+        { key: `proof.${proof.id}.analysis`, label: `${prefix} · Analysis`, value: proof.analysis },
+        { key: `proof.${proof.id}.connection`, label: `${prefix} · Connection`, value: proof.connection }
+      );
+    });
+    fields.push(
+      { key: `body.${body.id}.recap`, label: `${section} · Recap`, value: body.recap },
+      { key: `body.${body.id}.paragraph`, label: `${section} · Paragraph`, value: body.paragraph }
+    );
+  });
+
+  if (essay.counterargument) {
+    const { opposingView, concession, rebuttal, paragraph } = essay.counterargument;
+    fields.push(
+      { key: 'counterargument.opposingView', label: 'Counterargument · Opposing View', value: opposingView },
+      { key: 'counterargument.concession', label: 'Counterargument · Concession', value: concession },
+      { key: 'counterargument.rebuttal', label: 'Counterargument · Rebuttal', value: rebuttal },
+      { key: 'counterargument.paragraph', label: 'Counterargument · Paragraph', value: paragraph }
+    );
+  }
+
+  fields.push(
+    { key: 'conclusion.restatement', label: 'Conclusion · Restatement', value: essay.conclusion.restatement },
+    { key: 'conclusion.soWhat', label: 'Conclusion · So What', value: essay.conclusion.soWhat },
+    { key: 'conclusion.paragraph', label: 'Conclusion · Paragraph', value: essay.conclusion.paragraph }
+  );
+
+  return fields.map((field) => ({ ...field, value: field.value ?? '' }));
+}
+
+/**
+ * Compare two essays field by field.
+ * Rows follow the order of `after`; fields that only exist in `before` are
+ * placed directly after the preceding field they used to follow.
+ */
+export function diffEssays(before: Essay, after: Essay): FieldDiff[] {
+  const beforeFields = getEssayFields(before);
+  const afterFields = getEssayFields(after);
+  const beforeByKey = new Map(beforeFields.map((f) => [f.key, f]));
+  const afterKeys = new Set(afterFields.map((f) => f.key));
+
+  const removedAfter = new Map<string | null, EssayField[]>();
+  let previousKey: string | null = null;
+  for (const field of beforeFields) {
+    if (afterKeys.has(field.key)) {
+      previousKey = field.key;
+    } else {
+      const list = removedAfter.get(previousKey) ?? [];
+      list.push(field);
+      removedAfter.set(previousKey, list);
+    }
+  }
+
+  const toRemovedRow = (field: EssayField): FieldDiff => ({
+    key: field.key,
+    label: field.label,
+    before: field.value,
+    after: '',
+    change: 'removed',
+  });
+
+  const rows: FieldDiff[] = (removedAfter.get(null) ?? []).map(toRemovedRow);
+  for (const field of afterFields) {
+    const previous = beforeByKey.get(field.key);
+    let change: FieldChange;
+    if (!previous) change = 'added';
+    else if (previous.value !== field.value) change = 'changed';
+    else change = 'unchanged';
+
+    rows.push({
+      key: field.key,
+      label: field.label,
+      before: previous?.value ?? '',
+      after: field.value,
+      change,
+    });
+    rows.push(...(removedAfter.get(field.key) ?? []).map(toRemovedRow));
+  }
+
+  return rows;
+}
+
+/**
+ * Whether every text field of an essay is empty (nothing worth snapshotting)
+ */
+export function isEssayBlank(essay: Essay): boolean {
+  return getEssayFields(essay).every((field) => !field.value.trim());
+}
+
+/**
+ * Word-level diff of two strings using a longest common subsequence.
+ * Whitespace is kept attached to the following word so segments can be
+ * rendered back to back.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = before.match(/\s*\S+|\s+$/g) ?? [];
+  const b = after.match(/\s*\S+|\s+$/g) ?? [];
+  const normalize = (token: string) => token.trim();
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        normalize(a[i]) === normalize(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalize(a[i]) === normalize(b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,14 @@
+import 'fake-indexeddb/auto';
+import { describeEssayStorageConformance } from './conformance';
+import { MemoryEssayStorage } from './memory';
+import { IndexedDbEssayStorage } from './indexedDb';
+
+let databaseCounter = 0;
+
+describeEssayStorageConformance('MemoryEssayStorage', ({ now }) => new MemoryEssayStorage({ now }));
+
+describeEssayStorageConformance(
+  'IndexedDbEssayStorage',
+  ({ now }) => new IndexedDbEssayStorage({ databaseName: `conformance-${++databaseCounter}`, now }),
+  (storage) => (storage as IndexedDbEssayStorage).close()
+);
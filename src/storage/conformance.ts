@@ -0,0 +1,889 @@
+/**
+ * Executable contract for EssayStorage
+ *
+ * Any backend can be proven equivalent by running this suite against it:
+ *
+ *   describeEssayStorageConformance('MyStorage', ({ now }) => new MyStorage({ now }));
+ *
+ * The factory receives a fake clock that advances one second per call. Backends
+ * that stamp their own times (e.g. server timestamps) may ignore it, as long as
+ * successive writes get increasing times.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { EssayStorage } from './interface';
+import type { Essay } from '../models/essay';
+import type { Comment } from '../models/comment';
+import type { EssayVersion } from '../models/version';
+import type { Collaborator, EssayDocument } from '../models/document';
+import type { PresenceSession, PresenceUpdate } from '../models/presence';
+
+export interface ConformanceContext {
+  now: () => Date;
+}
+
+export type EssayStorageFactory = (context: ConformanceContext) => EssayStorage | Promise<EssayStorage>;
+
+export type EssayStorageTeardown = (storage: EssayStorage) => void | Promise<void>;
+
+const OWNER = 'owner-uid';
+const OWNER_EMAIL = 'owner@example.com';
+const OTHER = 'other-uid';
+const FRIEND_EMAIL = 'friend@example.com';
+const EDITOR_EMAIL = 'editor@example.com';
+
+function makeEssay(thesis: string): Essay {
+  return {
+    intro: {
+      hook: 'Hook',
+      background: 'Background',
+      thesis,
+      claims: [{ id: 'claim1', text: 'Claim 1' }],
+      paragraph: 'Intro paragraph',
+    },
+    bodyParagraphs: [
+      {
+        id: 'body1',
+        provingClaimId: 'claim1',
+        purpose: 'Purpose',
+        proofBlocks: [{ id: 'pb1', quote: 'Quote', analysis: 'Analysis', connection: 'Connection' }],
+        recap: 'Recap',
+        paragraph: 'Body paragraph',
+      },
+    ],
+    conclusion: { restatement: 'Restatement', soWhat: 'So what', paragraph: 'Conclusion paragraph' },
+  };
+}
+
+function makeComment(id: string, overrides: Partial<Comment> = {}): Comment {
+  return {
+    id,
+    blockId: 'intro-thesis',
+    blockType: 'intro',
+    authorUid: OWNER,
+    authorEmail: OWNER_EMAIL,
+    authorDisplayName: 'Owner',
+    text: `Comment ${id}`,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    parentCommentId: null,
+    resolved: false,
+    ...overrides,
+  };
+}
+
+function makeVersion(id: string, thesis: string, overrides: Partial<EssayVersion> = {}): EssayVersion {
+  return {
+    id,
+    title: `Version ${id}`,
+    data: makeEssay(thesis),
+    authorUid: OWNER,
+    authorDisplayName: 'Owner',
+    createdAt: new Date(0),
+    reason: 'auto',
+    restoredFromId: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Collect the updates of a subscription, with a way to wait for them
+ */
+function recordUpdates<T>(subscribe: (onChange: (value: T) => void) => () => void) {
+  const updates: T[] = [];
+  let wake: (() => void) | null = null;
+  const unsubscribe = subscribe((value) => {
+    updates.push(value);
+    wake?.();
+  });
+  const waitForUpdates = async (count: number) => {
+    while (updates.length < count) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  };
+  return { updates, waitForUpdates, unsubscribe };
+}
+
+const recordEssayUpdates = (storage: EssayStorage, ownerUid: string, essayId: string) =>
+  recordUpdates<EssayDocument | null>((onChange) => storage.subscribeToEssay(ownerUid, essayId, onChange));
+
+const recordPresenceUpdates = (storage: EssayStorage, ownerUid: string, essayId: string) =>
+  recordUpdates<PresenceSession[]>((onChange) => storage.subscribeToPresence(ownerUid, essayId, onChange));
+
+function makePresence(id: string, overrides: Partial<PresenceUpdate> = {}): PresenceUpdate {
+  return {
+    id,
+    uid: OTHER,
+    displayName: 'Other Person',
+    photoURL: null,
+    mode: 'editing',
+    focusedCell: null,
+    ...overrides,
+  };
+}
+
+function collaborator(email: string, permission: Collaborator['permission']): Collaborator {
+  return { email, permission, addedAt: new Date(0) };
+}
+
+export function describeEssayStorageConformance(
+  name: string,
+  createStorage: EssayStorageFactory,
+  teardown?: EssayStorageTeardown
+): void {
+  describe(`EssayStorage conformance: ${name}`, () => {
+    let storage: EssayStorage;
+
+    beforeEach(async () => {
+      let tick = Date.UTC(2024, 0, 1);
+      storage = await createStorage({ now: () => new Date((tick += 1000)) });
+    });
+
+    afterEach(async () => {
+      await teardown?.(storage);
+    });
+
+    const saveShareable = async () => {
+      await storage.saveEssay(OWNER, 'essay1', makeEssay('Shared thesis'), 'Shared Essay');
+    };
+
+    // ========================================================================
+    // CRUD
+    // ========================================================================
+
+    describe('CRUD', () => {
+      it('lists nothing for a user without essays', async () => {
+        expect(await storage.listEssays(OWNER)).toEqual({ essays: [], unreadable: [] });
+      });
+
+      it('returns null for a missing essay', async () => {
+        expect(await storage.getEssay(OWNER, 'missing')).toBeNull();
+      });
+
+      it('saves and loads an essay', async () => {
+        const essay = makeEssay('Thesis');
+
+        const id = await storage.saveEssay(OWNER, 'essay1', essay, 'First');
+        const loaded = await storage.getEssay(OWNER, 'essay1');
+
+        expect(id).toBe('essay1');
+        expect(loaded?.id).toBe('essay1');
+        expect(loaded?.title).toBe('First');
+        expect(loaded?.data).toEqual(essay);
+        expect(loaded?.updatedAt).toBeInstanceOf(Date);
+      });
+
+      it('overwrites data and title on re-save', async () => {
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Old'), 'Old title');
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('New'), 'New title');
+
+        const loaded = await storage.getEssay(OWNER, 'essay1');
+
+        expect(loaded?.title).toBe('New title');
+        expect(loaded?.data.intro.thesis).toBe('New');
+        expect((await storage.listEssays(OWNER)).essays).toHaveLength(1);
+      });
+
+      it('keeps createdAt from the first save', async () => {
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Old'), 'Title');
+        const first = await storage.getEssay(OWNER, 'essay1');
+
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('New'), 'Title');
+        const second = await storage.getEssay(OWNER, 'essay1');
+
+        expect(first?.createdAt).toBeInstanceOf(Date);
+        expect(second?.createdAt).toEqual(first?.createdAt);
+        expect(second!.updatedAt.getTime()).toBeGreaterThan(first!.updatedAt.getTime());
+      });
+
+      it('lists essays sorted by updatedAt descending', async () => {
+        await storage.saveEssay(OWNER, 'a', makeEssay('A'), 'A');
+        await storage.saveEssay(OWNER, 'b', makeEssay('B'), 'B');
+        await storage.saveEssay(OWNER, 'c', makeEssay('C'), 'C');
+        await storage.saveEssay(OWNER, 'a', makeEssay('A2'), 'A');
+
+        const ids = (await storage.listEssays(OWNER)).essays.map((e) => e.id);
+
+        expect(ids).toEqual(['a', 'c', 'b']);
+      });
+
+      it('only lists the requested user\'s essays', async () => {
+        await storage.saveEssay(OWNER, 'mine', makeEssay('Mine'), 'Mine');
+        await storage.saveEssay(OTHER, 'theirs', makeEssay('Theirs'), 'Theirs');
+
+        const ids = (await storage.listEssays(OWNER)).essays.map((e) => e.id);
+
+        expect(ids).toEqual(['mine']);
+      });
+
+      it('deletes an essay and its index entry', async () => {
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Thesis'), 'Title');
+
+        await storage.deleteEssay(OWNER, 'essay1');
+
+        expect(await storage.getEssay(OWNER, 'essay1')).toBeNull();
+        expect(await storage.listEssays(OWNER)).toEqual({ essays: [], unreadable: [] });
+        expect((await storage.getEssayWithPermissions('essay1', OWNER, OWNER_EMAIL)).essay).toBeNull();
+      });
+
+      it('renames an essay without touching its data', async () => {
+        const essay = makeEssay('Thesis');
+        await storage.saveEssay(OWNER, 'essay1', essay, 'Before');
+
+        await storage.updateEssayTitle(OWNER, 'essay1', 'After');
+
+        const loaded = await storage.getEssay(OWNER, 'essay1');
+        expect(loaded?.title).toBe('After');
+        expect(loaded?.data).toEqual(essay);
+      });
+
+      it('moves a renamed essay to the top of the list', async () => {
+        await storage.saveEssay(OWNER, 'a', makeEssay('A'), 'A');
+        await storage.saveEssay(OWNER, 'b', makeEssay('B'), 'B');
+
+        await storage.updateEssayTitle(OWNER, 'a', 'Renamed');
+
+        expect((await storage.listEssays(OWNER)).essays[0].id).toBe('a');
+      });
+
+      it('deletes an essay\'s comments, versions, public link and share references with it', async () => {
+        await saveShareable();
+        await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+        await storage.saveVersion(OWNER, 'essay1', makeVersion('v1', 'Shared thesis'));
+        const token = await storage.saveSharingSettings(
+          OWNER, 'essay1', [collaborator(FRIEND_EMAIL, 'viewer')], true, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        await storage.deleteEssay(OWNER, 'essay1');
+
+        expect(await storage.listComments(OWNER, 'essay1')).toEqual([]);
+        expect(await storage.listVersions(OWNER, 'essay1')).toEqual({ versions: [], unreadableIds: [] });
+        expect(await storage.getPublicEssay(token!)).toBeNull();
+        expect(await storage.listSharedWithMe(FRIEND_EMAIL)).toEqual([]);
+
+        // An essay saved again under the same id starts clean
+        await saveShareable();
+        expect(await storage.getEssaySharingInfo(OWNER, 'essay1')).toMatchObject({ collaborators: [], isPublic: false });
+        expect(await storage.listComments(OWNER, 'essay1')).toEqual([]);
+      });
+    });
+
+    // ========================================================================
+    // Trash
+    // ========================================================================
+
+    describe('trash', () => {
+      it('moves an essay from the list to the trash and back', async () => {
+        await storage.saveEssay(OWNER, 'kept', makeEssay('Kept'), 'Kept');
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Thesis'), 'Title');
+
+        expect(await storage.trashEssay(OWNER, 'essay1')).toBe(true);
+
+        expect((await storage.listEssays(OWNER)).essays.map((e) => e.id)).toEqual(['kept']);
+        const [trashed] = await storage.listTrashedEssays(OWNER);
+        expect(trashed.id).toBe('essay1');
+        expect(trashed.title).toBe('Title');
+        expect(trashed.trashedAt).toBeInstanceOf(Date);
+        expect((await storage.getEssay(OWNER, 'essay1'))?.trashedAt).toBeInstanceOf(Date);
+
+        await storage.restoreEssay(OWNER, 'essay1');
+
+        expect((await storage.listEssays(OWNER)).essays.map((e) => e.id).sort()).toEqual(['essay1', 'kept']);
+        expect(await storage.listTrashedEssays(OWNER)).toEqual([]);
+        expect((await storage.getEssay(OWNER, 'essay1'))?.trashedAt).toBeUndefined();
+      });
+
+      it('reports an essay that was never saved instead of trashing it', async () => {
+        expect(await storage.trashEssay(OWNER, 'unsaved')).toBe(false);
+
+        expect(await storage.listTrashedEssays(OWNER)).toEqual([]);
+        expect(await storage.getEssay(OWNER, 'unsaved')).toBeNull();
+      });
+
+      it('lists the trash most recently trashed first', async () => {
+        await storage.saveEssay(OWNER, 'a', makeEssay('A'), 'A');
+        await storage.saveEssay(OWNER, 'b', makeEssay('B'), 'B');
+
+        await storage.trashEssay(OWNER, 'b');
+        await storage.trashEssay(OWNER, 'a');
+
+        expect((await storage.listTrashedEssays(OWNER)).map((e) => e.id)).toEqual(['a', 'b']);
+      });
+
+      it('hides a trashed essay from collaborators and public links until it is restored', async () => {
+        await saveShareable();
+        const token = await storage.saveSharingSettings(
+          OWNER, 'essay1', [collaborator(FRIEND_EMAIL, 'editor')], true, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        await storage.trashEssay(OWNER, 'essay1');
+
+        expect(await storage.listSharedWithMe(FRIEND_EMAIL)).toEqual([]);
+        expect(await storage.getSharedEssay(OWNER, 'essay1')).toBeNull();
+        expect(await storage.getPublicEssay(token!)).toBeNull();
+        expect((await storage.getEssayWithPermissions('essay1', OTHER, FRIEND_EMAIL)).essay).toBeNull();
+        await expect(storage.saveSharedEssay(OWNER, 'essay1', makeEssay('Edited'), 'Shared Essay')).rejects.toThrow();
+
+        await storage.restoreEssay(OWNER, 'essay1');
+
+        expect((await storage.listSharedWithMe(FRIEND_EMAIL)).map((s) => s.essayId)).toEqual(['essay1']);
+        expect((await storage.getPublicEssay(token!))?.id).toBe('essay1');
+        expect((await storage.getEssayWithPermissions('essay1', OTHER, FRIEND_EMAIL)).permission).toBe('editor');
+      });
+
+      it('keeps the trashed essay\'s comments until it is deleted', async () => {
+        await saveShareable();
+        await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+
+        await storage.trashEssay(OWNER, 'essay1');
+        await storage.restoreEssay(OWNER, 'essay1');
+
+        expect((await storage.listComments(OWNER, 'essay1')).map((c) => c.id)).toEqual(['c1']);
+      });
+    });
+
+    // ========================================================================
+    // Sharing
+    // ========================================================================
+
+    describe('sharing', () => {
+      it('returns null sharing info for a missing essay', async () => {
+        expect(await storage.getEssaySharingInfo(OWNER, 'missing')).toBeNull();
+      });
+
+      it('returns private sharing info for an unshared essay', async () => {
+        await saveShareable();
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+
+        expect(info?.isPublic).toBe(false);
+        expect(info?.publicToken).toBeNull();
+        expect(info?.collaborators).toEqual([]);
+      });
+
+      it('shares with a collaborator and records a sharedWithMe reference', async () => {
+        await saveShareable();
+
+        await storage.shareEssay(OWNER, 'essay1', FRIEND_EMAIL, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay');
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+        expect(info?.collaborators.map((c) => [c.email, c.permission])).toEqual([[FRIEND_EMAIL, 'viewer']]);
+        expect(info?.collaboratorEmails).toEqual([FRIEND_EMAIL]);
+        expect(info?.editorEmails).toEqual([]);
+
+        const shared = await storage.listSharedWithMe(FRIEND_EMAIL);
+        expect(shared).toHaveLength(1);
+        expect(shared[0]).toMatchObject({
+          essayId: 'essay1',
+          ownerUid: OWNER,
+          ownerEmail: OWNER_EMAIL,
+          ownerDisplayName: 'Owner',
+          title: 'Shared Essay',
+          permission: 'viewer',
+        });
+      });
+
+      it('replaces the permission when sharing with the same email again', async () => {
+        await saveShareable();
+
+        await storage.shareEssay(OWNER, 'essay1', FRIEND_EMAIL, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay');
+        await storage.shareEssay(OWNER, 'essay1', FRIEND_EMAIL, 'editor', OWNER_EMAIL, 'Owner', 'Shared Essay');
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+        expect(info?.collaborators).toHaveLength(1);
+        expect(info?.editorEmails).toEqual([FRIEND_EMAIL]);
+        expect((await storage.listSharedWithMe(FRIEND_EMAIL))[0].permission).toBe('editor');
+      });
+
+      it('unshares a collaborator and removes the reference', async () => {
+        await saveShareable();
+        await storage.shareEssay(OWNER, 'essay1', FRIEND_EMAIL, 'editor', OWNER_EMAIL, 'Owner', 'Shared Essay');
+
+        await storage.unshareEssay(OWNER, 'essay1', FRIEND_EMAIL);
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+        expect(info?.collaborators).toEqual([]);
+        expect(info?.collaboratorEmails).toEqual([]);
+        expect(info?.editorEmails).toEqual([]);
+        expect(await storage.listSharedWithMe(FRIEND_EMAIL)).toEqual([]);
+      });
+
+      it('enables and disables public sharing', async () => {
+        await saveShareable();
+
+        const token = await storage.setPublicSharing(OWNER, 'essay1', true);
+        expect(token).toEqual(expect.any(String));
+        expect((await storage.getPublicEssay(token!))?.data.intro.thesis).toBe('Shared thesis');
+
+        const cleared = await storage.setPublicSharing(OWNER, 'essay1', false);
+        expect(cleared).toBeNull();
+        expect(await storage.getPublicEssay(token!)).toBeNull();
+        expect((await storage.getEssaySharingInfo(OWNER, 'essay1'))?.isPublic).toBe(false);
+      });
+
+      it('returns null for an unknown public token', async () => {
+        expect(await storage.getPublicEssay('no-such-token')).toBeNull();
+      });
+
+      it('saves sharing settings, adding and removing collaborators', async () => {
+        await saveShareable();
+        await storage.saveSharingSettings(
+          OWNER, 'essay1',
+          [collaborator(FRIEND_EMAIL, 'viewer'), collaborator(EDITOR_EMAIL, 'editor')],
+          false, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        await storage.saveSharingSettings(
+          OWNER, 'essay1',
+          [collaborator(EDITOR_EMAIL, 'editor')],
+          false, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+        expect(info?.collaboratorEmails).toEqual([EDITOR_EMAIL]);
+        expect(info?.editorEmails).toEqual([EDITOR_EMAIL]);
+        expect(await storage.listSharedWithMe(FRIEND_EMAIL)).toEqual([]);
+        expect(await storage.listSharedWithMe(EDITOR_EMAIL)).toHaveLength(1);
+      });
+
+      it('keeps the public token while the essay stays public', async () => {
+        await saveShareable();
+
+        const first = await storage.saveSharingSettings(
+          OWNER, 'essay1', [], true, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+        const second = await storage.saveSharingSettings(
+          OWNER, 'essay1', [], true, 'editor', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        expect(first).toEqual(expect.any(String));
+        expect(second).toBe(first);
+        expect((await storage.getEssaySharingInfo(OWNER, 'essay1'))?.publicPermission).toBe('editor');
+      });
+
+      it('clears the public token and permission when made private', async () => {
+        await saveShareable();
+        const token = await storage.saveSharingSettings(
+          OWNER, 'essay1', [], true, 'editor', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        const result = await storage.saveSharingSettings(
+          OWNER, 'essay1', [], false, 'editor', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        const info = await storage.getEssaySharingInfo(OWNER, 'essay1');
+        expect(result).toBeNull();
+        expect(info?.publicToken).toBeNull();
+        expect(info?.publicPermission).toBeNull();
+        expect(await storage.getPublicEssay(token!)).toBeNull();
+      });
+
+      it('looks up sharedWithMe case-insensitively', async () => {
+        await saveShareable();
+        await storage.saveSharingSettings(
+          OWNER, 'essay1', [collaborator('Friend@Example.com', 'viewer')],
+          false, 'viewer', OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+        expect(await storage.listSharedWithMe('FRIEND@example.com')).toHaveLength(1);
+      });
+    });
+
+    // ========================================================================
+    // Shared Access
+    // ========================================================================
+
+    describe('shared access', () => {
+      it('loads a shared essay with its owner', async () => {
+        await saveShareable();
+
+        const loaded = await storage.getSharedEssay(OWNER, 'essay1');
+
+        expect(loaded?.ownerUid).toBe(OWNER);
+        expect(loaded?.title).toBe('Shared Essay');
+      });
+
+      it('returns null for a missing shared essay', async () => {
+        expect(await storage.getSharedEssay(OWNER, 'missing')).toBeNull();
+      });
+
+      it('lets collaborators save changes the owner then sees', async () => {
+        await saveShareable();
+
+        await storage.saveSharedEssay(OWNER, 'essay1', makeEssay('Edited by friend'), 'Shared Essay');
+
+        expect((await storage.getEssay(OWNER, 'essay1'))?.data.intro.thesis).toBe('Edited by friend');
+      });
+
+      it('lets public editors save changes the owner then sees', async () => {
+        await saveShareable();
+
+        await storage.savePublicEssay(OWNER, 'essay1', makeEssay('Edited by public'), 'Shared Essay');
+
+        expect((await storage.getEssay(OWNER, 'essay1'))?.data.intro.thesis).toBe('Edited by public');
+      });
+    });
+
+    // ========================================================================
+    // Unified Access
+    // ========================================================================
+
+    describe('getEssayWithPermissions', () => {
+      const shareWith = (
+        collaborators: Collaborator[],
+        isPublic = false,
+        publicPermission: 'viewer' | 'editor' = 'viewer'
+      ) =>
+        storage.saveSharingSettings(
+          OWNER, 'essay1', collaborators, isPublic, publicPermission, OWNER_EMAIL, 'Owner', 'Shared Essay'
+        );
+
+      it('resolves nothing for an unknown essay', async () => {
+        expect(await storage.getEssayWithPermissions('missing', OWNER, OWNER_EMAIL)).toEqual({
+          essay: null,
+          permission: null,
+          ownerUid: null,
+        });
+      });
+
+      it('resolves the owner', async () => {
+        await saveShareable();
+
+        const result = await storage.getEssayWithPermissions('essay1', OWNER, OWNER_EMAIL);
+
+        expect(result.permission).toBe('owner');
+        expect(result.ownerUid).toBe(OWNER);
+        expect(result.essay?.id).toBe('essay1');
+      });
+
+      it('resolves viewer and editor collaborators case-insensitively', async () => {
+        await saveShareable();
+        await shareWith([collaborator(FRIEND_EMAIL, 'viewer'), collaborator(EDITOR_EMAIL, 'editor')]);
+
+        const viewer = await storage.getEssayWithPermissions('essay1', OTHER, 'FRIEND@example.com');
+        const editor = await storage.getEssayWithPermissions('essay1', OTHER, 'Editor@Example.com');
+
+        expect(viewer.permission).toBe('viewer');
+        expect(editor.permission).toBe('editor');
+        expect(editor.ownerUid).toBe(OWNER);
+      });
+
+      it('prefers owner over collaborator', async () => {
+        await saveShareable();
+        await shareWith([collaborator(OWNER_EMAIL, 'viewer')]);
+
+        const result = await storage.getEssayWithPermissions('essay1', OWNER, OWNER_EMAIL);
+
+        expect(result.permission).toBe('owner');
+      });
+
+      it('prefers collaborator over public access', async () => {
+        await saveShareable();
+        await shareWith([collaborator(FRIEND_EMAIL, 'viewer')], true, 'editor');
+
+        const result = await storage.getEssayWithPermissions('essay1', OTHER, FRIEND_EMAIL);
+
+        expect(result.permission).toBe('viewer');
+      });
+
+      it('falls back to the public permission', async () => {
+        await saveShareable();
+        await shareWith([], true, 'editor');
+
+        const anonymous = await storage.getEssayWithPermissions('essay1', null, null);
+
+        expect(anonymous.permission).toBe('editor');
+        expect(anonymous.essay?.id).toBe('essay1');
+      });
+
+      it('defaults public access to viewer', async () => {
+        await saveShareable();
+        await storage.setPublicSharing(OWNER, 'essay1', true);
+
+        const result = await storage.getEssayWithPermissions('essay1', OTHER, 'stranger@example.com');
+
+        expect(result.permission).toBe('viewer');
+      });
+
+      it('denies strangers on a private essay', async () => {
+        await saveShareable();
+        await shareWith([collaborator(FRIEND_EMAIL, 'viewer')]);
+
+        expect(await storage.getEssayWithPermissions('essay1', OTHER, 'stranger@example.com')).toEqual({
+          essay: null,
+          permission: null,
+          ownerUid: null,
+        });
+      });
+    });
+
+    // ========================================================================
+    // Live Updates
+    // ========================================================================
+
+    describe('subscribeToEssay', () => {
+      it('delivers the current essay and then every save', async () => {
+        await saveShareable();
+        const { updates, waitForUpdates, unsubscribe } = recordEssayUpdates(storage, OWNER, 'essay1');
+
+        await waitForUpdates(1);
+        expect(updates[0]?.data).toEqual(makeEssay('Shared thesis'));
+
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Second'), 'Shared Essay');
+        await waitForUpdates(2);
+        expect(updates[1]?.data.intro.thesis).toBe('Second');
+        unsubscribe();
+      });
+
+      it('delivers null for a missing essay, then the essay once created', async () => {
+        const { updates, waitForUpdates, unsubscribe } = recordEssayUpdates(storage, OWNER, 'essay1');
+
+        await waitForUpdates(1);
+        expect(updates[0]).toBeNull();
+
+        await saveShareable();
+        await waitForUpdates(2);
+        expect(updates[1]?.id).toBe('essay1');
+        unsubscribe();
+      });
+
+      it('delivers saves from collaborators and deletion', async () => {
+        await saveShareable();
+        const { updates, waitForUpdates, unsubscribe } = recordEssayUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+
+        await storage.saveSharedEssay(OWNER, 'essay1', makeEssay('From editor'), 'Shared Essay');
+        await waitForUpdates(2);
+        expect(updates[1]?.data.intro.thesis).toBe('From editor');
+
+        await storage.deleteEssay(OWNER, 'essay1');
+        await waitForUpdates(3);
+        expect(updates[2]).toBeNull();
+        unsubscribe();
+      });
+
+      it('stops delivering after unsubscribe', async () => {
+        await saveShareable();
+        const { updates, waitForUpdates, unsubscribe } = recordEssayUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+
+        unsubscribe();
+        await storage.saveEssay(OWNER, 'essay1', makeEssay('Unseen'), 'Shared Essay');
+        await storage.getEssay(OWNER, 'essay1');
+
+        expect(updates).toHaveLength(1);
+      });
+    });
+
+    // ========================================================================
+    // Presence
+    // ========================================================================
+
+    describe('presence', () => {
+      beforeEach(saveShareable);
+
+      it('delivers no sessions for an essay nobody has open', async () => {
+        const { updates, waitForUpdates, unsubscribe } = recordPresenceUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+        expect(updates[0]).toEqual([]);
+        unsubscribe();
+      });
+
+      it('delivers each heartbeat with a lastSeen time', async () => {
+        const { updates, waitForUpdates, unsubscribe } = recordPresenceUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s1'));
+        await waitForUpdates(2);
+        const [session] = updates[1];
+        expect(session).toMatchObject({ ...makePresence('s1') });
+        expect(session.lastSeen).toBeInstanceOf(Date);
+        unsubscribe();
+      });
+
+      it('replaces a session on its next heartbeat', async () => {
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s1'));
+        const { updates, waitForUpdates, unsubscribe } = recordPresenceUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+        const firstSeen = updates[0][0].lastSeen;
+
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s1', { focusedCell: 'intro-thesis' }));
+        await waitForUpdates(2);
+
+        expect(updates[1]).toHaveLength(1);
+        expect(updates[1][0].focusedCell).toBe('intro-thesis');
+        expect(updates[1][0].lastSeen.getTime()).toBeGreaterThan(firstSeen.getTime());
+        unsubscribe();
+      });
+
+      it('removes a session and tolerates removing it twice', async () => {
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s1'));
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s2', { uid: OWNER, displayName: 'Owner' }));
+        const { updates, waitForUpdates, unsubscribe } = recordPresenceUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+
+        await storage.removePresence(OWNER, 'essay1', 's1');
+        await waitForUpdates(2);
+        expect(updates[1].map((session) => session.id)).toEqual(['s2']);
+
+        await expect(storage.removePresence(OWNER, 'essay1', 's1')).resolves.toBeUndefined();
+        unsubscribe();
+      });
+
+      it('keeps sessions separate per essay and stops after unsubscribe', async () => {
+        await storage.saveEssay(OWNER, 'essay2', makeEssay('Other'), 'Other Essay');
+        const { updates, waitForUpdates, unsubscribe } = recordPresenceUpdates(storage, OWNER, 'essay1');
+        await waitForUpdates(1);
+
+        await storage.updatePresence(OWNER, 'essay2', makePresence('s1'));
+        unsubscribe();
+        await storage.updatePresence(OWNER, 'essay1', makePresence('s2'));
+
+        expect(updates).toEqual([[]]);
+      });
+    });
+
+    // ========================================================================
+    // Comments
+    // ========================================================================
+
+    describe('comments', () => {
+      beforeEach(saveShareable);
+
+      it('lists nothing for an essay without comments', async () => {
+        expect(await storage.listComments(OWNER, 'essay1')).toEqual([]);
+      });
+
+      it('adds a comment and returns it with timestamps', async () => {
+        const added = await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+
+        expect(added.id).toBe('c1');
+        expect(added.createdAt).toBeInstanceOf(Date);
+        expect(added.updatedAt).toBeInstanceOf(Date);
+
+        const [listed] = await storage.listComments(OWNER, 'essay1');
+        expect(listed).toMatchObject({
+          id: 'c1',
+          blockId: 'intro-thesis',
+          blockType: 'intro',
+          authorUid: OWNER,
+          text: 'Comment c1',
+          parentCommentId: null,
+          resolved: false,
+        });
+      });
+
+      it('scopes comments to their essay', async () => {
+        await storage.saveEssay(OWNER, 'essay2', makeEssay('Other'), 'Other');
+        await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+        await storage.addComment(OWNER, 'essay2', makeComment('c2'));
+
+        expect((await storage.listComments(OWNER, 'essay1')).map((c) => c.id)).toEqual(['c1']);
+      });
+
+      it('updates only the comment text', async () => {
+        await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+
+        await storage.updateComment(OWNER, 'essay1', 'c1', 'Edited');
+
+        const [updated] = await storage.listComments(OWNER, 'essay1');
+        expect(updated.text).toBe('Edited');
+        expect(updated.authorUid).toBe(OWNER);
+        expect(updated.resolved).toBe(false);
+      });
+
+      it('deletes a comment', async () => {
+        await storage.addComment(OWNER, 'essay1', makeComment('c1'));
+        await storage.addComment(OWNER, 'essay1', makeComment('c2'));
+
+        await storage.deleteComment(OWNER, 'essay1', 'c1');
+
+        expect((await storage.listComments(OWNER, 'essay1')).map((c) => c.id)).toEqual(['c2']);
+      });
+
+      it('resolves only the root comment of a thread', async () => {
+        await storage.addComment(OWNER, 'essay1', makeComment('root'));
+        await storage.addComment(OWNER, 'essay1', makeComment('reply', { parentCommentId: 'root' }));
+
+        await storage.resolveThread(OWNER, 'essay1', 'root', true);
+
+        const comments = await storage.listComments(OWNER, 'essay1');
+        expect(comments.find((c) => c.id === 'root')?.resolved).toBe(true);
+        expect(comments.find((c) => c.id === 'reply')?.resolved).toBe(false);
+      });
+
+      it('unresolves a thread', async () => {
+        await storage.addComment(OWNER, 'essay1', makeComment('root'));
+        await storage.resolveThread(OWNER, 'essay1', 'root', true);
+
+        await storage.resolveThread(OWNER, 'essay1', 'root', false);
+
+        expect((await storage.listComments(OWNER, 'essay1'))[0].resolved).toBe(false);
+      });
+    });
+
+    // ========================================================================
+    // Version History
+    // ========================================================================
+
+    describe('versions', () => {
+      beforeEach(saveShareable);
+
+      it('lists nothing for an essay without versions', async () => {
+        expect(await storage.listVersions(OWNER, 'essay1')).toEqual({ versions: [], unreadableIds: [] });
+      });
+
+      it('saves a snapshot and returns it with a timestamp', async () => {
+        const saved = await storage.saveVersion(OWNER, 'essay1', makeVersion('v1', 'Old thesis'));
+
+        expect(saved.id).toBe('v1');
+        expect(saved.createdAt).toBeInstanceOf(Date);
+        expect(saved.createdAt.getTime()).toBeGreaterThan(0);
+
+        const {
+          versions: [listed],
+        } = await storage.listVersions(OWNER, 'essay1');
+        expect(listed).toMatchObject({
+          id: 'v1',
+          title: 'Version v1',
+          authorUid: OWNER,
+          authorDisplayName: 'Owner',
+          reason: 'auto',
+          restoredFromId: null,
+        });
+        expect(listed.data.intro.thesis).toBe('Old thesis');
+      });
+
+      it('lists versions newest first', async () => {
+        await storage.saveVersion(OWNER, 'essay1', makeVersion('v1', 'First'));
+        await storage.saveVersion(OWNER, 'essay1', makeVersion('v2', 'Second'));
+        await storage.saveVersion(
+          OWNER,
+          'essay1',
+          makeVersion('v3', 'Third', { reason: 'restore', restoredFromId: 'v1' })
+        );
+
+        const { versions } = await storage.listVersions(OWNER, 'essay1');
+        expect(versions.map((v) => v.id)).toEqual(['v3', 'v2', 'v1']);
+        expect(versions[0]).toMatchObject({ reason: 'restore', restoredFromId: 'v1' });
+      });
+
+      it('scopes versions to their essay', async () => {
+        await storage.saveEssay(OWNER, 'essay2', makeEssay('Other'), 'Other');
+        await storage.saveVersion(OWNER, 'essay1', makeVersion('v1', 'One'));
+        await storage.saveVersion(OWNER, 'essay2', makeVersion('v2', 'Two'));
+
+        expect((await storage.listVersions(OWNER, 'essay1')).versions.map((v) => v.id)).toEqual(['v1']);
+      });
+
+      it('does not change the essay when a snapshot is saved', async () => {
+        await storage.saveVersion(OWNER, 'essay1', makeVersion('v1', 'Snapshot thesis'));
+
+        const essay = await storage.getEssay(OWNER, 'essay1');
+        expect(essay?.data.intro.thesis).not.toBe('Snapshot thesis');
+      });
+    });
+  });
+}
@@ -0,0 +1,675 @@
+/**
+ * EssayStorage implemented over a generic path-addressed document store
+ *
+ * Local backends (in-memory, IndexedDB) only need to provide the four
+ * DocumentStore primitives; the essay, sharing, comment and version semantics
+ * live here once and mirror the Firestore layout (users/{uid}/essays/{essayId},
+ * essayIndex/{essayId}, sharedWithMe/{email}/essays/{ownerUid_essayId},
+ * publicEssays/{token}).
+ */
+
+import { nanoid } from 'nanoid';
+import type { Essay } from '../models/essay';
+import { readEssayData, toStoredEssayData, type StoredEssayData } from '../models/schema';
+import type { Comment } from '../models/comment';
+import type { EssayVersion, VersionList } from '../models/version';
+import type { PresenceSession, PresenceUpdate } from '../models/presence';
+import type {
+  Collaborator,
+  EssayDocument,
+  EssayList,
+  EssayWithPermissions,
+  PermissionLevel,
+  SharedEssayRef,
+  SharingInfo,
+  TrashedEssayDocument,
+} from '../models/document';
+import type { EssayStorage } from './interface';
+import { readAll, toUnreadableEssay } from './readAll';
+
+// =============================================================================
+// Document Store Contract
+// =============================================================================
+
+export interface StoredDocument<T> {
+  id: string;
+  data: T;
+}
+
+export interface DocumentStore {
+  /**
+   * Read a document, or null if it does not exist
+   */
+  get<T>(path: string): Promise<T | null>;
+
+  /**
+   * Create or replace a document
+   */
+  set<T>(path: string, data: T): Promise<void>;
+
+  /**
+   * Delete a document (no-op if it does not exist)
+   */
+  delete(path: string): Promise<void>;
+
+  /**
+   * List the documents directly inside a collection
+   */
+  list<T>(collectionPath: string): Promise<StoredDocument<T>[]>;
+}
+
+/**
+ * Split a document path into its parent collection path and document id
+ */
+export function splitDocumentPath(path: string): { collectionPath: string; id: string } {
+  const index = path.lastIndexOf('/');
+  return { collectionPath: path.slice(0, index), id: path.slice(index + 1) };
+}
+
+// =============================================================================
+// Stored Shapes
+// =============================================================================
+
+interface StoredEssay {
+  title: string;
+  /** Any schema version; read through readEssayData */
+  data: StoredEssayData | Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+  sharing?: SharingInfo;
+  trashedAt?: Date;
+}
+
+interface StoredIndexEntry {
+  ownerUid: string;
+}
+
+interface StoredPublicEntry {
+  essayId: string;
+  ownerUid: string;
+  createdAt: Date;
+}
+
+/** trashedAt hides the reference while the essay is in the trash */
+type StoredSharedRef = Omit<SharedEssayRef, 'id'> & { trashedAt?: Date };
+type StoredComment = Omit<Comment, 'id'>;
+type StoredVersion = Omit<EssayVersion, 'id' | 'data'> & Pick<StoredEssay, 'data'>;
+type StoredPresence = Omit<PresenceSession, 'id'>;
+
+const essaysPath = (userId: string) => `users/${userId}/essays`;
+const essayPath = (userId: string, essayId: string) => `${essaysPath(userId)}/${essayId}`;
+const commentsPath = (userId: string, essayId: string) => `${essayPath(userId, essayId)}/comments`;
+const commentPath = (userId: string, essayId: string, commentId: string) =>
+  `${commentsPath(userId, essayId)}/${commentId}`;
+const versionsPath = (userId: string, essayId: string) => `${essayPath(userId, essayId)}/versions`;
+const versionPath = (userId: string, essayId: string, versionId: string) =>
+  `${versionsPath(userId, essayId)}/${versionId}`;
+const presencesPath = (userId: string, essayId: string) => `${essayPath(userId, essayId)}/presence`;
+const presencePath = (userId: string, essayId: string, sessionId: string) =>
+  `${presencesPath(userId, essayId)}/${sessionId}`;
+const indexPath = (essayId: string) => `essayIndex/${essayId}`;
+const publicPath = (token: string) => `publicEssays/${token}`;
+const sharedPath = (email: string, ownerUid: string, essayId: string) =>
+  `sharedWithMe/${email.toLowerCase()}/essays/${ownerUid}_${essayId}`;
+
+function emptySharing(): SharingInfo {
+  return { isPublic: false, publicToken: null, collaborators: [] };
+}
+
+function collaboratorIndexes(collaborators: Collaborator[]) {
+  return {
+    collaboratorEmails: collaborators.map((c) => c.email),
+    editorEmails: collaborators.filter((c) => c.permission === 'editor').map((c) => c.email),
+  };
+}
+
+function toEssayDocument(id: string, stored: StoredEssay, ownerUid?: string): EssayDocument {
+  return {
+    id,
+    title: stored.title,
+    data: readEssayData(stored.data),
+    updatedAt: stored.updatedAt,
+    createdAt: stored.createdAt,
+    sharing: stored.sharing,
+    ownerUid,
+    ...(stored.trashedAt ? { trashedAt: stored.trashedAt } : {}),
+  };
+}
+
+/**
+ * The essay as shared, public and permission lookups see it: trashed essays
+ * count as missing
+ */
+const readableEssay = (stored: StoredEssay | null): StoredEssay | null => (stored?.trashedAt ? null : stored);
+
+// =============================================================================
+// Storage Implementation
+// =============================================================================
+
+export interface DocumentEssayStorageOptions {
+  /** Clock used for createdAt/updatedAt; injectable for deterministic tests */
+  now?: () => Date;
+  /** Generator for public link tokens */
+  generateToken?: () => string;
+}
+
+export class DocumentEssayStorage implements EssayStorage {
+  protected readonly store: DocumentStore;
+  private readonly now: () => Date;
+  private readonly generateToken: () => string;
+  private readonly essayListeners = new Map<string, Set<(stored: StoredEssay | null) => void>>();
+  private readonly presenceListeners = new Map<string, Set<(sessions: PresenceSession[]) => void>>();
+
+  constructor(store: DocumentStore, options: DocumentEssayStorageOptions = {}) {
+    this.store = store;
+    this.now = options.now ?? (() => new Date());
+    this.generateToken = options.generateToken ?? (() => nanoid(8));
+  }
+
+  private async requireEssay(userId: string, essayId: string, readable = false): Promise<StoredEssay> {
+    const stored = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    if (!stored || (readable && !readableEssay(stored))) {
+      throw new Error(`Essay not found: ${essayId}`);
+    }
+    return stored;
+  }
+
+  /**
+   * Write an essay document and notify its subscribers
+   */
+  private async putEssay(userId: string, essayId: string, stored: StoredEssay): Promise<void> {
+    await this.store.set<StoredEssay>(essayPath(userId, essayId), stored);
+    this.notifyEssay(userId, essayId, stored);
+  }
+
+  private notifyEssay(userId: string, essayId: string, stored: StoredEssay | null): void {
+    // Each subscriber gets its own copy, as if it had read the document
+    this.essayListeners.get(essayPath(userId, essayId))?.forEach((listener) => listener(structuredClone(stored)));
+  }
+
+  private async writeEssayData(userId: string, essayId: string, data: Essay, title: string): Promise<void> {
+    const existing = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    const now = this.now();
+    await this.putEssay(userId, essayId, {
+      ...existing,
+      title,
+      data: toStoredEssayData(data),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  // ==========================================================================
+  // CRUD Operations
+  // ==========================================================================
+
+  async listEssays(userId: string): Promise<EssayList> {
+    const docs = await this.store.list<StoredEssay>(essaysPath(userId));
+    const { read, unreadable } = readAll(docs.filter((d) => !d.data.trashedAt), (d) => toEssayDocument(d.id, d.data));
+    return {
+      essays: read.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+      unreadable: unreadable.map(({ doc, error }) => toUnreadableEssay(doc.id, doc.data.title, error)),
+    };
+  }
+
+  async getEssay(userId: string, essayId: string): Promise<EssayDocument | null> {
+    const stored = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    return stored ? toEssayDocument(essayId, stored) : null;
+  }
+
+  async saveEssay(userId: string, essayId: string, data: Essay, title = 'Untitled Essay'): Promise<string> {
+    await this.writeEssayData(userId, essayId, data, title);
+    await this.store.set<StoredIndexEntry>(indexPath(essayId), { ownerUid: userId });
+    return essayId;
+  }
+
+  async deleteEssay(userId: string, essayId: string): Promise<void> {
+    const stored = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    for (const collectionPath of [
+      commentsPath(userId, essayId),
+      versionsPath(userId, essayId),
+      presencesPath(userId, essayId),
+    ]) {
+      const docs = await this.store.list(collectionPath);
+      for (const d of docs) {
+        await this.store.delete(`${collectionPath}/${d.id}`);
+      }
+    }
+    if (stored?.sharing?.publicToken) {
+      await this.store.delete(publicPath(stored.sharing.publicToken));
+    }
+    for (const collab of stored?.sharing?.collaborators ?? []) {
+      await this.store.delete(sharedPath(collab.email, userId, essayId));
+    }
+
+    await this.store.delete(essayPath(userId, essayId));
+    this.notifyEssay(userId, essayId, null);
+    await this.store.delete(indexPath(essayId));
+  }
+
+  async updateEssayTitle(userId: string, essayId: string, title: string): Promise<void> {
+    // Unsaved essays have nothing to rename yet; the title is written with the first save
+    const stored = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    if (!stored) return;
+    await this.putEssay(userId, essayId, { ...stored, title, updatedAt: this.now() });
+  }
+
+  // ==========================================================================
+  // Trash Operations
+  // ==========================================================================
+
+  async listTrashedEssays(userId: string): Promise<TrashedEssayDocument[]> {
+    const docs = await this.store.list<StoredEssay>(essaysPath(userId));
+    // Unreadable essays are left out here; listEssays reports them
+    return readAll(docs, (d) => toEssayDocument(d.id, d.data))
+      .read.filter((essay): essay is TrashedEssayDocument => !!essay.trashedAt)
+      .sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+  }
+
+  /**
+   * Hide or show the essay in each collaborator's Shared with me
+   */
+  private async setSharedRefsTrashed(ownerUid: string, essayId: string, stored: StoredEssay, trashedAt?: Date) {
+    for (const collab of stored.sharing?.collaborators ?? []) {
+      const path = sharedPath(collab.email, ownerUid, essayId);
+      const ref = await this.store.get<StoredSharedRef>(path);
+      if (!ref) continue;
+      const { trashedAt: _trashedAt, ...rest } = ref;
+      await this.store.set<StoredSharedRef>(path, trashedAt ? { ...rest, trashedAt } : rest);
+    }
+  }
+
+  async trashEssay(userId: string, essayId: string): Promise<boolean> {
+    const stored = await this.store.get<StoredEssay>(essayPath(userId, essayId));
+    if (!stored) return false;
+    const trashedAt = this.now();
+    await this.putEssay(userId, essayId, { ...stored, trashedAt });
+    await this.setSharedRefsTrashed(userId, essayId, stored, trashedAt);
+    return true;
+  }
+
+  async restoreEssay(userId: string, essayId: string): Promise<void> {
+    const { trashedAt: _trashedAt, ...stored } = await this.requireEssay(userId, essayId);
+    await this.putEssay(userId, essayId, stored);
+    await this.setSharedRefsTrashed(userId, essayId, stored);
+  }
+
+  // ==========================================================================
+  // Sharing Operations
+  // ==========================================================================
+
+  async getEssaySharingInfo(ownerUid: string, essayId: string): Promise<SharingInfo | null> {
+    const stored = await this.store.get<StoredEssay>(essayPath(ownerUid, essayId));
+    if (!stored) return null;
+    return stored.sharing ?? emptySharing();
+  }
+
+  async shareEssay(
+    ownerUid: string,
+    essayId: string,
+    email: string,
+    permission: PermissionLevel,
+    ownerEmail: string,
+    ownerDisplayName: string,
+    essayTitle: string
+  ): Promise<void> {
+    const stored = await this.requireEssay(ownerUid, essayId);
+    const sharing = stored.sharing ?? emptySharing();
+    const collaborators = [
+      ...sharing.collaborators.filter((c) => c.email !== email),
+      { email, permission, addedAt: this.now() },
+    ];
+
+    await this.putEssay(ownerUid, essayId, {
+      ...stored,
+      sharing: { ...sharing, collaborators, ...collaboratorIndexes(collaborators) },
+    });
+
+    await this.store.set<StoredSharedRef>(sharedPath(email, ownerUid, essayId), {
+      essayId,
+      ownerUid,
+      ownerEmail,
+      ownerDisplayName,
+      title: essayTitle,
+      permission,
+      sharedAt: this.now(),
+    });
+  }
+
+  async unshareEssay(ownerUid: string, essayId: string, email: string): Promise<void> {
+    const stored = await this.store.get<StoredEssay>(essayPath(ownerUid, essayId));
+    if (stored?.sharing) {
+      const collaborators = stored.sharing.collaborators.filter((c) => c.email !== email);
+      await this.putEssay(ownerUid, essayId, {
+        ...stored,
+        sharing: { ...stored.sharing, collaborators, ...collaboratorIndexes(collaborators) },
+      });
+    }
+
+    await this.store.delete(sharedPath(email, ownerUid, essayId));
+  }
+
+  async setPublicSharing(ownerUid: string, essayId: string, isPublic: boolean): Promise<string | null> {
+    const stored = await this.requireEssay(ownerUid, essayId);
+    const sharing = stored.sharing ?? emptySharing();
+
+    if (sharing.publicToken) {
+      await this.store.delete(publicPath(sharing.publicToken));
+    }
+
+    const publicToken = isPublic ? this.generateToken() : null;
+    if (publicToken) {
+      await this.store.set<StoredPublicEntry>(publicPath(publicToken), {
+        essayId,
+        ownerUid,
+        createdAt: this.now(),
+      });
+    }
+
+    await this.putEssay(ownerUid, essayId, {
+      ...stored,
+      sharing: { ...sharing, isPublic, publicToken },
+    });
+
+    return publicToken;
+  }
+
+  async saveSharingSettings(
+    ownerUid: string,
+    essayId: string,
+    newCollaborators: Collaborator[],
+    isPublic: boolean,
+    publicPermission: PermissionLevel,
+    ownerEmail: string,
+    ownerDisplayName: string,
+    essayTitle: string
+  ): Promise<string | null> {
+    const stored = await this.requireEssay(ownerUid, essayId);
+    const currentSharing = stored.sharing ?? emptySharing();
+    const currentCollaborators = currentSharing.collaborators;
+
+    let publicToken = currentSharing.publicToken;
+    if (isPublic && !publicToken) {
+      publicToken = this.generateToken();
+      await this.store.set<StoredPublicEntry>(publicPath(publicToken), {
+        essayId,
+        ownerUid,
+        createdAt: this.now(),
+      });
+    } else if (!isPublic && publicToken) {
+      await this.store.delete(publicPath(publicToken));
+      publicToken = null;
+    }
+
+    await this.putEssay(ownerUid, essayId, {
+      ...stored,
+      sharing: {
+        isPublic,
+        publicToken,
+        publicPermission: isPublic ? publicPermission : null,
+        collaborators: newCollaborators,
+        ...collaboratorIndexes(newCollaborators),
+      },
+    });
+
+    const newEmails = newCollaborators.map((c) => c.email);
+    const removed = currentCollaborators.filter((c) => !newEmails.includes(c.email));
+    const addedOrUpdated = newCollaborators.filter((c) => {
+      const existing = currentCollaborators.find((ec) => ec.email === c.email);
+      return !existing || existing.permission !== c.permission;
+    });
+
+    for (const collab of removed) {
+      await this.store.delete(sharedPath(collab.email, ownerUid, essayId));
+    }
+
+    for (const collab of addedOrUpdated) {
+      await this.store.set<StoredSharedRef>(sharedPath(collab.email, ownerUid, essayId), {
+        essayId,
+        ownerUid,
+        ownerEmail,
+        ownerDisplayName,
+        title: essayTitle,
+        permission: collab.permission,
+        sharedAt: this.now(),
+      });
+    }
+
+    return publicToken;
+  }
+
+  // ==========================================================================
+  // Shared Access Operations
+  // ==========================================================================
+
+  async listSharedWithMe(userEmail: string): Promise<SharedEssayRef[]> {
+    const docs = await this.store.list<StoredSharedRef>(`sharedWithMe/${userEmail.toLowerCase()}/essays`);
+    return docs.filter((d) => !d.data.trashedAt).map((d) => ({ id: d.id, ...d.data }));
+  }
+
+  async getSharedEssay(ownerUid: string, essayId: string): Promise<EssayDocument | null> {
+    const stored = readableEssay(await this.store.get<StoredEssay>(essayPath(ownerUid, essayId)));
+    return stored ? toEssayDocument(essayId, stored, ownerUid) : null;
+  }
+
+  async getPublicEssay(token: string): Promise<EssayDocument | null> {
+    const entry = await this.store.get<StoredPublicEntry>(publicPath(token));
+    if (!entry) return null;
+
+    const stored = readableEssay(await this.store.get<StoredEssay>(essayPath(entry.ownerUid, entry.essayId)));
+    if (!stored?.sharing?.isPublic) return null;
+
+    return toEssayDocument(entry.essayId, stored, entry.ownerUid);
+  }
+
+  async saveSharedEssay(ownerUid: string, essayId: string, data: Essay, title: string): Promise<string> {
+    await this.requireEssay(ownerUid, essayId, true);
+    await this.writeEssayData(ownerUid, essayId, data, title);
+    return essayId;
+  }
+
+  async savePublicEssay(ownerUid: string, essayId: string, data: Essay, title: string): Promise<string> {
+    await this.requireEssay(ownerUid, essayId, true);
+    await this.writeEssayData(ownerUid, essayId, data, title);
+    return essayId;
+  }
+
+  // ==========================================================================
+  // Unified Access
+  // ==========================================================================
+
+  async getEssayWithPermissions(
+    essayId: string,
+    uid: string | null,
+    email: string | null
+  ): Promise<EssayWithPermissions> {
+    const denied: EssayWithPermissions = { essay: null, permission: null, ownerUid: null };
+
+    const index = await this.store.get<StoredIndexEntry>(indexPath(essayId));
+    if (!index) return denied;
+
+    const { ownerUid } = index;
+    const stored = readableEssay(await this.store.get<StoredEssay>(essayPath(ownerUid, essayId)));
+    if (!stored) return denied;
+
+    const essay = toEssayDocument(essayId, stored, ownerUid);
+
+    if (uid && uid === ownerUid) {
+      return { essay, permission: 'owner', ownerUid };
+    }
+
+    const sharing = stored.sharing;
+    if (email && sharing?.collaboratorEmails) {
+      const normalizedEmail = email.toLowerCase();
+      if (sharing.collaboratorEmails.some((e) => e.toLowerCase() === normalizedEmail)) {
+        const isEditor = sharing.editorEmails?.some((e) => e.toLowerCase() === normalizedEmail);
+        return { essay, permission: isEditor ? 'editor' : 'viewer', ownerUid };
+      }
+    }
+
+    if (sharing?.isPublic) {
+      return { essay, permission: sharing.publicPermission || 'viewer', ownerUid };
+    }
+
+    return denied;
+  }
+
+  // ==========================================================================
+  // Live Updates
+  // ==========================================================================
+
+  subscribeToEssay(
+    ownerUid: string,
+    essayId: string,
+    onChange: (essay: EssayDocument | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const path = essayPath(ownerUid, essayId);
+    let active = true;
+    const listener = (stored: StoredEssay | null) => {
+      if (!active) return;
+      try {
+        onChange(stored ? toEssayDocument(essayId, stored, ownerUid) : null);
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    };
+
+    const listeners = this.essayListeners.get(path) ?? new Set();
+    listeners.add(listener);
+    this.essayListeners.set(path, listeners);
+    this.store.get<StoredEssay>(path).then(listener, (error) => {
+      if (active) onError?.(error as Error);
+    });
+
+    return () => {
+      active = false;
+      listeners.delete(listener);
+      if (listeners.size === 0) this.essayListeners.delete(path);
+    };
+  }
+
+  // ==========================================================================
+  // Presence Operations
+  // ==========================================================================
+
+  private async listPresence(ownerUid: string, essayId: string): Promise<PresenceSession[]> {
+    const docs = await this.store.list<StoredPresence>(presencesPath(ownerUid, essayId));
+    return docs.map((d) => ({ id: d.id, ...d.data }));
+  }
+
+  private async notifyPresence(ownerUid: string, essayId: string): Promise<void> {
+    const listeners = this.presenceListeners.get(presencesPath(ownerUid, essayId));
+    if (!listeners) return;
+    const sessions = await this.listPresence(ownerUid, essayId);
+    listeners.forEach((listener) => listener(structuredClone(sessions)));
+  }
+
+  async updatePresence(ownerUid: string, essayId: string, session: PresenceUpdate): Promise<void> {
+    const { id, ...rest } = session;
+    await this.store.set<StoredPresence>(presencePath(ownerUid, essayId, id), { ...rest, lastSeen: this.now() });
+    await this.notifyPresence(ownerUid, essayId);
+  }
+
+  async removePresence(ownerUid: string, essayId: string, sessionId: string): Promise<void> {
+    await this.store.delete(presencePath(ownerUid, essayId, sessionId));
+    await this.notifyPresence(ownerUid, essayId);
+  }
+
+  subscribeToPresence(
+    ownerUid: string,
+    essayId: string,
+    onChange: (sessions: PresenceSession[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const path = presencesPath(ownerUid, essayId);
+    let active = true;
+    const listener = (sessions: PresenceSession[]) => {
+      if (active) onChange(sessions);
+    };
+
+    const listeners = this.presenceListeners.get(path) ?? new Set();
+    listeners.add(listener);
+    this.presenceListeners.set(path, listeners);
+    this.listPresence(ownerUid, essayId).then(listener, (error) => {
+      if (active) onError?.(error as Error);
+    });
+
+    return () => {
+      active = false;
+      listeners.delete(listener);
+      if (listeners.size === 0) this.presenceListeners.delete(path);
+    };
+  }
+
+  // ==========================================================================
+  // Comment Operations
+  // ==========================================================================
+
+  async listComments(userId: string, essayId: string): Promise<Comment[]> {
+    const docs = await this.store.list<StoredComment>(commentsPath(userId, essayId));
+    return docs.map((d) => ({ id: d.id, ...d.data }));
+  }
+
+  async addComment(userId: string, essayId: string, comment: Comment): Promise<Comment> {
+    const now = this.now();
+    const { id, ...rest } = comment;
+    const stored: StoredComment = { ...rest, createdAt: now, updatedAt: now };
+    await this.store.set<StoredComment>(commentPath(userId, essayId, id), stored);
+    return { id, ...stored };
+  }
+
+  private async requireComment(userId: string, essayId: string, commentId: string): Promise<StoredComment> {
+    const stored = await this.store.get<StoredComment>(commentPath(userId, essayId, commentId));
+    if (!stored) {
+      throw new Error(`Comment not found: ${commentId}`);
+    }
+    return stored;
+  }
+
+  async updateComment(userId: string, essayId: string, commentId: string, text: string): Promise<void> {
+    const stored = await this.requireComment(userId, essayId, commentId);
+    await this.store.set<StoredComment>(commentPath(userId, essayId, commentId), {
+      ...stored,
+      text,
+      updatedAt: this.now(),
+    });
+  }
+
+  async deleteComment(userId: string, essayId: string, commentId: string): Promise<void> {
+    await this.store.delete(commentPath(userId, essayId, commentId));
+  }
+
+  async resolveThread(userId: string, essayId: string, rootCommentId: string, resolved: boolean): Promise<void> {
+    const stored = await this.requireComment(userId, essayId, rootCommentId);
+    await this.store.set<StoredComment>(commentPath(userId, essayId, rootCommentId), {
+      ...stored,
+      resolved,
+      updatedAt: this.now(),
+    });
+  }
+
+  // ==========================================================================
+  // Version History Operations
+  // ==========================================================================
+
+  async listVersions(userId: string, essayId: string): Promise<VersionList> {
+    const docs = await this.store.list<StoredVersion>(versionsPath(userId, essayId));
+    const { read, unreadable } = readAll(docs, (d) => ({ id: d.id, ...d.data, data: readEssayData(d.data.data) }));
+    return {
+      versions: read.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+      unreadableIds: unreadable.map(({ doc }) => doc.id),
+    };
+  }
+
+  async saveVersion(userId: string, essayId: string, version: EssayVersion): Promise<EssayVersion> {
+    const { id, ...rest } = version;
+    const createdAt = this.now();
+    await this.store.set<StoredVersion>(versionPath(userId, essayId, id), {
+      ...rest,
+      data: toStoredEssayData(rest.data),
+      createdAt,
+    });
+    return { ...version, createdAt };
+  }
+}
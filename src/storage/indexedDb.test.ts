@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { IndexedDbEssayStorage } from './indexedDb';
+import { createEssay, updateIntro } from '../models/essay';
+
+let databaseCounter = 0;
+const openStorages: IndexedDbEssayStorage[] = [];
+
+function openStorage(databaseName: string): IndexedDbEssayStorage {
+  const storage = new IndexedDbEssayStorage({ databaseName });
+  openStorages.push(storage);
+  return storage;
+}
+
+describe('IndexedDbEssayStorage', () => {
+  afterEach(async () => {
+    await Promise.all(openStorages.splice(0).map((s) => s.close()));
+  });
+
+  it('persists essays across instances using the same database', async () => {
+    const databaseName = `essay-helper-test-${++databaseCounter}`;
+    const essay = updateIntro(createEssay(), 'thesis', 'Persisted thesis');
+
+    await openStorage(databaseName).saveEssay('local', 'essay1', essay, 'Saved Essay');
+
+    const reopened = openStorage(databaseName);
+    const loaded = await reopened.getEssay('local', 'essay1');
+    expect(loaded?.title).toBe('Saved Essay');
+    expect(loaded?.data.intro.thesis).toBe('Persisted thesis');
+  });
+
+  it('restores Date fields as Date instances', async () => {
+    const storage = openStorage(`essay-helper-test-${++databaseCounter}`);
+
+    await storage.saveEssay('local', 'essay1', createEssay(), 'Essay');
+
+    const {
+      essays: [loaded],
+    } = await storage.listEssays('local');
+    expect(loaded.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps separate databases isolated', async () => {
+    const first = openStorage(`essay-helper-test-${++databaseCounter}`);
+    const second = openStorage(`essay-helper-test-${++databaseCounter}`);
+
+    await first.saveEssay('local', 'essay1', createEssay(), 'Essay');
+
+    expect((await second.listEssays('local')).essays).toEqual([]);
+  });
+
+  it('lists only documents directly inside a collection', async () => {
+    const storage = openStorage(`essay-helper-test-${++databaseCounter}`);
+    await storage.saveEssay('local', 'essay1', createEssay(), 'Essay');
+    await storage.addComment('local', 'essay1', {
+      id: 'c1',
+      blockId: 'intro-hook',
+      blockType: 'intro',
+      authorUid: 'local',
+      authorEmail: '',
+      authorDisplayName: 'Me',
+      text: 'Note',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      parentCommentId: null,
+      resolved: false,
+    });
+
+    const { essays } = await storage.listEssays('local');
+    const comments = await storage.listComments('local', 'essay1');
+
+    expect(essays.map((e) => e.id)).toEqual(['essay1']);
+    expect(comments.map((c) => c.id)).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * IndexedDB-backed EssayStorage for signed-out users
+ *
+ * Every document lives in a single object store keyed by its full path, with
+ * an index on the parent collection path for listing. This keeps the schema
+ * stable as new collections are added.
+ */
+
+import {
+  DocumentEssayStorage,
+  splitDocumentPath,
+  type DocumentEssayStorageOptions,
+  type DocumentStore,
+  type StoredDocument,
+} from './documentStorage';
+
+const DEFAULT_DATABASE_NAME = 'essay-helper';
+const DATABASE_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const COLLECTION_INDEX = 'collection';
+
+interface DocumentRecord {
+  path: string;
+  collection: string;
+  data: unknown;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(DOCUMENTS_STORE, { keyPath: 'path' });
+      store.createIndex(COLLECTION_INDEX, 'collection', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbDocumentStore implements DocumentStore {
+  private readonly databaseName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = DEFAULT_DATABASE_NAME) {
+    this.databaseName = databaseName;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.databaseName);
+      // Allow a later call to retry if opening failed (e.g. private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    const db = await this.dbPromise;
+    return db.transaction(DOCUMENTS_STORE, mode).objectStore(DOCUMENTS_STORE);
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    const store = await this.objectStore('readonly');
+    const record = await requestToPromise<DocumentRecord | undefined>(store.get(path));
+    return record ? (record.data as T) : null;
+  }
+
+  async set<T>(path: string, data: T): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    const record: DocumentRecord = { path, collection: splitDocumentPath(path).collectionPath, data };
+    await requestToPromise(store.put(record));
+  }
+
+  async delete(path: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(path));
+  }
+
+  async list<T>(collectionPath: string): Promise<StoredDocument<T>[]> {
+    const store = await this.objectStore('readonly');
+    const records = await requestToPromise<DocumentRecord[]>(
+      store.index(COLLECTION_INDEX).getAll(collectionPath)
+    );
+    return records.map((record) => ({
+      id: splitDocumentPath(record.path).id,
+      data: record.data as T,
+    }));
+  }
+
+  /**
+   * Close the underlying connection (the database itself is kept)
+   */
+  async close(): Promise<void> {
+    if (!this.dbPromise) return;
+    const db = await this.dbPromise;
+    db.close();
+    this.dbPromise = null;
+  }
+}
+
+export interface IndexedDbEssayStorageOptions extends DocumentEssayStorageOptions {
+  databaseName?: string;
+}
+
+export class IndexedDbEssayStorage extends DocumentEssayStorage {
+  constructor({ databaseName, ...options }: IndexedDbEssayStorageOptions = {}) {
+    super(new IndexedDbDocumentStore(databaseName), options);
+  }
+
+  close(): Promise<void> {
+    return (this.store as IndexedDbDocumentStore).close();
+  }
+}
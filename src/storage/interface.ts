@@ -1,11 +1,18 @@
 /**
  * Abstract storage interface for essay persistence
+ *
+ * The behavior described here is enforced by the shared conformance suite in
+ * ./conformance.ts; every implementation should be run against it.
  */
 
 import type { Essay } from '../models/essay';
 import type { Comment } from '../models/comment';
+import type { EssayVersion, VersionList } from '../models/version';
+import type { PresenceSession, PresenceUpdate } from '../models/presence';
 import type {
   EssayDocument,
+  EssayList,
+  TrashedEssayDocument,
   SharedEssayRef,
   SharingInfo,
   Collaborator,
@@ -19,9 +26,11 @@ export interface EssayStorage {
   // ==========================================================================
 
   /**
-   * List all essays for a user, sorted by updatedAt descending
+   * List all essays for a user that are not in the trash, sorted by updatedAt
+   * descending. Essays whose data cannot be read are listed separately in
+   * `unreadable` instead of failing the whole list.
    */
-  listEssays(userId: string): Promise<EssayDocument[]>;
+  listEssays(userId: string): Promise<EssayList>;
 
   /**
    * Get a single essay by ID
@@ -29,20 +38,43 @@ export interface EssayStorage {
   getEssay(userId: string, essayId: string): Promise<EssayDocument | null>;
 
   /**
-   * Save an essay (create or update)
+   * Save an essay (create or update), keeping createdAt from the first save
    */
   saveEssay(userId: string, essayId: string, data: Essay, title: string): Promise<string>;
 
   /**
-   * Delete an essay
+   * Delete an essay for good, with its comments, versions, public link,
+   * sharedWithMe references and index entry
    */
   deleteEssay(userId: string, essayId: string): Promise<void>;
 
   /**
-   * Update only the title of an essay
+   * Update only the title of an essay (also bumps updatedAt)
    */
   updateEssayTitle(userId: string, essayId: string, title: string): Promise<void>;
 
+  // ==========================================================================
+  // Trash Operations
+  // ==========================================================================
+
+  /**
+   * List a user's essays in the trash, most recently trashed first
+   */
+  listTrashedEssays(userId: string): Promise<TrashedEssayDocument[]>;
+
+  /**
+   * Move an essay to the trash (storage sets trashedAt). Until it is restored
+   * it is left out of listEssays and listSharedWithMe, and shared, public and
+   * permission lookups treat it as missing; the owner can still getEssay it.
+   * Resolves to false, changing nothing, when the essay was never saved.
+   */
+  trashEssay(userId: string, essayId: string): Promise<boolean>;
+
+  /**
+   * Take an essay out of the trash, bringing back its shared and public access
+   */
+  restoreEssay(userId: string, essayId: string): Promise<void>;
+
   // ==========================================================================
   // Sharing Operations
   // ==========================================================================
@@ -94,7 +126,7 @@ export interface EssayStorage {
   // ==========================================================================
 
   /**
-   * List all essays shared with a user
+   * List all essays shared with a user (email is matched case-insensitively)
    */
   listSharedWithMe(userEmail: string): Promise<SharedEssayRef[]>;
 
@@ -123,7 +155,9 @@ export interface EssayStorage {
   // ==========================================================================
 
   /**
-   * Get an essay with permission resolution for the current user
+   * Get an essay with permission resolution for the current user.
+   * Precedence is owner > collaborator (case-insensitive email) > public link;
+   * anyone else gets all-null fields.
    */
   getEssayWithPermissions(
     essayId: string,
@@ -131,6 +165,48 @@ export interface EssayStorage {
     email: string | null
   ): Promise<EssayWithPermissions>;
 
+  // ==========================================================================
+  // Live Updates
+  // ==========================================================================
+
+  /**
+   * Watch an essay. `onChange` is called with the current document (null if
+   * it does not exist) and again after every write to it, including the
+   * caller's own, until the returned function is called.
+   */
+  subscribeToEssay(
+    ownerUid: string,
+    essayId: string,
+    onChange: (essay: EssayDocument | null) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+
+  // ==========================================================================
+  // Presence Operations
+  // ==========================================================================
+
+  /**
+   * Write a session's heartbeat (create or replace); storage sets lastSeen
+   */
+  updatePresence(ownerUid: string, essayId: string, session: PresenceUpdate): Promise<void>;
+
+  /**
+   * Remove a session (no-op if it does not exist)
+   */
+  removePresence(ownerUid: string, essayId: string, sessionId: string): Promise<void>;
+
+  /**
+   * Watch the sessions in an essay, stale ones included. `onChange` is called
+   * with every session now and again after each heartbeat or removal, until
+   * the returned function is called.
+   */
+  subscribeToPresence(
+    ownerUid: string,
+    essayId: string,
+    onChange: (sessions: PresenceSession[]) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+
   // ==========================================================================
   // Comment Operations
   // ==========================================================================
@@ -159,4 +235,20 @@ export interface EssayStorage {
    * Resolve or unresolve a comment thread (only affects root comments)
    */
   resolveThread(userId: string, essayId: string, rootCommentId: string, resolved: boolean): Promise<void>;
+
+  // ==========================================================================
+  // Version History Operations
+  // ==========================================================================
+
+  /**
+   * List all snapshots of an essay, sorted by createdAt descending. Snapshots
+   * whose data cannot be read are left out and their ids listed in
+   * `unreadableIds`.
+   */
+  listVersions(userId: string, essayId: string): Promise<VersionList>;
+
+  /**
+   * Store a snapshot of an essay (createdAt is set by the storage layer)
+   */
+  saveVersion(userId: string, essayId: string, version: EssayVersion): Promise<EssayVersion>;
 }
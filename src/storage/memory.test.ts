@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryDocumentStore, MemoryEssayStorage } from './memory';
+import { DocumentEssayStorage } from './documentStorage';
+import { CURRENT_SCHEMA_VERSION, EssayDataError } from '../models/schema';
+import essayV1 from '../models/fixtures/essay-v1.json';
+import { createEssay, updateIntro, type Essay } from '../models/essay';
+
+describe('MemoryEssayStorage', () => {
+  let storage: MemoryEssayStorage;
+  let essay: Essay;
+
+  beforeEach(() => {
+    storage = new MemoryEssayStorage();
+    essay = updateIntro(createEssay(), 'thesis', 'Original thesis');
+  });
+
+  it('starts empty', async () => {
+    expect((await storage.listEssays('user1')).essays).toEqual([]);
+  });
+
+  it('round-trips a saved essay', async () => {
+    await storage.saveEssay('user1', 'essay1', essay, 'My Essay');
+
+    const loaded = await storage.getEssay('user1', 'essay1');
+
+    expect(loaded?.title).toBe('My Essay');
+    expect(loaded?.data).toEqual(essay);
+  });
+
+  it('does not share state with objects passed in or returned', async () => {
+    await storage.saveEssay('user1', 'essay1', essay, 'My Essay');
+    essay.intro.thesis = 'Mutated after save';
+
+    const loaded = await storage.getEssay('user1', 'essay1');
+    loaded!.data.intro.thesis = 'Mutated after load';
+
+    const reloaded = await storage.getEssay('user1', 'essay1');
+    expect(reloaded?.data.intro.thesis).toBe('Original thesis');
+  });
+
+  it('uses the injected clock for timestamps', async () => {
+    const clockStorage = new MemoryEssayStorage({ now: () => new Date('2024-03-01T10:00:00Z') });
+
+    await clockStorage.saveEssay('user1', 'essay1', essay, 'My Essay');
+
+    const loaded = await clockStorage.getEssay('user1', 'essay1');
+    expect(loaded?.updatedAt).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(loaded?.createdAt).toEqual(new Date('2024-03-01T10:00:00Z'));
+  });
+
+  it('keeps createdAt from the first save', async () => {
+    let time = 1000;
+    const clockStorage = new MemoryEssayStorage({ now: () => new Date(time) });
+
+    await clockStorage.saveEssay('user1', 'essay1', essay, 'My Essay');
+    time = 2000;
+    await clockStorage.saveEssay('user1', 'essay1', essay, 'My Essay');
+
+    const loaded = await clockStorage.getEssay('user1', 'essay1');
+    expect(loaded?.createdAt).toEqual(new Date(1000));
+    expect(loaded?.updatedAt).toEqual(new Date(2000));
+  });
+
+  it('uses the injected token generator for public links', async () => {
+    const tokenStorage = new MemoryEssayStorage({ generateToken: () => 'token123' });
+    await tokenStorage.saveEssay('user1', 'essay1', essay, 'My Essay');
+
+    const token = await tokenStorage.setPublicSharing('user1', 'essay1', true);
+
+    expect(token).toBe('token123');
+    expect((await tokenStorage.getPublicEssay('token123'))?.id).toBe('essay1');
+  });
+
+  it('clear removes everything', async () => {
+    await storage.saveEssay('user1', 'essay1', essay, 'My Essay');
+
+    storage.clear();
+
+    expect((await storage.listEssays('user1')).essays).toEqual([]);
+    expect((await storage.getEssayWithPermissions('essay1', 'user1', null)).essay).toBeNull();
+  });
+});
+
+describe('stored schema versions', () => {
+  let store: MemoryDocumentStore;
+  let storage: DocumentEssayStorage;
+
+  beforeEach(() => {
+    store = new MemoryDocumentStore();
+    storage = new DocumentEssayStorage(store);
+  });
+
+  it('stamps saved essays and versions with the current schema version', async () => {
+    const essay = createEssay();
+    await storage.saveEssay('user1', 'essay1', essay, 'My Essay');
+    await storage.saveVersion('user1', 'essay1', {
+      id: 'v1',
+      title: 'My Essay',
+      data: essay,
+      authorUid: 'user1',
+      authorDisplayName: 'User',
+      createdAt: new Date(),
+      reason: 'auto',
+      restoredFromId: null,
+    });
+
+    const stored = await store.get<{ data: { schemaVersion: number } }>('users/user1/essays/essay1');
+    const version = await store.get<{ data: { schemaVersion: number } }>('users/user1/essays/essay1/versions/v1');
+    expect(stored?.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(version?.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('upgrades unversioned essays on read', async () => {
+    await store.set('users/user1/essays/old', { title: 'Old', data: essayV1, updatedAt: new Date(), createdAt: new Date() });
+
+    const loaded = await storage.getEssay('user1', 'old');
+
+    expect(loaded?.data.conclusion.paragraph).toBe('');
+    expect(loaded?.data).not.toHaveProperty('schemaVersion');
+  });
+
+  it('rejects a corrupted essay on get and reports it apart from the list', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await storage.saveEssay('user1', 'good', createEssay(), 'Good');
+    await store.set('users/user1/essays/bad', { title: 'Bad', data: { intro: 'oops' }, updatedAt: new Date() });
+
+    await expect(storage.getEssay('user1', 'bad')).rejects.toThrow(EssayDataError);
+    const { essays, unreadable } = await storage.listEssays('user1');
+    expect(essays.map((e) => e.id)).toEqual(['good']);
+    expect(unreadable).toEqual([{ id: 'bad', title: 'Bad', error: expect.stringContaining('intro') }]);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('bad'), expect.any(EssayDataError));
+
+    consoleError.mockRestore();
+  });
+});
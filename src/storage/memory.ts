@@ -0,0 +1,62 @@
+/**
+ * In-memory EssayStorage for tests and demos
+ *
+ * Nothing is persisted; each instance starts empty. Documents are cloned on
+ * the way in and out so callers can never mutate stored state by reference.
+ */
+
+import {
+  DocumentEssayStorage,
+  splitDocumentPath,
+  type DocumentEssayStorageOptions,
+  type DocumentStore,
+  type StoredDocument,
+} from './documentStorage';
+
+export class MemoryDocumentStore implements DocumentStore {
+  private readonly documents = new Map<string, unknown>();
+
+  async get<T>(path: string): Promise<T | null> {
+    const data = this.documents.get(path);
+    return data === undefined ? null : (structuredClone(data) as T);
+  }
+
+  async set<T>(path: string, data: T): Promise<void> {
+    this.documents.set(path, structuredClone(data));
+  }
+
+  async delete(path: string): Promise<void> {
+    this.documents.delete(path);
+  }
+
+  async list<T>(collectionPath: string): Promise<StoredDocument<T>[]> {
+    const result: StoredDocument<T>[] = [];
+    for (const [path, data] of this.documents) {
+      const { collectionPath: parent, id } = splitDocumentPath(path);
+      if (parent === collectionPath) {
+        result.push({ id, data: structuredClone(data) as T });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove every document (useful between tests)
+   */
+  clear(): void {
+    this.documents.clear();
+  }
+}
+
+export class MemoryEssayStorage extends DocumentEssayStorage {
+  constructor(options: DocumentEssayStorageOptions = {}) {
+    super(new MemoryDocumentStore(), options);
+  }
+
+  /**
+   * Remove all essays, comments and sharing records
+   */
+  clear(): void {
+    (this.store as MemoryDocumentStore).clear();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Reading stored documents in bulk, shared by every storage implementation
+ */
+
+import { EssayDataError } from '../models/schema';
+import type { UnreadableEssay } from '../models/document';
+
+export interface ReadAllResult<D, T> {
+  read: T[];
+  /** Documents whose essay data could not be read, with the reason */
+  unreadable: { doc: D; error: EssayDataError }[];
+}
+
+/**
+ * Convert every document, setting aside (and logging) any whose essay data
+ * cannot be read so one corrupted essay does not hide the rest. Any other
+ * error is rethrown.
+ */
+export function readAll<D extends { id: string }, T>(docs: D[], read: (d: D) => T): ReadAllResult<D, T> {
+  const result: ReadAllResult<D, T> = { read: [], unreadable: [] };
+  for (const d of docs) {
+    try {
+      result.read.push(read(d));
+    } catch (error) {
+      if (!(error instanceof EssayDataError)) throw error;
+      console.error(`Skipping unreadable essay data in ${d.id}:`, error);
+      result.unreadable.push({ doc: d, error });
+    }
+  }
+  return result;
+}
+
+export const toUnreadableEssay = (id: string, title: unknown, error: EssayDataError): UnreadableEssay => ({
+  id,
+  title: typeof title === 'string' && title ? title : 'Untitled Essay',
+  error: error.message,
+});
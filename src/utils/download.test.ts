@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { toBaseFileName, toFileName } from './download';
+
+describe('toFileName', () => {
+  it.each([
+    ['My Essay', 'My Essay.docx'],
+    ['Either/Or: A "Fragment"?', 'Either Or A Fragment.docx'],
+    ['  ...hidden  ', 'hidden.docx'],
+    ['', 'Untitled.docx'],
+  ])('%j -> %j', (title, fileName) => {
+    expect(toFileName(title, 'docx')).toBe(fileName);
+  });
+});
+
+describe('toBaseFileName', () => {
+  it('leaves the extension off', () => {
+    expect(toBaseFileName('Either/Or')).toBe('Either Or');
+  });
+});
@@ -0,0 +1,31 @@
+// Characters Windows, macOS or Linux refuse in file names
+const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|\u0000-\u001F]+/g;
+
+/**
+ * A file name for an exported essay without its extension: the title without
+ * characters file systems reject
+ */
+export function toBaseFileName(title: string): string {
+  const base = title.replace(UNSAFE_FILE_NAME_CHARS, ' ').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+  return base || 'Untitled';
+}
+
+/**
+ * A file name for an exported essay: the safe title plus the extension
+ */
+export const toFileName = (title: string, extension: string): string => `${toBaseFileName(title)}.${extension}`;
+
+/**
+ * Save generated data as a file through the browser's download prompt
+ */
+export function downloadFile(data: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,24 @@
+/**
+ * Read files the user picked. Uses FileReader rather than Blob.text() and
+ * Blob.arrayBuffer(), which older browsers and jsdom lack.
+ */
+function readFile<T>(read: (reader: FileReader) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    read(reader);
+  });
+}
+
+/**
+ * The text of a file, decoded as UTF-8
+ */
+export const readFileText = (file: Blob): Promise<string> =>
+  readFile<string>((reader) => reader.readAsText(file));
+
+/**
+ * The raw bytes of a file
+ */
+export const readFileBytes = async (file: Blob): Promise<Uint8Array> =>
+  new Uint8Array(await readFile<ArrayBuffer>((reader) => reader.readAsArrayBuffer(file)));
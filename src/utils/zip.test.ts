@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32, readZip } from './zip';
+
+const text = (bytes: Uint8Array | undefined) => new TextDecoder().decode(bytes);
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data as BodyInit).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('crc32', () => {
+  it('matches the reference checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip / readZip', () => {
+  it('round-trips text and binary entries', async () => {
+    const zip = createZip([
+      { name: 'hello.txt', data: 'Hello, wörld' },
+      { name: 'dir/bytes.bin', data: new Uint8Array([0, 1, 2, 255]) },
+    ]);
+
+    const files = await readZip(zip);
+
+    expect([...files.keys()]).toEqual(['hello.txt', 'dir/bytes.bin']);
+    expect(text(files.get('hello.txt'))).toBe('Hello, wörld');
+    expect([...files.get('dir/bytes.bin')!]).toEqual([0, 1, 2, 255]);
+  });
+
+  it('reads deflated entries', async () => {
+    const zip = createZip([{ name: 'a.txt', data: 'placeholder' }]);
+    const original = new TextEncoder().encode('squeeze me '.repeat(20));
+    const compressed = await deflateRaw(original);
+
+    // Rewrite the single entry as deflate, the way Word saves its parts
+    const nameLength = 'a.txt'.length;
+    const local = zip.slice(0, 30 + nameLength);
+    const central = zip.slice(30 + nameLength + 'placeholder'.length, zip.length - 22);
+    const end = zip.slice(zip.length - 22);
+    for (const [header, methodAt, sizeAt] of [
+      [local, 8, 14],
+      [central, 10, 16],
+    ] as const) {
+      const view = new DataView(header.buffer);
+      view.setUint16(methodAt, 8, true);
+      view.setUint32(sizeAt, crc32(original), true);
+      view.setUint32(sizeAt + 4, compressed.length, true);
+      view.setUint32(sizeAt + 8, original.length, true);
+    }
+    const endView = new DataView(end.buffer);
+    endView.setUint32(16, local.length + compressed.length, true);
+    const rebuilt = new Uint8Array([...local, ...compressed, ...central, ...end]);
+
+    const files = await readZip(rebuilt);
+
+    expect(text(files.get('a.txt'))).toBe('squeeze me '.repeat(20));
+  });
+
+  it('rejects data that is not a zip archive', async () => {
+    await expect(readZip(new TextEncoder().encode('just some text, not a zip file'))).rejects.toThrow(
+      'Not a ZIP archive'
+    );
+  });
+});